@@ -0,0 +1,389 @@
+import { createSocket, type Socket } from 'dgram';
+import { isIP } from 'net';
+import { UDPProxy, type UDPProxyConfig } from '../../backend/services/udpProxy.js';
+import type { CapturedPacket } from '../../backend/services/packetCapture.js';
+import {
+  generateProxyProtocolV1Header,
+  generateProxyProtocolV2Header,
+  isProxyProtocolV1,
+  isProxyProtocolV2,
+  parseProxyProtocolChain,
+  parseProxyProtocolV1,
+  parseProxyProtocolV2,
+  verifyProxyProtocolChecksum,
+} from '../../backend/services/proxyProtocolParser.js';
+import { ipToBuffer } from '../../backend/services/ipFilter.js';
+import { unmapIPv4 } from '../../backend/services/address.js';
+import type { ProxyProtocolEmission, ProxyProtocolFormat } from '../../backend/types/index.js';
+
+/**
+ * Replays the client side of a recorded capture through a real UDPProxy instance
+ * against a local fake backend, then checks what arrived at the backend:
+ * every client packet forwarded, in order, with the expected Proxy Protocol header.
+ */
+
+export interface ReplayOptions {
+  // Proxy Protocol header carrying the recorded client address that every replayed
+  // packet is wrapped in, as an upstream proxy would; 'none' sends bare packets.
+  // Outbound headers are only added when the proxy learned a real client address
+  // this way. (default: v2)
+  upstreamHeader?: ProxyProtocolFormat;
+  outboundProxyProtocol?: ProxyProtocolFormat; // default: v2
+  proxyProtocolEmission?: ProxyProtocolEmission; // default: every-packet
+  timing?: 'asap' | 'recorded'; // default: asap
+  speed?: number; // playback speed for recorded timing (default: 1)
+  settleTime?: number; // ms to wait for the last packets to arrive (default: 200)
+  proxyConfig?: Partial<UDPProxyConfig>; // extra UDPProxy settings
+}
+
+export interface ReplaySessionReport {
+  clientKey: string; // session key in the capture
+  realClient: string; // client address presented to the proxy
+  recoveredClient: string | null; // client address the proxy read from the upstream header
+  sent: number;
+  forwarded: number;
+  missing: number; // sent but never reached the backend
+  unexpected: number; // reached the backend but was never sent
+  outOfOrder: boolean;
+  errors: string[]; // Proxy Protocol header problems and a wrongly recovered client
+}
+
+export interface ReplayReport {
+  sessions: ReplaySessionReport[];
+  passed: boolean;
+}
+
+export interface ReceivedDatagram {
+  address: string;
+  port: number;
+  data: Buffer;
+}
+
+export interface ReplayClient {
+  clientKey: string;
+  realAddress: string;
+  realPort: number;
+  payloads: Buffer[];
+  timestamps: number[]; // capture time of each payload (µs)
+  socket?: Socket;
+  recoveredAddress?: string; // real client the proxy holds for the session after the replay
+  recoveredPort?: number;
+}
+
+const LOOPBACK = '127.0.0.1';
+
+// Rate limits and challenges would drop a replay burst sent from a single address
+const REPLAY_RATE_LIMITS = {
+  packetsPerSecond: 1_000_000,
+  bytesPerSecond: 1024 * 1024 * 1024,
+  globalPacketsPerSecond: 1_000_000,
+  globalBytesPerSecond: 1024 * 1024 * 1024,
+  autoBanThreshold: 0,
+  autoBanDuration: 0,
+};
+
+// UDP server that records everything the proxy forwards to it
+export class FakeBackend {
+  public readonly received: ReceivedDatagram[] = [];
+  private socket = createSocket('udp4');
+
+  public start(): Promise<number> {
+    this.socket.on('message', (data, rinfo) => {
+      this.received.push({ address: rinfo.address, port: rinfo.port, data });
+    });
+    return new Promise((resolve, reject) => {
+      this.socket.once('error', reject);
+      this.socket.bind(0, LOOPBACK, () => resolve(this.port));
+    });
+  }
+
+  public get port(): number {
+    return this.socket.address().port;
+  }
+
+  public stop(): Promise<void> {
+    return new Promise((resolve) => this.socket.close(() => resolve()));
+  }
+}
+
+// Groups the client-to-proxy packets of a capture by session, in capture order.
+// Headers an upstream proxy added during the capture are removed; the original
+// client they carried becomes the session's real client.
+export function collectClientSessions(packets: CapturedPacket[]): Map<string, ReplayClient> {
+  const clients = new Map<string, ReplayClient>();
+  const ordered = packets
+    .filter((packet) => packet.direction === 'client-to-proxy')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const packet of ordered) {
+    let payload = packet.data;
+    let realAddress = packet.sourceAddress;
+    let realPort = packet.sourcePort;
+    if (isProxyProtocolV2(payload) || isProxyProtocolV1(payload)) {
+      const chain = parseProxyProtocolChain(payload);
+      if (chain) {
+        payload = chain.payload;
+        realAddress = chain.originalClientIP;
+        realPort = chain.originalClientPort;
+      }
+    }
+    if (payload.length === 0) continue;
+
+    let client = clients.get(packet.clientKey);
+    if (!client) {
+      client = { clientKey: packet.clientKey, realAddress, realPort, payloads: [], timestamps: [] };
+      clients.set(packet.clientKey, client);
+    }
+    client.payloads.push(payload);
+    client.timestamps.push(packet.timestamp);
+  }
+  return clients;
+}
+
+export async function replayCapture(packets: CapturedPacket[], options: ReplayOptions = {}): Promise<ReplayReport> {
+  const upstreamHeader = options.upstreamHeader ?? 'v2';
+  const outbound = options.outboundProxyProtocol ?? 'v2';
+  const emission = options.proxyProtocolEmission ?? 'every-packet';
+
+  const backend = new FakeBackend();
+  const backendPort = await backend.start();
+  const proxyPort = await findFreePort();
+  const proxy = new UDPProxy({
+    listenPort: proxyPort,
+    targetHost: LOOPBACK,
+    targetPort: backendPort,
+    timeout: 60000,
+    proxyProtocolV2Enabled: upstreamHeader !== 'none',
+    outboundProxyProtocol: outbound,
+    proxyProtocolEmission: emission,
+    rateLimits: REPLAY_RATE_LIMITS,
+    challengeMode: 'off',
+    ...options.proxyConfig,
+  });
+
+  const clients = collectClientSessions(packets);
+  try {
+    await proxy.start();
+    for (const client of clients.values()) {
+      client.socket = await bindClientSocket();
+    }
+
+    await sendInOrder([...clients.values()], proxyPort, upstreamHeader, options);
+    await delay(options.settleTime ?? 200);
+    for (const client of upstreamHeader !== 'none' ? clients.values() : []) {
+      const info = proxy.getRealClientInfo(LOOPBACK, client.socket!.address().port);
+      client.recoveredAddress = info?.realIP;
+      client.recoveredPort = info?.realPort;
+    }
+  } finally {
+    for (const client of clients.values()) {
+      client.socket?.close();
+    }
+    await proxy.stop();
+    await backend.stop();
+  }
+
+  const expectHeaders = upstreamHeader !== 'none' && outbound !== 'none' && emission !== 'never';
+  const sessions = matchSessions([...clients.values()], backend.received).map(({ client, datagrams }) =>
+    checkSession(client, datagrams, {
+      format: expectHeaders ? outbound : 'none',
+      emission,
+      backendPort,
+      recovers: upstreamHeader !== 'none',
+    })
+  );
+
+  return {
+    sessions,
+    passed: sessions.every((session) =>
+      session.missing === 0 && session.unexpected === 0 && !session.outOfOrder && session.errors.length === 0
+    ),
+  };
+}
+
+async function sendInOrder(
+  clients: ReplayClient[],
+  proxyPort: number,
+  upstreamHeader: ProxyProtocolFormat,
+  options: ReplayOptions
+): Promise<void> {
+  // Interleave sessions the way they were recorded
+  const queue = clients
+    .flatMap((client) => client.payloads.map((payload, index) => ({ client, payload, timestamp: client.timestamps[index] })))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const startedAt = Date.now();
+  const firstTimestamp = queue.length > 0 ? queue[0].timestamp : 0;
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+
+  for (const entry of queue) {
+    if (options.timing === 'recorded') {
+      const due = (entry.timestamp - firstTimestamp) / 1000 / speed;
+      const wait = due - (Date.now() - startedAt);
+      if (wait > 0) await delay(wait);
+    } else {
+      // Yield so the proxy sees packets one at a time, as on the wire
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    const { client, payload } = entry;
+    const header = upstreamHeader === 'v2'
+      ? generateProxyProtocolV2Header(client.realAddress, client.realPort, LOOPBACK, proxyPort)
+      : upstreamHeader === 'v1'
+        ? generateProxyProtocolV1Header(client.realAddress, client.realPort, LOOPBACK, proxyPort)
+        : null;
+    const data = header ? Buffer.concat([header, payload]) : payload;
+    client.socket!.send(data, proxyPort, LOOPBACK);
+  }
+}
+
+// Each session reaches the backend from its own upstream socket. Sessions are paired
+// with clients by their first payload, falling back to the order they first appeared.
+function matchSessions(
+  clients: ReplayClient[],
+  received: ReceivedDatagram[]
+): Array<{ client: ReplayClient; datagrams: ReceivedDatagram[] }> {
+  const bySource = new Map<string, ReceivedDatagram[]>();
+  for (const datagram of received) {
+    const key = `${datagram.address}:${datagram.port}`;
+    const list = bySource.get(key) ?? [];
+    list.push(datagram);
+    bySource.set(key, list);
+  }
+
+  const unmatched = [...bySource.values()];
+  return clients.map((client) => {
+    let index = unmatched.findIndex((datagrams) =>
+      datagrams.some((datagram) => stripHeader(datagram.data).payload?.equals(client.payloads[0]))
+    );
+    if (index === -1 && unmatched.length > 0) index = 0;
+    const datagrams = index === -1 ? [] : unmatched.splice(index, 1)[0];
+    return { client, datagrams };
+  });
+}
+
+function checkSession(
+  client: ReplayClient,
+  datagrams: ReceivedDatagram[],
+  expected: { format: ProxyProtocolFormat; emission: ProxyProtocolEmission; backendPort: number; recovers: boolean }
+): ReplaySessionReport {
+  const errors: string[] = [];
+  const forwarded: Buffer[] = [];
+
+  const recovered = client.recoveredAddress !== undefined ? `${client.recoveredAddress}:${client.recoveredPort}` : null;
+  if (expected.recovers && (!sameAddress(client.recoveredAddress ?? '', client.realAddress) || client.recoveredPort !== client.realPort)) {
+    errors.push(`recovered client ${recovered ?? 'none'} != ${client.realAddress}:${client.realPort}`);
+  }
+
+  datagrams.forEach((datagram, index) => {
+    const { header, payload } = stripHeader(datagram.data);
+    const headerExpected = expected.format !== 'none' && (expected.emission === 'every-packet' || index === 0);
+
+    if (header && !headerExpected) {
+      errors.push(`datagram ${index}: unexpected Proxy Protocol header`);
+    } else if (!header && headerExpected) {
+      errors.push(`datagram ${index}: missing Proxy Protocol header`);
+    } else if (header) {
+      errors.push(...checkHeader(header, client, expected.format, expected.backendPort).map((e) => `datagram ${index}: ${e}`));
+    }
+
+    if (expected.emission === 'preamble' && header && payload && payload.length > 0) {
+      errors.push(`datagram ${index}: preamble carries a payload`);
+    }
+    if (payload && payload.length > 0) forwarded.push(payload);
+  });
+
+  // Pair each forwarded payload with the earliest identical payload not yet paired
+  const paired = new Array<boolean>(client.payloads.length).fill(false);
+  const matchedOrder: number[] = [];
+  let unexpected = 0;
+  for (const payload of forwarded) {
+    const index = client.payloads.findIndex((candidate, i) => !paired[i] && candidate.equals(payload));
+    if (index === -1) {
+      unexpected++;
+      continue;
+    }
+    paired[index] = true;
+    matchedOrder.push(index);
+  }
+
+  return {
+    clientKey: client.clientKey,
+    realClient: `${client.realAddress}:${client.realPort}`,
+    recoveredClient: recovered,
+    sent: client.payloads.length,
+    forwarded: forwarded.length,
+    missing: client.payloads.length - matchedOrder.length,
+    unexpected,
+    outOfOrder: matchedOrder.some((value, i) => i > 0 && value < matchedOrder[i - 1]),
+    errors,
+  };
+}
+
+type ParsedHeader = NonNullable<ReturnType<typeof parseProxyProtocolV2>> | NonNullable<ReturnType<typeof parseProxyProtocolV1>>;
+
+function stripHeader(data: Buffer): { header: ParsedHeader | null; payload: Buffer | null } {
+  const header = isProxyProtocolV2(data)
+    ? parseProxyProtocolV2(data)
+    : isProxyProtocolV1(data)
+      ? parseProxyProtocolV1(data)
+      : null;
+  if (!header) {
+    // An unparseable header must not be mistaken for a payload
+    return isProxyProtocolV2(data) || isProxyProtocolV1(data)
+      ? { header: null, payload: null }
+      : { header: null, payload: data };
+  }
+  return { header, payload: data.subarray(header.headerLength) };
+}
+
+function checkHeader(header: ParsedHeader, client: ReplayClient, format: ProxyProtocolFormat, backendPort: number): string[] {
+  const errors: string[] = [];
+  if (format === 'v1' && header.version !== 1) errors.push(`expected v1 header, got v${header.version}`);
+  if (format === 'v2' && header.version !== 2) errors.push(`expected v2 header, got v${header.version}`);
+
+  if (!sameAddress(header.sourceAddress, client.realAddress) || header.sourcePort !== client.realPort) {
+    errors.push(`source ${header.sourceAddress}:${header.sourcePort} != ${client.realAddress}:${client.realPort}`);
+  }
+  if (!sameAddress(header.destAddress, LOOPBACK) || header.destPort !== backendPort) {
+    errors.push(`destination ${header.destAddress}:${header.destPort} != ${LOOPBACK}:${backendPort}`);
+  }
+  if (header.version === 2 && header.tlvs?.crc32c !== undefined && !verifyProxyProtocolChecksum(header)) {
+    errors.push('CRC32C mismatch');
+  }
+  return errors;
+}
+
+// IPv4 and IPv4-mapped IPv6 spellings of the same address compare equal
+function sameAddress(a: string, b: string): boolean {
+  const toBytes = (address: string) => {
+    const plain = unmapIPv4(address);
+    return ipToBuffer(isIP(plain) === 4 ? `::ffff:${plain}` : plain);
+  };
+  const left = toBytes(a);
+  const right = toBytes(b);
+  return !!left && !!right && left.equals(right);
+}
+
+function bindClientSocket(): Promise<Socket> {
+  const socket = createSocket('udp4');
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(0, LOOPBACK, () => resolve(socket));
+  });
+}
+
+function findFreePort(): Promise<number> {
+  const socket = createSocket('udp4');
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(0, LOOPBACK, () => {
+      const { port } = socket.address();
+      socket.close(() => resolve(port));
+    });
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,83 @@
+#!/usr/bin/env bun
+import { readFileSync } from 'fs';
+import { decodePcapng } from '../../backend/services/packetCapture.js';
+import { logger, LogLevel } from '../../backend/services/logger.js';
+import type { ProxyProtocolEmission, ProxyProtocolFormat } from '../../backend/types/index.js';
+import { replayCapture, type ReplayOptions } from './harness.js';
+
+const FORMATS: ProxyProtocolFormat[] = ['none', 'v1', 'v2'];
+const EMISSIONS: ProxyProtocolEmission[] = ['never', 'first-packet', 'every-packet', 'preamble'];
+
+function usage(): never {
+  console.log('Usage: index.ts <capture.pcapng> [--format none|v1|v2] [--emission never|first-packet|every-packet|preamble]');
+  console.log('                [--upstream-header none|v1|v2] [--no-upstream-header] [--recorded-timing] [--speed N]');
+  console.log('                [--settle-ms N] [--verbose]');
+  process.exit(1);
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  let file = '';
+  let verbose = false;
+  const options: ReplayOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--format') {
+      const format = argv[++i] as ProxyProtocolFormat;
+      if (!FORMATS.includes(format)) usage();
+      options.outboundProxyProtocol = format;
+    } else if (a === '--emission') {
+      const emission = argv[++i] as ProxyProtocolEmission;
+      if (!EMISSIONS.includes(emission)) usage();
+      options.proxyProtocolEmission = emission;
+    } else if (a === '--upstream-header') {
+      const format = argv[++i] as ProxyProtocolFormat;
+      if (!FORMATS.includes(format)) usage();
+      options.upstreamHeader = format;
+    } else if (a === '--no-upstream-header') options.upstreamHeader = 'none';
+    else if (a === '--recorded-timing') options.timing = 'recorded';
+    else if (a === '--speed') options.speed = Number(argv[++i]) || 1;
+    else if (a === '--settle-ms') options.settleTime = Number(argv[++i]) || undefined;
+    else if (a === '--verbose') verbose = true;
+    else if (a === '--help' || a === '-h') usage();
+    else if (!a.startsWith('--') && !file) file = a;
+    else {
+      console.warn(`Unknown arg: ${a}`);
+      usage();
+    }
+  }
+
+  if (!file) usage();
+
+  // The proxy logs every new session at INFO; keep the report readable
+  if (!verbose) logger.setLogLevel(LogLevel.ERROR);
+
+  const packets = decodePcapng(readFileSync(file));
+  const report = await replayCapture(packets, options);
+
+  if (report.sessions.length === 0) {
+    console.log('No client packets found in the capture');
+    process.exit(1);
+  }
+
+  for (const session of report.sessions) {
+    const ok = session.missing === 0 && session.unexpected === 0 && !session.outOfOrder && session.errors.length === 0;
+    console.log(
+      `${ok ? 'PASS' : 'FAIL'} ${session.clientKey} (as ${session.realClient}, recovered ${session.recoveredClient ?? 'none'}): ` +
+        `sent ${session.sent}, forwarded ${session.forwarded}, missing ${session.missing}, ` +
+        `unexpected ${session.unexpected}${session.outOfOrder ? ', out of order' : ''}`
+    );
+    for (const error of session.errors.slice(0, 10)) {
+      console.log(`  ${error}`);
+    }
+    if (session.errors.length > 10) console.log(`  ... ${session.errors.length - 10} more`);
+  }
+
+  process.exit(report.passed ? 0 : 1);
+}
+
+main().catch((e) => {
+  console.error('fatal error', e);
+  process.exit(1);
+});
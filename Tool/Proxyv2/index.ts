@@ -1,43 +1,93 @@
 #!/usr/bin/env node
 import * as dgram from 'dgram';
+import * as net from 'net';
 
 type AddrPort = { host: string; port: number };
 
+// Accepts host:port and [ipv6]:port
 function parseHostPort(spec: string): AddrPort {
-  const idx = spec.lastIndexOf(':');
-  if (idx === -1) throw new Error(`invalid address:port: ${spec}`);
-  const host = spec.slice(0, idx) || '0.0.0.0';
-  const port = Number(spec.slice(idx + 1));
+  const bracketed = spec.match(/^\[([^\]]+)\]:(\d+)$/);
+  let host: string;
+  let portText: string;
+  if (bracketed) {
+    host = bracketed[1];
+    portText = bracketed[2];
+    if (net.isIP(host) !== 6) throw new Error(`invalid IPv6 address in: ${spec}`);
+  } else {
+    const idx = spec.lastIndexOf(':');
+    if (idx === -1) throw new Error(`invalid address:port: ${spec}`);
+    host = spec.slice(0, idx) || '0.0.0.0';
+    portText = spec.slice(idx + 1);
+    if (host.includes(':')) throw new Error(`IPv6 addresses must be bracketed: ${spec}`);
+  }
+  const port = Number(portText);
   if (!Number.isFinite(port) || port <= 0 || port > 65535) throw new Error(`invalid port in: ${spec}`);
   return { host, port };
 }
 
-// Build Proxy Protocol v2 header for IPv4/UDP
-function buildProxyProtocolV2IPv4UDP(srcHost: string, srcPort: number, dstHost: string, dstPort: number): Buffer {
+function socketTypeFor(host: string): dgram.SocketType {
+  return net.isIP(host) === 6 ? 'udp6' : 'udp4';
+}
+
+// "::ffff:192.0.2.1" (received on a dual-stack socket) -> "192.0.2.1"
+function unmapIPv4(address: string): string {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? mapped[1] : address;
+}
+
+function ipv4Bytes(address: string): Buffer {
+  const parts = address.split('.').map((p) => Number(p) & 0xff);
+  if (parts.length !== 4) throw new Error(`unsupported address: ${address}`);
+  return Buffer.from(parts);
+}
+
+function ipv6Bytes(address: string): Buffer {
+  // IPv4 addresses are carried as IPv4-mapped IPv6 when the other side is IPv6
+  if (net.isIP(address) === 4) {
+    return Buffer.concat([Buffer.from([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff]), ipv4Bytes(address)]);
+  }
+  if (net.isIP(address) !== 6) throw new Error(`unsupported address: ${address}`);
+
+  let text = address;
+  // embedded IPv4 tail (e.g. ::ffff:192.0.2.1)
+  const v4Tail = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  let tail: Buffer = Buffer.alloc(0);
+  if (v4Tail) {
+    text = v4Tail[1].endsWith('::') ? v4Tail[1] : v4Tail[1].slice(0, -1);
+    tail = ipv4Bytes(v4Tail[2]);
+  }
+  const [head, rest] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const restGroups = rest !== undefined && rest !== '' ? rest.split(':') : [];
+  const missing = 8 - tail.length / 2 - headGroups.length - restGroups.length;
+  const groups = [...headGroups, ...new Array(rest !== undefined ? missing : 0).fill('0'), ...restGroups];
+
+  const buf = Buffer.alloc(16);
+  groups.forEach((g, i) => buf.writeUInt16BE(parseInt(g, 16) & 0xffff, i * 2));
+  tail.copy(buf, 12);
+  return buf;
+}
+
+// Build Proxy Protocol v2 header for UDP (INET when both ends are IPv4, otherwise INET6)
+function buildProxyProtocolV2UDP(srcHost: string, srcPort: number, dstHost: string, dstPort: number): Buffer {
   // signature
   const sig = Buffer.from([0x0d, 0x0a, 0x0d, 0x0a, 0x00, 0x0d, 0x0a, 0x51, 0x55, 0x49, 0x54, 0x0a]);
   const verCmd = 0x20 | 0x01; // version 2 (0x2 << 4) | command PROXY(0x1) => 0x21 but 0x20|0x01 = 0x21
-  const famProto = (0x1 << 4) | 0x2; // AF_INET(0x1) <<4 | DGRAM(0x2) => 0x12
-
-  const addrPart = Buffer.allocUnsafe(12);
-  // src addr
-  const srcParts = srcHost.split('.').map((p) => Number(p) & 0xff);
-  if (srcParts.length !== 4) throw new Error(`unsupported src address: ${srcHost}`);
-  addrPart[0] = srcParts[0];
-  addrPart[1] = srcParts[1];
-  addrPart[2] = srcParts[2];
-  addrPart[3] = srcParts[3];
-  // dst addr
-  const dstParts = dstHost.split('.').map((p) => Number(p) & 0xff);
-  if (dstParts.length !== 4) throw new Error(`unsupported dst address: ${dstHost}`);
-  addrPart[4] = dstParts[0];
-  addrPart[5] = dstParts[1];
-  addrPart[6] = dstParts[2];
-  addrPart[7] = dstParts[3];
+  const src = unmapIPv4(srcHost);
+  const dst = unmapIPv4(dstHost);
+  const ipv6 = net.isIP(src) === 6 || net.isIP(dst) === 6;
+  // AF_INET(0x1) / AF_INET6(0x2) <<4 | DGRAM(0x2) => 0x12 / 0x22
+  const famProto = ((ipv6 ? 0x2 : 0x1) << 4) | 0x2;
+
+  const ports = Buffer.allocUnsafe(4);
   // src port
-  addrPart.writeUInt16BE(srcPort & 0xffff, 8);
+  ports.writeUInt16BE(srcPort & 0xffff, 0);
   // dst port
-  addrPart.writeUInt16BE(dstPort & 0xffff, 10);
+  ports.writeUInt16BE(dstPort & 0xffff, 2);
+
+  const addrPart = ipv6
+    ? Buffer.concat([ipv6Bytes(src), ipv6Bytes(dst), ports])
+    : Buffer.concat([ipv4Bytes(src), ipv4Bytes(dst), ports]);
 
   const len = Buffer.allocUnsafe(2);
   len.writeUInt16BE(addrPart.length, 0);
@@ -47,6 +97,7 @@ function buildProxyProtocolV2IPv4UDP(srcHost: string, srcPort: number, dstHost:
 
 function usage() {
   console.log('Usage: index.ts --origin host:port --target host:port [--idle-seconds N]');
+  console.log('       IPv6 addresses are written as [addr]:port (e.g. --origin [::]:19132)');
   process.exit(1);
 }
 
@@ -73,7 +124,7 @@ async function main() {
   const origin = parseHostPort(originSpec);
   const target = parseHostPort(targetSpec);
 
-  const server = dgram.createSocket('udp4');
+  const server = dgram.createSocket(socketTypeFor(origin.host));
 
   type ClientEntry = {
     sock: dgram.Socket;
@@ -93,7 +144,7 @@ async function main() {
     const clientKey = `${rinfo.address}:${rinfo.port}`;
     let entry = clients.get(clientKey);
     if (!entry) {
-      const sock = dgram.createSocket('udp4');
+      const sock = dgram.createSocket(socketTypeFor(target.host));
       sock.bind(0, undefined, () => {
         // bound
       });
@@ -121,7 +172,7 @@ async function main() {
 
     // Build Proxy Protocol v2 header. The src is the original client, dst is the origin listener
     try {
-      const header = buildProxyProtocolV2IPv4UDP(rinfo.address, rinfo.port, origin.host, origin.port);
+      const header = buildProxyProtocolV2UDP(rinfo.address, rinfo.port, origin.host, origin.port);
       const payload = Buffer.concat([header, msg]);
       entry!.sock.send(payload, target.port, target.host, (err) => {
         if (err) console.error('error sending to target', err);
@@ -146,7 +197,7 @@ async function main() {
   server.on('listening', () => {
     const addr = server.address();
     console.log(`Origin listening on ${origin.host}:${origin.port} (server.addr=${JSON.stringify(addr)})`);
-    console.log(`Forwarding to target ${target.host}:${target.port} with Proxy Protocol v2 (IPv4/UDP)`);
+    console.log(`Forwarding to target ${target.host}:${target.port} with Proxy Protocol v2 (UDP)`);
   });
 
   server.bind(origin.port, origin.host);
@@ -13,6 +13,8 @@ export interface Player {
   joinTime: Date;
   ipAddress?: string;
   port?: number;
+  deviceOS?: string; // プロキシがログインパケットから取得した端末のOS
+  clientVersion?: string;
 }
 
 export interface UDPConnection {
@@ -24,6 +26,195 @@ export interface UDPConnection {
   isActive: boolean;
 }
 
+export type LoadBalancingStrategy = "round-robin" | "least-connections" | "weighted";
+
+export interface BackendTarget {
+  address: string; // host:port
+  weight?: number; // weighted戦略での重み
+}
+
+// レート制限（0で無制限）
+export interface RateLimitSettings {
+  packetsPerSecond: number; // IPごとの秒間パケット数
+  bytesPerSecond: number; // IPごとの秒間バイト数
+  globalPacketsPerSecond: number;
+  globalBytesPerSecond: number;
+  autoBanThreshold: number; // 自動バンまでの違反回数（0で無効）
+  autoBanDuration: number; // 自動バンの期間（秒）
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  packetsPerSecond: 2000,
+  bytesPerSecond: 1024 * 1024,
+  globalPacketsPerSecond: 20000,
+  globalBytesPerSecond: 16 * 1024 * 1024,
+  autoBanThreshold: 30,
+  autoBanDuration: 600,
+};
+
+// 接続チャレンジ（アンダーアタックモード）
+export type ChallengeMode = "off" | "auto" | "always";
+
+// 転送時に付加するProxy Protocolヘッダーの形式
+export type ProxyProtocolFormat = "none" | "v1" | "v2";
+
+// 転送時にProxy Protocolヘッダーを付けるタイミング
+export type ProxyProtocolEmission = "never" | "first-packet" | "every-packet" | "preamble";
+
+// 転送先ごとのProxy Protocol互換性の確認結果
+export interface ProxyProtocolProbeResult {
+  destination: string;
+  format: "v1" | "v2";
+  status: "compatible" | "incompatible" | "unreachable";
+  latency?: number;
+}
+
+// "host:port" を分解（IPv6 は "[::1]:19132" のように角括弧で囲む）
+export function splitHostPort(address: string): { host: string; port: string } {
+  const bracketed = address.match(/^\[([^\]]*)\](?::(\d*))?$/);
+  if (bracketed) return { host: bracketed[1], port: bracketed[2] ?? "" };
+  const index = address.lastIndexOf(":");
+  if (index === -1) return { host: address, port: "" };
+  return { host: address.slice(0, index), port: address.slice(index + 1) };
+}
+
+// ホストとポートを "host:port" にする（IPv6 は角括弧で囲む）
+export function joinHostPort(host: string, port: string | number): string {
+  return host.includes(":") ? `[${host}]:${port}` : `${host}:${port}`;
+}
+
+// "host:port" / "[IPv6]:port" の形式か（IPv6 の厳密な検証はバックエンドで行う）
+export function isValidHostPort(address: string): boolean {
+  return /^(?:[\w.-]+|\[[0-9a-fA-F:.]+\]):\d+$/.test(address);
+}
+
+export interface BanEntry {
+  id: string;
+  target: string; // IPアドレスまたはCIDR
+  reason?: string;
+  createdAt: Date;
+  expiresAt?: Date;
+}
+
+export type WhitelistEntryType = "xuid" | "name" | "ip";
+export type WhitelistMode = "allow" | "deny";
+
+export interface WhitelistEntry {
+  id: string;
+  type: WhitelistEntryType;
+  value: string; // XUID・ゲーマータグ・IPアドレスまたはCIDR
+  mode: WhitelistMode;
+  name?: string; // XUIDエントリの表示名
+  note?: string;
+  createdAt: Date;
+}
+
+// パケットキャプチャ（pcapng）
+export type CaptureStopReason = "manual" | "size-limit" | "time-limit" | "error";
+
+export interface CaptureInfo {
+  id: string;
+  serverId: string;
+  clientKey?: string; // 指定したセッション（"address:port"）のみ記録
+  fileName: string;
+  status: "running" | "stopped";
+  stopReason?: CaptureStopReason;
+  startedAt: Date;
+  stoppedAt?: Date;
+  bytes: number;
+  packets: number;
+  maxBytes: number;
+  maxDuration: number; // 秒
+}
+
+// スケジュールされたタスク
+export type ScheduleActionType = "restart" | "stop" | "start" | "command" | "broadcast" | "backup" | "plugin";
+
+export interface ScheduleAction {
+  type: ScheduleActionType;
+  command?: string; // command: 送信するコンソールコマンド
+  message?: string; // broadcast: ゲーム内に表示するメッセージ
+  drainTimeout?: number; // restart: プレイヤーの退出を待つ秒数（0なら即座に再起動）
+  payload?: Record<string, any>; // plugin: scheduledTask イベントで渡すデータ
+}
+
+export interface ScheduleRun {
+  trigger: "schedule" | "manual";
+  startedAt: Date;
+  finishedAt: Date;
+  success: boolean;
+  error?: string;
+}
+
+export interface ScheduledTask {
+  id: string;
+  serverId: string;
+  name: string;
+  cron: string; // 分 時 日 月 曜日（サーバーのローカル時刻）
+  action: ScheduleAction;
+  enabled: boolean;
+  history: ScheduleRun[]; // 新しい順
+  nextRuns: Date[]; // 次回以降の実行予定
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ScheduleInput = Pick<ScheduledTask, "name" | "cron" | "action" | "enabled">;
+
+// メンテナンスの予定（ISO 8601）
+export interface MaintenanceWindow {
+  startsAt: string;
+  endsAt?: string; // 未指定の場合は手動で終了するまで継続
+}
+
+// ドレイン再起動の状態（ISO 8601）
+export interface DrainState {
+  phase: "draining" | "restarting";
+  startedAt: string;
+  deadline: string;
+  redirect: boolean; // 再起動中の新規セッションを forwardAddress へ転送
+}
+
+// クラッシュ時の自動再起動の状態（ISO 8601）
+export interface CrashRecoveryState {
+  crashes: string[]; // 判定期間内にクラッシュした時刻
+  nextRestartAt: string | null; // 自動再起動の予定
+  gaveUp: boolean; // クラッシュループのため自動再起動を止めた
+}
+
+// クラッシュレポート（終了時のコンソール出力）
+export interface CrashReport {
+  id: string;
+  serverId: string;
+  time: Date;
+  exitCode: number | null;
+  signal: string | null;
+  consoleLines: string[];
+  action: "restart" | "gaveUp" | "none";
+  restartDelay?: number; // 秒
+}
+
+// ワールドのバックアップ（hot: 稼働中に save hold で作成、offline: 停止中に作成）
+export type WorldBackupMethod = "hot" | "offline";
+
+export interface WorldBackup {
+  id: string;
+  serverId: string;
+  fileName: string;
+  worldName: string;
+  size: number; // バイト
+  fileCount: number;
+  method: WorldBackupMethod;
+  trigger: "manual" | "schedule";
+  createdAt: Date;
+}
+
+// ワールドのバックアップを残す条件（0 は無制限）
+export interface BackupRetention {
+  maxCount: number;
+  maxAgeDays: number;
+}
+
 export interface Server {
   id: string;
   name: string;
@@ -39,7 +230,27 @@ export interface Server {
   autoRestart?: boolean;
   blockSameIP?: boolean;
   forwardAddress?: string;
-  proxyProtocolV2Enabled?: boolean; // Proxy Protocol v2サポート
+  backends?: BackendTarget[]; // 追加の転送先（負荷分散）
+  loadBalancing?: LoadBalancingStrategy;
+  rateLimits?: RateLimitSettings; // レート制限と自動バン
+  challengeMode?: ChallengeMode;
+  challengeThreshold?: number; // autoで有効化する秒間の新規送信元数
+  proxyProtocolV2Enabled?: boolean; // Proxy Protocolサポート（受信時は v1・v2 を自動判別）
+  outboundProxyProtocol?: ProxyProtocolFormat; // 転送時に付加するヘッダーの形式
+  proxyProtocolEmission?: ProxyProtocolEmission; // 転送時にヘッダーを付けるタイミング
+  trustedProxies?: string[]; // Proxy Protocolヘッダーを受け付ける上流（IP/CIDR、空なら全て）
+  proxyProtocolStrict?: boolean; // 不正・信頼できないヘッダー付きのパケットを破棄
+  proxyProtocolChecksum?: boolean; // CRC32C TLVによる検証を必須にする
+  whitelistEnabled?: boolean; // 許可リストにないプレイヤーの参加をプロキシで拒否
+  maintenance?: boolean; // メンテナンス中（許可エントリ以外の参加を拒否）
+  maintenanceMessage?: string; // メンテナンス中の切断メッセージ（空ならデフォルト）
+  maintenanceWindow?: MaintenanceWindow | null; // メンテナンスの予定
+  customMotdEnabled?: boolean; // プロキシ側でのMOTD応答
+  maxConnections?: number; // 同時セッション数の上限
+  pendingRestart?: string[]; // 再起動するまで反映されない変更済みの設定
+  drain?: DrainState | null; // ドレイン再起動の進行状況
+  crashRecovery?: CrashRecoveryState | null; // クラッシュ後の自動再起動の状態
+  backupRetention?: BackupRetention; // ワールドのバックアップを残す条件
   pluginsEnabled?: boolean;
   plugins?: Record<string, any>; // プラグイン設定（プラグインID -> 設定オブジェクト）
   description?: string;
@@ -64,6 +275,8 @@ export interface WebSocketMessage<T = any> {
 
 export type EventCallback<T = any> = (data: T) => void;
 
+export type ServerUpdates = Partial<Omit<Server, 'id' | 'createdAt' | 'updatedAt' | 'players' | 'playersOnline' | 'pendingRestart' | 'drain' | 'crashRecovery'>>;
+
 // デフォルトサーバーフィールド（新しいキーはここに追加）
 const DEFAULT_SERVER_FIELDS: Partial<Server> = {
   status: "offline",
@@ -74,6 +287,26 @@ const DEFAULT_SERVER_FIELDS: Partial<Server> = {
   autoRestart: false,
   blockSameIP: false,
   proxyProtocolV2Enabled: false,
+  outboundProxyProtocol: "v2",
+  proxyProtocolEmission: "every-packet",
+  trustedProxies: [],
+  proxyProtocolStrict: false,
+  proxyProtocolChecksum: false,
+  whitelistEnabled: false,
+  maintenance: false,
+  maintenanceMessage: "",
+  maintenanceWindow: null,
+  customMotdEnabled: false,
+  backends: [],
+  loadBalancing: "round-robin",
+  rateLimits: DEFAULT_RATE_LIMITS,
+  challengeMode: "auto",
+  challengeThreshold: 100,
+  maxConnections: 1000,
+  pendingRestart: [],
+  drain: null,
+  crashRecovery: null,
+  backupRetention: { maxCount: 10, maxAgeDays: 0 },
   pluginsEnabled: false,
   plugins: {},
   players: [],
@@ -88,6 +321,7 @@ function normalizeServer(server: any): Server {
     ...server,
     createdAt: server.createdAt ? new Date(server.createdAt) : new Date(),
     updatedAt: server.updatedAt ? new Date(server.updatedAt) : new Date(),
+    rateLimits: { ...DEFAULT_RATE_LIMITS, ...server.rateLimits },
     players: server.players?.map((player: any) => ({
       ...player,
       joinTime: new Date(player.joinTime),
@@ -95,6 +329,61 @@ function normalizeServer(server: any): Server {
   };
 }
 
+function normalizeBan(ban: any): BanEntry {
+  return {
+    ...ban,
+    createdAt: new Date(ban.createdAt),
+    expiresAt: ban.expiresAt ? new Date(ban.expiresAt) : undefined,
+  };
+}
+
+function normalizeCapture(capture: any): CaptureInfo {
+  return {
+    ...capture,
+    startedAt: new Date(capture.startedAt),
+    stoppedAt: capture.stoppedAt ? new Date(capture.stoppedAt) : undefined,
+  };
+}
+
+function normalizeCrashReport(report: any): CrashReport {
+  return {
+    ...report,
+    time: new Date(report.time),
+  };
+}
+
+function normalizeWorldBackup(backup: any): WorldBackup {
+  return {
+    ...backup,
+    createdAt: new Date(backup.createdAt),
+  };
+}
+
+function normalizeSchedule(schedule: any): ScheduledTask {
+  return {
+    ...schedule,
+    history: (schedule.history ?? []).map((run: any) => normalizeScheduleRun(run)),
+    nextRuns: (schedule.nextRuns ?? []).map((date: string) => new Date(date)),
+    createdAt: new Date(schedule.createdAt),
+    updatedAt: new Date(schedule.updatedAt),
+  };
+}
+
+function normalizeScheduleRun(run: any): ScheduleRun {
+  return {
+    ...run,
+    startedAt: new Date(run.startedAt),
+    finishedAt: new Date(run.finishedAt),
+  };
+}
+
+function normalizeWhitelistEntry(entry: any): WhitelistEntry {
+  return {
+    ...entry,
+    createdAt: new Date(entry.createdAt),
+  };
+}
+
 export class BedrockProxyAPI {
   private connectionManager = wsClient;
   private eventCallbacks = new Map<string, EventCallback[]>();
@@ -292,9 +581,15 @@ export class BedrockProxyAPI {
   }
 
   // サーバー更新
-  public async updateServer(id: string, updates: Partial<Omit<Server, 'id' | 'createdAt' | 'updatedAt' | 'players' | 'playersOnline'>>): Promise<Server> {
-    const response = await this.sendRequest<{ server: Server }>('servers.update', { id, updates });
-    return normalizeServer(response.server);
+  public async updateServer(id: string, updates: ServerUpdates): Promise<Server> {
+    const { server } = await this.updateServerSettings(id, updates);
+    return server;
+  }
+
+  // サーバー更新（稼働中のプロキシに即時反映された設定も返す）
+  public async updateServerSettings(id: string, updates: ServerUpdates): Promise<{ server: Server; appliedLive: string[] }> {
+    const response = await this.sendRequest<{ server: Server; appliedLive?: string[] }>('servers.update', { id, updates });
+    return { server: normalizeServer(response.server), appliedLive: response.appliedLive ?? [] };
   }
 
   // サーバー削除
@@ -325,6 +620,63 @@ export class BedrockProxyAPI {
     return normalizeServer(response.server);
   }
 
+  // メンテナンスの開始・終了（message 未指定なら保存済みの切断メッセージを使う）
+  public async setMaintenance(id: string, enabled: boolean, message?: string): Promise<Server> {
+    const response = await this.sendRequest<{ server: Server }>('servers.action', {
+      id,
+      action: 'maintenance',
+      enabled,
+      message,
+    });
+    return normalizeServer(response.server);
+  }
+
+  // ドレイン再起動（新規セッションを止め、プレイヤーの退出か timeout 秒後に再起動）
+  public async drainServer(id: string, timeout: number, redirect: boolean = false): Promise<Server> {
+    const response = await this.sendRequest<{ server: Server }>('servers.action', {
+      id,
+      action: 'drain',
+      timeout,
+      redirect,
+    });
+    return normalizeServer(response.server);
+  }
+
+  // ドレインの取り消し（再起動が始まる前のみ）
+  public async cancelDrain(id: string): Promise<Server> {
+    const response = await this.sendRequest<{ server: Server }>('servers.action', { id, action: 'cancelDrain' });
+    return normalizeServer(response.server);
+  }
+
+  // クラッシュレポート（新しい順）
+  public async getCrashReports(serverId: string): Promise<CrashReport[]> {
+    const response = await this.sendRequest<{ reports: any[] }>('servers.getCrashReports', { serverId });
+    return response.reports.map(report => normalizeCrashReport(report));
+  }
+
+  // ワールドのバックアップ一覧（新しい順）
+  public async listBackups(serverId: string): Promise<WorldBackup[]> {
+    const response = await this.sendRequest<{ backups: any[] }>('backups.list', { serverId });
+    return response.backups.map(backup => normalizeWorldBackup(backup));
+  }
+
+  // ワールドのバックアップ作成（大きなワールドの圧縮を待つため長めのタイムアウト）
+  public async createBackup(serverId: string): Promise<WorldBackup> {
+    const response = await this.sendRequest<{ backup: any }>('backups.create', { serverId }, 300000);
+    return normalizeWorldBackup(response.backup);
+  }
+
+  // バックアップからワールドを復元（サーバーの停止・再起動を含む）
+  public async restoreBackup(backupId: string): Promise<{ backup: WorldBackup; server: Server }> {
+    const response = await this.sendRequest<{ backup: any; server: any }>('backups.restore', { backupId }, 300000);
+    return { backup: normalizeWorldBackup(response.backup), server: normalizeServer(response.server) };
+  }
+
+  // バックアップ削除
+  public async deleteBackup(backupId: string): Promise<void> {
+    await this.sendRequest<{ success: true }>('backups.delete', { backupId });
+  }
+
   // イベント購読
   public async subscribe(events: string[]): Promise<void> {
     // 重複チェック（クライアント側でも）
@@ -430,6 +782,180 @@ export class BedrockProxyAPI {
     await this.sendRequest<{ success: true }>('servers.consoleCommand', { id, command });
   }
 
+  // プレイヤーキック
+  public async kickPlayer(serverId: string, playerId: string, reason?: string): Promise<void> {
+    await this.sendRequest<{ kicked: unknown }>('players.kick', { serverId, playerId, reason });
+  }
+
+  // 転送先ごとのProxy Protocol互換性を確認
+  public async probeProxyProtocol(serverId: string, format?: "v1" | "v2"): Promise<ProxyProtocolProbeResult[]> {
+    const response = await this.sendRequest<{ results: ProxyProtocolProbeResult[] }>('servers.probeProxyProtocol', {
+      serverId,
+      format
+    });
+    return response.results;
+  }
+
+  // IPバンリスト取得
+  public async getBans(serverId: string): Promise<BanEntry[]> {
+    const response = await this.sendRequest<{ bans: any[] }>('bans.getAll', { serverId });
+    return response.bans.map(ban => normalizeBan(ban));
+  }
+
+  // IPバン追加（IPアドレスまたはCIDR）
+  public async addBan(serverId: string, target: string, reason?: string, expiresAt?: Date): Promise<BanEntry> {
+    const response = await this.sendRequest<{ ban: any }>('bans.add', {
+      serverId,
+      target,
+      reason,
+      expiresAt: expiresAt?.toISOString(),
+    });
+    return normalizeBan(response.ban);
+  }
+
+  // IPバン解除
+  public async removeBan(serverId: string, banId: string): Promise<void> {
+    await this.sendRequest<{ success: true }>('bans.remove', { serverId, banId });
+  }
+
+  // パケットキャプチャ開始（clientKey を指定するとそのセッションのみ記録）
+  public async startCapture(
+    serverId: string,
+    options: { clientKey?: string; maxBytes?: number; maxDuration?: number } = {}
+  ): Promise<CaptureInfo> {
+    const response = await this.sendRequest<{ capture: any }>('capture.start', { serverId, ...options });
+    return normalizeCapture(response.capture);
+  }
+
+  // パケットキャプチャ停止
+  public async stopCapture(captureId: string): Promise<CaptureInfo> {
+    const response = await this.sendRequest<{ capture: any }>('capture.stop', { captureId });
+    return normalizeCapture(response.capture);
+  }
+
+  // パケットキャプチャ一覧
+  public async listCaptures(serverId?: string): Promise<CaptureInfo[]> {
+    const response = await this.sendRequest<{ captures: any[] }>('capture.list', { serverId });
+    return response.captures.map(capture => normalizeCapture(capture));
+  }
+
+  // キャプチャファイルを分割して取得し、1つにまとめる
+  public async downloadCapture(captureId: string): Promise<{ fileName: string; data: ArrayBuffer }> {
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+    let fileName = `${captureId}.pcapng`;
+
+    for (;;) {
+      const response = await this.sendRequest<{
+        fileName: string;
+        size: number;
+        data: string;
+        done: boolean;
+      }>('capture.download', { captureId, offset });
+
+      const binary = atob(response.data);
+      const chunk = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        chunk[i] = binary.charCodeAt(i);
+      }
+      chunks.push(chunk);
+      offset += chunk.length;
+      fileName = response.fileName;
+      if (response.done || chunk.length === 0) break;
+    }
+
+    const data = new Uint8Array(offset);
+    let position = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, position);
+      position += chunk.length;
+    }
+    return { fileName, data: data.buffer };
+  }
+
+  // スケジュールされたタスク一覧
+  public async getSchedules(serverId: string): Promise<ScheduledTask[]> {
+    const response = await this.sendRequest<{ schedules: any[] }>('schedules.getAll', { serverId });
+    return response.schedules.map(schedule => normalizeSchedule(schedule));
+  }
+
+  // タスク追加
+  public async addSchedule(serverId: string, schedule: ScheduleInput): Promise<ScheduledTask> {
+    const response = await this.sendRequest<{ schedule: any }>('schedules.add', { serverId, ...schedule });
+    return normalizeSchedule(response.schedule);
+  }
+
+  // タスク更新
+  public async updateSchedule(id: string, updates: Partial<ScheduleInput>): Promise<ScheduledTask> {
+    const response = await this.sendRequest<{ schedule: any }>('schedules.update', { id, updates });
+    return normalizeSchedule(response.schedule);
+  }
+
+  // タスク削除
+  public async removeSchedule(id: string): Promise<void> {
+    await this.sendRequest<{ success: true }>('schedules.remove', { id });
+  }
+
+  // タスクを今すぐ実行（再起動などは完了まで待つため長めのタイムアウト）
+  public async runSchedule(id: string): Promise<{ schedule: ScheduledTask; run: ScheduleRun }> {
+    const response = await this.sendRequest<{ schedule: any; run: any }>('schedules.run', { id }, 60000);
+    return { schedule: normalizeSchedule(response.schedule), run: normalizeScheduleRun(response.run) };
+  }
+
+  // cron 式の実行予定を確認
+  public async previewSchedule(cron: string, count?: number): Promise<Date[]> {
+    const response = await this.sendRequest<{ nextRuns: string[] }>('schedules.preview', { cron, count });
+    return response.nextRuns.map(date => new Date(date));
+  }
+
+  // 許可リスト・拒否リスト取得
+  public async getWhitelist(serverId: string): Promise<{ entries: WhitelistEntry[]; enabled: boolean }> {
+    const response = await this.sendRequest<{ entries: any[]; enabled: boolean }>('whitelist.getAll', { serverId });
+    return {
+      entries: response.entries.map(entry => normalizeWhitelistEntry(entry)),
+      enabled: response.enabled,
+    };
+  }
+
+  // 許可リスト・拒否リストにエントリを追加
+  public async addWhitelistEntry(
+    serverId: string,
+    type: WhitelistEntryType,
+    value: string,
+    mode: WhitelistMode = "allow",
+    name?: string,
+    note?: string
+  ): Promise<WhitelistEntry> {
+    const response = await this.sendRequest<{ entry: any }>('whitelist.add', {
+      serverId,
+      type,
+      value,
+      mode,
+      name,
+      note,
+    });
+    return normalizeWhitelistEntry(response.entry);
+  }
+
+  // 許可リスト・拒否リストからエントリを削除
+  public async removeWhitelistEntry(serverId: string, entryId: string): Promise<void> {
+    await this.sendRequest<{ success: true }>('whitelist.remove', { serverId, entryId });
+  }
+
+  // サーバーディレクトリの allowlist.json を取り込む
+  public async importAllowlist(serverId: string): Promise<{ imported: number; entries: WhitelistEntry[] }> {
+    const response = await this.sendRequest<{ imported: number; entries: any[] }>('whitelist.import', { serverId });
+    return {
+      imported: response.imported,
+      entries: response.entries.map(entry => normalizeWhitelistEntry(entry)),
+    };
+  }
+
+  // 許可エントリを allowlist.json に書き出す
+  public async exportAllowlist(serverId: string): Promise<{ exported: number; skipped: number; path: string }> {
+    return await this.sendRequest<{ exported: number; skipped: number; path: string }>('whitelist.export', { serverId });
+  }
+
   // 設定取得
   public async getConfig(): Promise<{
     language: string;
@@ -41,7 +41,13 @@ import PlayArrowRoundedIcon from "@mui/icons-material/PlayArrowRounded";
 import StopRoundedIcon from "@mui/icons-material/StopRounded";
 import SettingsRoundedIcon from "@mui/icons-material/SettingsRounded";
 import AddIcon from "@mui/icons-material/Add";
-import { bedrockProxyAPI, type Server, type ServerStatus } from "./API";
+import {
+  bedrockProxyAPI,
+  joinHostPort,
+  splitHostPort,
+  type Server,
+  type ServerStatus,
+} from "./API";
 import { resourceDir } from '@tauri-apps/api/path';
 import { Command } from '@tauri-apps/plugin-shell';
 import { listen } from '@tauri-apps/api/event';
@@ -1452,16 +1458,16 @@ function ServerList() {
                       </Typography>
                       <Stack direction="row" spacing={1}>
                         <TextField
-                          label="IPv4"
+                          label="IP"
                           value={
-                            newServerData.address.split(":")[0] || "127.0.0.1"
+                            splitHostPort(newServerData.address).host || "127.0.0.1"
                           }
                           onChange={(e) => {
                             const port =
-                              newServerData.address.split(":")[1] || "19133";
+                              splitHostPort(newServerData.address).port || "19133";
                             setNewServerData((prev) => ({
                               ...prev,
-                              address: `${e.target.value}:${port}`,
+                              address: joinHostPort(e.target.value, port),
                             }));
                           }}
                           sx={{ flex: 2 }}
@@ -1469,14 +1475,14 @@ function ServerList() {
                         <TextField
                           label={t("form.port")}
                           type="number"
-                          value={newServerData.address.split(":")[1] || "19133"}
+                          value={splitHostPort(newServerData.address).port || "19133"}
                           onChange={(e) => {
                             const ip =
-                              newServerData.address.split(":")[0] ||
+                              splitHostPort(newServerData.address).host ||
                               "127.0.0.1";
                             setNewServerData((prev) => ({
                               ...prev,
-                              address: `${ip}:${e.target.value}`,
+                              address: joinHostPort(ip, e.target.value),
                             }));
                           }}
                           sx={{ flex: 1 }}
@@ -1491,18 +1497,18 @@ function ServerList() {
                       </Typography>
                       <Stack direction="row" spacing={1}>
                         <TextField
-                          label="IPv4"
+                          label="IP"
                           value={
-                            newServerData.destinationAddress.split(":")[0] ||
+                            splitHostPort(newServerData.destinationAddress).host ||
                             "127.0.0.1"
                           }
                           onChange={(e) => {
                             const port =
-                              newServerData.destinationAddress.split(":")[1] ||
+                              splitHostPort(newServerData.destinationAddress).port ||
                               "19132";
                             setNewServerData((prev) => ({
                               ...prev,
-                              destinationAddress: `${e.target.value}:${port}`,
+                              destinationAddress: joinHostPort(e.target.value, port),
                             }));
                           }}
                           sx={{ flex: 2 }}
@@ -1512,16 +1518,16 @@ function ServerList() {
                           label={t("form.port")}
                           type="number"
                           value={
-                            newServerData.destinationAddress.split(":")[1] ||
+                            splitHostPort(newServerData.destinationAddress).port ||
                             "19132"
                           }
                           onChange={(e) => {
                             const ip =
-                              newServerData.destinationAddress.split(":")[0] ||
+                              splitHostPort(newServerData.destinationAddress).host ||
                               "127.0.0.1";
                             setNewServerData((prev) => ({
                               ...prev,
-                              destinationAddress: `${ip}:${e.target.value}`,
+                              destinationAddress: joinHostPort(ip, e.target.value),
                             }));
                           }}
                           sx={{ flex: 1 }}
@@ -48,13 +48,37 @@ import PlayArrowRoundedIcon from "@mui/icons-material/PlayArrowRounded";
 import StopRoundedIcon from "@mui/icons-material/StopRounded";
 import RestartAltRoundedIcon from "@mui/icons-material/RestartAltRounded";
 import SaveIcon from "@mui/icons-material/Save";
+import PersonRemoveRoundedIcon from "@mui/icons-material/PersonRemoveRounded";
 import {
   bedrockProxyAPI,
   type Server,
   type Player,
   type ServerStatus,
+  type BackendTarget,
+  type LoadBalancingStrategy,
+  type RateLimitSettings,
+  type ChallengeMode,
+  type ProxyProtocolFormat,
+  type ProxyProtocolEmission,
+  type MaintenanceWindow,
+  DEFAULT_RATE_LIMITS,
+  joinHostPort,
+  splitHostPort,
 } from "./API";
 import ServerAvatar from "./components/ServerAvatar";
+import BanListSection from "./components/BanListSection";
+import WhitelistSection from "./components/WhitelistSection";
+import MaintenanceSection from "./components/MaintenanceSection";
+import DrainRestartSection from "./components/DrainRestartSection";
+import ScheduleSection from "./components/ScheduleSection";
+import CrashReportsSection from "./components/CrashReportsSection";
+import WorldBackupSection from "./components/WorldBackupSection";
+import PacketCaptureSection from "./components/PacketCaptureSection";
+import BackendPoolSettings from "./components/BackendPoolSettings";
+import RateLimitSection from "./components/RateLimitSection";
+import ChallengeModeSection from "./components/ChallengeModeSection";
+import ProxyProtocolSecuritySection from "./components/ProxyProtocolSecuritySection";
+import OutboundProxyProtocolSection from "./components/OutboundProxyProtocolSection";
 
 const fallbackEmojis = ["🪵", "🧱", "🧭", "🛡️", "⚙️", "🛠️", "🧊", "🔥"];
 
@@ -146,6 +170,26 @@ function ServerDetails() {
   const [customForwardAddress, setCustomForwardAddress] = useState("");
   const [blockSameIP, setBlockSameIP] = useState(false);
   const [proxyProtocolV2Enabled, setProxyProtocolV2Enabled] = useState(false);
+  const [outboundProxyProtocol, setOutboundProxyProtocol] =
+    useState<ProxyProtocolFormat>("v2");
+  const [proxyProtocolEmission, setProxyProtocolEmission] =
+    useState<ProxyProtocolEmission>("every-packet");
+  const [trustedProxies, setTrustedProxies] = useState<string[]>([]);
+  const [proxyProtocolStrict, setProxyProtocolStrict] = useState(false);
+  const [proxyProtocolChecksum, setProxyProtocolChecksum] = useState(false);
+  const [whitelistEnabled, setWhitelistEnabled] = useState(false);
+  const [maintenanceMessage, setMaintenanceMessage] = useState("");
+  const [maintenanceWindow, setMaintenanceWindow] =
+    useState<MaintenanceWindow | null>(null);
+  const [customMotdEnabled, setCustomMotdEnabled] = useState(false);
+  const [backends, setBackends] = useState<BackendTarget[]>([]);
+  const [loadBalancing, setLoadBalancing] =
+    useState<LoadBalancingStrategy>("round-robin");
+  const [rateLimits, setRateLimits] =
+    useState<RateLimitSettings>(DEFAULT_RATE_LIMITS);
+  const [challengeMode, setChallengeMode] = useState<ChallengeMode>("auto");
+  const [challengeThreshold, setChallengeThreshold] = useState(100);
+  const [maxConnections, setMaxConnections] = useState(1000);
   // プレイヤーIP表示設定（プライバシー配慮のためデフォルトは false）
   const [showPlayerIPs, setShowPlayerIPs] = useState(false);
 
@@ -157,6 +201,21 @@ function ServerDetails() {
     blockSameIP: false,
     forwardAddress: "",
     proxyProtocolV2Enabled: false,
+    outboundProxyProtocol: "v2" as ProxyProtocolFormat,
+    proxyProtocolEmission: "every-packet" as ProxyProtocolEmission,
+    trustedProxies: [] as string[],
+    proxyProtocolStrict: false,
+    proxyProtocolChecksum: false,
+    whitelistEnabled: false,
+    maintenanceMessage: "",
+    maintenanceWindow: null as MaintenanceWindow | null,
+    customMotdEnabled: false,
+    backends: [] as BackendTarget[],
+    loadBalancing: "round-robin" as LoadBalancingStrategy,
+    rateLimits: DEFAULT_RATE_LIMITS,
+    challengeMode: "auto" as ChallengeMode,
+    challengeThreshold: 100,
+    maxConnections: 1000,
   });
 
   // Confirmation dialog for unsaved changes
@@ -191,6 +250,11 @@ function ServerDetails() {
     "success" | "error" | "info" | "warning"
   >("info");
 
+  // フォールバック先へ切り替え中か（proxyFailover イベントで更新）
+  const [failoverActive, setFailoverActive] = useState(false);
+  // 接続チャレンジが有効か（proxyUnderAttack イベントとネットワーク統計で更新）
+  const [underAttack, setUnderAttack] = useState(false);
+
   // ネットワーク統計の状態
   const [networkStats, setNetworkStats] = useState<any>(null);
   const [clientStats, setClientStats] = useState<any[]>([]);
@@ -253,15 +317,14 @@ function ServerDetails() {
       setServer(data.server);
       // initialize editable fields
       setEditName(data.server.name || "");
-      setEditDestIP(
-        data.server.destinationAddress?.split(":")[0] || "127.0.0.1"
-      );
-      setEditDestPort(data.server.destinationAddress?.split(":")[1] || "19133");
+      const destination = splitHostPort(data.server.destinationAddress || "");
+      setEditDestIP(destination.host || "127.0.0.1");
+      setEditDestPort(destination.port || "19133");
       // initialize listen/receiving address from server.address
       try {
-        const parts = (data.server.address || "").split(":");
-        setEditListenIP(parts[0] || "127.0.0.1");
-        setEditListenPort(parts[1] || "19133");
+        const listen = splitHostPort(data.server.address || "");
+        setEditListenIP(listen.host || "127.0.0.1");
+        setEditListenPort(listen.port || "19133");
       } catch (e) {
         setEditListenIP("127.0.0.1");
         setEditListenPort("19133");
@@ -286,6 +349,21 @@ function ServerDetails() {
       const initialForwardAddress = data.server.forwardAddress ?? "";
       const initialBlockSameIP = data.server.blockSameIP ?? false;
       const initialProxyProtocolV2Enabled = data.server.proxyProtocolV2Enabled ?? false;
+      const initialOutboundProxyProtocol = data.server.outboundProxyProtocol ?? "v2";
+      const initialProxyProtocolEmission = data.server.proxyProtocolEmission ?? "every-packet";
+      const initialTrustedProxies = data.server.trustedProxies ?? [];
+      const initialProxyProtocolStrict = data.server.proxyProtocolStrict ?? false;
+      const initialProxyProtocolChecksum = data.server.proxyProtocolChecksum ?? false;
+      const initialWhitelistEnabled = data.server.whitelistEnabled ?? false;
+      const initialMaintenanceMessage = data.server.maintenanceMessage ?? "";
+      const initialMaintenanceWindow = data.server.maintenanceWindow ?? null;
+      const initialCustomMotdEnabled = data.server.customMotdEnabled ?? false;
+      const initialBackends = data.server.backends ?? [];
+      const initialLoadBalancing = data.server.loadBalancing ?? "round-robin";
+      const initialRateLimits = data.server.rateLimits ?? DEFAULT_RATE_LIMITS;
+      const initialChallengeMode = data.server.challengeMode ?? "auto";
+      const initialChallengeThreshold = data.server.challengeThreshold ?? 100;
+      const initialMaxConnections = data.server.maxConnections ?? 1000;
       const initialPluginsEnabled = data.server.pluginsEnabled ?? false;
 
       setAutoStart(initialAutoStart);
@@ -293,6 +371,21 @@ function ServerDetails() {
       setForwardAddress(initialForwardAddress);
       setBlockSameIP(initialBlockSameIP);
       setProxyProtocolV2Enabled(initialProxyProtocolV2Enabled);
+      setOutboundProxyProtocol(initialOutboundProxyProtocol);
+      setProxyProtocolEmission(initialProxyProtocolEmission);
+      setTrustedProxies(initialTrustedProxies);
+      setProxyProtocolStrict(initialProxyProtocolStrict);
+      setProxyProtocolChecksum(initialProxyProtocolChecksum);
+      setWhitelistEnabled(initialWhitelistEnabled);
+      setMaintenanceMessage(initialMaintenanceMessage);
+      setMaintenanceWindow(initialMaintenanceWindow);
+      setCustomMotdEnabled(initialCustomMotdEnabled);
+      setBackends(initialBackends);
+      setLoadBalancing(initialLoadBalancing);
+      setRateLimits(initialRateLimits);
+      setChallengeMode(initialChallengeMode);
+      setChallengeThreshold(initialChallengeThreshold);
+      setMaxConnections(initialMaxConnections);
       setPluginsEnabled(initialPluginsEnabled);
 
       // Auto-load plugins if plugin tab is active and plugins are enabled
@@ -308,6 +401,21 @@ function ServerDetails() {
         blockSameIP: initialBlockSameIP,
         forwardAddress: initialForwardAddress,
         proxyProtocolV2Enabled: initialProxyProtocolV2Enabled,
+        outboundProxyProtocol: initialOutboundProxyProtocol,
+        proxyProtocolEmission: initialProxyProtocolEmission,
+        trustedProxies: initialTrustedProxies,
+        proxyProtocolStrict: initialProxyProtocolStrict,
+        proxyProtocolChecksum: initialProxyProtocolChecksum,
+        whitelistEnabled: initialWhitelistEnabled,
+        maintenanceMessage: initialMaintenanceMessage,
+        maintenanceWindow: initialMaintenanceWindow,
+        customMotdEnabled: initialCustomMotdEnabled,
+        backends: initialBackends,
+        loadBalancing: initialLoadBalancing,
+        rateLimits: initialRateLimits,
+        challengeMode: initialChallengeMode,
+        challengeThreshold: initialChallengeThreshold,
+        maxConnections: initialMaxConnections,
       });
       setHasUnsavedOperations(false);
 
@@ -360,6 +468,36 @@ function ServerDetails() {
           setBlockSameIP(data.server.blockSameIP);
         if (data.server.proxyProtocolV2Enabled !== undefined)
           setProxyProtocolV2Enabled(data.server.proxyProtocolV2Enabled);
+        if (data.server.outboundProxyProtocol !== undefined)
+          setOutboundProxyProtocol(data.server.outboundProxyProtocol);
+        if (data.server.proxyProtocolEmission !== undefined)
+          setProxyProtocolEmission(data.server.proxyProtocolEmission);
+        if (data.server.trustedProxies !== undefined)
+          setTrustedProxies(data.server.trustedProxies);
+        if (data.server.proxyProtocolStrict !== undefined)
+          setProxyProtocolStrict(data.server.proxyProtocolStrict);
+        if (data.server.proxyProtocolChecksum !== undefined)
+          setProxyProtocolChecksum(data.server.proxyProtocolChecksum);
+        if (data.server.whitelistEnabled !== undefined)
+          setWhitelistEnabled(data.server.whitelistEnabled);
+        if (data.server.maintenanceMessage !== undefined)
+          setMaintenanceMessage(data.server.maintenanceMessage);
+        if (data.server.maintenanceWindow !== undefined)
+          setMaintenanceWindow(data.server.maintenanceWindow);
+        if (data.server.customMotdEnabled !== undefined)
+          setCustomMotdEnabled(data.server.customMotdEnabled);
+        if (data.server.backends !== undefined)
+          setBackends(data.server.backends);
+        if (data.server.loadBalancing !== undefined)
+          setLoadBalancing(data.server.loadBalancing);
+        if (data.server.rateLimits !== undefined)
+          setRateLimits(data.server.rateLimits);
+        if (data.server.challengeMode !== undefined)
+          setChallengeMode(data.server.challengeMode);
+        if (data.server.challengeThreshold !== undefined)
+          setChallengeThreshold(data.server.challengeThreshold);
+        if (data.server.maxConnections !== undefined)
+          setMaxConnections(data.server.maxConnections);
         if (data.server.forwardAddress !== undefined)
           setForwardAddress(data.server.forwardAddress);
       }
@@ -381,6 +519,36 @@ function ServerDetails() {
             setBlockSameIP(data.server.blockSameIP);
           if (data.server.proxyProtocolV2Enabled !== undefined)
             setProxyProtocolV2Enabled(data.server.proxyProtocolV2Enabled);
+          if (data.server.outboundProxyProtocol !== undefined)
+            setOutboundProxyProtocol(data.server.outboundProxyProtocol);
+          if (data.server.proxyProtocolEmission !== undefined)
+            setProxyProtocolEmission(data.server.proxyProtocolEmission);
+          if (data.server.trustedProxies !== undefined)
+            setTrustedProxies(data.server.trustedProxies);
+          if (data.server.proxyProtocolStrict !== undefined)
+            setProxyProtocolStrict(data.server.proxyProtocolStrict);
+          if (data.server.proxyProtocolChecksum !== undefined)
+            setProxyProtocolChecksum(data.server.proxyProtocolChecksum);
+          if (data.server.whitelistEnabled !== undefined)
+            setWhitelistEnabled(data.server.whitelistEnabled);
+          if (data.server.maintenanceMessage !== undefined)
+            setMaintenanceMessage(data.server.maintenanceMessage);
+          if (data.server.maintenanceWindow !== undefined)
+            setMaintenanceWindow(data.server.maintenanceWindow);
+          if (data.server.customMotdEnabled !== undefined)
+            setCustomMotdEnabled(data.server.customMotdEnabled);
+          if (data.server.backends !== undefined)
+            setBackends(data.server.backends);
+          if (data.server.loadBalancing !== undefined)
+            setLoadBalancing(data.server.loadBalancing);
+          if (data.server.rateLimits !== undefined)
+            setRateLimits(data.server.rateLimits);
+          if (data.server.challengeMode !== undefined)
+            setChallengeMode(data.server.challengeMode);
+          if (data.server.challengeThreshold !== undefined)
+            setChallengeThreshold(data.server.challengeThreshold);
+          if (data.server.maxConnections !== undefined)
+            setMaxConnections(data.server.maxConnections);
           if (data.server.forwardAddress !== undefined)
             setForwardAddress(data.server.forwardAddress);
         }
@@ -468,6 +636,55 @@ function ServerDetails() {
     [id]
   );
 
+  const handlePlayerKicked = useCallback(
+    (data: any) => {
+      if (data?.serverId === id) {
+        setPlayers((prev) => prev.filter((p) => p.id !== data.playerId));
+        setSnackbarMessage(
+          `${t("players.kicked")}: ${data.playerName}${
+            data.reason ? ` (${data.reason})` : ""
+          }`
+        );
+        setSnackbarSeverity("success");
+        setSnackbarOpen(true);
+      }
+    },
+    [id, t]
+  );
+
+  const handleProxyFailover = useCallback(
+    (data: any) => {
+      if (data?.serverId === id) {
+        const isFallback = data.active === "fallback";
+        setFailoverActive(isFallback);
+        setSnackbarMessage(
+          isFallback
+            ? `${t("failover.activated")}: ${data.fallback}`
+            : `${t("failover.recovered")}: ${data.primary}`
+        );
+        setSnackbarSeverity(isFallback ? "warning" : "success");
+        setSnackbarOpen(true);
+      }
+    },
+    [id, t]
+  );
+
+  const handleProxyUnderAttack = useCallback(
+    (data: any) => {
+      if (data?.serverId === id) {
+        setUnderAttack(!!data.active);
+        setSnackbarMessage(
+          data.active
+            ? `${t("challenge.activated")} (${data.newSourcesPerSecond}/s)`
+            : t("challenge.deactivated")
+        );
+        setSnackbarSeverity(data.active ? "warning" : "success");
+        setSnackbarOpen(true);
+      }
+    },
+    [id, t]
+  );
+
   const handleConsoleOutput = useCallback(
     (data: any) => {
       // Support multiple payload shapes: { serverId, line }, { server: { id, ... }, line }, or { serverName }
@@ -510,8 +727,11 @@ function ServerDetails() {
     (data: any) => {
       if (data?.serverId === id) {
         setNetworkStats(data.networkStats);
+        if (data.networkStats?.challenge) {
+          setUnderAttack(data.networkStats.challenge.active);
+        }
         
-        // クライアント統計を真のIPアドレスでグループ化
+        // クライアント統計をGUID（なければ真のIPアドレス）でグループ化
         const rawStats = data.clientStats || [];
         const grouped = new Map<string, any>();
         
@@ -519,13 +739,15 @@ function ServerDetails() {
           // 真のクライアントアドレスをキーとして使用
           const realAddress = client.realClientAddress || client.clientAddress;
           const realPort = client.realClientPort || client.clientPort;
-          const key = `${realAddress}:${realPort}`;
+          const key = client.guid ? `guid:${client.guid}` : `${realAddress}:${realPort}`;
           
           if (!grouped.has(key)) {
             // 新しいグループを作成
             grouped.set(key, {
               realClientAddress: realAddress,
               realClientPort: realPort,
+              guid: client.guid,
+              playerName: client.playerName,
               bytesSent: 0,
               bytesReceived: 0,
               packetsSent: 0,
@@ -533,12 +755,19 @@ function ServerDetails() {
               uploadSpeed: 0,
               downloadSpeed: 0,
               connectedAt: client.connectedAt,
+              stage: client.stage,
               connections: [] as any[]
             });
           }
           
           const group = grouped.get(key)!;
           
+          // 最も進んだハンドシェイク段階を表示
+          const stageOrder = ["pinging", "connecting", "in-game"];
+          if (stageOrder.indexOf(client.stage) > stageOrder.indexOf(group.stage)) {
+            group.stage = client.stage;
+          }
+          
           // 統計を集計
           group.bytesSent += client.bytesSent || 0;
           group.bytesReceived += client.bytesReceived || 0;
@@ -552,6 +781,8 @@ function ServerDetails() {
             group.connectedAt = client.connectedAt;
           }
           
+          group.playerName = group.playerName ?? client.playerName;
+          
           // 接続情報を保存（詳細表示用）
           group.connections.push({
             clientAddress: client.clientAddress,
@@ -625,6 +856,9 @@ function ServerDetails() {
           "console.output",
           "player.joined",
           "player.left",
+          "player.kicked",
+          "proxyFailover",
+          "proxyUnderAttack",
           "server.statusChanged",
         ]);
       } catch (e) {
@@ -637,6 +871,7 @@ function ServerDetails() {
     bedrockProxyAPI.on("server.statusChanged", handleServerStatusChanged);
     bedrockProxyAPI.on("player.joined", handlePlayerJoined);
     bedrockProxyAPI.on("player.left", handlePlayerLeft);
+    bedrockProxyAPI.on("player.kicked", handlePlayerKicked);
     bedrockProxyAPI.on("console.output", handleConsoleOutput);
     // server.properties update notifications
     const handlePropsUpdated = (d: any) => {
@@ -661,6 +896,8 @@ function ServerDetails() {
     bedrockProxyAPI.on("server.properties.updated", handlePropsUpdated);
     bedrockProxyAPI.on("server.properties.updateFailed", handlePropsFailed);
     bedrockProxyAPI.on("networkStats", handleNetworkStats);
+    bedrockProxyAPI.on("proxyFailover", handleProxyFailover);
+    bedrockProxyAPI.on("proxyUnderAttack", handleProxyUnderAttack);
 
     return () => {
       isMounted = false;
@@ -668,10 +905,13 @@ function ServerDetails() {
       bedrockProxyAPI.off("server.statusChanged", handleServerStatusChanged);
       bedrockProxyAPI.off("player.joined", handlePlayerJoined);
       bedrockProxyAPI.off("player.left", handlePlayerLeft);
+      bedrockProxyAPI.off("player.kicked", handlePlayerKicked);
       bedrockProxyAPI.off("console.output", handleConsoleOutput);
       bedrockProxyAPI.off("server.properties.updated", handlePropsUpdated);
       bedrockProxyAPI.off("server.properties.updateFailed", handlePropsFailed);
       bedrockProxyAPI.off("networkStats", handleNetworkStats);
+      bedrockProxyAPI.off("proxyFailover", handleProxyFailover);
+      bedrockProxyAPI.off("proxyUnderAttack", handleProxyUnderAttack);
       // Do NOT unsubscribe global event subscriptions here — other components
       // (like ServerList) rely on those subscriptions. Only remove handlers above.
     };
@@ -680,6 +920,9 @@ function ServerDetails() {
     handleServerStatusChanged,
     handlePlayerJoined,
     handlePlayerLeft,
+    handlePlayerKicked,
+    handleProxyFailover,
+    handleProxyUnderAttack,
     handleConsoleOutput,
     handleNetworkStats,
     loadServerData,
@@ -817,6 +1060,28 @@ function ServerDetails() {
     }
   };
 
+  // メンテナンスの開始・終了（保存前の切断メッセージも合わせて反映）
+  const handleMaintenanceToggle = async (enabled: boolean) => {
+    try {
+      const updated = await bedrockProxyAPI.setMaintenance(
+        server.id,
+        enabled,
+        maintenanceMessage
+      );
+      setServer(updated);
+      setSnackbarMessage(
+        enabled ? t("maintenance.started") : t("maintenance.ended")
+      );
+      setSnackbarSeverity("success");
+    } catch (error) {
+      setSnackbarMessage(
+        `${t("maintenance.toggleFailed")}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      setSnackbarSeverity("error");
+    }
+    setSnackbarOpen(true);
+  };
+
   // 設定の自動保存
   const handleSettingChange = async (setting: Partial<Server>) => {
     try {
@@ -856,23 +1121,96 @@ function ServerDetails() {
       case "proxyProtocolV2Enabled":
         setProxyProtocolV2Enabled(value);
         break;
+      case "outboundProxyProtocol":
+        setOutboundProxyProtocol(value);
+        break;
+      case "proxyProtocolEmission":
+        setProxyProtocolEmission(value);
+        break;
+      case "trustedProxies":
+        setTrustedProxies(value);
+        break;
+      case "proxyProtocolStrict":
+        setProxyProtocolStrict(value);
+        break;
+      case "proxyProtocolChecksum":
+        setProxyProtocolChecksum(value);
+        break;
+      case "whitelistEnabled":
+        setWhitelistEnabled(value);
+        break;
+      case "maintenanceMessage":
+        setMaintenanceMessage(value);
+        break;
+      case "maintenanceWindow":
+        setMaintenanceWindow(value);
+        break;
+      case "customMotdEnabled":
+        setCustomMotdEnabled(value);
+        break;
+      case "backends":
+        setBackends(value);
+        break;
+      case "loadBalancing":
+        setLoadBalancing(value);
+        break;
+      case "rateLimits":
+        setRateLimits(value);
+        break;
+      case "challengeMode":
+        setChallengeMode(value);
+        break;
+      case "challengeThreshold":
+        setChallengeThreshold(value);
+        break;
+      case "maxConnections":
+        setMaxConnections(value);
+        break;
       case "forwardAddress":
         setForwardAddress(value);
         break;
     }
   };
 
+  // 設定キーの表示名（未翻訳のキーはそのまま表示）
+  const settingLabel = (key: string) => {
+    const label = t(`reload.setting.${key}`);
+    return label === `reload.setting.${key}` ? key : label;
+  };
+
+  // 保存メッセージに稼働中のプロキシへ即時反映された設定を添える
+  const withAppliedLive = (message: string, appliedLive: string[]) =>
+    appliedLive.length > 0
+      ? `${message} ${t("reload.appliedLive")}: ${appliedLive.map(settingLabel).join(", ")}`
+      : message;
+
   // Save operations settings
   const handleSaveOperations = async () => {
     try {
-      const updatedServer = await bedrockProxyAPI.updateServer(server.id, {
-        autoStart,
-        autoRestart,
-        blockSameIP,
-        proxyProtocolV2Enabled,
-        forwardAddress:
-          forwardAddress === "custom" ? customForwardAddress : forwardAddress,
-      });
+      const { server: updatedServer, appliedLive } =
+        await bedrockProxyAPI.updateServerSettings(server.id, {
+          autoStart,
+          autoRestart,
+          blockSameIP,
+          proxyProtocolV2Enabled,
+          outboundProxyProtocol,
+          proxyProtocolEmission,
+          trustedProxies,
+          proxyProtocolStrict,
+          proxyProtocolChecksum,
+          whitelistEnabled,
+          maintenanceMessage,
+          maintenanceWindow,
+          customMotdEnabled,
+          backends,
+          loadBalancing,
+          rateLimits,
+          challengeMode,
+          challengeThreshold,
+          maxConnections,
+          forwardAddress:
+            forwardAddress === "custom" ? customForwardAddress : forwardAddress,
+        });
 
       // 即座にローカルステートを更新
       setServer(updatedServer);
@@ -883,11 +1221,29 @@ function ServerDetails() {
         blockSameIP,
         forwardAddress,
         proxyProtocolV2Enabled,
+        outboundProxyProtocol,
+        proxyProtocolEmission,
+        trustedProxies,
+        proxyProtocolStrict,
+        proxyProtocolChecksum,
+        whitelistEnabled,
+        maintenanceMessage,
+        maintenanceWindow,
+        customMotdEnabled,
+        backends,
+        loadBalancing,
+        rateLimits,
+        challengeMode,
+        challengeThreshold,
+        maxConnections,
       });
       setHasUnsavedOperations(false);
 
       setSnackbarMessage(
-        t("settings.saveSuccess") || "Operations settings saved successfully!"
+        withAppliedLive(
+          t("settings.saveSuccess") || "Operations settings saved successfully!",
+          appliedLive
+        )
       );
       setSnackbarSeverity("success");
       setSnackbarOpen(true);
@@ -1049,6 +1405,22 @@ function ServerDetails() {
     }
   };
 
+  const handleKickPlayer = async (playerId: string) => {
+    try {
+      await bedrockProxyAPI.kickPlayer(server.id, playerId);
+      // 一覧からの削除は player.kicked イベントで行う
+    } catch (error) {
+      console.error("❌ Kick failed:", error);
+      setSnackbarMessage(
+        `${t("players.kickFailed")}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      setSnackbarSeverity("error");
+      setSnackbarOpen(true);
+    }
+  };
+
   const addTag = async (tag: string) => {
     const trimmed = tag.trim();
     if (!trimmed) return;
@@ -1144,6 +1516,24 @@ function ServerDetails() {
                     color={statusColor[server.status]}
                     size="small"
                   />
+                  {failoverActive && (
+                    <Tooltip title={server.forwardAddress ?? ""}>
+                      <Chip
+                        label={t("failover.active")}
+                        color="warning"
+                        size="small"
+                        variant="outlined"
+                      />
+                    </Tooltip>
+                  )}
+                  {underAttack && (
+                    <Chip
+                      label={t("challenge.active")}
+                      color="error"
+                      size="small"
+                      variant="outlined"
+                    />
+                  )}
                 </Stack>
                 <Typography variant="body2" className="server-subheader">
                   {server.address}
@@ -1249,6 +1639,47 @@ function ServerDetails() {
             }
           />
 
+          {/* 再起動するまで反映されない変更がある場合 */}
+          {(server.pendingRestart?.length ?? 0) > 0 && (
+            <Alert
+              severity="warning"
+              sx={{ mx: 2, mb: 1 }}
+              action={
+                <Button
+                  color="inherit"
+                  size="small"
+                  startIcon={<RestartAltRoundedIcon />}
+                  onClick={() => handleServerAction("restart")}
+                >
+                  {t("operations.restart")}
+                </Button>
+              }
+            >
+              {t("reload.pendingRestart")}:{" "}
+              {server.pendingRestart!.map(settingLabel).join(", ")}
+            </Alert>
+          )}
+
+          {/* クラッシュループのため自動再起動を止めた場合 */}
+          {server.crashRecovery?.gaveUp && (
+            <Alert
+              severity="error"
+              sx={{ mx: 2, mb: 1 }}
+              action={
+                <Button
+                  color="inherit"
+                  size="small"
+                  startIcon={<PlayArrowRoundedIcon />}
+                  onClick={() => handleServerAction("start")}
+                >
+                  {t("operations.start")}
+                </Button>
+              }
+            >
+              {t("crash.loopDetected")}
+            </Alert>
+          )}
+
           <Tabs
             value={activeTab}
             onChange={(_, value) => handleTabChange(value as DetailTab)}
@@ -1317,8 +1748,8 @@ function ServerDetails() {
                         return;
                       }
 
-                      const dest = `${editDestIP}:${editDestPort}`;
-                      const address = `${editListenIP}:${editListenPort}`;
+                      const dest = joinHostPort(editDestIP, editDestPort);
+                      const address = joinHostPort(editListenIP, editListenPort);
                       const updates: any = {
                         name: editName,
                         destinationAddress: dest,
@@ -1327,10 +1758,17 @@ function ServerDetails() {
                         iconUrl: editIconUrl || undefined,
                         docs: editDocs || undefined,
                       };
-                      await bedrockProxyAPI.updateServer(server.id, updates);
+                      const { appliedLive } =
+                        await bedrockProxyAPI.updateServerSettings(
+                          server.id,
+                          updates
+                        );
                       setSnackbarMessage(
-                        t("settings.saveSuccess") ||
-                          "Settings saved successfully!"
+                        withAppliedLive(
+                          t("settings.saveSuccess") ||
+                            "Settings saved successfully!",
+                          appliedLive
+                        )
                       );
                       setSnackbarSeverity("success");
                       setSnackbarOpen(true);
@@ -1539,6 +1977,17 @@ function ServerDetails() {
                         <ListItem
                           key={player.id ?? player.name}
                           className="player-list-item"
+                          secondaryAction={
+                            <Tooltip title={t("players.kick")}>
+                              <IconButton
+                                edge="end"
+                                size="small"
+                                onClick={() => handleKickPlayer(player.id)}
+                              >
+                                <PersonRemoveRoundedIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          }
                         >
                           <ListItemText
                             primary={player.name}
@@ -1564,6 +2013,17 @@ function ServerDetails() {
                                     })}{" "}
                                     {t("players.joined")}
                                   </Typography>
+                                  {(player.deviceOS || player.clientVersion) && (
+                                    <Typography
+                                      variant="caption"
+                                      className="muted player-device"
+                                    >
+                                      •{" "}
+                                      {[player.deviceOS, player.clientVersion]
+                                        .filter(Boolean)
+                                        .join(" ")}
+                                    </Typography>
+                                  )}
                                 </div>
                                 {showPlayerIPs && player.ipAddress && (
                                   <Typography
@@ -1858,6 +2318,73 @@ function ServerDetails() {
 
                 <Divider />
 
+                <MaintenanceSection
+                  active={server.maintenance ?? false}
+                  message={maintenanceMessage}
+                  window={maintenanceWindow}
+                  onToggle={handleMaintenanceToggle}
+                  onMessageChange={(value) =>
+                    handleOperationChange("maintenanceMessage", value)
+                  }
+                  onWindowChange={(value) =>
+                    handleOperationChange("maintenanceWindow", value)
+                  }
+                />
+
+                <Divider />
+
+                <DrainRestartSection
+                  serverId={server.id}
+                  drain={server.drain ?? null}
+                  online={server.status === "online"}
+                  canRedirect={!!server.forwardAddress}
+                  onUpdated={setServer}
+                  onMessage={(message, severity) => {
+                    setSnackbarMessage(message);
+                    setSnackbarSeverity(severity);
+                    setSnackbarOpen(true);
+                  }}
+                />
+
+                <Divider />
+
+                <CrashReportsSection
+                  serverId={server.id}
+                  crashRecovery={server.crashRecovery ?? null}
+                  onMessage={(message, severity) => {
+                    setSnackbarMessage(message);
+                    setSnackbarSeverity(severity);
+                    setSnackbarOpen(true);
+                  }}
+                />
+
+                <Divider />
+
+                <WorldBackupSection
+                  serverId={server.id}
+                  hasServerDirectory={!!server.serverDirectory}
+                  retention={server.backupRetention ?? { maxCount: 10, maxAgeDays: 0 }}
+                  onUpdated={setServer}
+                  onMessage={(message, severity) => {
+                    setSnackbarMessage(message);
+                    setSnackbarSeverity(severity);
+                    setSnackbarOpen(true);
+                  }}
+                />
+
+                <Divider />
+
+                <ScheduleSection
+                  serverId={server.id}
+                  onMessage={(message, severity) => {
+                    setSnackbarMessage(message);
+                    setSnackbarSeverity(severity);
+                    setSnackbarOpen(true);
+                  }}
+                />
+
+                <Divider />
+
                 <Box>
                   <Typography variant="subtitle2" className="section-title">
                     {t("settings.auto")}
@@ -1959,6 +2486,76 @@ function ServerDetails() {
                         </Box>
                       }
                     />
+                    {proxyProtocolV2Enabled && (
+                      <OutboundProxyProtocolSection
+                        serverId={server.id}
+                        format={outboundProxyProtocol}
+                        emission={proxyProtocolEmission}
+                        onFormatChange={(value) =>
+                          handleOperationChange("outboundProxyProtocol", value)
+                        }
+                        onEmissionChange={(value) =>
+                          handleOperationChange("proxyProtocolEmission", value)
+                        }
+                        onMessage={(message, severity) => {
+                          setSnackbarMessage(message);
+                          setSnackbarSeverity(severity);
+                          setSnackbarOpen(true);
+                        }}
+                      />
+                    )}
+                    {proxyProtocolV2Enabled && (
+                      <ProxyProtocolSecuritySection
+                        trustedProxies={trustedProxies}
+                        strict={proxyProtocolStrict}
+                        checksum={proxyProtocolChecksum}
+                        onTrustedProxiesChange={(value) =>
+                          handleOperationChange("trustedProxies", value)
+                        }
+                        onStrictChange={(value) =>
+                          handleOperationChange("proxyProtocolStrict", value)
+                        }
+                        onChecksumChange={(value) =>
+                          handleOperationChange("proxyProtocolChecksum", value)
+                        }
+                      />
+                    )}
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={customMotdEnabled}
+                          onChange={(e) => {
+                            handleOperationChange(
+                              "customMotdEnabled",
+                              e.target.checked
+                            );
+                          }}
+                          color="primary"
+                        />
+                      }
+                      label={
+                        <Box>
+                          <Typography variant="body2">
+                            {t("operations.customMotd")}
+                          </Typography>
+                          <Typography variant="caption" className="muted">
+                            {t("operations.customMotdDesc")}
+                          </Typography>
+                        </Box>
+                      }
+                    />
+
+                    <BackendPoolSettings
+                      destinationAddress={server.destinationAddress}
+                      backends={backends}
+                      loadBalancing={loadBalancing}
+                      onBackendsChange={(value) =>
+                        handleOperationChange("backends", value)
+                      }
+                      onLoadBalancingChange={(value) =>
+                        handleOperationChange("loadBalancing", value)
+                      }
+                    />
 
                     <Box className="forward-settings">
                       <Typography variant="body2" gutterBottom>
@@ -2021,6 +2618,49 @@ function ServerDetails() {
                   </Stack>
                 </Box>
 
+                <Divider />
+                <RateLimitSection
+                  value={rateLimits}
+                  onChange={(value) =>
+                    handleOperationChange("rateLimits", value)
+                  }
+                  maxConnections={maxConnections}
+                  onMaxConnectionsChange={(value) =>
+                    handleOperationChange("maxConnections", value)
+                  }
+                />
+                <ChallengeModeSection
+                  mode={challengeMode}
+                  threshold={challengeThreshold}
+                  onModeChange={(value) =>
+                    handleOperationChange("challengeMode", value)
+                  }
+                  onThresholdChange={(value) =>
+                    handleOperationChange("challengeThreshold", value)
+                  }
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={whitelistEnabled}
+                      onChange={(e) =>
+                        handleOperationChange("whitelistEnabled", e.target.checked)
+                      }
+                      color="primary"
+                    />
+                  }
+                  label={
+                    <Box>
+                      <Typography variant="body2">
+                        {t("whitelist.enabled")}
+                      </Typography>
+                      <Typography variant="caption" className="muted">
+                        {t("whitelist.enabledDescription")}
+                      </Typography>
+                    </Box>
+                  }
+                />
+
                 {/* Save Operations Button */}
                 <Box
                   sx={{ display: "flex", justifyContent: "flex-end", mt: 2 }}
@@ -2065,6 +2705,28 @@ function ServerDetails() {
                     }
                   />
                 </Box>
+
+                <Divider />
+                <BanListSection
+                  serverId={server.id}
+                  onMessage={(message, severity) => {
+                    setSnackbarMessage(message);
+                    setSnackbarSeverity(severity);
+                    setSnackbarOpen(true);
+                  }}
+                />
+
+                <Divider />
+                <WhitelistSection
+                  serverId={server.id}
+                  enabled={whitelistEnabled}
+                  hasServerDirectory={!!server.serverDirectory}
+                  onMessage={(message, severity) => {
+                    setSnackbarMessage(message);
+                    setSnackbarSeverity(severity);
+                    setSnackbarOpen(true);
+                  }}
+                />
               </Stack>
             </CardContent>
           </TabPanel>
@@ -2403,6 +3065,53 @@ function ServerDetails() {
                         </Typography>
                       </CardContent>
                     </Card>
+                    {networkStats.rateLimit && (
+                      <>
+                        <Card variant="outlined">
+                          <CardContent>
+                            <Typography variant="subtitle2" color="textSecondary">
+                              {t("network.droppedPackets")}
+                            </Typography>
+                            <Typography variant="h5">
+                              {networkStats.rateLimit.droppedPackets.toLocaleString()}
+                            </Typography>
+                            <Typography variant="caption" color="textSecondary">
+                              {formatBytes(networkStats.rateLimit.droppedBytes)}
+                            </Typography>
+                          </CardContent>
+                        </Card>
+                        <Card variant="outlined">
+                          <CardContent>
+                            <Typography variant="subtitle2" color="textSecondary">
+                              {t("network.rateLimitedClients")}
+                            </Typography>
+                            <Typography variant="h5">
+                              {networkStats.rateLimit.limitedClients}
+                            </Typography>
+                            <Typography variant="caption" color="textSecondary">
+                              {t("network.autoBans")}: {networkStats.rateLimit.autoBans}
+                            </Typography>
+                          </CardContent>
+                        </Card>
+                      </>
+                    )}
+                    {networkStats.challenge && (
+                      <Card variant="outlined">
+                        <CardContent>
+                          <Typography variant="subtitle2" color="textSecondary">
+                            {t("network.newSources")}
+                          </Typography>
+                          <Typography variant="h5">
+                            {networkStats.challenge.newSourcesPerSecond}/s
+                          </Typography>
+                          <Typography variant="caption" color="textSecondary">
+                            {t("network.challengesPassed")}: {networkStats.challenge.passed} / {networkStats.challenge.issued}
+                            {" • "}
+                            {t("network.challengeDrops")}: {networkStats.challenge.dropped}
+                          </Typography>
+                        </CardContent>
+                      </Card>
+                    )}
                   </Box>
 
                   {/* クライアントごとの統計 */}
@@ -2418,9 +3127,27 @@ function ServerDetails() {
                           <CardContent>
                             <Stack spacing={2}>
                               <Box>
-                                <Typography variant="subtitle1" fontWeight="bold">
-                                  {client.realClientAddress}:{client.realClientPort}
-                                </Typography>
+                                <Stack direction="row" spacing={1} alignItems="center">
+                                  <Typography variant="subtitle1" fontWeight="bold">
+                                    {client.realClientAddress}:{client.realClientPort}
+                                  </Typography>
+                                  {client.playerName && (
+                                    <Chip label={client.playerName} size="small" color="primary" variant="outlined" />
+                                  )}
+                                  {client.stage && (
+                                    <Chip
+                                      label={t(`network.stage.${client.stage}`) || client.stage}
+                                      size="small"
+                                      color={client.stage === "in-game" ? "success" : client.stage === "connecting" ? "warning" : "default"}
+                                      variant="outlined"
+                                    />
+                                  )}
+                                </Stack>
+                                {client.guid && (
+                                  <Typography variant="caption" color="textSecondary" display="block">
+                                    {t("network.guid")}: {client.guid}
+                                  </Typography>
+                                )}
                                 {client.connections && client.connections.length > 1 && (
                                   <Typography variant="caption" color="textSecondary">
                                     {client.connections.length} {t("network.activeConnections") || "接続"} 
@@ -2491,6 +3218,21 @@ function ServerDetails() {
                     (t("network.serverOffline") || "ネットワーク統計を表示するにはサーバーを起動してください。プロキシ専用モードでも利用できます。")}
                 </Alert>
               )}
+
+              <PacketCaptureSection
+                serverId={server.id}
+                clients={clientStats.flatMap((client: any) =>
+                  client.connections.map((connection: any) => {
+                    const key = `${connection.clientAddress}:${connection.clientPort}`;
+                    return { key, label: client.playerName ? `${client.playerName} (${key})` : key };
+                  })
+                )}
+                onMessage={(message, severity) => {
+                  setSnackbarMessage(message);
+                  setSnackbarSeverity(severity);
+                  setSnackbarOpen(true);
+                }}
+              />
             </CardContent>
           </TabPanel>
         </Card>
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DeleteOutlineRoundedIcon from "@mui/icons-material/DeleteOutlineRounded";
+import { isValidHostPort, type BackendTarget, type LoadBalancingStrategy } from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface BackendPoolSettingsProps {
+  destinationAddress: string;
+  backends: BackendTarget[];
+  loadBalancing: LoadBalancingStrategy;
+  onBackendsChange: (backends: BackendTarget[]) => void;
+  onLoadBalancingChange: (strategy: LoadBalancingStrategy) => void;
+}
+
+// 追加の転送先（バックエンド）と負荷分散の戦略の設定
+// 保存は運用タブの保存ボタンでまとめて行う
+export default function BackendPoolSettings({
+  destinationAddress,
+  backends,
+  loadBalancing,
+  onBackendsChange,
+  onLoadBalancingChange,
+}: BackendPoolSettingsProps) {
+  const { t } = useLanguageContext();
+  const [newAddress, setNewAddress] = useState("");
+
+  const handleAdd = () => {
+    const address = newAddress.trim();
+    if (!isValidHostPort(address)) return;
+    if (address === destinationAddress) return;
+    if (backends.some((backend) => backend.address === address)) return;
+
+    onBackendsChange([...backends, { address, weight: 1 }]);
+    setNewAddress("");
+  };
+
+  const handleWeightChange = (address: string, weight: number) => {
+    onBackendsChange(
+      backends.map((backend) =>
+        backend.address === address
+          ? { ...backend, weight: Math.min(100, Math.max(1, weight || 1)) }
+          : backend
+      )
+    );
+  };
+
+  return (
+    <Box className="forward-settings">
+      <Typography variant="body2" gutterBottom>
+        {t("loadBalancing.title")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {t("loadBalancing.description")}
+      </Typography>
+
+      <FormControl fullWidth size="small" sx={{ mt: 1.5 }}>
+        <InputLabel>{t("loadBalancing.strategy")}</InputLabel>
+        <Select
+          value={loadBalancing}
+          label={t("loadBalancing.strategy")}
+          onChange={(e) =>
+            onLoadBalancingChange(e.target.value as LoadBalancingStrategy)
+          }
+        >
+          <MenuItem value="round-robin">{t("loadBalancing.roundRobin")}</MenuItem>
+          <MenuItem value="least-connections">
+            {t("loadBalancing.leastConnections")}
+          </MenuItem>
+          <MenuItem value="weighted">{t("loadBalancing.weighted")}</MenuItem>
+        </Select>
+      </FormControl>
+
+      <Stack spacing={1} sx={{ mt: 1.5 }}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <TextField
+            value={destinationAddress}
+            label={t("loadBalancing.primary")}
+            size="small"
+            disabled
+            sx={{ flex: 1 }}
+          />
+          {loadBalancing === "weighted" && (
+            <TextField
+              value={1}
+              label={t("loadBalancing.weight")}
+              size="small"
+              disabled
+              sx={{ width: 96 }}
+            />
+          )}
+          <Box sx={{ width: 40 }} />
+        </Stack>
+
+        {backends.map((backend) => (
+          <Stack
+            key={backend.address}
+            direction="row"
+            spacing={1}
+            alignItems="center"
+          >
+            <TextField
+              value={backend.address}
+              size="small"
+              disabled
+              sx={{ flex: 1 }}
+            />
+            {loadBalancing === "weighted" && (
+              <TextField
+                type="number"
+                value={backend.weight ?? 1}
+                onChange={(e) =>
+                  handleWeightChange(backend.address, parseInt(e.target.value))
+                }
+                label={t("loadBalancing.weight")}
+                size="small"
+                inputProps={{ min: 1, max: 100 }}
+                sx={{ width: 96 }}
+              />
+            )}
+            <Tooltip title={t("loadBalancing.remove")}>
+              <IconButton
+                size="small"
+                onClick={() =>
+                  onBackendsChange(
+                    backends.filter((b) => b.address !== backend.address)
+                  )
+                }
+              >
+                <DeleteOutlineRoundedIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+        ))}
+
+        <Stack direction="row" spacing={1}>
+          <TextField
+            value={newAddress}
+            onChange={(e) => setNewAddress(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleAdd();
+            }}
+            placeholder={t("form.placeholderAddress")}
+            label={t("loadBalancing.addBackend")}
+            size="small"
+            sx={{ flex: 1 }}
+          />
+          <Button
+            variant="outlined"
+            onClick={handleAdd}
+            disabled={!isValidHostPort(newAddress.trim())}
+          >
+            {t("loadBalancing.add")}
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
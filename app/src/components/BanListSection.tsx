@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DeleteOutlineRoundedIcon from "@mui/icons-material/DeleteOutlineRounded";
+import { bedrockProxyAPI, type BanEntry } from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface BanListSectionProps {
+  serverId: string;
+  onMessage: (message: string, severity: "success" | "error") => void;
+}
+
+// サーバーごとのIPバンリスト（IPアドレス / CIDR）の管理
+export default function BanListSection({ serverId, onMessage }: BanListSectionProps) {
+  const { t } = useLanguageContext();
+  const [bans, setBans] = useState<BanEntry[]>([]);
+  const [target, setTarget] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadBans = useCallback(async () => {
+    try {
+      setBans(await bedrockProxyAPI.getBans(serverId));
+    } catch (error) {
+      console.error("❌ Failed to load bans:", error);
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    loadBans();
+
+    const handleBansUpdated = (data: any) => {
+      if (data?.serverId === serverId) {
+        loadBans();
+      }
+    };
+    bedrockProxyAPI.subscribe(["bans.updated"]).catch(() => {});
+    bedrockProxyAPI.on("bans.updated", handleBansUpdated);
+    return () => {
+      bedrockProxyAPI.off("bans.updated", handleBansUpdated);
+    };
+  }, [serverId, loadBans]);
+
+  const handleAdd = async () => {
+    const trimmed = target.trim();
+    if (!trimmed || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await bedrockProxyAPI.addBan(serverId, trimmed, reason.trim() || undefined);
+      setTarget("");
+      setReason("");
+      onMessage(`${t("bans.added")}: ${trimmed}`, "success");
+    } catch (error) {
+      onMessage(
+        `${t("bans.addFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (ban: BanEntry) => {
+    try {
+      await bedrockProxyAPI.removeBan(serverId, ban.id);
+      onMessage(`${t("bans.removed")}: ${ban.target}`, "success");
+    } catch (error) {
+      onMessage(
+        `${t("bans.removeFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" className="section-title">
+        {t("bans.title")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {t("bans.description")}
+      </Typography>
+
+      <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+        <TextField
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="203.0.113.5 / 198.51.100.0/24"
+          label={t("bans.target")}
+          size="small"
+        />
+        <TextField
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          label={t("bans.reason")}
+          size="small"
+          sx={{ flex: 1 }}
+        />
+        <Button
+          variant="outlined"
+          onClick={handleAdd}
+          disabled={!target.trim() || isSubmitting}
+        >
+          {t("bans.add")}
+        </Button>
+      </Stack>
+
+      <List dense>
+        {bans.length > 0 ? (
+          bans.map((ban) => (
+            <ListItem
+              key={ban.id}
+              secondaryAction={
+                <Tooltip title={t("bans.remove")}>
+                  <IconButton edge="end" size="small" onClick={() => handleRemove(ban)}>
+                    <DeleteOutlineRoundedIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              }
+            >
+              <ListItemText
+                primary={ban.target}
+                secondary={[
+                  ban.reason,
+                  ban.expiresAt
+                    ? `${t("bans.expires")}: ${ban.expiresAt.toLocaleString()}`
+                    : null,
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              />
+            </ListItem>
+          ))
+        ) : (
+          <ListItem>
+            <ListItemText primary={t("bans.empty")} />
+          </ListItem>
+        )}
+      </List>
+    </Box>
+  );
+}
@@ -0,0 +1,68 @@
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { ChallengeMode } from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface ChallengeModeSectionProps {
+  mode: ChallengeMode;
+  threshold: number;
+  onModeChange: (mode: ChallengeMode) => void;
+  onThresholdChange: (threshold: number) => void;
+}
+
+// 接続チャレンジ（アンダーアタックモード）の設定
+// 保存は運用タブの保存ボタンでまとめて行う
+export default function ChallengeModeSection({
+  mode,
+  threshold,
+  onModeChange,
+  onThresholdChange,
+}: ChallengeModeSectionProps) {
+  const { t } = useLanguageContext();
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" className="section-title">
+        {t("challenge.title")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {t("challenge.description")}
+      </Typography>
+
+      <Stack direction={{ xs: "column", md: "row" }} spacing={1.5} sx={{ mt: 1.5 }}>
+        <FormControl size="small" sx={{ flex: 1 }}>
+          <InputLabel>{t("challenge.mode")}</InputLabel>
+          <Select
+            value={mode}
+            label={t("challenge.mode")}
+            onChange={(e) => onModeChange(e.target.value as ChallengeMode)}
+          >
+            <MenuItem value="off">{t("challenge.off")}</MenuItem>
+            <MenuItem value="auto">{t("challenge.auto")}</MenuItem>
+            <MenuItem value="always">{t("challenge.always")}</MenuItem>
+          </Select>
+        </FormControl>
+        <TextField
+          type="number"
+          value={threshold}
+          onChange={(e) =>
+            onThresholdChange(Math.max(1, parseInt(e.target.value) || 1))
+          }
+          label={t("challenge.threshold")}
+          size="small"
+          disabled={mode !== "auto"}
+          inputProps={{ min: 1 }}
+          sx={{ flex: 1 }}
+        />
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  Chip,
+  Collapse,
+  List,
+  ListItemButton,
+  ListItemText,
+  Stack,
+  Typography,
+} from "@mui/material";
+import {
+  bedrockProxyAPI,
+  type CrashRecoveryState,
+  type CrashReport,
+} from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface CrashReportsSectionProps {
+  serverId: string;
+  crashRecovery: CrashRecoveryState | null;
+  onMessage: (message: string, severity: "success" | "error") => void;
+}
+
+const ACTION_COLORS: Record<CrashReport["action"], "warning" | "error" | "default"> = {
+  restart: "warning",
+  gaveUp: "error",
+  none: "default",
+};
+
+// 終了コードまたはシグナルの表示
+function describeExit(report: CrashReport): string {
+  if (report.signal) return report.signal;
+  return `exit ${report.exitCode ?? "?"}`;
+}
+
+// サーバープロセスのクラッシュ履歴と、クラッシュ直前のコンソール出力
+export default function CrashReportsSection({
+  serverId,
+  crashRecovery,
+  onMessage,
+}: CrashReportsSectionProps) {
+  const { t } = useLanguageContext();
+  const [reports, setReports] = useState<CrashReport[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    try {
+      setReports(await bedrockProxyAPI.getCrashReports(serverId));
+    } catch (error) {
+      console.error("❌ Failed to load crash reports:", error);
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    loadReports();
+
+    const handleServerCrashed = (data: any) => {
+      if (data?.serverId !== serverId) return;
+      loadReports();
+      const action = data.report?.action as CrashReport["action"] | undefined;
+      onMessage(
+        action === "gaveUp"
+          ? t("crash.loopDetected")
+          : action === "restart"
+            ? t("crash.restarting").replace("{seconds}", String(data.report.restartDelay))
+            : t("crash.detected"),
+        "error"
+      );
+    };
+    bedrockProxyAPI.subscribe(["server.crashed"]).catch(() => {});
+    bedrockProxyAPI.on("server.crashed", handleServerCrashed);
+    return () => {
+      bedrockProxyAPI.off("server.crashed", handleServerCrashed);
+    };
+  }, [serverId, loadReports]);
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Typography variant="subtitle2" className="section-title">
+          {t("crash.title")}
+        </Typography>
+        {crashRecovery?.nextRestartAt && (
+          <Chip
+            size="small"
+            color="warning"
+            label={`${t("crash.nextRestart")}: ${new Date(crashRecovery.nextRestartAt).toLocaleTimeString()}`}
+          />
+        )}
+        {crashRecovery?.gaveUp && (
+          <Chip size="small" color="error" label={t("crash.action.gaveUp")} />
+        )}
+      </Stack>
+      <Typography variant="caption" className="muted">
+        {t("crash.description")}
+      </Typography>
+
+      <List dense>
+        {reports.length > 0 ? (
+          reports.map((report) => (
+            <Box key={report.id}>
+              <ListItemButton
+                onClick={() => setExpandedId(expandedId === report.id ? null : report.id)}
+              >
+                <Chip
+                  size="small"
+                  color={ACTION_COLORS[report.action]}
+                  label={t(`crash.action.${report.action}`)}
+                  sx={{ mr: 1 }}
+                />
+                <ListItemText
+                  primary={report.time.toLocaleString()}
+                  secondary={[
+                    describeExit(report),
+                    report.restartDelay !== undefined
+                      ? `${t("crash.restartDelay")}: ${report.restartDelay}s`
+                      : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" • ")}
+                />
+              </ListItemButton>
+              <Collapse in={expandedId === report.id} unmountOnExit>
+                <Box
+                  component="pre"
+                  sx={{
+                    m: 0,
+                    mx: 2,
+                    mb: 1,
+                    p: 1,
+                    maxHeight: 240,
+                    overflow: "auto",
+                    fontFamily: "monospace",
+                    fontSize: "0.75rem",
+                    whiteSpace: "pre-wrap",
+                    wordBreak: "break-all",
+                    bgcolor: "action.hover",
+                    borderRadius: 1,
+                  }}
+                >
+                  {report.consoleLines.length > 0
+                    ? report.consoleLines.join("\n")
+                    : t("crash.noOutput")}
+                </Box>
+              </Collapse>
+            </Box>
+          ))
+        ) : (
+          <Box sx={{ px: 2, py: 1 }}>
+            <Typography variant="body2" className="muted">
+              {t("crash.empty")}
+            </Typography>
+          </Box>
+        )}
+      </List>
+    </Box>
+  );
+}
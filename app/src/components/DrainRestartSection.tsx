@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { bedrockProxyAPI, type DrainState, type Server } from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface DrainRestartSectionProps {
+  serverId: string;
+  drain: DrainState | null;
+  online: boolean;
+  canRedirect: boolean; // forwardAddress が設定されているか
+  onUpdated: (server: Server) => void;
+  onMessage: (message: string, severity: "success" | "error") => void;
+}
+
+// 期限までの残り秒数（1秒ごとに更新）
+function useRemainingSeconds(deadline?: string): number {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return deadline ? Math.max(0, Math.ceil((Date.parse(deadline) - now) / 1000)) : 0;
+}
+
+// 新規セッションを止め、プレイヤーの退出を待ってから再起動する
+export default function DrainRestartSection({
+  serverId,
+  drain,
+  online,
+  canRedirect,
+  onUpdated,
+  onMessage,
+}: DrainRestartSectionProps) {
+  const { t } = useLanguageContext();
+  const [timeout, setTimeoutSeconds] = useState(300);
+  const [redirect, setRedirect] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const remaining = useRemainingSeconds(drain?.phase === "draining" ? drain.deadline : undefined);
+
+  const run = async (action: () => Promise<Server>, failedKey: string) => {
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      onUpdated(await action());
+    } catch (error) {
+      onMessage(
+        `${t(failedKey)}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDrain = () =>
+    run(
+      () => bedrockProxyAPI.drainServer(serverId, timeout, redirect && canRedirect),
+      "drain.startFailed"
+    );
+
+  const handleCancel = () =>
+    run(() => bedrockProxyAPI.cancelDrain(serverId), "drain.cancelFailed");
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Typography variant="subtitle2" className="section-title">
+          {t("drain.title")}
+        </Typography>
+        {drain && (
+          <Chip
+            size="small"
+            color="warning"
+            label={
+              drain.phase === "restarting"
+                ? t("drain.restarting")
+                : t("drain.remaining").replace("{seconds}", String(remaining))
+            }
+          />
+        )}
+      </Stack>
+      <Typography variant="caption" className="muted">
+        {t("drain.description")}
+      </Typography>
+
+      <Stack direction={{ xs: "column", md: "row" }} spacing={1.5} alignItems={{ md: "center" }} sx={{ mt: 1.5 }}>
+        <TextField
+          type="number"
+          value={timeout}
+          onChange={(e) =>
+            setTimeoutSeconds(Math.min(3600, Math.max(0, parseInt(e.target.value) || 0)))
+          }
+          label={t("drain.timeout")}
+          size="small"
+          disabled={!!drain}
+          inputProps={{ min: 0, max: 3600 }}
+          sx={{ flex: 1 }}
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={redirect && canRedirect}
+              onChange={(e) => setRedirect(e.target.checked)}
+              disabled={!canRedirect || !!drain}
+            />
+          }
+          label={t("drain.redirect")}
+          sx={{ flex: 1 }}
+        />
+        {drain ? (
+          <Button
+            variant="outlined"
+            color="warning"
+            onClick={handleCancel}
+            disabled={isSubmitting || drain.phase === "restarting"}
+          >
+            {t("drain.cancel")}
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={handleDrain}
+            disabled={isSubmitting || !online}
+          >
+            {t("drain.start")}
+          </Button>
+        )}
+      </Stack>
+      {!canRedirect && (
+        <Typography variant="caption" className="muted">
+          {t("drain.redirectUnavailable")}
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,116 @@
+import {
+  Box,
+  Button,
+  Chip,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { MaintenanceWindow } from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface MaintenanceSectionProps {
+  active: boolean; // 現在メンテナンス中か（保存済みの状態）
+  message: string;
+  window: MaintenanceWindow | null;
+  onToggle: (enabled: boolean) => void;
+  onMessageChange: (message: string) => void;
+  onWindowChange: (window: MaintenanceWindow | null) => void;
+}
+
+// ISO 8601 と datetime-local 入力（ローカル時刻、分単位）の相互変換
+function toLocalInput(iso?: string): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// メンテナンスモードの切り替えと予定
+// 開始・終了はすぐに反映し、切断メッセージと予定は運用タブの保存ボタンでまとめて保存する
+export default function MaintenanceSection({
+  active,
+  message,
+  window,
+  onToggle,
+  onMessageChange,
+  onWindowChange,
+}: MaintenanceSectionProps) {
+  const { t } = useLanguageContext();
+
+  const handleStartsAtChange = (value: string) => {
+    const startsAt = fromLocalInput(value);
+    onWindowChange(startsAt ? { startsAt, endsAt: window?.endsAt } : null);
+  };
+
+  const handleEndsAtChange = (value: string) => {
+    if (!window) return;
+    onWindowChange({ startsAt: window.startsAt, endsAt: fromLocalInput(value) });
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Typography variant="subtitle2" className="section-title">
+          {t("maintenance.title")}
+        </Typography>
+        {active && (
+          <Chip size="small" color="warning" label={t("maintenance.active")} />
+        )}
+      </Stack>
+      <Typography variant="caption" className="muted">
+        {t("maintenance.description")}
+      </Typography>
+
+      <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+        <TextField
+          value={message}
+          onChange={(e) => onMessageChange(e.target.value)}
+          placeholder={t("maintenance.messagePlaceholder")}
+          label={t("maintenance.message")}
+          size="small"
+          inputProps={{ maxLength: 256 }}
+          sx={{ flex: 1 }}
+        />
+        <Button
+          variant={active ? "outlined" : "contained"}
+          color="warning"
+          onClick={() => onToggle(!active)}
+        >
+          {active ? t("maintenance.end") : t("maintenance.start")}
+        </Button>
+      </Stack>
+
+      <Stack direction={{ xs: "column", md: "row" }} spacing={1.5} sx={{ mt: 1.5 }}>
+        <TextField
+          type="datetime-local"
+          value={toLocalInput(window?.startsAt)}
+          onChange={(e) => handleStartsAtChange(e.target.value)}
+          label={t("maintenance.startsAt")}
+          size="small"
+          InputLabelProps={{ shrink: true }}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          type="datetime-local"
+          value={toLocalInput(window?.endsAt)}
+          onChange={(e) => handleEndsAtChange(e.target.value)}
+          label={t("maintenance.endsAt")}
+          size="small"
+          disabled={!window}
+          InputLabelProps={{ shrink: true }}
+          sx={{ flex: 1 }}
+        />
+        <Button onClick={() => onWindowChange(null)} disabled={!window}>
+          {t("maintenance.clearSchedule")}
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Typography,
+} from "@mui/material";
+import {
+  bedrockProxyAPI,
+  type ProxyProtocolEmission,
+  type ProxyProtocolFormat,
+  type ProxyProtocolProbeResult,
+} from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface OutboundProxyProtocolSectionProps {
+  serverId: string;
+  format: ProxyProtocolFormat;
+  emission: ProxyProtocolEmission;
+  onFormatChange: (format: ProxyProtocolFormat) => void;
+  onEmissionChange: (emission: ProxyProtocolEmission) => void;
+  onMessage: (message: string, severity: "success" | "error") => void;
+}
+
+const PROBE_STATUS_COLORS = {
+  compatible: "success",
+  incompatible: "warning",
+  unreachable: "default",
+} as const;
+
+// 転送先へ真のクライアントIPを伝えるヘッダーの設定
+// 保存は運用タブの保存ボタンでまとめて行う（互換性の確認は保存前の形式で行える）
+export default function OutboundProxyProtocolSection({
+  serverId,
+  format,
+  emission,
+  onFormatChange,
+  onEmissionChange,
+  onMessage,
+}: OutboundProxyProtocolSectionProps) {
+  const { t } = useLanguageContext();
+  const [probeResults, setProbeResults] = useState<ProxyProtocolProbeResult[]>([]);
+  const [isProbing, setIsProbing] = useState(false);
+
+  const handleProbe = async () => {
+    if (isProbing) return;
+
+    setIsProbing(true);
+    try {
+      setProbeResults(
+        await bedrockProxyAPI.probeProxyProtocol(serverId, format === "v1" ? "v1" : "v2")
+      );
+    } catch (error) {
+      onMessage(
+        `${t("proxyProtocol.probeFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setIsProbing(false);
+    }
+  };
+
+  return (
+    <Box className="forward-settings">
+      <Typography variant="body2" gutterBottom>
+        {t("proxyProtocol.outboundTitle")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {t("proxyProtocol.outboundDescription")}
+      </Typography>
+
+      <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+        <FormControl fullWidth size="small">
+          <InputLabel>{t("proxyProtocol.format")}</InputLabel>
+          <Select
+            value={format}
+            label={t("proxyProtocol.format")}
+            onChange={(e) => onFormatChange(e.target.value as ProxyProtocolFormat)}
+          >
+            <MenuItem value="none">{t("proxyProtocol.formatNone")}</MenuItem>
+            <MenuItem value="v1">{t("proxyProtocol.formatV1")}</MenuItem>
+            <MenuItem value="v2">{t("proxyProtocol.formatV2")}</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl fullWidth size="small" disabled={format === "none"}>
+          <InputLabel>{t("proxyProtocol.emission")}</InputLabel>
+          <Select
+            value={emission}
+            label={t("proxyProtocol.emission")}
+            onChange={(e) => onEmissionChange(e.target.value as ProxyProtocolEmission)}
+          >
+            <MenuItem value="every-packet">{t("proxyProtocol.emissionEveryPacket")}</MenuItem>
+            <MenuItem value="first-packet">{t("proxyProtocol.emissionFirstPacket")}</MenuItem>
+            <MenuItem value="preamble">{t("proxyProtocol.emissionPreamble")}</MenuItem>
+            <MenuItem value="never">{t("proxyProtocol.emissionNever")}</MenuItem>
+          </Select>
+        </FormControl>
+      </Stack>
+
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1.5 }}>
+        <Button variant="outlined" size="small" onClick={handleProbe} disabled={isProbing}>
+          {isProbing ? t("proxyProtocol.probing") : t("proxyProtocol.probe")}
+        </Button>
+        <Typography variant="caption" className="muted">
+          {t("proxyProtocol.probeDescription")}
+        </Typography>
+      </Stack>
+
+      {probeResults.length > 0 && (
+        <Stack spacing={0.5} sx={{ mt: 1 }}>
+          {probeResults.map((result) => (
+            <Stack key={result.destination} direction="row" spacing={1} alignItems="center">
+              <Typography variant="body2" sx={{ fontFamily: "monospace" }}>
+                {result.destination}
+              </Typography>
+              <Chip
+                size="small"
+                color={PROBE_STATUS_COLORS[result.status]}
+                label={`${t(`proxyProtocol.probeStatus.${result.status}`)} (${result.format})`}
+              />
+              {result.latency !== undefined && (
+                <Typography variant="caption" className="muted">
+                  {result.latency}ms
+                </Typography>
+              )}
+            </Stack>
+          ))}
+        </Stack>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DownloadRoundedIcon from "@mui/icons-material/DownloadRounded";
+import StopRoundedIcon from "@mui/icons-material/StopRounded";
+import { bedrockProxyAPI, type CaptureInfo } from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface PacketCaptureSectionProps {
+  serverId: string;
+  clients: Array<{ key: string; label: string }>; // 接続中のセッション（"address:port"）
+  onMessage: (message: string, severity: "success" | "error") => void;
+}
+
+const ALL_CLIENTS = "";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// プロキシの通信を pcapng で記録し、Wireshark で開けるように保存する
+export default function PacketCaptureSection({
+  serverId,
+  clients,
+  onMessage,
+}: PacketCaptureSectionProps) {
+  const { t } = useLanguageContext();
+  const [captures, setCaptures] = useState<CaptureInfo[]>([]);
+  const [clientKey, setClientKey] = useState(ALL_CLIENTS);
+  const [maxDuration, setMaxDuration] = useState(300);
+  const [maxMegabytes, setMaxMegabytes] = useState(50);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const loadCaptures = useCallback(async () => {
+    try {
+      setCaptures(await bedrockProxyAPI.listCaptures(serverId));
+    } catch (error) {
+      console.error("❌ Failed to load captures:", error);
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    loadCaptures();
+
+    const handleCaptureStopped = (data: any) => {
+      if (data?.serverId === serverId) {
+        loadCaptures();
+      }
+    };
+    bedrockProxyAPI.subscribe(["capture.stopped"]).catch(() => {});
+    bedrockProxyAPI.on("capture.stopped", handleCaptureStopped);
+    return () => {
+      bedrockProxyAPI.off("capture.stopped", handleCaptureStopped);
+    };
+  }, [serverId, loadCaptures]);
+
+  const handleStart = async () => {
+    if (isStarting) return;
+
+    setIsStarting(true);
+    try {
+      await bedrockProxyAPI.startCapture(serverId, {
+        clientKey: clientKey || undefined,
+        maxDuration,
+        maxBytes: maxMegabytes * 1024 * 1024,
+      });
+      await loadCaptures();
+      onMessage(t("capture.started"), "success");
+    } catch (error) {
+      onMessage(
+        `${t("capture.startFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleStop = async (capture: CaptureInfo) => {
+    try {
+      await bedrockProxyAPI.stopCapture(capture.id);
+      await loadCaptures();
+    } catch (error) {
+      onMessage(
+        `${t("capture.stopFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  const handleDownload = async (capture: CaptureInfo) => {
+    try {
+      const { fileName, data } = await bedrockProxyAPI.downloadCapture(capture.id);
+      const url = URL.createObjectURL(
+        new Blob([data], { type: "application/vnd.tcpdump.pcap" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      onMessage(
+        `${t("capture.downloadFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="subtitle2" className="section-title">
+        {t("capture.title")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {t("capture.description")}
+      </Typography>
+
+      <Stack direction={{ xs: "column", md: "row" }} spacing={1} sx={{ mt: 1.5 }}>
+        <FormControl size="small" sx={{ flex: 2 }}>
+          <InputLabel>{t("capture.target")}</InputLabel>
+          <Select
+            value={clientKey}
+            label={t("capture.target")}
+            onChange={(e) => setClientKey(e.target.value)}
+          >
+            <MenuItem value={ALL_CLIENTS}>{t("capture.allClients")}</MenuItem>
+            {clients.map((client) => (
+              <MenuItem key={client.key} value={client.key}>
+                {client.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          type="number"
+          value={maxDuration}
+          onChange={(e) =>
+            setMaxDuration(Math.min(3600, Math.max(1, parseInt(e.target.value) || 1)))
+          }
+          label={t("capture.maxDuration")}
+          size="small"
+          inputProps={{ min: 1, max: 3600 }}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          type="number"
+          value={maxMegabytes}
+          onChange={(e) =>
+            setMaxMegabytes(Math.min(500, Math.max(1, parseInt(e.target.value) || 1)))
+          }
+          label={t("capture.maxSize")}
+          size="small"
+          inputProps={{ min: 1, max: 500 }}
+          sx={{ flex: 1 }}
+        />
+        <Button variant="outlined" onClick={handleStart} disabled={isStarting}>
+          {t("capture.start")}
+        </Button>
+      </Stack>
+
+      <List dense>
+        {captures.length > 0 ? (
+          captures.map((capture) => (
+            <ListItem
+              key={capture.id}
+              secondaryAction={
+                capture.status === "running" ? (
+                  <Tooltip title={t("capture.stop")}>
+                    <IconButton edge="end" size="small" onClick={() => handleStop(capture)}>
+                      <StopRoundedIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                ) : (
+                  <Tooltip title={t("capture.download")}>
+                    <IconButton edge="end" size="small" onClick={() => handleDownload(capture)}>
+                      <DownloadRoundedIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )
+              }
+            >
+              <Chip
+                size="small"
+                color={capture.status === "running" ? "error" : "default"}
+                label={
+                  capture.status === "running"
+                    ? t("capture.running")
+                    : t(`capture.stopReason.${capture.stopReason ?? "manual"}`)
+                }
+                sx={{ mr: 1 }}
+              />
+              <ListItemText
+                primary={capture.fileName}
+                secondary={[
+                  capture.startedAt.toLocaleString(),
+                  capture.clientKey,
+                  formatSize(capture.bytes),
+                  capture.packets > 0 ? `${capture.packets.toLocaleString()} ${t("network.packets")}` : null,
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              />
+            </ListItem>
+          ))
+        ) : (
+          <ListItem>
+            <ListItemText primary={t("capture.empty")} />
+          </ListItem>
+        )}
+      </List>
+    </Box>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface ProxyProtocolSecuritySectionProps {
+  trustedProxies: string[];
+  strict: boolean;
+  checksum: boolean;
+  onTrustedProxiesChange: (value: string[]) => void;
+  onStrictChange: (value: boolean) => void;
+  onChecksumChange: (value: boolean) => void;
+}
+
+// IPアドレス / CIDR の簡易チェック（厳密な検証はバックエンドで行う）
+const isIpOrCidr = (value: string) => /^[0-9a-fA-F:.]+(\/\d{1,3})?$/.test(value);
+
+// Proxy Protocolヘッダーを受け付ける上流プロキシと検証の設定
+// 保存は運用タブの保存ボタンでまとめて行う
+export default function ProxyProtocolSecuritySection({
+  trustedProxies,
+  strict,
+  checksum,
+  onTrustedProxiesChange,
+  onStrictChange,
+  onChecksumChange,
+}: ProxyProtocolSecuritySectionProps) {
+  const { t } = useLanguageContext();
+  const [newEntry, setNewEntry] = useState("");
+
+  const handleAdd = () => {
+    const entry = newEntry.trim();
+    if (!isIpOrCidr(entry) || trustedProxies.includes(entry)) return;
+
+    onTrustedProxiesChange([...trustedProxies, entry]);
+    setNewEntry("");
+  };
+
+  return (
+    <Box className="forward-settings">
+      <Typography variant="body2" gutterBottom>
+        {t("proxyProtocol.trustedTitle")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {trustedProxies.length > 0
+          ? t("proxyProtocol.trustedDescription")
+          : t("proxyProtocol.trustedEmpty")}
+      </Typography>
+
+      {trustedProxies.length > 0 && (
+        <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mt: 1.5 }}>
+          {trustedProxies.map((entry) => (
+            <Chip
+              key={entry}
+              label={entry}
+              size="small"
+              onDelete={() =>
+                onTrustedProxiesChange(trustedProxies.filter((e) => e !== entry))
+              }
+            />
+          ))}
+        </Stack>
+      )}
+
+      <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+        <TextField
+          value={newEntry}
+          onChange={(e) => setNewEntry(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="203.0.113.0/24"
+          label={t("proxyProtocol.addTrusted")}
+          size="small"
+          sx={{ flex: 1 }}
+        />
+        <Button
+          variant="outlined"
+          onClick={handleAdd}
+          disabled={!isIpOrCidr(newEntry.trim())}
+        >
+          {t("proxyProtocol.add")}
+        </Button>
+      </Stack>
+
+      <Stack spacing={0.5} sx={{ mt: 1.5 }}>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={strict}
+              onChange={(e) => onStrictChange(e.target.checked)}
+              color="primary"
+            />
+          }
+          label={
+            <Box>
+              <Typography variant="body2">{t("proxyProtocol.strict")}</Typography>
+              <Typography variant="caption" className="muted">
+                {t("proxyProtocol.strictDesc")}
+              </Typography>
+            </Box>
+          }
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={checksum}
+              onChange={(e) => onChecksumChange(e.target.checked)}
+              color="primary"
+            />
+          }
+          label={
+            <Box>
+              <Typography variant="body2">{t("proxyProtocol.checksum")}</Typography>
+              <Typography variant="caption" className="muted">
+                {t("proxyProtocol.checksumDesc")}
+              </Typography>
+            </Box>
+          }
+        />
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,83 @@
+import { Box, TextField, Typography } from "@mui/material";
+import type { RateLimitSettings } from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface RateLimitSectionProps {
+  value: RateLimitSettings;
+  onChange: (value: RateLimitSettings) => void;
+  maxConnections: number;
+  onMaxConnectionsChange: (value: number) => void;
+}
+
+// バイト数の項目はKB単位で入力する
+const KB_FIELDS: Array<keyof RateLimitSettings> = ["bytesPerSecond", "globalBytesPerSecond"];
+
+// プロキシのレート制限と自動バンの設定
+// 保存は運用タブの保存ボタンでまとめて行う
+export default function RateLimitSection({
+  value,
+  onChange,
+  maxConnections,
+  onMaxConnectionsChange,
+}: RateLimitSectionProps) {
+  const { t } = useLanguageContext();
+
+  const fields: Array<{ key: keyof RateLimitSettings; label: string }> = [
+    { key: "packetsPerSecond", label: t("rateLimit.packetsPerSecond") },
+    { key: "bytesPerSecond", label: t("rateLimit.kilobytesPerSecond") },
+    { key: "globalPacketsPerSecond", label: t("rateLimit.globalPacketsPerSecond") },
+    { key: "globalBytesPerSecond", label: t("rateLimit.globalKilobytesPerSecond") },
+    { key: "autoBanThreshold", label: t("rateLimit.autoBanThreshold") },
+    { key: "autoBanDuration", label: t("rateLimit.autoBanDuration") },
+  ];
+
+  const toDisplay = (key: keyof RateLimitSettings) =>
+    KB_FIELDS.includes(key) ? Math.round(value[key] / 1024) : value[key];
+
+  const handleChange = (key: keyof RateLimitSettings, input: string) => {
+    const parsed = Math.max(0, parseInt(input) || 0);
+    onChange({ ...value, [key]: KB_FIELDS.includes(key) ? parsed * 1024 : parsed });
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" className="section-title">
+        {t("rateLimit.title")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {t("rateLimit.description")}
+      </Typography>
+
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "1fr", md: "1fr 1fr" },
+          gap: 1.5,
+          mt: 1.5,
+        }}
+      >
+        {fields.map((field) => (
+          <TextField
+            key={field.key}
+            type="number"
+            value={toDisplay(field.key)}
+            onChange={(e) => handleChange(field.key, e.target.value)}
+            label={field.label}
+            size="small"
+            inputProps={{ min: 0 }}
+          />
+        ))}
+        <TextField
+          type="number"
+          value={maxConnections}
+          onChange={(e) =>
+            onMaxConnectionsChange(Math.min(100000, Math.max(1, parseInt(e.target.value) || 1)))
+          }
+          label={t("rateLimit.maxConnections")}
+          size="small"
+          inputProps={{ min: 1, max: 100000 }}
+        />
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,448 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DeleteOutlineRoundedIcon from "@mui/icons-material/DeleteOutlineRounded";
+import EditRoundedIcon from "@mui/icons-material/EditRounded";
+import PlayArrowRoundedIcon from "@mui/icons-material/PlayArrowRounded";
+import {
+  bedrockProxyAPI,
+  type ScheduleAction,
+  type ScheduleActionType,
+  type ScheduledTask,
+} from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface ScheduleSectionProps {
+  serverId: string;
+  onMessage: (message: string, severity: "success" | "error") => void;
+}
+
+const ACTION_TYPES: ScheduleActionType[] = ["restart", "stop", "start", "command", "broadcast", "backup", "plugin"];
+
+const CRON_PRESETS = ["0 4 * * *", "0 */6 * * *", "30 3 * * MON", "@hourly"];
+
+// 入力中の cron 式の実行予定（入力が落ち着いてから問い合わせる）
+function useCronPreview(cron: string): { runs: Date[]; error: string | null } {
+  const [runs, setRuns] = useState<Date[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cron.trim()) {
+      setRuns([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const next = await bedrockProxyAPI.previewSchedule(cron, 3);
+        if (!cancelled) {
+          setRuns(next);
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setRuns([]);
+          setError(e instanceof Error ? e.message : String(e));
+        }
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [cron]);
+
+  return { runs, error };
+}
+
+// サーバーごとのスケジュールされたタスク（定期再起動・コマンド・お知らせ・バックアップなど）
+export default function ScheduleSection({ serverId, onMessage }: ScheduleSectionProps) {
+  const { t } = useLanguageContext();
+  const [schedules, setSchedules] = useState<ScheduledTask[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [cron, setCron] = useState("");
+  const [actionType, setActionType] = useState<ScheduleActionType>("restart");
+  const [command, setCommand] = useState("");
+  const [message, setMessage] = useState("");
+  const [drainTimeout, setDrainTimeout] = useState(0);
+  const [payload, setPayload] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const preview = useCronPreview(cron);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setSchedules(await bedrockProxyAPI.getSchedules(serverId));
+    } catch (error) {
+      console.error("❌ Failed to load schedules:", error);
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    loadSchedules();
+
+    const handleScheduleExecuted = (data: any) => {
+      if (data?.serverId === serverId) {
+        loadSchedules();
+      }
+    };
+    bedrockProxyAPI.subscribe(["schedule.executed"]).catch(() => {});
+    bedrockProxyAPI.on("schedule.executed", handleScheduleExecuted);
+    return () => {
+      bedrockProxyAPI.off("schedule.executed", handleScheduleExecuted);
+    };
+  }, [serverId, loadSchedules]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setCron("");
+    setActionType("restart");
+    setCommand("");
+    setMessage("");
+    setDrainTimeout(0);
+    setPayload("");
+  };
+
+  const buildAction = (): ScheduleAction => {
+    switch (actionType) {
+      case "restart":
+        return { type: actionType, drainTimeout: drainTimeout > 0 ? drainTimeout : undefined };
+      case "command":
+        return { type: actionType, command: command.trim() };
+      case "broadcast":
+        return { type: actionType, message: message.trim() };
+      case "plugin":
+        return { type: actionType, payload: payload.trim() ? JSON.parse(payload) : undefined };
+      default:
+        return { type: actionType };
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim() || !cron.trim() || isSubmitting) return;
+
+    let action: ScheduleAction;
+    try {
+      action = buildAction();
+    } catch (error) {
+      onMessage(`${t("schedule.invalidPayload")}: ${error instanceof Error ? error.message : String(error)}`, "error");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (editingId) {
+        await bedrockProxyAPI.updateSchedule(editingId, { name: name.trim(), cron: cron.trim(), action });
+        onMessage(`${t("schedule.updated")}: ${name.trim()}`, "success");
+      } else {
+        await bedrockProxyAPI.addSchedule(serverId, { name: name.trim(), cron: cron.trim(), action, enabled: true });
+        onMessage(`${t("schedule.added")}: ${name.trim()}`, "success");
+      }
+      resetForm();
+      await loadSchedules();
+    } catch (error) {
+      onMessage(
+        `${t("schedule.saveFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (schedule: ScheduledTask) => {
+    setEditingId(schedule.id);
+    setName(schedule.name);
+    setCron(schedule.cron);
+    setActionType(schedule.action.type);
+    setCommand(schedule.action.command ?? "");
+    setMessage(schedule.action.message ?? "");
+    setDrainTimeout(schedule.action.drainTimeout ?? 0);
+    setPayload(schedule.action.payload ? JSON.stringify(schedule.action.payload) : "");
+  };
+
+  const handleToggle = async (schedule: ScheduledTask, enabled: boolean) => {
+    try {
+      const updated = await bedrockProxyAPI.updateSchedule(schedule.id, { enabled });
+      setSchedules((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (error) {
+      onMessage(
+        `${t("schedule.saveFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  const handleRun = async (schedule: ScheduledTask) => {
+    setRunningId(schedule.id);
+    try {
+      const { run } = await bedrockProxyAPI.runSchedule(schedule.id);
+      if (run.success) {
+        onMessage(`${t("schedule.runSucceeded")}: ${schedule.name}`, "success");
+      } else {
+        onMessage(`${t("schedule.runFailed")}: ${run.error ?? schedule.name}`, "error");
+      }
+      await loadSchedules();
+    } catch (error) {
+      onMessage(
+        `${t("schedule.runFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleRemove = async (schedule: ScheduledTask) => {
+    try {
+      await bedrockProxyAPI.removeSchedule(schedule.id);
+      if (editingId === schedule.id) resetForm();
+      setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+      onMessage(`${t("schedule.removed")}: ${schedule.name}`, "success");
+    } catch (error) {
+      onMessage(
+        `${t("schedule.removeFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  const describeAction = (action: ScheduleAction): string => {
+    const label = t(`schedule.action.${action.type}`);
+    if (action.type === "command") return `${label}: ${action.command}`;
+    if (action.type === "broadcast") return `${label}: ${action.message}`;
+    if (action.type === "restart" && action.drainTimeout) {
+      return `${label} (${t("schedule.drainTimeout")}: ${action.drainTimeout})`;
+    }
+    return label;
+  };
+
+  const canSubmit =
+    !!name.trim() &&
+    !!cron.trim() &&
+    !preview.error &&
+    (actionType !== "command" || !!command.trim()) &&
+    (actionType !== "broadcast" || !!message.trim());
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" className="section-title">
+        {t("schedule.title")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {t("schedule.description")}
+      </Typography>
+
+      <Stack spacing={1.5} sx={{ mt: 1.5 }}>
+        <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+          <TextField
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            label={t("schedule.name")}
+            size="small"
+            inputProps={{ maxLength: 64 }}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            label={t("schedule.cron")}
+            placeholder={CRON_PRESETS[0]}
+            size="small"
+            error={!!preview.error}
+            helperText={
+              preview.error ??
+              (preview.runs.length > 0
+                ? `${t("schedule.nextRuns")}: ${preview.runs.map((run) => run.toLocaleString()).join(", ")}`
+                : t("schedule.cronHelp"))
+            }
+            sx={{ flex: 1 }}
+          />
+        </Stack>
+
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          {CRON_PRESETS.map((preset) => (
+            <Chip key={preset} size="small" label={preset} onClick={() => setCron(preset)} />
+          ))}
+        </Stack>
+
+        <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>{t("schedule.actionType")}</InputLabel>
+            <Select
+              value={actionType}
+              label={t("schedule.actionType")}
+              onChange={(e) => setActionType(e.target.value as ScheduleActionType)}
+            >
+              {ACTION_TYPES.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {t(`schedule.action.${type}`)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {actionType === "restart" && (
+            <TextField
+              type="number"
+              value={drainTimeout}
+              onChange={(e) => setDrainTimeout(Math.min(3600, Math.max(0, parseInt(e.target.value) || 0)))}
+              label={t("schedule.drainTimeout")}
+              helperText={t("schedule.drainTimeoutHelp")}
+              size="small"
+              inputProps={{ min: 0, max: 3600 }}
+              sx={{ flex: 1 }}
+            />
+          )}
+          {actionType === "command" && (
+            <TextField
+              value={command}
+              onChange={(e) => setCommand(e.target.value)}
+              label={t("schedule.command")}
+              placeholder="save hold"
+              size="small"
+              inputProps={{ maxLength: 256 }}
+              sx={{ flex: 1 }}
+            />
+          )}
+          {actionType === "broadcast" && (
+            <TextField
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              label={t("schedule.message")}
+              size="small"
+              inputProps={{ maxLength: 256 }}
+              sx={{ flex: 1 }}
+            />
+          )}
+          {actionType === "plugin" && (
+            <TextField
+              value={payload}
+              onChange={(e) => setPayload(e.target.value)}
+              label={t("schedule.payload")}
+              placeholder='{"key": "value"}'
+              size="small"
+              sx={{ flex: 1 }}
+            />
+          )}
+        </Stack>
+
+        <Stack direction="row" spacing={1}>
+          <Button variant="outlined" onClick={handleSubmit} disabled={!canSubmit || isSubmitting}>
+            {editingId ? t("schedule.save") : t("schedule.add")}
+          </Button>
+          {editingId && (
+            <Button onClick={resetForm} disabled={isSubmitting}>
+              {t("schedule.cancelEdit")}
+            </Button>
+          )}
+        </Stack>
+      </Stack>
+
+      <List dense>
+        {schedules.length > 0 ? (
+          schedules.map((schedule) => {
+            const lastRun = schedule.history[0];
+            return (
+              <ListItem
+                key={schedule.id}
+                secondaryAction={
+                  <Stack direction="row" spacing={0.5}>
+                    <Tooltip title={t("schedule.runNow")}>
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleRun(schedule)}
+                          disabled={runningId !== null}
+                        >
+                          <PlayArrowRoundedIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title={t("schedule.edit")}>
+                      <IconButton size="small" onClick={() => handleEdit(schedule)}>
+                        <EditRoundedIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title={t("schedule.remove")}>
+                      <IconButton edge="end" size="small" onClick={() => handleRemove(schedule)}>
+                        <DeleteOutlineRoundedIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Stack>
+                }
+                sx={{ pr: 16 }}
+              >
+                <Switch
+                  size="small"
+                  checked={schedule.enabled}
+                  onChange={(e) => handleToggle(schedule, e.target.checked)}
+                  sx={{ mr: 1 }}
+                />
+                <ListItemText
+                  primary={
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <span>{schedule.name}</span>
+                      {lastRun && (
+                        <Tooltip
+                          title={
+                            <Box sx={{ whiteSpace: "pre-line" }}>
+                              {schedule.history
+                                .slice(0, 5)
+                                .map(
+                                  (run) =>
+                                    `${run.startedAt.toLocaleString()} ${run.success ? "✓" : `✗ ${run.error ?? ""}`}`
+                                )
+                                .join("\n")}
+                            </Box>
+                          }
+                        >
+                          <Chip
+                            size="small"
+                            color={lastRun.success ? "success" : "error"}
+                            label={lastRun.success ? t("schedule.lastSucceeded") : t("schedule.lastFailed")}
+                          />
+                        </Tooltip>
+                      )}
+                    </Stack>
+                  }
+                  secondary={[
+                    schedule.cron,
+                    describeAction(schedule.action),
+                    schedule.enabled && schedule.nextRuns[0]
+                      ? `${t("schedule.nextRun")}: ${schedule.nextRuns[0].toLocaleString()}`
+                      : t("schedule.disabled"),
+                  ].join(" • ")}
+                />
+              </ListItem>
+            );
+          })
+        ) : (
+          <ListItem>
+            <ListItemText primary={t("schedule.empty")} />
+          </ListItem>
+        )}
+      </List>
+    </Box>
+  );
+}
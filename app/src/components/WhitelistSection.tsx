@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DeleteOutlineRoundedIcon from "@mui/icons-material/DeleteOutlineRounded";
+import {
+  bedrockProxyAPI,
+  type WhitelistEntry,
+  type WhitelistEntryType,
+  type WhitelistMode,
+} from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface WhitelistSectionProps {
+  serverId: string;
+  enabled: boolean; // 保存済みかどうかに関わらず、運用タブでの現在の設定
+  hasServerDirectory: boolean;
+  onMessage: (message: string, severity: "success" | "error") => void;
+}
+
+const VALUE_PLACEHOLDERS: Record<WhitelistEntryType, string> = {
+  xuid: "2535400000000000",
+  name: "Steve",
+  ip: "203.0.113.5 / 198.51.100.0/24",
+};
+
+// サーバーごとの許可リスト・拒否リスト（XUID / ゲーマータグ / IPアドレス・CIDR）の管理
+// 拒否エントリは常に適用し、許可エントリは許可リストが有効な場合のみ適用する
+export default function WhitelistSection({
+  serverId,
+  enabled,
+  hasServerDirectory,
+  onMessage,
+}: WhitelistSectionProps) {
+  const { t } = useLanguageContext();
+  const [entries, setEntries] = useState<WhitelistEntry[]>([]);
+  const [type, setType] = useState<WhitelistEntryType>("xuid");
+  const [mode, setMode] = useState<WhitelistMode>("allow");
+  const [value, setValue] = useState("");
+  const [name, setName] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries((await bedrockProxyAPI.getWhitelist(serverId)).entries);
+    } catch (error) {
+      console.error("❌ Failed to load whitelist:", error);
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    loadEntries();
+
+    const handleWhitelistUpdated = (data: any) => {
+      if (data?.serverId === serverId) {
+        loadEntries();
+      }
+    };
+    bedrockProxyAPI.subscribe(["whitelist.updated"]).catch(() => {});
+    bedrockProxyAPI.on("whitelist.updated", handleWhitelistUpdated);
+    return () => {
+      bedrockProxyAPI.off("whitelist.updated", handleWhitelistUpdated);
+    };
+  }, [serverId, loadEntries]);
+
+  const handleAdd = async () => {
+    const trimmed = value.trim();
+    if (!trimmed || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await bedrockProxyAPI.addWhitelistEntry(
+        serverId,
+        type,
+        trimmed,
+        mode,
+        type === "xuid" ? name.trim() || undefined : undefined
+      );
+      setValue("");
+      setName("");
+      onMessage(`${t("whitelist.added")}: ${trimmed}`, "success");
+    } catch (error) {
+      onMessage(
+        `${t("whitelist.addFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (entry: WhitelistEntry) => {
+    try {
+      await bedrockProxyAPI.removeWhitelistEntry(serverId, entry.id);
+      onMessage(`${t("whitelist.removed")}: ${entry.name ?? entry.value}`, "success");
+    } catch (error) {
+      onMessage(
+        `${t("whitelist.removeFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await bedrockProxyAPI.importAllowlist(serverId);
+      onMessage(`${t("whitelist.imported")}: ${result.imported}`, "success");
+    } catch (error) {
+      onMessage(
+        `${t("whitelist.importFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const result = await bedrockProxyAPI.exportAllowlist(serverId);
+      onMessage(
+        `${t("whitelist.exported")}: ${result.exported}` +
+          (result.skipped > 0 ? ` (${t("whitelist.exportSkipped")}: ${result.skipped})` : ""),
+        "success"
+      );
+    } catch (error) {
+      onMessage(
+        `${t("whitelist.exportFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Typography variant="subtitle2" className="section-title">
+          {t("whitelist.title")}
+        </Typography>
+        <Chip
+          size="small"
+          color={enabled ? "success" : "default"}
+          label={enabled ? t("whitelist.statusEnabled") : t("whitelist.statusDisabled")}
+        />
+      </Stack>
+      <Typography variant="caption" className="muted">
+        {t("whitelist.description")}
+      </Typography>
+
+      <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>{t("whitelist.type")}</InputLabel>
+          <Select
+            value={type}
+            label={t("whitelist.type")}
+            onChange={(e) => setType(e.target.value as WhitelistEntryType)}
+          >
+            <MenuItem value="xuid">{t("whitelist.typeXuid")}</MenuItem>
+            <MenuItem value="name">{t("whitelist.typeName")}</MenuItem>
+            <MenuItem value="ip">{t("whitelist.typeIp")}</MenuItem>
+          </Select>
+        </FormControl>
+        <TextField
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder={VALUE_PLACEHOLDERS[type]}
+          label={t("whitelist.value")}
+          size="small"
+          sx={{ flex: 1 }}
+        />
+        {type === "xuid" && (
+          <TextField
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            label={t("whitelist.name")}
+            size="small"
+          />
+        )}
+        <FormControl size="small" sx={{ minWidth: 100 }}>
+          <InputLabel>{t("whitelist.mode")}</InputLabel>
+          <Select
+            value={mode}
+            label={t("whitelist.mode")}
+            onChange={(e) => setMode(e.target.value as WhitelistMode)}
+          >
+            <MenuItem value="allow">{t("whitelist.modeAllow")}</MenuItem>
+            <MenuItem value="deny">{t("whitelist.modeDeny")}</MenuItem>
+          </Select>
+        </FormControl>
+        <Button
+          variant="outlined"
+          onClick={handleAdd}
+          disabled={!value.trim() || isSubmitting}
+        >
+          {t("whitelist.add")}
+        </Button>
+      </Stack>
+
+      <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+        <Button size="small" onClick={handleImport} disabled={!hasServerDirectory}>
+          {t("whitelist.import")}
+        </Button>
+        <Button size="small" onClick={handleExport} disabled={!hasServerDirectory}>
+          {t("whitelist.export")}
+        </Button>
+      </Stack>
+
+      <List dense>
+        {entries.length > 0 ? (
+          entries.map((entry) => (
+            <ListItem
+              key={entry.id}
+              secondaryAction={
+                <Tooltip title={t("whitelist.remove")}>
+                  <IconButton edge="end" size="small" onClick={() => handleRemove(entry)}>
+                    <DeleteOutlineRoundedIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              }
+            >
+              <Chip
+                size="small"
+                color={entry.mode === "allow" ? "success" : "error"}
+                label={entry.mode === "allow" ? t("whitelist.modeAllow") : t("whitelist.modeDeny")}
+                sx={{ mr: 1 }}
+              />
+              <ListItemText
+                primary={entry.name ? `${entry.name} (${entry.value})` : entry.value}
+                secondary={[
+                  t(`whitelist.type${entry.type === "xuid" ? "Xuid" : entry.type === "name" ? "Name" : "Ip"}`),
+                  entry.note,
+                ]
+                  .filter(Boolean)
+                  .join(" • ")}
+              />
+            </ListItem>
+          ))
+        ) : (
+          <ListItem>
+            <ListItemText primary={t("whitelist.empty")} />
+          </ListItem>
+        )}
+      </List>
+    </Box>
+  );
+}
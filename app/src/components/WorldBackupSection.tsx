@@ -0,0 +1,278 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import DeleteOutlineRoundedIcon from "@mui/icons-material/DeleteOutlineRounded";
+import RestoreRoundedIcon from "@mui/icons-material/RestoreRounded";
+import {
+  bedrockProxyAPI,
+  type BackupRetention,
+  type Server,
+  type WorldBackup,
+} from "../API";
+import { useLanguageContext } from "../contexts/LanguageContext";
+
+interface WorldBackupSectionProps {
+  serverId: string;
+  hasServerDirectory: boolean;
+  retention: BackupRetention;
+  onUpdated: (server: Server) => void;
+  onMessage: (message: string, severity: "success" | "error") => void;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+// ワールドの ZIP バックアップ（稼働中は save hold で取得）と復元
+export default function WorldBackupSection({
+  serverId,
+  hasServerDirectory,
+  retention,
+  onUpdated,
+  onMessage,
+}: WorldBackupSectionProps) {
+  const { t } = useLanguageContext();
+  const [backups, setBackups] = useState<WorldBackup[]>([]);
+  const [maxCount, setMaxCount] = useState(retention.maxCount);
+  const [maxAgeDays, setMaxAgeDays] = useState(retention.maxAgeDays);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<WorldBackup | null>(null);
+
+  useEffect(() => {
+    setMaxCount(retention.maxCount);
+    setMaxAgeDays(retention.maxAgeDays);
+  }, [retention.maxCount, retention.maxAgeDays]);
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await bedrockProxyAPI.listBackups(serverId));
+    } catch (error) {
+      console.error("❌ Failed to load world backups:", error);
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    loadBackups();
+
+    const handleBackupsUpdated = (data: any) => {
+      if (data?.serverId === serverId) {
+        loadBackups();
+      }
+    };
+    bedrockProxyAPI.subscribe(["backups.updated"]).catch(() => {});
+    bedrockProxyAPI.on("backups.updated", handleBackupsUpdated);
+    return () => {
+      bedrockProxyAPI.off("backups.updated", handleBackupsUpdated);
+    };
+  }, [serverId, loadBackups]);
+
+  const retentionChanged = maxCount !== retention.maxCount || maxAgeDays !== retention.maxAgeDays;
+
+  const handleCreate = async () => {
+    if (isCreating) return;
+
+    setIsCreating(true);
+    try {
+      const backup = await bedrockProxyAPI.createBackup(serverId);
+      onMessage(`${t("backup.created")}: ${backup.fileName}`, "success");
+      await loadBackups();
+    } catch (error) {
+      onMessage(
+        `${t("backup.createFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    try {
+      const { server } = await bedrockProxyAPI.updateServerSettings(serverId, {
+        backupRetention: { maxCount, maxAgeDays },
+      });
+      onUpdated(server);
+      onMessage(t("backup.retentionSaved"), "success");
+    } catch (error) {
+      onMessage(
+        `${t("backup.retentionSaveFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    }
+  };
+
+  const handleRestore = async () => {
+    const backup = restoreTarget;
+    setRestoreTarget(null);
+    if (!backup) return;
+
+    setBusyId(backup.id);
+    try {
+      const { server } = await bedrockProxyAPI.restoreBackup(backup.id);
+      onUpdated(server);
+      onMessage(`${t("backup.restored")}: ${backup.createdAt.toLocaleString()}`, "success");
+    } catch (error) {
+      onMessage(
+        `${t("backup.restoreFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (backup: WorldBackup) => {
+    setBusyId(backup.id);
+    try {
+      await bedrockProxyAPI.deleteBackup(backup.id);
+      setBackups((prev) => prev.filter((b) => b.id !== backup.id));
+    } catch (error) {
+      onMessage(
+        `${t("backup.deleteFailed")}: ${error instanceof Error ? error.message : String(error)}`,
+        "error"
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" className="section-title">
+        {t("backup.title")}
+      </Typography>
+      <Typography variant="caption" className="muted">
+        {hasServerDirectory ? t("backup.description") : t("backup.noDirectory")}
+      </Typography>
+
+      <Stack direction={{ xs: "column", md: "row" }} spacing={1.5} alignItems={{ md: "center" }} sx={{ mt: 1.5 }}>
+        <TextField
+          type="number"
+          value={maxCount}
+          onChange={(e) => setMaxCount(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+          label={t("backup.maxCount")}
+          helperText={t("backup.unlimitedHint")}
+          size="small"
+          inputProps={{ min: 0, max: 100 }}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          type="number"
+          value={maxAgeDays}
+          onChange={(e) => setMaxAgeDays(Math.min(365, Math.max(0, parseInt(e.target.value) || 0)))}
+          label={t("backup.maxAgeDays")}
+          helperText={t("backup.unlimitedHint")}
+          size="small"
+          inputProps={{ min: 0, max: 365 }}
+          sx={{ flex: 1 }}
+        />
+        <Button variant="outlined" onClick={handleSaveRetention} disabled={!retentionChanged}>
+          {t("form.save")}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleCreate}
+          disabled={!hasServerDirectory || isCreating || busyId !== null}
+        >
+          {isCreating ? t("backup.creating") : t("backup.create")}
+        </Button>
+      </Stack>
+
+      <List dense>
+        {backups.length > 0 ? (
+          backups.map((backup) => (
+            <ListItem
+              key={backup.id}
+              secondaryAction={
+                <Stack direction="row" spacing={0.5}>
+                  <Tooltip title={t("backup.restore")}>
+                    <span>
+                      <IconButton
+                        size="small"
+                        onClick={() => setRestoreTarget(backup)}
+                        disabled={isCreating || busyId !== null}
+                      >
+                        <RestoreRoundedIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title={t("backup.delete")}>
+                    <span>
+                      <IconButton
+                        size="small"
+                        onClick={() => handleDelete(backup)}
+                        disabled={busyId !== null}
+                      >
+                        <DeleteOutlineRoundedIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Stack>
+              }
+            >
+              <Chip
+                size="small"
+                color={backup.method === "hot" ? "success" : "default"}
+                label={t(`backup.method.${backup.method}`)}
+                sx={{ mr: 1 }}
+              />
+              <ListItemText
+                primary={backup.createdAt.toLocaleString()}
+                secondary={[
+                  backup.worldName,
+                  formatSize(backup.size),
+                  `${backup.fileCount} ${t("backup.files")}`,
+                  t(`backup.trigger.${backup.trigger}`),
+                ].join(" • ")}
+              />
+            </ListItem>
+          ))
+        ) : (
+          <Box sx={{ px: 2, py: 1 }}>
+            <Typography variant="body2" className="muted">
+              {t("backup.empty")}
+            </Typography>
+          </Box>
+        )}
+      </List>
+
+      <Dialog open={!!restoreTarget} onClose={() => setRestoreTarget(null)}>
+        <DialogTitle>{t("backup.restoreConfirmTitle")}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {t("backup.restoreConfirm").replace(
+              "{time}",
+              restoreTarget ? restoreTarget.createdAt.toLocaleString() : ""
+            )}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRestoreTarget(null)}>{t("common.cancel")}</Button>
+          <Button color="warning" variant="contained" onClick={handleRestore}>
+            {t("backup.restore")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
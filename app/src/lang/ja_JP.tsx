@@ -35,8 +35,8 @@ export const ja_JP = {
   "overview.autoRestart": "自動再起動",
   "overview.autoRestartDesc": "サーバーがクラッシュした場合に自動的に再起動します",
   "overview.proxyConfig": "プロキシ設定",
-  "overview.proxyProtocolV2": "Proxy Protocol v2 サポート",
-  "overview.proxyProtocolV2Desc": "Proxy Protocol v2 ヘッダーを解析して真のクライアントIPを取得します",
+  "overview.proxyProtocolV2": "Proxy Protocol サポート",
+  "overview.proxyProtocolV2Desc": "Proxy Protocol v1/v2 ヘッダーを解析して真のクライアントIPを取得します",
   "overview.receivingPort": "受信ポート",
   "overview.receivingPortDesc": "プロキシサーバーがプレイヤー接続を受け付けるポート",
   "overview.destinationPort": "転送先ポート",
@@ -51,6 +51,9 @@ export const ja_JP = {
   "players.noOnline": "オンラインプレイヤーはいません",
   "players.joinOrder": "参加順",
   "players.joined": "参加",
+  "players.kick": "プレイヤーをキック",
+  "players.kicked": "プレイヤーをキックしました",
+  "players.kickFailed": "キックに失敗しました",
   
   // コンソールタブ
   "console.output": "コンソール出力",
@@ -66,7 +69,7 @@ export const ja_JP = {
   "operations.backup": "バックアップ",
   "operations.description": "起動・停止・再起動やセキュリティ操作をこちらから実行できます。",
   "operations.autoRestart": "自動再起動",
-  "operations.autoRestartDesc": "サーバーが停止した場合に自動で再起動します",
+  "operations.autoRestartDesc": "サーバーがクラッシュした場合に自動で再起動します",
   "operations.forwardSettings": "転送設定",
   "operations.forwardDesc": "メインサーバーがダウンした際の予備転送先です。復旧後は元のサーバーに戻ります。",
   
@@ -135,6 +138,256 @@ export const ja_JP = {
   "operations.block": "IPブロック",
   "operations.blockSameIP": "同一IPからの接続をブロック",
   "operations.blockSameIPDesc": "同一のIPアドレスからの複数接続を防止します。",
+  "operations.customMotd": "プロキシでステータス応答",
+  "operations.customMotdDesc": "サーバー一覧にこのサーバーの名前・説明・プレイヤー数を表示します。転送先が停止中や起動中でも応答します。",
+  "bans.title": "IPバンリスト",
+  "bans.description": "これらのIPアドレス・CIDR範囲からの接続はプロキシで破棄されます。サーバーごとに保存されます。",
+  "bans.target": "IP / CIDR",
+  "bans.reason": "理由",
+  "bans.add": "バン",
+  "bans.remove": "バン解除",
+  "bans.added": "バンしました",
+  "bans.removed": "バンを解除しました",
+  "bans.addFailed": "バンの追加に失敗しました",
+  "bans.removeFailed": "バンの解除に失敗しました",
+  "bans.expires": "期限",
+  "bans.empty": "バンされたアドレスはありません",
+  "whitelist.enabled": "許可リストを有効化",
+  "whitelist.enabledDescription": "許可リストにないプレイヤーの参加をプロキシで拒否します。拒否エントリは常に適用されます。",
+  "whitelist.title": "許可リスト・拒否リスト",
+  "whitelist.description": "XUID・ゲーマータグ・IP / CIDR でプレイヤーを判定します。IPエントリはサーバーにパケットが届く前に、XUID・ゲーマータグのエントリは Login パケットの受信時に判定します。プロキシは本人確認を行わないため、サーバー側の online-mode は有効のままにしてください。",
+  "whitelist.statusEnabled": "許可リスト有効",
+  "whitelist.statusDisabled": "許可リスト無効",
+  "whitelist.type": "種類",
+  "whitelist.typeXuid": "XUID",
+  "whitelist.typeName": "ゲーマータグ",
+  "whitelist.typeIp": "IP / CIDR",
+  "whitelist.value": "値",
+  "whitelist.name": "名前",
+  "whitelist.mode": "動作",
+  "whitelist.modeAllow": "許可",
+  "whitelist.modeDeny": "拒否",
+  "whitelist.add": "追加",
+  "whitelist.remove": "削除",
+  "whitelist.added": "追加しました",
+  "whitelist.removed": "削除しました",
+  "whitelist.addFailed": "エントリの追加に失敗しました",
+  "whitelist.removeFailed": "エントリの削除に失敗しました",
+  "whitelist.import": "allowlist.json を取り込む",
+  "whitelist.export": "allowlist.json に書き出す",
+  "whitelist.imported": "取り込んだエントリ",
+  "whitelist.importFailed": "allowlist.json の取り込みに失敗しました",
+  "whitelist.exported": "書き出したエントリ",
+  "whitelist.exportSkipped": "名前がないため除外",
+  "whitelist.exportFailed": "allowlist.json の書き出しに失敗しました",
+  "whitelist.empty": "エントリはありません",
+  "maintenance.title": "メンテナンス",
+  "maintenance.description": "メンテナンス中はプロキシが「メンテナンス中」のMOTDで応答し、新規のログインを下のメッセージで拒否します。許可リストの許可エントリに一致するプレイヤーは参加でき、参加中のプレイヤーは切断されません。",
+  "maintenance.active": "メンテナンス中",
+  "maintenance.message": "切断メッセージ",
+  "maintenance.messagePlaceholder": "Server is under maintenance. Please try again later.",
+  "maintenance.start": "メンテナンスを開始",
+  "maintenance.end": "メンテナンスを終了",
+  "maintenance.started": "メンテナンスを開始しました",
+  "maintenance.ended": "メンテナンスを終了しました",
+  "maintenance.toggleFailed": "メンテナンスの切り替えに失敗しました",
+  "maintenance.startsAt": "開始予定",
+  "maintenance.endsAt": "終了予定",
+  "maintenance.clearSchedule": "予定を削除",
+  "capture.title": "パケットキャプチャ",
+  "capture.description": "プロキシの通信を双方向（クライアント ↔ プロキシ ↔ 転送先）でデータディレクトリに pcapng 形式で記録します。Wireshark で開けます。ポートが19132以外の場合は「Decode As… → RakNet」を指定してください。",
+  "capture.target": "対象",
+  "capture.allClients": "すべてのクライアント",
+  "capture.maxDuration": "時間の上限（秒）",
+  "capture.maxSize": "サイズの上限（MB）",
+  "capture.start": "キャプチャ開始",
+  "capture.stop": "停止",
+  "capture.download": "ダウンロード",
+  "capture.running": "記録中",
+  "capture.started": "キャプチャを開始しました",
+  "capture.startFailed": "キャプチャの開始に失敗しました",
+  "capture.stopFailed": "キャプチャの停止に失敗しました",
+  "capture.downloadFailed": "キャプチャのダウンロードに失敗しました",
+  "capture.empty": "キャプチャはありません",
+  "capture.stopReason.manual": "停止",
+  "capture.stopReason.size-limit": "サイズ上限で停止",
+  "capture.stopReason.time-limit": "時間上限で停止",
+  "capture.stopReason.error": "書き込みエラー",
+  "reload.appliedLive": "稼働中のプロキシに反映",
+  "reload.pendingRestart": "再起動すると反映される変更があります",
+  "reload.setting.name": "サーバー名",
+  "reload.setting.description": "説明",
+  "reload.setting.maxPlayers": "最大プレイヤー数",
+  "reload.setting.destinationAddress": "転送先",
+  "reload.setting.forwardAddress": "転送アドレス",
+  "reload.setting.backends": "追加の転送先",
+  "reload.setting.loadBalancing": "負荷分散",
+  "reload.setting.rateLimits": "レート制限",
+  "reload.setting.maxConnections": "最大接続数",
+  "reload.setting.challengeMode": "ハンドシェイクチャレンジ",
+  "reload.setting.challengeThreshold": "チャレンジのしきい値",
+  "reload.setting.proxyProtocolV2Enabled": "Proxy Protocol",
+  "reload.setting.outboundProxyProtocol": "転送時のヘッダー形式",
+  "reload.setting.proxyProtocolEmission": "ヘッダーのタイミング",
+  "reload.setting.trustedProxies": "信頼するプロキシ",
+  "reload.setting.proxyProtocolStrict": "ヘッダーの厳格な検証",
+  "reload.setting.proxyProtocolChecksum": "ヘッダーのチェックサム",
+  "reload.setting.whitelistEnabled": "許可リスト",
+  "reload.setting.maintenance": "メンテナンスモード",
+  "reload.setting.maintenanceMessage": "メンテナンスメッセージ",
+  "reload.setting.customMotdEnabled": "カスタムMOTD",
+  "reload.setting.address": "受信アドレス",
+  "reload.setting.mode": "動作モード",
+  "reload.setting.executablePath": "実行ファイルのパス",
+  "reload.setting.serverDirectory": "サーバーディレクトリ",
+  "drain.title": "ドレイン再起動",
+  "drain.description": "新規セッションを止めてプレイヤーにカウントダウンを表示し、全員が退出するか期限が来たら再起動します。再起動中もプロキシは受信を続けます。",
+  "drain.timeout": "退出を待つ時間（秒）",
+  "drain.redirect": "再起動中の新規セッションを転送アドレスへ送る",
+  "drain.redirectUnavailable": "再起動中にプレイヤーを転送するには転送アドレスを設定してください。",
+  "drain.start": "ドレインして再起動",
+  "drain.cancel": "取り消し",
+  "drain.remaining": "再起動まで {seconds} 秒",
+  "drain.restarting": "再起動中",
+  "drain.startFailed": "ドレインの開始に失敗しました",
+  "drain.cancelFailed": "ドレインの取り消しに失敗しました",
+  "schedule.title": "スケジュール",
+  "schedule.description": "cron 形式（分 時 日 月 曜日、サーバーのローカル時刻）で指定した時刻に再起動・コンソールコマンド・お知らせ・バックアップ・プラグインイベントを実行します。",
+  "schedule.name": "名前",
+  "schedule.cron": "cron 式",
+  "schedule.cronHelp": "例: 0 4 * * * で毎日4時に実行",
+  "schedule.nextRuns": "実行予定",
+  "schedule.nextRun": "次回の実行",
+  "schedule.actionType": "アクション",
+  "schedule.action.restart": "再起動",
+  "schedule.action.stop": "停止",
+  "schedule.action.start": "起動",
+  "schedule.action.command": "コンソールコマンド",
+  "schedule.action.broadcast": "お知らせ",
+  "schedule.action.backup": "バックアップ",
+  "schedule.action.plugin": "プラグインイベント",
+  "schedule.drainTimeout": "プレイヤーの退出を待つ秒数",
+  "schedule.drainTimeoutHelp": "0なら即座に再起動、それ以外はドレインしてから再起動します",
+  "schedule.command": "コマンド",
+  "schedule.message": "メッセージ",
+  "schedule.payload": "ペイロード（JSON）",
+  "schedule.invalidPayload": "ペイロードが正しくありません",
+  "schedule.add": "追加",
+  "schedule.save": "保存",
+  "schedule.cancelEdit": "キャンセル",
+  "schedule.edit": "編集",
+  "schedule.remove": "削除",
+  "schedule.runNow": "今すぐ実行",
+  "schedule.disabled": "無効",
+  "schedule.empty": "スケジュールされたタスクはありません",
+  "schedule.lastSucceeded": "前回成功",
+  "schedule.lastFailed": "前回失敗",
+  "schedule.added": "タスクを追加しました",
+  "schedule.updated": "タスクを更新しました",
+  "schedule.removed": "タスクを削除しました",
+  "schedule.saveFailed": "タスクの保存に失敗しました",
+  "schedule.removeFailed": "タスクの削除に失敗しました",
+  "schedule.runSucceeded": "タスクを実行しました",
+  "schedule.runFailed": "タスクの実行に失敗しました",
+  "crash.title": "クラッシュレポート",
+  "crash.description": "サーバープロセスが予期せず終了した場合、直前のコンソール出力をここに保存します。自動再起動が有効なら間隔を延ばしながら再起動し、10分以内に5回クラッシュすると自動再起動を止めます。",
+  "crash.detected": "サーバープロセスがクラッシュしました",
+  "crash.restarting": "サーバープロセスがクラッシュしました。{seconds} 秒後に再起動します",
+  "crash.loopDetected": "クラッシュが繰り返されたため自動再起動を停止しました。クラッシュレポートを確認してから手動で起動してください。",
+  "crash.nextRestart": "自動再起動の予定",
+  "crash.restartDelay": "再起動までの間隔",
+  "crash.action.restart": "再起動",
+  "crash.action.gaveUp": "クラッシュループ",
+  "crash.action.none": "再起動なし",
+  "crash.noOutput": "コンソール出力はありません",
+  "crash.empty": "クラッシュの記録はありません",
+  "backup.title": "ワールドのバックアップ",
+  "backup.description": "ワールドを ZIP に保存します。稼働中は save hold で保存を止め、一貫した状態で取得します。",
+  "backup.noDirectory": "ワールドをバックアップするにはサーバーディレクトリを設定してください",
+  "backup.create": "今すぐバックアップ",
+  "backup.creating": "バックアップ中...",
+  "backup.created": "ワールドをバックアップしました",
+  "backup.createFailed": "ワールドのバックアップに失敗しました",
+  "backup.maxCount": "残す数",
+  "backup.maxAgeDays": "保存期間（日）",
+  "backup.unlimitedHint": "0 は無制限",
+  "backup.retentionSaved": "バックアップの保存条件を保存しました",
+  "backup.retentionSaveFailed": "バックアップの保存条件を保存できませんでした",
+  "backup.restore": "復元",
+  "backup.restoreConfirmTitle": "ワールドの復元",
+  "backup.restoreConfirm": "サーバーを停止し、ワールドを {time} のバックアップに置き換えます。現在のワールドは「<ワールド名>.before-restore」として残ります。稼働中だったサーバーは復元後に起動し直します。",
+  "backup.restored": "ワールドを復元しました",
+  "backup.restoreFailed": "ワールドの復元に失敗しました",
+  "backup.delete": "削除",
+  "backup.deleteFailed": "バックアップを削除できませんでした",
+  "backup.files": "ファイル",
+  "backup.method.hot": "稼働中",
+  "backup.method.offline": "停止中",
+  "backup.trigger.manual": "手動",
+  "backup.trigger.schedule": "スケジュール",
+  "backup.empty": "ワールドのバックアップはありません",
+  "failover.active": "フォールバック中",
+  "failover.activated": "転送先が応答しないため、新規接続をフォールバック先へ転送しています",
+  "failover.recovered": "転送先が復旧したため、新規接続を元の転送先へ戻しました",
+  "loadBalancing.title": "負荷分散",
+  "loadBalancing.description": "新規セッションを追加のバックエンドに振り分けます。同じクライアントIPは同じバックエンドに接続され、Pingに応答しないバックエンドは除外されます。",
+  "loadBalancing.strategy": "振り分け方式",
+  "loadBalancing.roundRobin": "ラウンドロビン",
+  "loadBalancing.leastConnections": "最少接続",
+  "loadBalancing.weighted": "重み付き",
+  "loadBalancing.primary": "メインの転送先",
+  "loadBalancing.weight": "重み",
+  "loadBalancing.addBackend": "追加のバックエンド",
+  "loadBalancing.add": "追加",
+  "loadBalancing.remove": "バックエンドを削除",
+  "rateLimit.title": "レート制限",
+  "rateLimit.description": "転送前にトークンバケットで流量を制限します。IPごとの上限は真のクライアントIPの全ポートの合計です。0で無制限になります。",
+  "rateLimit.packetsPerSecond": "IPごとの秒間パケット数",
+  "rateLimit.kilobytesPerSecond": "IPごとの秒間KB",
+  "rateLimit.globalPacketsPerSecond": "全体の秒間パケット数",
+  "rateLimit.globalKilobytesPerSecond": "全体の秒間KB",
+  "rateLimit.autoBanThreshold": "自動バンまでの違反回数（1分間）",
+  "rateLimit.autoBanDuration": "自動バンの期間（秒）",
+  "rateLimit.maxConnections": "最大接続数",
+  "challenge.title": "接続チャレンジ",
+  "challenge.description": "新しい送信元はプロキシが発行するRakNet cookieを返すまでセッションを割り当てません。送信元を偽装したフラッドで接続数を使い切られるのを防ぎます。チャレンジ中のPingにはキャッシュしたステータスで応答します。",
+  "challenge.mode": "モード",
+  "challenge.off": "無効",
+  "challenge.auto": "自動（新規接続の急増時）",
+  "challenge.always": "常に有効",
+  "challenge.threshold": "有効化する秒間の新規送信元数",
+  "challenge.active": "攻撃対応中",
+  "challenge.activated": "新規接続の急増を検知したため、接続チャレンジを有効にしました",
+  "challenge.deactivated": "新規接続数が落ち着いたため、接続チャレンジを無効にしました",
+
+  // Proxy Protocol関連
+  "proxyProtocol.outboundTitle": "転送時のヘッダー",
+  "proxyProtocol.outboundDescription": "転送先に真のクライアントIPを伝えるヘッダーの形式です。テキスト形式のみに対応したHAProxy/nginxの構成ではv1を選択してください。",
+  "proxyProtocol.format": "形式",
+  "proxyProtocol.formatNone": "付加しない",
+  "proxyProtocol.formatV1": "PROXY v1（テキスト）",
+  "proxyProtocol.formatV2": "PROXY v2（バイナリ）",
+  "proxyProtocol.emission": "付加するタイミング",
+  "proxyProtocol.emissionEveryPacket": "すべてのパケット",
+  "proxyProtocol.emissionFirstPacket": "最初のパケットのみ",
+  "proxyProtocol.emissionPreamble": "ヘッダーのみのパケットを先に送信",
+  "proxyProtocol.emissionNever": "付加しない",
+  "proxyProtocol.probe": "互換性を確認",
+  "proxyProtocol.probing": "確認中...",
+  "proxyProtocol.probeDescription": "各転送先へヘッダーあり・なしのPingを送り、Proxy Protocolを受け付けるか確認します。",
+  "proxyProtocol.probeFailed": "互換性の確認に失敗しました",
+  "proxyProtocol.probeStatus.compatible": "ヘッダー対応",
+  "proxyProtocol.probeStatus.incompatible": "ヘッダー非対応",
+  "proxyProtocol.probeStatus.unreachable": "応答なし",
+  "proxyProtocol.trustedTitle": "信頼する上流プロキシ",
+  "proxyProtocol.trustedDescription": "ここに登録したIP/CIDRからのProxy Protocolヘッダーだけを真のクライアントIPとして扱います。その他の送信元からのヘッダーは拒否し、セキュリティイベントとして記録します。",
+  "proxyProtocol.trustedEmpty": "信頼するプロキシが未登録のため、すべての送信元からのヘッダーを受け付けています（プレイヤーがIPを偽装できます）。上流プロキシのアドレスを登録してください。",
+  "proxyProtocol.addTrusted": "IPアドレスまたはCIDR",
+  "proxyProtocol.add": "追加",
+  "proxyProtocol.strict": "厳格モード",
+  "proxyProtocol.strictDesc": "不正・信頼できないヘッダー付きのパケットを、ヘッダーを無視せず破棄します",
+  "proxyProtocol.checksum": "CRC32Cチェックサムを必須にする",
+  "proxyProtocol.checksumDesc": "正しいCRC32C TLVのないヘッダーを拒否します",
   
   // タグ関連
   "tags.add": "タグを追加",
@@ -155,11 +408,11 @@ export const ja_JP = {
   "settings.showPlayerIPs": "プレイヤーのIPを表示",
   "settings.showPlayerIPsDesc": "プライバシー保護のためデフォルトでは無効。サーバーごとに保存されます。",
   "settings.receiving": "受信設定（Proxyが受け付けるポート）",
-  "settings.receivingIPv4": "受信IPv4",
+  "settings.receivingIPv4": "受信IP（IPv4/IPv6）",
   "settings.receivingPort": "受信ポート",
-  "settings.destinationIPv4": "宛先IPv4",
+  "settings.destinationIPv4": "宛先IP（IPv4/IPv6）",
   "settings.destinationPort": "宛先ポート",
-  "settings.ipv4Fixed": "IPv4は固定です",
+  "settings.ipv4Fixed": "受信アドレスは固定です",
   "settings.description": "説明メモ",
   "settings.auto": "自動設定",
   "settings.autoStart": "アプリ起動時に自動開始",
@@ -221,7 +474,14 @@ export const ja_JP = {
   "network.downloadSpeed": "ダウンロード速度",
   "network.activeConnections": "アクティブ接続",
   "network.totalConnections": "総接続数",
+  "network.droppedPackets": "レート制限で破棄",
+  "network.rateLimitedClients": "制限中のクライアント",
+  "network.autoBans": "自動バン",
+  "network.newSources": "新規送信元",
+  "network.challengesPassed": "チャレンジ成功",
+  "network.challengeDrops": "破棄",
   "network.packets": "パケット",
+  "network.guid": "GUID",
   "network.clientStats": "クライアント別統計",
   "network.noClients": "接続中のクライアントはありません",
   "network.noData": "ネットワーク統計データはまだ利用できません。サーバーを起動してください。",
@@ -233,6 +493,9 @@ export const ja_JP = {
   "network.connected": "接続時間",
   "network.realtime": "リアルタイム更新中",
   "network.lastUpdate": "最終更新",
+  "network.stage.pinging": "ステータス確認中",
+  "network.stage.connecting": "接続処理中",
+  "network.stage.in-game": "プレイ中",
   
   "plugins.title": "プラグイン管理",
   "plugins.description": "サーバープラグインと拡張機能を管理します",
@@ -9,6 +9,7 @@ import { StorageAPI } from "./storageAPI.js";
 import { HttpAPI } from "./httpAPI.js";
 import { FileSystemAPI } from "./fileSystemAPI.js";
 import { logger } from "../services/logger.js";
+import type { ProxyProtocolTLVs } from "../services/proxyProtocolParser.js";
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
@@ -42,8 +43,10 @@ export type EventType =
   | 'serverStop'
   | 'playerJoin'
   | 'playerLeave'
+  | 'playerKicked'
   | 'playerMessage'
   | 'consoleOutput'
+  | 'scheduledTask'
   | 'error';
 
 export type EventHandler<T = any> = (data: T) => void | Promise<void>;
@@ -226,7 +229,7 @@ export class PluginAPI {
     }
     
     this.info(`Kicking player ${player.name}${reason ? `: ${reason}` : ''}`);
-    // TODO: Implement actual kick through MinecraftServerManager
+    await this.serverManager.kickPlayer(this.serverId, player.id, reason);
   }
   
   async tellPlayer(playerId: string, message: string): Promise<void> {
@@ -261,13 +264,32 @@ export class PluginAPI {
     }
   }
 
+  /**
+   * メンテナンスモードを開始・終了
+   * メンテナンス中は許可リストの許可エントリ以外のログインをプロキシで拒否し、MOTDで知らせる
+   * @param enabled true: 開始 / false: 終了
+   * @param message 参加を拒否する際の切断メッセージ（未指定なら現在の設定）
+   */
+  async setMaintenance(enabled: boolean, message?: string): Promise<void> {
+    this.info(`${enabled ? 'Starting' : 'Ending'} maintenance${message ? `: ${message}` : ''}`);
+    await this.serverManager.setMaintenance(this.serverId, enabled, message);
+  }
+
+  async isMaintenance(): Promise<boolean> {
+    const server = this.serverManager.getServer(this.serverId);
+    if (!server) {
+      throw new Error('Server not found');
+    }
+    return server.maintenance ?? false;
+  }
+
   /**
    * Proxy Protocol v2 から抽出した真のクライアントIPを取得
    * @param localAddress ローカルアドレス (例: "127.0.0.1")
    * @param localPort ローカルポート番号
-   * @returns 真のクライアント情報 {realIP, realPort} または null
+   * @returns 真のクライアント情報 {realIP, realPort, tlvs} または null（tlvs は上流ヘッダーのTLV）
    */
-  async getRealClientIP(localAddress: string, localPort: number): Promise<{realIP: string, realPort: number} | null> {
+  async getRealClientIP(localAddress: string, localPort: number): Promise<{realIP: string, realPort: number, tlvs?: ProxyProtocolTLVs} | null> {
     try {
       // ServerManager経由でUDPProxyインスタンスを取得
       const udpProxy = this.serverManager.getUdpProxy?.(this.serverId);
@@ -282,10 +304,11 @@ export class PluginAPI {
         return null;
       }
 
-      this.debug(`Real client IP found: ${realClientInfo.address}:${realClientInfo.port} for ${localAddress}:${localPort}`);
+      this.debug(`Real client IP found: ${realClientInfo.realIP}:${realClientInfo.realPort} for ${localAddress}:${localPort}`);
       return {
-        realIP: realClientInfo.address,
-        realPort: realClientInfo.port
+        realIP: realClientInfo.realIP,
+        realPort: realClientInfo.realPort,
+        tlvs: realClientInfo.tlvs
       };
     } catch (err) {
       this.error('Failed to get real client IP', err);
@@ -607,6 +630,8 @@ export class PluginAPI {
         blockSameIP: server.blockSameIP,
         forwardAddress: server.forwardAddress,
         proxyProtocolV2Enabled: server.proxyProtocolV2Enabled,
+        maintenance: server.maintenance,
+        maintenanceMessage: server.maintenanceMessage,
         pluginsEnabled: server.pluginsEnabled,
         executablePath: server.executablePath,
         serverDirectory: server.serverDirectory,
@@ -6,12 +6,15 @@ import type {
 } from "../types/index.js";
 import { APIError } from "../types/index.js";
 import { ServerManager } from "../services/serverManager.js";
+import { Scheduler } from "../services/scheduler.js";
 
 export class MessageRouter {
   private serverManager: ServerManager;
+  private scheduler: Scheduler;
 
   constructor() {
     this.serverManager = new ServerManager();
+    this.scheduler = new Scheduler(this.serverManager);
     this.setupEventHandlers();
   }
 
@@ -63,6 +66,111 @@ export class MessageRouter {
           data = await this.handleConsoleCommand(message.data);
           break;
 
+        case "servers.probeProxyProtocol":
+          data = await this.handleProbeProxyProtocol(message.data);
+          break;
+
+        case "servers.getCrashReports":
+          data = this.handleGetCrashReports(message.data);
+          break;
+
+        case "players.kick":
+          data = await this.handleKickPlayer(message.data);
+          break;
+
+        // IPバンリスト
+        case "bans.getAll":
+          data = this.handleGetBans(message.data);
+          break;
+
+        case "bans.add":
+          data = await this.handleAddBan(message.data);
+          break;
+
+        case "bans.remove":
+          data = await this.handleRemoveBan(message.data);
+          break;
+
+        // 許可リスト・拒否リスト
+        case "whitelist.getAll":
+          data = this.handleGetWhitelist(message.data);
+          break;
+
+        case "whitelist.add":
+          data = await this.handleAddWhitelistEntry(message.data);
+          break;
+
+        case "whitelist.remove":
+          data = await this.handleRemoveWhitelistEntry(message.data);
+          break;
+
+        case "whitelist.import":
+          data = await this.handleImportAllowlist(message.data);
+          break;
+
+        case "whitelist.export":
+          data = await this.handleExportAllowlist(message.data);
+          break;
+
+        // パケットキャプチャ
+        case "capture.start":
+          data = await this.handleStartCapture(message.data);
+          break;
+
+        case "capture.stop":
+          data = await this.handleStopCapture(message.data);
+          break;
+
+        case "capture.list":
+          data = await this.handleListCaptures(message.data);
+          break;
+
+        case "capture.download":
+          data = await this.handleDownloadCapture(message.data);
+          break;
+
+        // スケジュールされたタスク
+        case "schedules.getAll":
+          data = await this.handleGetSchedules(message.data);
+          break;
+
+        case "schedules.add":
+          data = await this.handleAddSchedule(message.data);
+          break;
+
+        case "schedules.update":
+          data = await this.handleUpdateSchedule(message.data);
+          break;
+
+        case "schedules.remove":
+          data = await this.handleRemoveSchedule(message.data);
+          break;
+
+        case "schedules.run":
+          data = await this.handleRunSchedule(message.data);
+          break;
+
+        case "schedules.preview":
+          data = this.handlePreviewSchedule(message.data);
+          break;
+
+        // ワールドのバックアップ
+        case "backups.list":
+          data = this.handleListBackups(message.data);
+          break;
+
+        case "backups.create":
+          data = await this.handleCreateBackup(message.data);
+          break;
+
+        case "backups.restore":
+          data = await this.handleRestoreBackup(message.data);
+          break;
+
+        case "backups.delete":
+          data = await this.handleDeleteBackup(message.data);
+          break;
+
         // 設定関連
         case "config.get":
           data = await this.handleGetConfig(message.data);
@@ -175,8 +283,7 @@ export class MessageRouter {
       throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
     }
 
-    const server = await this.serverManager.updateServer(data);
-    return { server };
+    return await this.serverManager.updateServer(data);
   }
 
   // サーバー削除
@@ -215,6 +322,253 @@ export class MessageRouter {
     return { server };
   }
 
+  // プレイヤーキック
+  private async handleKickPlayer(data: ServerAPI.KickPlayerRequest): Promise<ServerAPI.KickPlayerResponse> {
+    if (!data || !data.serverId || !data.playerId) {
+      throw new APIError("Server ID and player ID are required", "MISSING_KICK_DATA", 400);
+    }
+
+    const kicked = await this.serverManager.kickPlayer(data.serverId, data.playerId, data.reason);
+    return { kicked };
+  }
+
+  // 転送先のProxy Protocol互換性を確認
+  private async handleProbeProxyProtocol(data: ServerAPI.ProbeProxyProtocolRequest): Promise<ServerAPI.ProbeProxyProtocolResponse> {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    const results = await this.serverManager.probeProxyProtocol(data.serverId, data.format);
+    return { results };
+  }
+
+  // クラッシュレポート取得
+  private handleGetCrashReports(data: ServerAPI.GetCrashReportsRequest): ServerAPI.GetCrashReportsResponse {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    return { reports: this.serverManager.getCrashReports(data.serverId) };
+  }
+
+  // IPバンリスト取得
+  private handleGetBans(data: ServerAPI.GetBansRequest): ServerAPI.GetBansResponse {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    return { bans: this.serverManager.getBans(data.serverId) };
+  }
+
+  // IPバン追加
+  private async handleAddBan(data: ServerAPI.AddBanRequest): Promise<ServerAPI.AddBanResponse> {
+    if (!data || !data.serverId || !data.target) {
+      throw new APIError("Server ID and target are required", "MISSING_BAN_DATA", 400);
+    }
+
+    const expiresAt = data.expiresAt ? new Date(data.expiresAt) : undefined;
+    const ban = await this.serverManager.addBan(data.serverId, data.target, data.reason, expiresAt);
+    return { ban };
+  }
+
+  // IPバン解除
+  private async handleRemoveBan(data: ServerAPI.RemoveBanRequest): Promise<ServerAPI.RemoveBanResponse> {
+    if (!data || !data.serverId || !data.banId) {
+      throw new APIError("Server ID and ban ID are required", "MISSING_BAN_DATA", 400);
+    }
+
+    await this.serverManager.removeBan(data.serverId, data.banId);
+    return { success: true };
+  }
+
+  // 許可リスト・拒否リスト取得
+  private handleGetWhitelist(data: ServerAPI.GetWhitelistRequest): ServerAPI.GetWhitelistResponse {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    const server = this.serverManager.getServer(data.serverId);
+    return {
+      entries: this.serverManager.getWhitelist(data.serverId),
+      enabled: server?.whitelistEnabled ?? false
+    };
+  }
+
+  // 許可リスト・拒否リストにエントリを追加
+  private async handleAddWhitelistEntry(data: ServerAPI.AddWhitelistEntryRequest): Promise<ServerAPI.AddWhitelistEntryResponse> {
+    if (!data || !data.serverId || !data.type || !data.value) {
+      throw new APIError("Server ID, type and value are required", "MISSING_WHITELIST_DATA", 400);
+    }
+
+    const entry = await this.serverManager.addWhitelistEntry(
+      data.serverId,
+      data.type,
+      data.value,
+      data.mode,
+      data.name,
+      data.note
+    );
+    return { entry };
+  }
+
+  // 許可リスト・拒否リストからエントリを削除
+  private async handleRemoveWhitelistEntry(data: ServerAPI.RemoveWhitelistEntryRequest): Promise<ServerAPI.RemoveWhitelistEntryResponse> {
+    if (!data || !data.serverId || !data.entryId) {
+      throw new APIError("Server ID and entry ID are required", "MISSING_WHITELIST_DATA", 400);
+    }
+
+    await this.serverManager.removeWhitelistEntry(data.serverId, data.entryId);
+    return { success: true };
+  }
+
+  // サーバーディレクトリの allowlist.json を取り込む
+  private async handleImportAllowlist(data: ServerAPI.ImportAllowlistRequest): Promise<ServerAPI.ImportAllowlistResponse> {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    return await this.serverManager.importAllowlist(data.serverId);
+  }
+
+  // 許可エントリを allowlist.json に書き出す
+  private async handleExportAllowlist(data: ServerAPI.ExportAllowlistRequest): Promise<ServerAPI.ExportAllowlistResponse> {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    return await this.serverManager.exportAllowlist(data.serverId);
+  }
+
+  // パケットキャプチャ開始
+  private async handleStartCapture(data: ServerAPI.StartCaptureRequest): Promise<ServerAPI.StartCaptureResponse> {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    const capture = await this.serverManager.startCapture(data.serverId, {
+      clientKey: data.clientKey,
+      maxBytes: data.maxBytes,
+      maxDuration: data.maxDuration
+    });
+    return { capture };
+  }
+
+  // パケットキャプチャ停止
+  private async handleStopCapture(data: ServerAPI.StopCaptureRequest): Promise<ServerAPI.StopCaptureResponse> {
+    if (!data || !data.captureId) {
+      throw new APIError("Capture ID is required", "MISSING_CAPTURE_ID", 400);
+    }
+
+    const capture = await this.serverManager.stopCapture(data.captureId);
+    return { capture };
+  }
+
+  // パケットキャプチャ一覧
+  private async handleListCaptures(data: ServerAPI.ListCapturesRequest): Promise<ServerAPI.ListCapturesResponse> {
+    const captures = await this.serverManager.listCaptures(data?.serverId);
+    return { captures };
+  }
+
+  // キャプチャファイルの取得（分割）
+  private async handleDownloadCapture(data: ServerAPI.DownloadCaptureRequest): Promise<ServerAPI.DownloadCaptureResponse> {
+    if (!data || !data.captureId) {
+      throw new APIError("Capture ID is required", "MISSING_CAPTURE_ID", 400);
+    }
+
+    return await this.serverManager.downloadCapture(data.captureId, data.offset ?? 0);
+  }
+
+  // スケジュールされたタスク一覧（serverId 省略時は全サーバー）
+  private async handleGetSchedules(data: ServerAPI.GetSchedulesRequest): Promise<ServerAPI.GetSchedulesResponse> {
+    const schedules = await this.scheduler.getSchedules(data?.serverId);
+    return { schedules };
+  }
+
+  // タスク追加
+  private async handleAddSchedule(data: ServerAPI.AddScheduleRequest): Promise<ServerAPI.AddScheduleResponse> {
+    if (!data || !data.serverId || !data.cron || !data.action) {
+      throw new APIError("Server ID, cron and action are required", "MISSING_SCHEDULE_DATA", 400);
+    }
+
+    const schedule = await this.scheduler.addSchedule(data);
+    return { schedule };
+  }
+
+  // タスク更新
+  private async handleUpdateSchedule(data: ServerAPI.UpdateScheduleRequest): Promise<ServerAPI.UpdateScheduleResponse> {
+    if (!data || !data.id || !data.updates) {
+      throw new APIError("Schedule ID and updates are required", "MISSING_SCHEDULE_DATA", 400);
+    }
+
+    const schedule = await this.scheduler.updateSchedule(data);
+    return { schedule };
+  }
+
+  // タスク削除
+  private async handleRemoveSchedule(data: ServerAPI.RemoveScheduleRequest): Promise<ServerAPI.RemoveScheduleResponse> {
+    if (!data || !data.id) {
+      throw new APIError("Schedule ID is required", "MISSING_SCHEDULE_ID", 400);
+    }
+
+    await this.scheduler.removeSchedule(data.id);
+    return { success: true };
+  }
+
+  // タスクを今すぐ実行
+  private async handleRunSchedule(data: ServerAPI.RunScheduleRequest): Promise<ServerAPI.RunScheduleResponse> {
+    if (!data || !data.id) {
+      throw new APIError("Schedule ID is required", "MISSING_SCHEDULE_ID", 400);
+    }
+
+    return await this.scheduler.runSchedule(data.id);
+  }
+
+  // cron 式の実行予定を確認
+  private handlePreviewSchedule(data: ServerAPI.PreviewScheduleRequest): ServerAPI.PreviewScheduleResponse {
+    if (!data || !data.cron) {
+      throw new APIError("cron is required", "MISSING_SCHEDULE_DATA", 400);
+    }
+
+    return { nextRuns: this.scheduler.previewSchedule(data.cron, data.count) };
+  }
+
+  // ワールドのバックアップ一覧
+  private handleListBackups(data: ServerAPI.ListBackupsRequest): ServerAPI.ListBackupsResponse {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    return { backups: this.serverManager.listWorldBackups(data.serverId) };
+  }
+
+  // ワールドのバックアップ作成
+  private async handleCreateBackup(data: ServerAPI.CreateBackupRequest): Promise<ServerAPI.CreateBackupResponse> {
+    if (!data || !data.serverId) {
+      throw new APIError("Server ID is required", "MISSING_SERVER_ID", 400);
+    }
+
+    return { backup: await this.serverManager.createWorldBackup(data.serverId) };
+  }
+
+  // バックアップからワールドを復元
+  private async handleRestoreBackup(data: ServerAPI.RestoreBackupRequest): Promise<ServerAPI.RestoreBackupResponse> {
+    if (!data || !data.backupId) {
+      throw new APIError("Backup ID is required", "MISSING_BACKUP_ID", 400);
+    }
+
+    return await this.serverManager.restoreWorldBackup(data.backupId);
+  }
+
+  // ワールドのバックアップ削除
+  private async handleDeleteBackup(data: ServerAPI.DeleteBackupRequest): Promise<ServerAPI.DeleteBackupResponse> {
+    if (!data || !data.backupId) {
+      throw new APIError("Backup ID is required", "MISSING_BACKUP_ID", 400);
+    }
+
+    await this.serverManager.deleteWorldBackup(data.backupId);
+    return { success: true };
+  }
+
   // イベント購読
   private handleSubscribe(data: { events?: string[] }, client: WSClient): ResponseMessage {
     const events = data?.events || ["*"];
@@ -286,6 +640,10 @@ export class MessageRouter {
       this.broadcastEvent("server.statusChanged", data);
     });
 
+    this.serverManager.on("serverCrashed", (data: any) => {
+      this.broadcastEvent("server.crashed", data);
+    });
+
     this.serverManager.on("playerJoined", (data: any) => {
       this.broadcastEvent("player.joined", data);
     });
@@ -294,6 +652,30 @@ export class MessageRouter {
       this.broadcastEvent("player.left", data);
     });
 
+    this.serverManager.on("playerKicked", (data: any) => {
+      this.broadcastEvent("player.kicked", data);
+    });
+
+    this.serverManager.on("bansUpdated", (data: any) => {
+      this.broadcastEvent("bans.updated", data);
+    });
+
+    this.serverManager.on("whitelistUpdated", (data: any) => {
+      this.broadcastEvent("whitelist.updated", data);
+    });
+
+    this.serverManager.on("backupsUpdated", (data: any) => {
+      this.broadcastEvent("backups.updated", data);
+    });
+
+    this.serverManager.on("captureStopped", (data: any) => {
+      this.broadcastEvent("capture.stopped", data);
+    });
+
+    this.scheduler.setExecutedHandler((data) => {
+      this.broadcastEvent("schedule.executed", data);
+    });
+
     this.serverManager.on("consoleOutput", (data: any) => {
       this.broadcastEvent("console.output", data);
     });
@@ -302,6 +684,14 @@ export class MessageRouter {
     this.serverManager.on("networkStats", (data: any) => {
       this.broadcastEvent("networkStats", data);
     });
+
+    // フォールバック先への切り替え・復帰
+    this.serverManager.on("proxyFailover", (data: any) => {
+      this.broadcastEvent("proxyFailover", data);
+    });
+    this.serverManager.on("proxyUnderAttack", (data: any) => {
+      this.broadcastEvent("proxyUnderAttack", data);
+    });
     
     // server.properties update events
     this.serverManager.on("serverPropertiesUpdated", (data: any) => {
@@ -0,0 +1,60 @@
+import { isIP } from "net";
+
+/**
+ * "host:port" 形式のアドレスの解析・整形
+ * IPv6 は "[::1]:19132" のように角括弧で囲んだ形式を使用する
+ */
+
+export type SocketType = 'udp4' | 'udp6';
+
+export interface HostPort {
+  host: string; // IPv6 は角括弧なし
+  port: number;
+}
+
+/**
+ * "host:port" / "[IPv6]:port" を解析
+ * @returns 不正な場合（角括弧なしのIPv6、範囲外のポートなど）は null
+ */
+export function parseHostPort(value: string): HostPort | null {
+  const trimmed = value.trim();
+  let host: string;
+  let portText: string;
+
+  const bracketed = trimmed.match(/^\[([^\]]+)\]:(\d+)$/);
+  if (bracketed) {
+    host = bracketed[1];
+    portText = bracketed[2];
+    if (isIP(host) !== 6) return null;
+  } else {
+    const index = trimmed.lastIndexOf(':');
+    if (index <= 0) return null;
+    host = trimmed.slice(0, index);
+    portText = trimmed.slice(index + 1);
+    if (!/^[\w.-]+$/.test(host) || !/^\d+$/.test(portText)) return null;
+  }
+
+  const port = parseInt(portText, 10);
+  if (port < 1 || port > 65535) return null;
+  return { host, port };
+}
+
+export function isValidHostPort(value: string): boolean {
+  return parseHostPort(value) !== null;
+}
+
+// IPv6 は角括弧で囲んで "host:port" にする
+export function formatHostPort(host: string, port: number): string {
+  return isIP(host) === 6 ? `[${host}]:${port}` : `${host}:${port}`;
+}
+
+// 宛先ホストに送信するためのソケット種別（ホスト名はIPv4として扱う）
+export function socketTypeFor(host: string): SocketType {
+  return isIP(host) === 6 ? 'udp6' : 'udp4';
+}
+
+// デュアルスタックのソケットで受信した "::ffff:192.0.2.1" を IPv4 表記に戻す
+export function unmapIPv4(address: string): string {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? mapped[1] : address;
+}
@@ -0,0 +1,199 @@
+import { logger } from "./logger.js";
+import { HealthChecker, type HealthStatus } from "./healthChecker.js";
+import type { LoadBalancingStrategy } from "../types/index.js";
+
+/**
+ * 1つのリスナーに対する転送先（バックエンド）のプール
+ * 新規セッションの転送先を戦略に従って選択し、ヘルスチェックで応答しないバックエンドを除外する
+ * 同じクライアントIPは一定時間同じバックエンドへ振り分ける（セッションアフィニティ）
+ */
+
+export interface BackendConfig {
+  host: string;
+  port: number;
+  weight?: number; // weighted戦略での重み（デフォルト: 1）
+}
+
+export interface Backend {
+  key: string; // "host:port"
+  host: string;
+  port: number;
+  weight: number;
+  healthy: boolean;
+  activeSessions: number;
+  currentWeight: number; // スムーズ重み付きラウンドロビン用
+  healthChecker: HealthChecker | null;
+}
+
+export interface BackendStatus {
+  address: string;
+  weight: number;
+  healthy: boolean;
+  activeSessions: number;
+  health: HealthStatus | null;
+}
+
+export class BackendPool {
+  private backends: Backend[];
+  private strategy: LoadBalancingStrategy;
+  private roundRobinIndex = 0;
+  private affinity = new Map<string, { key: string; expiresAt: number }>(); // クライアントIP -> バックエンド
+  private readonly AFFINITY_TTL = 10 * 60 * 1000; // 10分
+
+  constructor(backends: BackendConfig[], strategy: LoadBalancingStrategy = 'round-robin') {
+    this.strategy = strategy;
+
+    // 同じ転送先の重複は除外
+    const seen = new Set<string>();
+    this.backends = [];
+    for (const backend of backends) {
+      const key = `${backend.host}:${backend.port}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      this.backends.push({
+        key,
+        host: backend.host,
+        port: backend.port,
+        weight: Math.max(1, Math.floor(backend.weight ?? 1)),
+        healthy: true,
+        activeSessions: 0,
+        currentWeight: 0,
+        healthChecker: null
+      });
+    }
+  }
+
+  public get size(): number {
+    return this.backends.length;
+  }
+
+  /**
+   * 新規セッションの転送先を選択
+   * @param affinityKey 同じバックエンドへ振り分けるためのキー（真のクライアントIP）
+   * @returns 正常なバックエンドがない場合は null
+   */
+  public select(affinityKey?: string): Backend | null {
+    const healthy = this.backends.filter(backend => backend.healthy);
+    if (healthy.length === 0) return null;
+
+    const now = Date.now();
+    if (affinityKey) {
+      const sticky = this.affinity.get(affinityKey);
+      if (sticky && sticky.expiresAt > now) {
+        const backend = healthy.find(b => b.key === sticky.key);
+        if (backend) {
+          sticky.expiresAt = now + this.AFFINITY_TTL;
+          return backend;
+        }
+      }
+    }
+
+    let selected: Backend;
+    switch (this.strategy) {
+      case 'least-connections':
+        selected = healthy.reduce((min, backend) =>
+          backend.activeSessions < min.activeSessions ? backend : min
+        );
+        break;
+
+      case 'weighted': {
+        // スムーズ重み付きラウンドロビン（偏りなく重みの比率で分散）
+        const totalWeight = healthy.reduce((sum, backend) => sum + backend.weight, 0);
+        healthy.forEach(backend => {
+          backend.currentWeight += backend.weight;
+        });
+        selected = healthy.reduce((max, backend) =>
+          backend.currentWeight > max.currentWeight ? backend : max
+        );
+        selected.currentWeight -= totalWeight;
+        break;
+      }
+
+      case 'round-robin':
+      default:
+        selected = healthy[this.roundRobinIndex % healthy.length];
+        this.roundRobinIndex = (this.roundRobinIndex + 1) % healthy.length;
+        break;
+    }
+
+    if (affinityKey) {
+      this.affinity.set(affinityKey, { key: selected.key, expiresAt: now + this.AFFINITY_TTL });
+    }
+    return selected;
+  }
+
+  public get(key: string): Backend | undefined {
+    return this.backends.find(backend => backend.key === key);
+  }
+
+  // セッション数を加算・減算（least-connections用）
+  public acquire(key: string): void {
+    const backend = this.get(key);
+    if (backend) backend.activeSessions++;
+  }
+
+  public release(key: string): void {
+    const backend = this.get(key);
+    if (backend && backend.activeSessions > 0) backend.activeSessions--;
+  }
+
+  public hasHealthy(): boolean {
+    return this.backends.some(backend => backend.healthy);
+  }
+
+  // 期限切れのアフィニティを削除
+  public pruneAffinity(): void {
+    const now = Date.now();
+    this.affinity.forEach((entry, clientKey) => {
+      if (entry.expiresAt <= now) this.affinity.delete(clientKey);
+    });
+  }
+
+  /**
+   * 全バックエンドのヘルスチェックを開始
+   * @param onChange バックエンドの状態が変化した時に呼ばれる
+   */
+  public startHealthChecks(onChange: (backend: Backend, healthy: boolean) => void): void {
+    for (const backend of this.backends) {
+      if (backend.healthChecker) continue;
+
+      const checker = new HealthChecker({ host: backend.host, port: backend.port });
+      checker.setChangeHandler((healthy) => {
+        backend.healthy = healthy;
+        backend.currentWeight = 0;
+        if (!healthy) {
+          // 除外したバックエンドへのアフィニティは破棄
+          this.affinity.forEach((entry, clientKey) => {
+            if (entry.key === backend.key) this.affinity.delete(clientKey);
+          });
+        }
+        onChange(backend, healthy);
+      });
+      backend.healthChecker = checker;
+      checker.start();
+    }
+
+    logger.debug('udp-proxy', 'Backend health checks started', {
+      backends: this.backends.map(backend => backend.key),
+      strategy: this.strategy
+    });
+  }
+
+  public stopHealthChecks(): void {
+    for (const backend of this.backends) {
+      backend.healthChecker?.stop();
+      backend.healthChecker = null;
+      backend.healthy = true;
+    }
+  }
+
+  public getStatus(): BackendStatus[] {
+    return this.backends.map(backend => ({
+      address: backend.key,
+      weight: backend.weight,
+      healthy: backend.healthy,
+      activeSessions: backend.activeSessions,
+      health: backend.healthChecker?.getStatus() ?? null
+    }));
+  }
+}
@@ -0,0 +1,508 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+import { createPublicKey, verify } from "crypto";
+import { logger } from "./logger.js";
+import { parseRakNetFrameSet, type RakNetFrame } from "./raknetParser.js";
+
+/**
+ * Bedrock Edition ログインパケット パーサー
+ * 接続確立後の Frame Set から分割フレームを組み立て、ゲームパケット（0xFE）のバッチを展開して
+ * Login パケットの JWT チェーンとクライアントデータからプレイヤー情報を取り出す
+ * 暗号化は Login の後（Server To Client Handshake 以降）に始まるため、Login までは平文で読める
+ * JWT チェーンは Mojang のルート鍵から ES384 署名をたどって検証し、XUID・名前は Xbox が署名したチェーンからのみ取り出す
+ * 検証できないチェーン（オフラインモードや改ざん）のプレイヤーは未認証として扱い、IP以外では照合しない
+ * ログインを拒否する場合にクライアントへ送る Disconnect パケットもここで生成する
+ */
+
+export interface BedrockLoginInfo {
+  displayName: string; // 未認証の場合はクライアントが名乗った名前（表示のみに使用）
+  xuid: string; // 未認証の場合は空文字
+  identity?: string; // プレイヤーUUID（未認証の場合はなし）
+  authenticated: boolean; // Mojang のルート鍵から署名をたどれたチェーンか
+  protocolVersion: number;
+  clientVersion?: string; // GameVersion（例: "1.21.50"）
+  deviceOS?: string;
+  deviceModel?: string;
+}
+
+// Login の JWT チェーンを署名する Mojang のルート公開鍵（ES384、DER形式の SubjectPublicKeyInfo を base64 にしたもの）
+export const MOJANG_ROOT_PUBLIC_KEY = 'MHYwEAYHKoZIzj0CAQYFK4EEACIDYgAECRXueJeTDqNRRgJi/vlRufByu/2G0i2Ebt6YMar5QX/R0DIIyrJMcUpruK4QveTfJSTp3Shlq4Gk34cD/4GUWwkv0DVuzeuB+tXija7HBxii03NHDbPAD0AKnLr2wdAp';
+
+export const GAME_PACKET_ID = 0xfe;
+const LOGIN_PACKET_ID = 0x01;
+const DISCONNECT_PACKET_ID = 0x05;
+
+// Disconnect パケットの形式が変わったプロトコルバージョン
+const PROTOCOL_1_20_40 = 622; // 切断理由（reason）を追加
+const PROTOCOL_1_20_60 = 649; // バッチの先頭に圧縮方式を付ける
+const PROTOCOL_1_21_20 = 712; // フィルター済みメッセージを追加
+
+// 圧縮方式（1.20.60 以降はバッチの先頭に付く）
+const COMPRESSION_ZLIB = 0x00;
+const COMPRESSION_SNAPPY = 0x01;
+const COMPRESSION_NONE = 0xff;
+
+const MAX_BATCH_SIZE = 4 * 1024 * 1024; // 展開後のバッチの上限
+const MAX_SPLIT_COUNT = 512; // 1パケットあたりの分割数の上限
+const MAX_PENDING_SPLITS = 4; // 同時に組み立てる分割パケット数の上限
+const MAX_SPLIT_BYTES = 1024 * 1024; // 組み立て中の分割パケットの合計サイズの上限
+const MAX_FRAME_SETS = 256; // Login が見つからないまま解析を打ち切るまでの Frame Set 数
+const MAX_CHAIN_LENGTH = 8; // 検証する JWT チェーンの長さの上限
+const JWT_CLOCK_SKEW = 60; // JWT の有効期間の判定で許容する時刻のずれ（秒）
+
+// JWT のヘッダー
+interface JwtHeader {
+  alg?: string;
+  x5u?: string; // 署名した鍵（base64 の DER 形式）
+}
+
+// チェーンの JWT のクレーム
+interface LoginChainClaims {
+  identityPublicKey?: string; // 次の JWT を署名する鍵
+  certificateAuthority?: boolean;
+  exp?: number;
+  nbf?: number;
+  extraData?: {
+    displayName?: string;
+    XUID?: string;
+    identity?: string;
+  };
+}
+
+// クライアントデータの JWT のクレーム
+interface ClientDataClaims {
+  DeviceOS?: number;
+  DeviceModel?: string;
+  GameVersion?: string;
+}
+
+interface DecodedJwt<T> {
+  header: JwtHeader;
+  payload: T;
+  signedData: Buffer; // "header.payload"
+  signature: Buffer;
+}
+
+// ClientData の DeviceOS
+const DEVICE_OS_NAMES: Record<number, string> = {
+  1: 'Android',
+  2: 'iOS',
+  3: 'macOS',
+  4: 'FireOS',
+  5: 'GearVR',
+  6: 'HoloLens',
+  7: 'Windows',
+  8: 'Win32',
+  9: 'Dedicated',
+  10: 'tvOS',
+  11: 'PlayStation',
+  12: 'Switch',
+  13: 'Xbox',
+  14: 'WindowsPhone',
+  15: 'Linux'
+};
+
+/**
+ * セッションごとの Login 解析
+ * クライアント→転送先の Frame Set を順に渡し、Login を見つけたらプレイヤー情報を返す
+ * Login の取得後、組み立てられない分割フレームを受け取った場合、または一定数の Frame Set で見つからなければ以降は何もしない
+ * （Login を返さずに終わった場合、解析しなかった Frame Set に Login が含まれている可能性がある）
+ */
+export class BedrockLoginDecoder {
+  private splits = new Map<number, { count: number; parts: Array<Buffer | undefined>; received: number; size: number }>();
+  private frameSets = 0;
+  private finished = false;
+
+  /**
+   * @param trustedRootKeys チェーンのルートとして信頼する公開鍵（デフォルト: Mojang のルート鍵）
+   */
+  constructor(private readonly trustedRootKeys: string[] = [MOJANG_ROOT_PUBLIC_KEY]) {}
+
+  public isFinished(): boolean {
+    return this.finished;
+  }
+
+  public push(datagram: Buffer): BedrockLoginInfo | null {
+    if (this.finished) return null;
+    if (++this.frameSets > MAX_FRAME_SETS) {
+      this.finish();
+      return null;
+    }
+
+    const frameSet = parseRakNetFrameSet(datagram);
+    if (!frameSet) return null;
+
+    for (const frame of frameSet.frames) {
+      const body = frame.split ? this.reassemble(frame) : frame.body;
+      if (this.finished) return null;
+      if (!body || body[0] !== GAME_PACKET_ID) continue;
+
+      for (const packet of decodeGamePacketBatch(body) ?? []) {
+        const login = parseLoginPacket(packet, this.trustedRootKeys);
+        if (login) {
+          this.finish();
+          return login;
+        }
+      }
+    }
+    return null;
+  }
+
+  private finish(): void {
+    this.finished = true;
+    this.splits.clear();
+  }
+
+  private giveUp(): null {
+    this.finish();
+    return null;
+  }
+
+  // 分割フレームを組み立てる（揃っていなければ null、組み立てられない場合は解析を打ち切る）
+  private reassemble(frame: RakNetFrame): Buffer | null {
+    const { count, id, index } = frame.split!;
+    if (count === 0 || count > MAX_SPLIT_COUNT || index >= count) return this.giveUp();
+
+    let entry = this.splits.get(id);
+    if (!entry) {
+      if (this.splits.size >= MAX_PENDING_SPLITS) return this.giveUp();
+      entry = { count, parts: new Array(count), received: 0, size: 0 };
+      this.splits.set(id, entry);
+    }
+    if (entry.count !== count) return this.giveUp();
+    // 再送で重複したフレームは無視する
+    if (entry.parts[index]) return null;
+
+    entry.parts[index] = frame.body;
+    entry.received++;
+    entry.size += frame.body.length;
+    if (entry.size > MAX_SPLIT_BYTES) return this.giveUp();
+    if (entry.received < count) return null;
+
+    this.splits.delete(id);
+    return Buffer.concat(entry.parts as Buffer[]);
+  }
+}
+
+/**
+ * ゲームパケットのバッチ（0xFE）を展開して個々のパケットに分ける
+ * 圧縮方式のバイトがあればそれに従い、なければ古い形式（raw deflate）と非圧縮を順に試す
+ */
+export function decodeGamePacketBatch(data: Buffer): Buffer[] | null {
+  if (data[0] !== GAME_PACKET_ID) return null;
+
+  const body = data.subarray(1);
+  const candidates: Array<() => Buffer> = [];
+  switch (body[0]) {
+    case COMPRESSION_NONE:
+      candidates.push(() => body.subarray(1));
+      break;
+    case COMPRESSION_ZLIB:
+      candidates.push(() => inflateRawSync(body.subarray(1), { maxOutputLength: MAX_BATCH_SIZE }));
+      break;
+    case COMPRESSION_SNAPPY:
+      candidates.push(() => snappyDecompress(body.subarray(1)));
+      break;
+  }
+  candidates.push(
+    () => inflateRawSync(body, { maxOutputLength: MAX_BATCH_SIZE }),
+    () => body
+  );
+
+  for (const decompress of candidates) {
+    try {
+      const packets = splitBatch(decompress());
+      if (packets && packets.length > 0) return packets;
+    } catch (e) {
+      // 次の形式を試す
+    }
+  }
+  return null;
+}
+
+/**
+ * Login パケットからプレイヤー情報を取り出す（Login 以外は null）
+ * 形式: header(varint) + protocolVersion(4, BE) + length(varint) + chain(4, LE + JSON) + clientData(4, LE + JWT)
+ * @param trustedRootKeys チェーンのルートとして信頼する公開鍵（デフォルト: Mojang のルート鍵）
+ */
+export function parseLoginPacket(packet: Buffer, trustedRootKeys: string[] = [MOJANG_ROOT_PUBLIC_KEY]): BedrockLoginInfo | null {
+  try {
+    const header = readVarUInt(packet, 0);
+    if ((header.value & 0x3ff) !== LOGIN_PACKET_ID) return null;
+
+    let offset = header.size;
+    const protocolVersion = packet.readInt32BE(offset);
+    offset += 4;
+    const length = readVarUInt(packet, offset);
+    offset += length.size;
+    const payload = packet.subarray(offset, offset + length.value);
+
+    const chainLength = payload.readUInt32LE(0);
+    const chain = payload.subarray(4, 4 + chainLength).toString('utf8');
+    const tokenOffset = 4 + chainLength;
+    const tokenLength = payload.readUInt32LE(tokenOffset);
+    const token = payload.subarray(tokenOffset + 4, tokenOffset + 4 + tokenLength).toString('utf8');
+
+    const identity = readChainIdentity(chain, token, trustedRootKeys);
+    if (!identity) return null;
+
+    const clientData = decodeJwt<ClientDataClaims>(token)?.payload ?? {};
+    const deviceOS = typeof clientData.DeviceOS === 'number'
+      ? DEVICE_OS_NAMES[clientData.DeviceOS] ?? `Unknown(${clientData.DeviceOS})`
+      : undefined;
+
+    return {
+      ...identity,
+      protocolVersion,
+      clientVersion: typeof clientData.GameVersion === 'string' ? clientData.GameVersion : undefined,
+      deviceOS,
+      deviceModel: typeof clientData.DeviceModel === 'string' ? clientData.DeviceModel : undefined
+    };
+  } catch (error) {
+    logger.debug('raknet', 'Failed to parse Bedrock login packet', {
+      length: packet.length,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * チェーンの JWT からプレイヤーの識別情報を取り出す
+ * 新しいクライアントは {"Certificate": "{\"chain\": [...]}"} の形で送る
+ * 各 JWT は前の JWT の identityPublicKey で署名されている（最初の JWT は自己署名）
+ * 信頼するルート鍵で署名された JWT 以降の extraData だけを認証済みの情報として使い、
+ * 最後の identityPublicKey でクライアントデータの署名も確認する（チェーンの使い回しを防ぐ）
+ * 検証できない場合は、名乗った名前だけを持つ未認証のプレイヤーとして返す
+ */
+function readChainIdentity(
+  json: string,
+  clientDataToken: string,
+  trustedRootKeys: string[]
+): Pick<BedrockLoginInfo, 'displayName' | 'xuid' | 'identity' | 'authenticated'> | null {
+  let parsed = JSON.parse(json);
+  if (typeof parsed?.Certificate === 'string') {
+    parsed = JSON.parse(parsed.Certificate);
+  }
+  const chain: DecodedJwt<LoginChainClaims>[] = [];
+  for (const token of Array.isArray(parsed?.chain) ? parsed.chain : []) {
+    const jwt = typeof token === 'string' ? decodeJwt<LoginChainClaims>(token) : null;
+    if (!jwt) return null;
+    chain.push(jwt);
+  }
+
+  const claimed = chain
+    .map(jwt => jwt.payload.extraData)
+    .find(extraData => typeof extraData?.displayName === 'string');
+  if (!claimed) return null;
+
+  const verified = verifyChain(chain, clientDataToken, trustedRootKeys);
+  if (!verified) {
+    return { displayName: claimed.displayName!, xuid: '', authenticated: false };
+  }
+
+  return {
+    displayName: verified.displayName!,
+    xuid: verified.XUID ? String(verified.XUID) : '',
+    identity: typeof verified.identity === 'string' ? verified.identity : undefined,
+    authenticated: true
+  };
+}
+
+/**
+ * JWT チェーンの署名をたどり、ルート鍵が署名した後の extraData を返す（検証できなければ null）
+ */
+function verifyChain(
+  chain: DecodedJwt<LoginChainClaims>[],
+  clientDataToken: string,
+  trustedRootKeys: string[]
+): NonNullable<LoginChainClaims['extraData']> | null {
+  if (chain.length > MAX_CHAIN_LENGTH) return null;
+
+  const now = Date.now() / 1000;
+  let signingKey: string | undefined;
+  let rooted = false;
+  let extraData: LoginChainClaims['extraData'];
+
+  for (const [index, jwt] of chain.entries()) {
+    // 最初の JWT は自己署名（x5u の鍵で署名）、以降は前の JWT が指定した鍵で署名されている
+    const key = index === 0 ? jwt.header.x5u : signingKey;
+    if (!key || jwt.header.x5u !== key || !verifyJwtSignature(jwt, key)) return null;
+
+    const { exp, nbf, identityPublicKey } = jwt.payload;
+    if ((typeof exp === 'number' && exp + JWT_CLOCK_SKEW < now) || (typeof nbf === 'number' && nbf - JWT_CLOCK_SKEW > now)) {
+      return null;
+    }
+
+    if (trustedRootKeys.includes(key)) {
+      rooted = true;
+    } else if (rooted && typeof jwt.payload.extraData?.displayName === 'string') {
+      // ルート鍵から委任された鍵（Xbox）が署名した識別情報
+      extraData = jwt.payload.extraData;
+    }
+
+    if (typeof identityPublicKey !== 'string') return null;
+    signingKey = identityPublicKey;
+  }
+
+  // クライアントデータはチェーンの最後の鍵（クライアントの鍵）で署名されている
+  const clientData = decodeJwt<ClientDataClaims>(clientDataToken);
+  if (!rooted || !extraData || !signingKey || !clientData || !verifyJwtSignature(clientData, signingKey)) {
+    return null;
+  }
+  return extraData;
+}
+
+// ES384 の署名を検証（鍵は base64 の DER 形式）
+function verifyJwtSignature<T>(jwt: DecodedJwt<T>, publicKey: string): boolean {
+  if (jwt.header.alg !== 'ES384') return false;
+  try {
+    const key = createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return verify('sha384', jwt.signedData, { key, dsaEncoding: 'ieee-p1363' }, jwt.signature);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * クライアントへ送る Disconnect パケット（ゲームパケットのバッチ）を生成
+ * Login 時点では暗号化が始まっていないため平文で送れる
+ * @param message 切断画面に表示するメッセージ
+ * @param protocolVersion Login パケットのプロトコルバージョン（形式の切り替えに使用）
+ */
+export function buildDisconnectPacket(message: string, protocolVersion: number): Buffer {
+  const text = Buffer.from(message, 'utf8');
+  const parts: Buffer[] = [writeVarUInt(DISCONNECT_PACKET_ID)];
+  if (protocolVersion >= PROTOCOL_1_20_40) {
+    parts.push(writeVarUInt(0)); // reason: unknown
+  }
+  parts.push(Buffer.from([0])); // skipMessage: false
+  parts.push(writeVarUInt(text.length), text);
+  if (protocolVersion >= PROTOCOL_1_21_20) {
+    parts.push(writeVarUInt(text.length), text);
+  }
+
+  const packet = Buffer.concat(parts);
+  const batch = Buffer.concat([writeVarUInt(packet.length), packet]);
+  if (protocolVersion >= PROTOCOL_1_20_60) {
+    return Buffer.concat([Buffer.from([GAME_PACKET_ID, COMPRESSION_NONE]), batch]);
+  }
+  return Buffer.concat([Buffer.from([GAME_PACKET_ID]), deflateRawSync(batch)]);
+}
+
+// JWT のヘッダーとペイロードをデコード（署名は verifyJwtSignature で検証する）
+function decodeJwt<T>(token: string): DecodedJwt<T> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const header: JwtHeader = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    const payload: T = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    if (typeof header !== 'object' || header === null || typeof payload !== 'object' || payload === null) return null;
+    return {
+      header,
+      payload,
+      signedData: Buffer.from(`${parts[0]}.${parts[1]}`, 'ascii'),
+      signature: Buffer.from(parts[2], 'base64url')
+    };
+  } catch (e) {
+    return null;
+  }
+}
+
+// バッチを varint の長さ付きパケットに分ける（長さが合わなければ null）
+function splitBatch(data: Buffer): Buffer[] | null {
+  const packets: Buffer[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const length = readVarUInt(data, offset);
+    offset += length.size;
+    if (length.value === 0 || offset + length.value > data.length) return null;
+    packets.push(data.subarray(offset, offset + length.value));
+    offset += length.value;
+  }
+  return packets;
+}
+
+// 符号なし varint（最大32ビット）を読む
+function readVarUInt(data: Buffer, offset: number): { value: number; size: number } {
+  let value = 0;
+  for (let size = 0; size < 5; size++) {
+    if (offset + size >= data.length) break;
+    const byte = data[offset + size];
+    value += (byte & 0x7f) * 2 ** (7 * size);
+    if ((byte & 0x80) === 0) return { value, size: size + 1 };
+  }
+  throw new Error('Invalid varint');
+}
+
+// 符号なし varint を書き出す
+function writeVarUInt(value: number): Buffer {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value = Math.floor(value / 128);
+    if (value > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (value > 0);
+  return Buffer.from(bytes);
+}
+
+/**
+ * Snappy（raw形式、フレーミングなし）を展開
+ * 形式: 展開後の長さ(varint) + 要素の並び（literal / copy）
+ */
+export function snappyDecompress(input: Buffer): Buffer {
+  const header = readVarUInt(input, 0);
+  if (header.value > MAX_BATCH_SIZE) throw new Error('Snappy output too large');
+
+  const output = Buffer.alloc(header.value);
+  let offset = header.size;
+  let position = 0;
+
+  while (offset < input.length) {
+    const tag = input[offset++];
+    const type = tag & 0x03;
+
+    if (type === 0) {
+      // literal: 長さ-1 が60以上なら続く1〜4バイトに格納
+      let length = tag >> 2;
+      if (length >= 60) {
+        const bytes = length - 59;
+        length = input.readUIntLE(offset, bytes);
+        offset += bytes;
+      }
+      length += 1;
+      if (offset + length > input.length || position + length > output.length) {
+        throw new Error('Snappy literal out of range');
+      }
+      input.copy(output, position, offset, offset + length);
+      offset += length;
+      position += length;
+      continue;
+    }
+
+    let length: number;
+    let distance: number;
+    if (type === 1) {
+      length = ((tag >> 2) & 0x07) + 4;
+      distance = ((tag >> 5) << 8) | input[offset++];
+    } else if (type === 2) {
+      length = (tag >> 2) + 1;
+      distance = input.readUInt16LE(offset);
+      offset += 2;
+    } else {
+      length = (tag >> 2) + 1;
+      distance = input.readUInt32LE(offset);
+      offset += 4;
+    }
+    if (distance === 0 || distance > position || position + length > output.length) {
+      throw new Error('Snappy copy out of range');
+    }
+    // 重なりのあるコピーがあるため1バイトずつ複製する
+    for (let i = 0; i < length; i++, position++) {
+      output[position] = output[position - distance];
+    }
+  }
+
+  if (position !== output.length) throw new Error('Snappy length mismatch');
+  return output;
+}
@@ -0,0 +1,41 @@
+import type { CrashReport } from "../types/index.js";
+
+/**
+ * クラッシュ後の自動再起動の判定
+ * 再起動の間隔はクラッシュのたびに2倍にし、判定期間内のクラッシュが上限に達したら再起動を止める
+ */
+
+export const CRASH_RESTART_INITIAL_DELAY = 5; // 最初の自動再起動までの秒数（クラッシュのたびに2倍）
+export const CRASH_RESTART_MAX_DELAY = 300;
+export const CRASH_LOOP_MAX_CRASHES = 5; // 判定期間内にこの回数クラッシュしたら自動再起動を止める
+export const CRASH_LOOP_WINDOW = 10 * 60 * 1000; // クラッシュループの判定期間（ミリ秒）
+
+export interface CrashRecoveryPlan {
+  crashes: string[]; // 判定期間内のクラッシュ時刻（ISO 8601、今回を含む）
+  action: CrashReport["action"];
+  restartDelay?: number; // 自動再起動までの秒数（action が restart の場合）
+}
+
+/**
+ * 今回のクラッシュを加えて次の動作を決める
+ * @param previousCrashes これまでのクラッシュ時刻（判定期間外のものは除く）
+ * @param now 今回のクラッシュ時刻（エポックミリ秒）
+ */
+export function planCrashRecovery(previousCrashes: string[], autoRestart: boolean, now: number): CrashRecoveryPlan {
+  const crashes = [
+    ...previousCrashes.filter(time => now - Date.parse(time) < CRASH_LOOP_WINDOW),
+    new Date(now).toISOString()
+  ];
+
+  if (!autoRestart) {
+    return { crashes, action: "none" };
+  }
+  if (crashes.length >= CRASH_LOOP_MAX_CRASHES) {
+    return { crashes, action: "gaveUp" };
+  }
+  return {
+    crashes,
+    action: "restart",
+    restartDelay: Math.min(CRASH_RESTART_MAX_DELAY, CRASH_RESTART_INITIAL_DELAY * 2 ** (crashes.length - 1))
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * cron 形式の式（分 時 日 月 曜日）の解析と次回実行時刻の計算
+ * 時刻はサーバーのローカル時刻で扱う
+ *
+ * 対応する書式: `*`, `5`, `1-5`, `0-30/10`, `1,15,30`, 月・曜日の英略称（JAN, MON など）
+ * `*` にも間隔を指定できる（15分ごとは `*` の後に `/15`）
+ * 省略形: @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6（日曜が0、7も日曜として扱う）
+  daysOfMonthRestricted: boolean; // 日・曜日の両方を指定した場合はどちらかに一致すれば実行
+  daysOfWeekRestricted: boolean; // `*` で始まるフィールド（`*/2` など）は指定なしとして扱う（Vixie cron と同じ）
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+// 次回実行時刻を探す範囲（2月29日のみの指定でも見つかるよう5年分）
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronParseError";
+  }
+}
+
+function parseValue(token: string, min: number, max: number, names?: string[]): number {
+  const upper = token.toUpperCase();
+  if (names && names.includes(upper)) {
+    return names.indexOf(upper) + min;
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new CronParseError(`Invalid value: ${token}`);
+  }
+  const value = parseInt(token, 10);
+  if (value < min || value > max) {
+    throw new CronParseError(`Value ${value} is out of range (${min}-${max})`);
+  }
+  return value;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new CronParseError(`Invalid step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, min, max, names);
+      end = parseValue(to, min, max, names);
+      if (start > end) {
+        throw new CronParseError(`Invalid range: ${range}`);
+      }
+    } else {
+      start = parseValue(range, min, max, names);
+      // "5/15" は5から最大値まで15刻み
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * cron 式を解析
+ * @throws CronParseError 書式が正しくない場合
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = (expression || "").trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronParseError("Expected 5 fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    daysOfMonthRestricted: !dayOfMonth.startsWith("*"),
+    daysOfWeekRestricted: !dayOfWeek.startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * after より後（同じ分は含まない）で最初に一致する時刻
+ * 夏時間の開始で存在しない時刻（02:30 など）は、ずれた時刻（03:30）に実行する
+ * 夏時間の終了で繰り返す時刻は1回目のみ一致する
+ * 一致する日が見つからない場合（2月31日など）は null
+ */
+export function getNextRun(schedule: CronSchedule, after: Date): Date | null {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getHours())) {
+      const hour = next.getHours() + 1;
+      next.setHours(hour, 0);
+      if (hour < 24 && next.getHours() !== hour && schedule.hours.has(hour)) {
+        // 飛ばされた時間帯の予定（Date は存在しない時刻を後ろにずらして解決する）
+        const shifted = new Date(next.getFullYear(), next.getMonth(), next.getDate(), hour, Math.min(...schedule.minutes));
+        if (shifted.getTime() > after.getTime()) return shifted;
+      }
+      continue;
+    }
+    if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  return null;
+}
+
+// 次回以降の実行時刻を count 件
+export function getNextRuns(schedule: CronSchedule, after: Date, count: number): Date[] {
+  const runs: Date[] = [];
+  let cursor = after;
+  while (runs.length < count) {
+    const next = getNextRun(schedule, cursor);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+}
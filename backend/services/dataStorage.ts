@@ -1,7 +1,9 @@
 import { join } from "path";
 import { mkdir, readFile, writeFile, access } from "fs/promises";
 import { homedir } from "os";
-import type { Server, ServerStatus } from "../types/index.js";
+import type { Server, ServerStatus, BanEntry, WhitelistEntry, ScheduledTask, CrashReport, WorldBackup, RateLimitSettings } from "../types/index.js";
+import { DEFAULT_RATE_LIMITS, LEGACY_DEFAULT_RATE_LIMITS } from "./rateLimiter.js";
+import { isValidHostPort } from "./address.js";
 
 export interface AppConfig {
   language: string;
@@ -22,6 +24,11 @@ export class DataStorage {
   private dataDir: string;
   private configPath: string;
   private serversPath: string;
+  private bansPath: string;
+  private whitelistPath: string;
+  private schedulesPath: string;
+  private crashReportsPath: string;
+  private worldBackupsPath: string;
   private cache: DataStore | null = null;
 
   // デフォルト設定テンプレート（新しいキーはここに追加）
@@ -43,6 +50,26 @@ export class DataStorage {
     autoRestart: false,
     blockSameIP: false,
     proxyProtocolV2Enabled: false,
+    outboundProxyProtocol: "v2" as const,
+    proxyProtocolEmission: "every-packet" as const,
+    trustedProxies: [],
+    proxyProtocolStrict: false,
+    proxyProtocolChecksum: false,
+    whitelistEnabled: false,
+    maintenance: false,
+    maintenanceMessage: "",
+    maintenanceWindow: null,
+    customMotdEnabled: false,
+    backends: [],
+    loadBalancing: "round-robin" as const,
+    rateLimits: DEFAULT_RATE_LIMITS,
+    challengeMode: "auto" as const,
+    challengeThreshold: 100,
+    maxConnections: 1000,
+    pendingRestart: [],
+    drain: null,
+    crashRecovery: null,
+    backupRetention: { maxCount: 10, maxAgeDays: 0 },
     pluginsEnabled: false,
     plugins: {},
     players: [],
@@ -54,6 +81,11 @@ export class DataStorage {
     this.dataDir = join(homedir(), "Documents", "PEXData", "BedrockProxy");
     this.configPath = join(this.dataDir, "config.json");
     this.serversPath = join(this.dataDir, "servers.json");
+    this.bansPath = join(this.dataDir, "bans.json");
+    this.whitelistPath = join(this.dataDir, "whitelist.json");
+    this.schedulesPath = join(this.dataDir, "schedules.json");
+    this.crashReportsPath = join(this.dataDir, "crash-reports.json");
+    this.worldBackupsPath = join(this.dataDir, "world-backups.json");
   }
 
   // プラグインディレクトリのパスを取得
@@ -104,6 +136,46 @@ export class DataStorage {
       await this.saveServers([]);
       console.log("📄 Created default servers.json");
     }
+
+    // bans.json の作成
+    try {
+      await access(this.bansPath);
+    } catch {
+      await this.saveBans({});
+      console.log("📄 Created default bans.json");
+    }
+
+    // whitelist.json の作成
+    try {
+      await access(this.whitelistPath);
+    } catch {
+      await this.saveWhitelists({});
+      console.log("📄 Created default whitelist.json");
+    }
+
+    // schedules.json の作成
+    try {
+      await access(this.schedulesPath);
+    } catch {
+      await this.saveSchedules({});
+      console.log("📄 Created default schedules.json");
+    }
+
+    // crash-reports.json の作成
+    try {
+      await access(this.crashReportsPath);
+    } catch {
+      await this.saveCrashReports({});
+      console.log("📄 Created default crash-reports.json");
+    }
+
+    // world-backups.json の作成
+    try {
+      await access(this.worldBackupsPath);
+    } catch {
+      await this.saveWorldBackups({});
+      console.log("📄 Created default world-backups.json");
+    }
   }
 
   // 設定の読み込み（自動マイグレーション対応）
@@ -202,12 +274,22 @@ export class DataStorage {
       destinationAddress: server.destinationAddress || '127.0.0.1:19133',
       createdAt: server.createdAt || new Date().toISOString(),
       updatedAt: server.updatedAt || new Date().toISOString(),
+      // レート制限は項目単位で補完
+      rateLimits: this.migrateRateLimits(server.rateLimits),
       // プラグイン設定の保証
       plugins: server.plugins || {},
       pluginsEnabled: server.pluginsEnabled ?? false
     };
   }
 
+  // 以前のデフォルトのままのレート制限は新しいデフォルトに置き換える（変更済みの値は維持）
+  private migrateRateLimits(rateLimits: any): RateLimitSettings {
+    const merged = { ...DEFAULT_RATE_LIMITS, ...rateLimits };
+    const isLegacyDefault = (Object.keys(LEGACY_DEFAULT_RATE_LIMITS) as Array<keyof RateLimitSettings>)
+      .every(key => merged[key] === LEGACY_DEFAULT_RATE_LIMITS[key]);
+    return isLegacyDefault ? { ...DEFAULT_RATE_LIMITS } : merged;
+  }
+
   // 簡易的なID生成
   private generateId(): string {
     return `server_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -242,6 +324,186 @@ export class DataStorage {
     }
   }
 
+  // IPバンリストの読み込み（サーバーID -> エントリ一覧）
+  public async loadBans(): Promise<Record<string, BanEntry[]>> {
+    try {
+      const data = await readFile(this.bansPath, 'utf-8');
+      const bans = JSON.parse(data) as Record<string, any[]>;
+
+      // 日付オブジェクトに変換
+      const processed: Record<string, BanEntry[]> = {};
+      for (const [serverId, entries] of Object.entries(bans)) {
+        processed[serverId] = entries.map((entry: any) => ({
+          ...entry,
+          createdAt: new Date(entry.createdAt),
+          expiresAt: entry.expiresAt ? new Date(entry.expiresAt) : undefined
+        }));
+      }
+
+      return processed;
+    } catch (error) {
+      console.warn("⚠️ Failed to load bans, using empty list:", error);
+      return {};
+    }
+  }
+
+  // IPバンリストの保存
+  public async saveBans(bans: Record<string, BanEntry[]>): Promise<void> {
+    try {
+      const serializable: Record<string, any[]> = {};
+      for (const [serverId, entries] of Object.entries(bans)) {
+        serializable[serverId] = entries.map(entry => ({
+          ...entry,
+          createdAt: entry.createdAt.toISOString(),
+          expiresAt: entry.expiresAt?.toISOString()
+        }));
+      }
+
+      await writeFile(this.bansPath, JSON.stringify(serializable, null, 2), 'utf-8');
+    } catch (error) {
+      console.error("❌ Failed to save bans:", error);
+      throw error;
+    }
+  }
+
+  // 許可リスト・拒否リストの読み込み（サーバーID -> エントリ一覧）
+  public async loadWhitelists(): Promise<Record<string, WhitelistEntry[]>> {
+    try {
+      const data = await readFile(this.whitelistPath, 'utf-8');
+      const whitelists = JSON.parse(data) as Record<string, any[]>;
+
+      const processed: Record<string, WhitelistEntry[]> = {};
+      for (const [serverId, entries] of Object.entries(whitelists)) {
+        processed[serverId] = entries.map((entry: any) => ({
+          ...entry,
+          createdAt: new Date(entry.createdAt)
+        }));
+      }
+
+      return processed;
+    } catch (error) {
+      console.warn("⚠️ Failed to load whitelists, using empty list:", error);
+      return {};
+    }
+  }
+
+  // 許可リスト・拒否リストの保存
+  public async saveWhitelists(whitelists: Record<string, WhitelistEntry[]>): Promise<void> {
+    try {
+      const serializable: Record<string, any[]> = {};
+      for (const [serverId, entries] of Object.entries(whitelists)) {
+        serializable[serverId] = entries.map(entry => ({
+          ...entry,
+          createdAt: entry.createdAt.toISOString()
+        }));
+      }
+
+      await writeFile(this.whitelistPath, JSON.stringify(serializable, null, 2), 'utf-8');
+    } catch (error) {
+      console.error("❌ Failed to save whitelists:", error);
+      throw error;
+    }
+  }
+
+  // スケジュールされたタスクの読み込み（サーバーID -> タスク一覧）
+  public async loadSchedules(): Promise<Record<string, ScheduledTask[]>> {
+    try {
+      const data = await readFile(this.schedulesPath, 'utf-8');
+      const schedules = JSON.parse(data) as Record<string, any[]>;
+
+      const processed: Record<string, ScheduledTask[]> = {};
+      for (const [serverId, tasks] of Object.entries(schedules)) {
+        processed[serverId] = tasks.map((task: any) => ({
+          ...task,
+          history: (task.history ?? []).map((run: any) => ({
+            ...run,
+            startedAt: new Date(run.startedAt),
+            finishedAt: new Date(run.finishedAt)
+          })),
+          createdAt: new Date(task.createdAt),
+          updatedAt: new Date(task.updatedAt)
+        }));
+      }
+
+      return processed;
+    } catch (error) {
+      console.warn("⚠️ Failed to load schedules, using empty list:", error);
+      return {};
+    }
+  }
+
+  // スケジュールされたタスクの保存
+  public async saveSchedules(schedules: Record<string, ScheduledTask[]>): Promise<void> {
+    try {
+      await writeFile(this.schedulesPath, JSON.stringify(schedules, null, 2), 'utf-8');
+    } catch (error) {
+      console.error("❌ Failed to save schedules:", error);
+      throw error;
+    }
+  }
+
+  // クラッシュレポートの読み込み（サーバーID -> レポート一覧）
+  public async loadCrashReports(): Promise<Record<string, CrashReport[]>> {
+    try {
+      const data = await readFile(this.crashReportsPath, 'utf-8');
+      const reports = JSON.parse(data) as Record<string, any[]>;
+
+      const processed: Record<string, CrashReport[]> = {};
+      for (const [serverId, entries] of Object.entries(reports)) {
+        processed[serverId] = entries.map((report: any) => ({
+          ...report,
+          time: new Date(report.time)
+        }));
+      }
+
+      return processed;
+    } catch (error) {
+      console.warn("⚠️ Failed to load crash reports, using empty list:", error);
+      return {};
+    }
+  }
+
+  // クラッシュレポートの保存
+  public async saveCrashReports(reports: Record<string, CrashReport[]>): Promise<void> {
+    try {
+      await writeFile(this.crashReportsPath, JSON.stringify(reports, null, 2), 'utf-8');
+    } catch (error) {
+      console.error("❌ Failed to save crash reports:", error);
+      throw error;
+    }
+  }
+
+  // ワールドのバックアップ一覧の読み込み（サーバーID -> バックアップ一覧）
+  public async loadWorldBackups(): Promise<Record<string, WorldBackup[]>> {
+    try {
+      const data = await readFile(this.worldBackupsPath, 'utf-8');
+      const backups = JSON.parse(data) as Record<string, any[]>;
+
+      const processed: Record<string, WorldBackup[]> = {};
+      for (const [serverId, entries] of Object.entries(backups)) {
+        processed[serverId] = entries.map((backup: any) => ({
+          ...backup,
+          createdAt: new Date(backup.createdAt)
+        }));
+      }
+
+      return processed;
+    } catch (error) {
+      console.warn("⚠️ Failed to load world backups, using empty list:", error);
+      return {};
+    }
+  }
+
+  // ワールドのバックアップ一覧の保存
+  public async saveWorldBackups(backups: Record<string, WorldBackup[]>): Promise<void> {
+    try {
+      await writeFile(this.worldBackupsPath, JSON.stringify(backups, null, 2), 'utf-8');
+    } catch (error) {
+      console.error("❌ Failed to save world backups:", error);
+      throw error;
+    }
+  }
+
   // 全データの読み込み
   public async loadAll(): Promise<DataStore> {
     if (this.cache) {
@@ -406,8 +668,7 @@ export class DataStorage {
   }
 
   private isValidAddress(address: string): boolean {
-    const regex = /^[\w.-]+:\d+$/;
-    return regex.test(address);
+    return isValidHostPort(address);
   }
 }
 
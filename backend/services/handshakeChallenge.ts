@@ -0,0 +1,34 @@
+import { createHmac, randomBytes } from "crypto";
+
+/**
+ * 接続チャレンジ（ステートレスな RakNet cookie）
+ * Open Connection Request 1 にはプロキシが cookie 付きの Reply 1 で応答し、
+ * Request 2 で正しい cookie を返した送信元にだけセッションを割り当てる
+ * cookie は送信元アドレスと時間枠の HMAC なので、発行時に状態を保持しない
+ * 送信元を偽装した攻撃者は Reply 1 を受け取れないため、セッションを確保できない
+ */
+export class HandshakeChallenge {
+  private readonly secret = randomBytes(32);
+  // 転送先の GUID が分からない場合に Reply 1 で名乗る GUID
+  public readonly serverGuid = randomBytes(8).readBigUInt64BE();
+  private readonly WINDOW = 10000; // cookieの時間枠（ミリ秒、直前の枠まで有効）
+
+  // 送信元に対する cookie を発行
+  public issue(address: string, port: number, now = Date.now()): number {
+    return this.compute(address, port, Math.floor(now / this.WINDOW));
+  }
+
+  // Request 2 の cookie を検証（現在または直前の時間枠で発行されたもの）
+  public verify(address: string, port: number, cookie: number, now = Date.now()): boolean {
+    const window = Math.floor(now / this.WINDOW);
+    return cookie === this.compute(address, port, window)
+      || cookie === this.compute(address, port, window - 1);
+  }
+
+  private compute(address: string, port: number, window: number): number {
+    return createHmac('sha256', this.secret)
+      .update(`${address}:${port}:${window}`)
+      .digest()
+      .readUInt32BE(0);
+  }
+}
@@ -0,0 +1,189 @@
+import { createSocket, Socket } from "dgram";
+import { randomBytes } from "crypto";
+import { logger } from "./logger.js";
+import { socketTypeFor } from "./address.js";
+import { buildUnconnectedPing, parseRakNetOfflineMessage } from "./raknetParser.js";
+
+/**
+ * 転送先のヘルスチェック
+ * 一定間隔で Unconnected Ping を送信し、Pong の有無で転送先の死活を判定する
+ * 連続失敗・連続成功の回数で状態を切り替え、瞬断でフェイルオーバーが往復しないようにする
+ */
+
+export interface HealthCheckOptions {
+  host: string;
+  port: number;
+  interval?: number; // Ping送信間隔（ミリ秒）
+  timeout?: number; // Pong待ち時間（ミリ秒）
+  failureThreshold?: number; // ダウンと判定する連続失敗回数
+  recoveryThreshold?: number; // 復旧と判定する連続成功回数
+}
+
+export interface HealthStatus {
+  healthy: boolean;
+  lastSuccess?: number;
+  lastFailure?: number;
+  latency?: number; // 直近のPing応答時間（ミリ秒）
+}
+
+export class HealthChecker {
+  private socket: Socket | null = null;
+  private options: Required<HealthCheckOptions>;
+  private timer: NodeJS.Timeout | null = null;
+  private pendingTimeout: NodeJS.Timeout | null = null;
+  private pendingSentAt: number | null = null;
+  private readonly clientGuid = randomBytes(8).readBigUInt64BE();
+
+  private status: HealthStatus = { healthy: true };
+  private consecutiveFailures = 0;
+  private consecutiveSuccesses = 0;
+
+  private onChange?: (healthy: boolean, status: HealthStatus) => void;
+
+  constructor(options: HealthCheckOptions) {
+    this.options = {
+      interval: 5000,
+      timeout: 2000,
+      failureThreshold: 3,
+      recoveryThreshold: 2,
+      ...options
+    };
+  }
+
+  // 状態変化ハンドラーを設定
+  public setChangeHandler(handler: (healthy: boolean, status: HealthStatus) => void): void {
+    this.onChange = handler;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+
+    this.socket = createSocket(socketTypeFor(this.options.host));
+    this.socket.on('message', (data, rinfo) => {
+      if (rinfo.port !== this.options.port) return;
+      if (parseRakNetOfflineMessage(data)?.type === 'UNCONNECTED_PONG') {
+        this.handlePong();
+      }
+    });
+    this.socket.on('error', (error) => {
+      logger.debug('udp-proxy', 'Health check socket error', {
+        target: this.getTarget(),
+        error: error?.message || String(error) || 'unknown error'
+      });
+    });
+
+    this.sendPing();
+    this.timer = setInterval(() => this.sendPing(), this.options.interval);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.pendingTimeout) {
+      clearTimeout(this.pendingTimeout);
+      this.pendingTimeout = null;
+    }
+    this.pendingSentAt = null;
+
+    if (this.socket) {
+      try {
+        this.socket.close();
+      } catch (e) {
+        // ソケットが既に閉じている場合のエラーを無視
+      }
+      this.socket = null;
+    }
+  }
+
+  public isHealthy(): boolean {
+    return this.status.healthy;
+  }
+
+  public getStatus(): HealthStatus {
+    return { ...this.status };
+  }
+
+  public getTarget(): string {
+    return `${this.options.host}:${this.options.port}`;
+  }
+
+  private sendPing(): void {
+    if (!this.socket) return;
+
+    // 前回のPingが未応答のままなら失敗として扱う
+    if (this.pendingTimeout) {
+      clearTimeout(this.pendingTimeout);
+      this.pendingTimeout = null;
+    }
+    if (this.pendingSentAt !== null) {
+      this.handleTimeout();
+    }
+
+    const now = Date.now();
+    this.pendingSentAt = now;
+    const ping = buildUnconnectedPing(BigInt(now), this.clientGuid);
+
+    this.socket.send(ping, this.options.port, this.options.host, (error) => {
+      if (error) {
+        logger.debug('udp-proxy', 'Failed to send health check ping', {
+          target: this.getTarget(),
+          error: error?.message || String(error) || 'unknown error'
+        });
+      }
+    });
+
+    this.pendingTimeout = setTimeout(() => {
+      this.pendingTimeout = null;
+      if (this.pendingSentAt !== null) {
+        this.handleTimeout();
+      }
+    }, this.options.timeout);
+  }
+
+  private handlePong(): void {
+    if (this.pendingSentAt === null) return;
+
+    const now = Date.now();
+    this.status.latency = now - this.pendingSentAt;
+    this.status.lastSuccess = now;
+    this.pendingSentAt = null;
+    if (this.pendingTimeout) {
+      clearTimeout(this.pendingTimeout);
+      this.pendingTimeout = null;
+    }
+
+    this.consecutiveFailures = 0;
+    this.consecutiveSuccesses++;
+
+    if (!this.status.healthy && this.consecutiveSuccesses >= this.options.recoveryThreshold) {
+      this.setHealthy(true);
+    }
+  }
+
+  private handleTimeout(): void {
+    this.pendingSentAt = null;
+    this.status.lastFailure = Date.now();
+
+    this.consecutiveSuccesses = 0;
+    this.consecutiveFailures++;
+
+    if (this.status.healthy && this.consecutiveFailures >= this.options.failureThreshold) {
+      this.setHealthy(false);
+    }
+  }
+
+  private setHealthy(healthy: boolean): void {
+    this.status.healthy = healthy;
+    logger.info('udp-proxy', healthy ? 'Destination recovered' : 'Destination unreachable', {
+      target: this.getTarget(),
+      consecutiveFailures: this.consecutiveFailures,
+      consecutiveSuccesses: this.consecutiveSuccesses
+    });
+
+    if (this.onChange) {
+      this.onChange(healthy, this.getStatus());
+    }
+  }
+}
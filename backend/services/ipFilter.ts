@@ -0,0 +1,112 @@
+import { isIP } from "net";
+import { unmapIPv4 } from "./address.js";
+
+/**
+ * IPアドレス / CIDR のマッチング
+ * バンリストなど、IPv4・IPv6 のアドレス範囲で接続元を判定するために使用
+ */
+
+export interface IpRange {
+  family: 4 | 6;
+  network: bigint;
+  prefixLength: number;
+}
+
+function ipv4ToBigInt(address: string): bigint {
+  return address.split('.').reduce((acc, octet) => (acc << 8n) | BigInt(parseInt(octet, 10)), 0n);
+}
+
+function ipv6ToBigInt(address: string): bigint {
+  // 末尾が IPv4 表記の場合（例: "64:ff9b::192.0.2.1"）は16進2グループに変換
+  let normalized = address;
+  const v4Tail = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4Tail) {
+    const v4 = ipv4ToBigInt(v4Tail[1]);
+    normalized = normalized.slice(0, -v4Tail[1].length)
+      + `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const [head, tail] = normalized.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail !== '' ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = tail !== undefined
+    ? [...headGroups, ...new Array(missing).fill('0'), ...tailGroups]
+    : headGroups;
+
+  return groups.reduce((acc, group) => (acc << 16n) | BigInt(parseInt(group, 16)), 0n);
+}
+
+/**
+ * IPアドレスまたはCIDR表記を解析
+ * @param value "203.0.113.5" / "198.51.100.0/24" / "2001:db8::/32" など
+ * @returns 解析結果。不正な場合は null
+ */
+export function parseIpRange(value: string): IpRange | null {
+  const [rawAddress, rawPrefix, ...rest] = value.trim().split('/');
+  if (rest.length > 0 || !rawAddress) return null;
+
+  const address = unmapIPv4(rawAddress);
+  const family = isIP(address);
+  if (family !== 4 && family !== 6) return null;
+
+  const bits = family === 4 ? 32 : 128;
+  let prefixLength = bits;
+  if (rawPrefix !== undefined) {
+    if (!/^\d+$/.test(rawPrefix)) return null;
+    prefixLength = parseInt(rawPrefix, 10);
+    if (prefixLength > bits) return null;
+  }
+
+  const numeric = family === 4 ? ipv4ToBigInt(address) : ipv6ToBigInt(address);
+  const mask = prefixMask(bits, prefixLength);
+
+  return { family, network: numeric & mask, prefixLength };
+}
+
+function prefixMask(bits: number, prefixLength: number): bigint {
+  if (prefixLength === 0) return 0n;
+  const all = (1n << BigInt(bits)) - 1n;
+  return (all >> BigInt(bits - prefixLength)) << BigInt(bits - prefixLength);
+}
+
+/**
+ * IPアドレスが範囲に含まれるか判定
+ */
+export function ipInRange(address: string, range: IpRange): boolean {
+  const normalized = unmapIPv4(address);
+  const family = isIP(normalized);
+  if (family !== range.family) return false;
+
+  const bits = family === 4 ? 32 : 128;
+  const value = family === 4 ? ipv4ToBigInt(normalized) : ipv6ToBigInt(normalized);
+  return (value & prefixMask(bits, range.prefixLength)) === range.network;
+}
+
+/**
+ * IPアドレスまたはCIDR表記として有効か
+ */
+export function isValidIpOrCidr(value: string): boolean {
+  return parseIpRange(value) !== null;
+}
+
+/**
+ * IPアドレスをネットワークバイトオーダーのバイト列に変換（Proxy Protocol ヘッダー用）
+ * @returns IPv4 は4バイト、IPv6 は16バイト。不正な場合は null
+ */
+export function ipToBuffer(address: string): Buffer | null {
+  const family = isIP(address);
+  if (family === 4) {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(Number(ipv4ToBigInt(address)));
+    return buffer;
+  }
+  if (family === 6) {
+    const value = ipv6ToBigInt(address);
+    const buffer = Buffer.alloc(16);
+    buffer.writeBigUInt64BE(value >> 64n, 0);
+    buffer.writeBigUInt64BE(value & 0xffffffffffffffffn, 8);
+    return buffer;
+  }
+  return null;
+}
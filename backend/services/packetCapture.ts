@@ -0,0 +1,532 @@
+import { createWriteStream, type WriteStream } from "fs";
+import { mkdir, readdir, stat, open } from "fs/promises";
+import { join } from "path";
+import { isIP } from "net";
+import { logger } from "./logger.js";
+import { ipToBuffer } from "./ipFilter.js";
+import type { CaptureInfo, CaptureStopReason } from "../types/index.js";
+
+/**
+ * UDPProxy の通信を pcapng 形式で保存するパケットキャプチャ
+ * UDPペイロードにIP・UDPヘッダーを合成して LINKTYPE_RAW で記録するため、
+ * Wireshark で RakNet のディセクターをそのまま使える（ポートが19132以外なら「Decode As」で指定）
+ */
+
+// クライアント・プロキシ・転送先の間の区間
+export type CaptureDirection = 'client-to-proxy' | 'proxy-to-target' | 'target-to-proxy' | 'proxy-to-client';
+
+export interface CapturedPacket {
+  direction: CaptureDirection;
+  clientKey: string; // セッションのキー（"address:port"）
+  sourceAddress: string;
+  sourcePort: number;
+  destinationAddress: string;
+  destinationPort: number;
+  data: Buffer;
+  timestamp: number; // エポックからのマイクロ秒
+}
+
+export interface CaptureOptions {
+  clientKey?: string; // 指定したセッションのみ記録
+  maxBytes?: number; // ファイルサイズの上限（バイト）
+  maxDuration?: number; // 記録時間の上限（秒）
+}
+
+export const DEFAULT_CAPTURE_MAX_BYTES = 50 * 1024 * 1024;
+export const MAX_CAPTURE_MAX_BYTES = 500 * 1024 * 1024;
+export const DEFAULT_CAPTURE_MAX_DURATION = 300;
+export const MAX_CAPTURE_MAX_DURATION = 3600;
+export const CAPTURE_DOWNLOAD_CHUNK_SIZE = 1024 * 1024;
+
+const BLOCK_SECTION_HEADER = 0x0a0d0d0a;
+const BLOCK_INTERFACE_DESCRIPTION = 0x00000001;
+const BLOCK_ENHANCED_PACKET = 0x00000006;
+const BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+const LINKTYPE_RAW = 101; // 先頭のバージョンで IPv4 / IPv6 を判別
+const SNAP_LENGTH = 65535;
+
+const OPT_END = 0;
+const OPT_COMMENT = 1;
+const OPT_SHB_USERAPPL = 4;
+const OPT_IF_NAME = 2;
+const OPT_EPB_FLAGS = 2;
+
+const EPB_FLAG_INBOUND = 0x1;
+const EPB_FLAG_OUTBOUND = 0x2;
+
+// ファイル名は "<serverId>__<開始日時>.pcapng"（ID は拡張子を除いたファイル名）
+const CAPTURE_ID_PATTERN = /^[\w-]+__[\w-]+$/;
+
+// pcapng のオプション（コード・長さ・値・4バイト境界までのパディング）
+function encodeOption(code: number, value: Buffer): Buffer {
+  const option = Buffer.alloc(4 + pad4(value.length));
+  option.writeUInt16LE(code, 0);
+  option.writeUInt16LE(value.length, 2);
+  value.copy(option, 4);
+  return option;
+}
+
+function encodeBlock(type: number, body: Buffer, options: Buffer[] = []): Buffer {
+  const optionBytes = options.length > 0
+    ? Buffer.concat([...options, Buffer.alloc(4, 0)]) // opt_endofopt
+    : Buffer.alloc(0);
+  const totalLength = 12 + body.length + optionBytes.length;
+  const block = Buffer.alloc(totalLength);
+  block.writeUInt32LE(type, 0);
+  block.writeUInt32LE(totalLength, 4);
+  body.copy(block, 8);
+  optionBytes.copy(block, 8 + body.length);
+  block.writeUInt32LE(totalLength, totalLength - 4);
+  return block;
+}
+
+function pad4(length: number): number {
+  return (length + 3) & ~3;
+}
+
+/**
+ * Section Header Block と Interface Description Block（ファイル先頭）
+ * @param interfaceName Wireshark に表示するインターフェース名
+ */
+export function encodePcapngHeader(interfaceName: string): Buffer {
+  const shbBody = Buffer.alloc(16);
+  shbBody.writeUInt32LE(BYTE_ORDER_MAGIC, 0);
+  shbBody.writeUInt16LE(1, 4); // major
+  shbBody.writeUInt16LE(0, 6); // minor
+  shbBody.writeBigInt64LE(-1n, 8); // セクション長は不明
+  const shb = encodeBlock(BLOCK_SECTION_HEADER, shbBody, [
+    encodeOption(OPT_SHB_USERAPPL, Buffer.from('BedrockProxy'))
+  ]);
+
+  const idbBody = Buffer.alloc(8);
+  idbBody.writeUInt16LE(LINKTYPE_RAW, 0);
+  idbBody.writeUInt32LE(SNAP_LENGTH, 4);
+  // if_tsresol を省略するとマイクロ秒単位
+  const idb = encodeBlock(BLOCK_INTERFACE_DESCRIPTION, idbBody, [
+    encodeOption(OPT_IF_NAME, Buffer.from(interfaceName))
+  ]);
+
+  return Buffer.concat([shb, idb]);
+}
+
+/**
+ * 1パケット分の Enhanced Packet Block
+ * 方向は epb_flags（プロキシから見た受信・送信）とコメントで示す
+ */
+export function encodePacketBlock(packet: CapturedPacket): Buffer {
+  const frame = encodeIpUdpFrame(packet);
+  const body = Buffer.alloc(20 + pad4(frame.length));
+  const timestamp = BigInt(packet.timestamp);
+  body.writeUInt32LE(0, 0); // interface ID
+  body.writeUInt32LE(Number(timestamp >> 32n), 4);
+  body.writeUInt32LE(Number(timestamp & 0xffffffffn), 8);
+  body.writeUInt32LE(frame.length, 12);
+  body.writeUInt32LE(frame.length, 16);
+  frame.copy(body, 20);
+
+  const inbound = packet.direction === 'client-to-proxy' || packet.direction === 'target-to-proxy';
+  const flags = Buffer.alloc(4);
+  flags.writeUInt32LE(inbound ? EPB_FLAG_INBOUND : EPB_FLAG_OUTBOUND);
+
+  return encodeBlock(BLOCK_ENHANCED_PACKET, body, [
+    encodeOption(OPT_EPB_FLAGS, flags),
+    encodeOption(OPT_COMMENT, Buffer.from(`${packet.direction} ${packet.clientKey}`))
+  ]);
+}
+
+// UDPペイロードに IPv4 / IPv6 と UDP のヘッダーを付ける
+// 片方が IPv6 の場合は IPv4 を IPv4-mapped アドレスにして IPv6 で記録する
+function encodeIpUdpFrame(packet: CapturedPacket): Buffer {
+  const ipv6 = isIP(packet.sourceAddress) === 6 || isIP(packet.destinationAddress) === 6;
+  const source = addressBytes(packet.sourceAddress, ipv6);
+  const destination = addressBytes(packet.destinationAddress, ipv6);
+  const payload = packet.data.subarray(0, SNAP_LENGTH - (ipv6 ? 48 : 28));
+
+  const udp = Buffer.alloc(8 + payload.length);
+  udp.writeUInt16BE(packet.sourcePort, 0);
+  udp.writeUInt16BE(packet.destinationPort, 2);
+  udp.writeUInt16BE(udp.length, 4);
+  payload.copy(udp, 8);
+
+  // UDPチェックサム（IPv6では必須）: 疑似ヘッダー + UDPヘッダー + ペイロード
+  const pseudo = Buffer.alloc(ipv6 ? 40 : 12);
+  source.copy(pseudo, 0);
+  destination.copy(pseudo, source.length);
+  if (ipv6) {
+    pseudo.writeUInt32BE(udp.length, 32);
+    pseudo[39] = 17;
+  } else {
+    pseudo[9] = 17;
+    pseudo.writeUInt16BE(udp.length, 10);
+  }
+  udp.writeUInt16BE(internetChecksum([pseudo, udp]) || 0xffff, 6);
+
+  if (ipv6) {
+    const header = Buffer.alloc(40);
+    header.writeUInt32BE(0x60000000, 0);
+    header.writeUInt16BE(udp.length, 4);
+    header[6] = 17; // next header: UDP
+    header[7] = 64; // hop limit
+    source.copy(header, 8);
+    destination.copy(header, 24);
+    return Buffer.concat([header, udp]);
+  }
+
+  const header = Buffer.alloc(20);
+  header[0] = 0x45;
+  header.writeUInt16BE(20 + udp.length, 2);
+  header.writeUInt16BE(0x4000, 6); // DF
+  header[8] = 64; // TTL
+  header[9] = 17; // protocol: UDP
+  source.copy(header, 12);
+  destination.copy(header, 16);
+  header.writeUInt16BE(internetChecksum([header]), 10);
+  return Buffer.concat([header, udp]);
+}
+
+// ホスト名など IP でないアドレスは未指定アドレスとして記録する
+function addressBytes(address: string, ipv6: boolean): Buffer {
+  if (ipv6) {
+    const mapped = isIP(address) === 4 ? `::ffff:${address}` : address;
+    return ipToBuffer(mapped) ?? Buffer.alloc(16);
+  }
+  return ipToBuffer(address) ?? Buffer.alloc(4);
+}
+
+function internetChecksum(buffers: Buffer[]): number {
+  let sum = 0;
+  for (const buffer of buffers) {
+    for (let i = 0; i < buffer.length; i += 2) {
+      sum += (buffer[i] << 8) | (i + 1 < buffer.length ? buffer[i + 1] : 0);
+    }
+  }
+  while (sum > 0xffff) {
+    sum = (sum & 0xffff) + (sum >>> 16);
+  }
+  return ~sum & 0xffff;
+}
+
+const CAPTURE_DIRECTIONS: CaptureDirection[] = ['client-to-proxy', 'proxy-to-target', 'target-to-proxy', 'proxy-to-client'];
+
+/**
+ * encodePcapngHeader / encodePacketBlock で書き出したファイルを読み込む（リプレイ用）
+ * コメントに方向とクライアントキーのないパケット、IPv4/IPv6 の UDP 以外のパケットは読み飛ばす
+ * @throws pcapng として不正な場合
+ */
+export function decodePcapng(data: Buffer): CapturedPacket[] {
+  const packets: CapturedPacket[] = [];
+  const linkTypes: number[] = [];
+  let offset = 0;
+
+  while (offset + 12 <= data.length) {
+    const type = data.readUInt32LE(offset);
+    const totalLength = data.readUInt32LE(offset + 4);
+    if (totalLength < 12 || totalLength % 4 !== 0 || offset + totalLength > data.length) {
+      throw new Error(`Invalid pcapng block at offset ${offset}`);
+    }
+    const block = data.subarray(offset, offset + totalLength);
+    offset += totalLength;
+
+    if (type === BLOCK_SECTION_HEADER) {
+      if (block.readUInt32LE(8) !== BYTE_ORDER_MAGIC) {
+        throw new Error('Unsupported pcapng byte order');
+      }
+      linkTypes.length = 0;
+    } else if (type === BLOCK_INTERFACE_DESCRIPTION) {
+      linkTypes.push(block.readUInt16LE(8));
+    } else if (type === BLOCK_ENHANCED_PACKET) {
+      if (linkTypes[block.readUInt32LE(8)] !== LINKTYPE_RAW) continue;
+
+      const capturedLength = block.readUInt32LE(20);
+      const frame = block.subarray(28, 28 + capturedLength);
+      const comment = readOption(block.subarray(28 + pad4(capturedLength), totalLength - 4), OPT_COMMENT);
+      const [direction, clientKey] = comment?.toString().split(' ') ?? [];
+      if (!CAPTURE_DIRECTIONS.includes(direction as CaptureDirection) || !clientKey) continue;
+
+      const decoded = decodeIpUdpFrame(frame);
+      if (!decoded) continue;
+      packets.push({
+        ...decoded,
+        direction: direction as CaptureDirection,
+        clientKey,
+        timestamp: Number((BigInt(block.readUInt32LE(12)) << 32n) | BigInt(block.readUInt32LE(16)))
+      });
+    }
+  }
+
+  return packets;
+}
+
+function readOption(options: Buffer, code: number): Buffer | null {
+  let offset = 0;
+  while (offset + 4 <= options.length) {
+    const optionCode = options.readUInt16LE(offset);
+    const length = options.readUInt16LE(offset + 2);
+    if (optionCode === OPT_END) break;
+    if (optionCode === code) return options.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + pad4(length);
+  }
+  return null;
+}
+
+function decodeIpUdpFrame(frame: Buffer): Omit<CapturedPacket, 'direction' | 'clientKey' | 'timestamp'> | null {
+  let headerLength: number;
+  let sourceAddress: string;
+  let destinationAddress: string;
+
+  const version = frame.length > 0 ? frame[0] >> 4 : 0;
+  if (version === 4 && frame.length >= 28) {
+    headerLength = (frame[0] & 0x0f) * 4;
+    if (frame[9] !== 17) return null;
+    sourceAddress = Array.from(frame.subarray(12, 16)).join('.');
+    destinationAddress = Array.from(frame.subarray(16, 20)).join('.');
+  } else if (version === 6 && frame.length >= 48) {
+    headerLength = 40;
+    if (frame[6] !== 17) return null;
+    sourceAddress = formatIPv6(frame.subarray(8, 24));
+    destinationAddress = formatIPv6(frame.subarray(24, 40));
+  } else {
+    return null;
+  }
+
+  const udp = frame.subarray(headerLength);
+  if (udp.length < 8) return null;
+  return {
+    sourceAddress,
+    sourcePort: udp.readUInt16BE(0),
+    destinationAddress,
+    destinationPort: udp.readUInt16BE(2),
+    data: Buffer.from(udp.subarray(8, udp.readUInt16BE(4)))
+  };
+}
+
+// 記録時に IPv4-mapped にしたアドレスは IPv4 表記に戻す
+function formatIPv6(buffer: Buffer): string {
+  if (buffer.subarray(0, 10).every((byte) => byte === 0) && buffer.readUInt16BE(10) === 0xffff) {
+    return Array.from(buffer.subarray(12)).join('.');
+  }
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(buffer.readUInt16BE(i).toString(16));
+  }
+  return groups.join(':');
+}
+
+// 1つのキャプチャ（ファイルへの書き込みと上限の管理）
+class PacketCapture {
+  public readonly info: CaptureInfo;
+  private stream: WriteStream;
+  private timer: NodeJS.Timeout;
+  private stopPromise: Promise<CaptureInfo> | null = null;
+
+  constructor(
+    info: CaptureInfo,
+    filePath: string,
+    interfaceName: string,
+    private onLimit: (reason: CaptureStopReason) => void
+  ) {
+    this.info = info;
+    this.stream = createWriteStream(filePath);
+    this.stream.on('error', (error) => {
+      logger.error('packet-capture', 'Capture write failed', { captureId: info.id, error: error.message });
+      this.onLimit('error');
+    });
+    this.write(encodePcapngHeader(interfaceName));
+    this.timer = setTimeout(() => this.onLimit('time-limit'), info.maxDuration * 1000);
+  }
+
+  public record(packet: CapturedPacket): void {
+    if (this.info.status !== 'running') return;
+    if (this.info.clientKey && packet.clientKey !== this.info.clientKey) return;
+
+    const block = encodePacketBlock(packet);
+    if (this.info.bytes + block.length > this.info.maxBytes) {
+      this.onLimit('size-limit');
+      return;
+    }
+    this.write(block);
+    this.info.packets++;
+  }
+
+  public stop(reason: CaptureStopReason): Promise<CaptureInfo> {
+    if (this.stopPromise) return this.stopPromise;
+
+    clearTimeout(this.timer);
+    this.info.status = 'stopped';
+    this.info.stopReason = reason;
+    this.info.stoppedAt = new Date();
+    this.stopPromise = new Promise((resolve) => {
+      this.stream.end(() => resolve(this.info));
+    });
+    return this.stopPromise;
+  }
+
+  private write(buffer: Buffer): void {
+    this.stream.write(buffer);
+    this.info.bytes += buffer.length;
+  }
+}
+
+/**
+ * サーバーごとのキャプチャを管理
+ * 記録中のキャプチャがあるサーバーの UDPProxy から record() にパケットが渡される
+ */
+export class PacketCaptureManager {
+  private captures = new Map<string, PacketCapture>();
+  private onStopped?: (capture: CaptureInfo) => void;
+
+  constructor(private directory: string) {}
+
+  // 上限に達して自動で停止した場合にも呼ばれる
+  public setStoppedHandler(handler: (capture: CaptureInfo) => void): void {
+    this.onStopped = handler;
+  }
+
+  public async start(serverId: string, interfaceName: string, options: CaptureOptions = {}): Promise<CaptureInfo> {
+    await mkdir(this.directory, { recursive: true });
+
+    const startedAt = new Date();
+    const stamp = startedAt.toISOString().replace(/[-:]/g, '').replace('T', '-').replace(/\..*$/, '');
+    let id = `${serverId}__${stamp}`;
+    for (let suffix = 2; this.captures.has(id); suffix++) {
+      id = `${serverId}__${stamp}-${suffix}`;
+    }
+
+    const info: CaptureInfo = {
+      id,
+      serverId,
+      clientKey: options.clientKey,
+      fileName: `${id}.pcapng`,
+      status: 'running',
+      startedAt,
+      bytes: 0,
+      packets: 0,
+      maxBytes: options.maxBytes ?? DEFAULT_CAPTURE_MAX_BYTES,
+      maxDuration: options.maxDuration ?? DEFAULT_CAPTURE_MAX_DURATION
+    };
+
+    const capture = new PacketCapture(info, join(this.directory, info.fileName), interfaceName, (reason) => {
+      this.stop(id, reason).catch(() => {});
+    });
+    this.captures.set(id, capture);
+
+    logger.info('packet-capture', 'Capture started', {
+      captureId: id,
+      clientKey: info.clientKey,
+      maxBytes: info.maxBytes,
+      maxDuration: info.maxDuration
+    });
+    return info;
+  }
+
+  public async stop(captureId: string, reason: CaptureStopReason = 'manual'): Promise<CaptureInfo | null> {
+    const capture = this.captures.get(captureId);
+    if (!capture) return null;
+    if (capture.info.status !== 'running') return capture.info;
+
+    const info = await capture.stop(reason);
+    logger.info('packet-capture', 'Capture stopped', {
+      captureId,
+      reason,
+      packets: info.packets,
+      bytes: info.bytes
+    });
+    if (this.onStopped) {
+      this.onStopped(info);
+    }
+    return info;
+  }
+
+  public record(serverId: string, packet: CapturedPacket): void {
+    this.captures.forEach((capture) => {
+      if (capture.info.serverId === serverId) {
+        capture.record(packet);
+      }
+    });
+  }
+
+  public isCapturing(serverId: string): boolean {
+    for (const capture of this.captures.values()) {
+      if (capture.info.serverId === serverId && capture.info.status === 'running') return true;
+    }
+    return false;
+  }
+
+  public countRunning(serverId: string): number {
+    let count = 0;
+    this.captures.forEach((capture) => {
+      if (capture.info.serverId === serverId && capture.info.status === 'running') count++;
+    });
+    return count;
+  }
+
+  /**
+   * キャプチャ一覧（このプロセスで記録したものと、ディレクトリに残っている以前のファイル）
+   * @param serverId 指定した場合はそのサーバーのキャプチャのみ
+   */
+  public async list(serverId?: string): Promise<CaptureInfo[]> {
+    const result = new Map<string, CaptureInfo>();
+    this.captures.forEach((capture, id) => {
+      if (!serverId || capture.info.serverId === serverId) {
+        result.set(id, { ...capture.info });
+      }
+    });
+
+    let files: string[] = [];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      // まだ一度もキャプチャしていない
+    }
+    for (const fileName of files) {
+      const id = fileName.replace(/\.pcapng$/, '');
+      if (id === fileName || result.has(id) || !CAPTURE_ID_PATTERN.test(id)) continue;
+
+      const fileServerId = id.split('__')[0];
+      if (serverId && fileServerId !== serverId) continue;
+
+      const stats = await stat(join(this.directory, fileName));
+      result.set(id, {
+        id,
+        serverId: fileServerId,
+        fileName,
+        status: 'stopped',
+        startedAt: stats.birthtime,
+        stoppedAt: stats.mtime,
+        bytes: stats.size,
+        packets: 0, // 以前のプロセスで記録したファイルは数えない
+        maxBytes: stats.size,
+        maxDuration: 0
+      });
+    }
+
+    return Array.from(result.values()).sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  /**
+   * ファイルの一部を読み出す（WebSocket で分割して渡すため）
+   * @returns 存在しない場合は null
+   */
+  public async read(captureId: string, offset: number, length: number = CAPTURE_DOWNLOAD_CHUNK_SIZE): Promise<{ fileName: string; size: number; data: Buffer } | null> {
+    if (!CAPTURE_ID_PATTERN.test(captureId)) return null;
+
+    const fileName = `${captureId}.pcapng`;
+    let handle;
+    try {
+      handle = await open(join(this.directory, fileName), 'r');
+    } catch {
+      return null;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      const data = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      if (data.length > 0) {
+        await handle.read(data, 0, data.length, offset);
+      }
+      return { fileName, size, data };
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -288,7 +288,7 @@ export class ProcessManager extends EventEmitter {
   }
 
   // プロセス停止完了を待つ
-  private waitForProcessStop(serverId: string, timeoutMs: number): Promise<void> {
+  public waitForProcessStop(serverId: string, timeoutMs: number): Promise<void> {
     return new Promise((resolve, reject) => {
       const checkInterval = 100; // 100ms間隔でチェック
       let elapsed = 0;
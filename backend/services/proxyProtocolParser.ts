@@ -1,33 +1,86 @@
+import { isIP } from "net";
 import { logger } from "./logger.js";
+import { unmapIPv4 } from "./address.js";
+import { ipToBuffer } from "./ipFilter.js";
 
 /**
- * Proxy Protocol v2 パーサー
- * HAProxy PROXY Protocol v2 の仕様に基づいてヘッダーを解析
+ * Proxy Protocol v1 / v2 パーサー
+ * HAProxy PROXY Protocol の仕様に基づいてヘッダーを解析
  * 参照: https://www.haproxy.org/download/1.8/doc/proxy-protocol.txt
  */
 
+// v1（テキスト形式）のヘッダー
+export interface ProxyProtocolV1Header {
+  version: 1;
+  protocol: 'TCP4' | 'TCP6' | 'UNKNOWN';
+  sourceAddress: string; // 真のクライアント
+  destAddress: string; // プロキシが受信したアドレス
+  sourcePort: number;
+  destPort: number;
+  headerLength: number; // CRLFを含む行の長さ
+}
+
 export interface ProxyProtocolV2Header {
-  version: number;
+  version: 2;
   command: 'LOCAL' | 'PROXY';
   family: 'UNSPEC' | 'INET' | 'INET6' | 'UNIX';
   protocol: 'UNSPEC' | 'STREAM' | 'DGRAM';
-  sourceAddress: string;
-  destAddress: string;
+  sourceAddress: string; // 真のクライアント
+  destAddress: string; // プロキシが受信したアドレス
   sourcePort: number;
   destPort: number;
   headerLength: number; // ヘッダー全体の長さ（シグネチャ含む）
   tlvData?: Buffer; // TLV（Type-Length-Value）拡張データ
+  tlvs?: ProxyProtocolTLVs; // tlvDataを解析したもの
   rawHeader?: Buffer; // デバッグ用：生のヘッダーデータ
 }
 
+// TLVの種別（PP2_TYPE_*）
+export const PP2_TYPE_ALPN = 0x01;
+export const PP2_TYPE_AUTHORITY = 0x02;
+export const PP2_TYPE_CRC32C = 0x03;
+export const PP2_TYPE_NOOP = 0x04;
+export const PP2_TYPE_UNIQUE_ID = 0x05;
+
+const PP2_UNIQUE_ID_MAX_LENGTH = 128;
+
+export interface ProxyProtocolTLV {
+  type: number;
+  value: Buffer;
+}
+
+// 解析済みのTLV（NOOPは捨てる）
+export interface ProxyProtocolTLVs {
+  alpn?: string;
+  authority?: string; // 接続先のホスト名（このプロキシが付ける場合はリスナー名）
+  crc32c?: number;
+  uniqueId?: Buffer; // 上流プロキシが割り当てたセッションID（最大128バイト）
+  custom: ProxyProtocolTLV[]; // 上記以外の種別（PP2_TYPE_SSL やベンダー独自の種別など）
+}
+
+// ヘッダー生成時に付加するTLV
+export interface ProxyProtocolTLVOptions {
+  alpn?: string;
+  authority?: string;
+  uniqueId?: Buffer;
+  custom?: ProxyProtocolTLV[];
+  crc32c?: boolean; // ヘッダー全体のCRC32Cを付加
+}
+
 export interface ProxyProtocolChain {
-  headers: ProxyProtocolV2Header[]; // 多段プロキシのヘッダーチェーン
+  headers: ProxyProtocolHeader[]; // 多段プロキシのヘッダーチェーン
   originalClientIP: string; // 最も元のクライアントIP
   originalClientPort: number; // 最も元のクライアントポート
   proxyChain: string[]; // プロキシチェーン（IP:Port形式）
   payload: Buffer; // すべてのヘッダーを除去した最終ペイロード
 }
 
+export type ProxyProtocolHeader = ProxyProtocolV1Header | ProxyProtocolV2Header;
+
+// Proxy Protocol v1 シグネチャと最大長（"PROXY UNKNOWN ..." を含め CRLF まで107バイト）
+const PROXY_V1_SIGNATURE = Buffer.from('PROXY ', 'ascii');
+const PROXY_V1_MAX_LENGTH = 107;
+
 // Proxy Protocol v2 シグネチャ
 const PROXY_V2_SIGNATURE = Buffer.from([
   0x0D, 0x0A, 0x0D, 0x0A, 0x00, 0x0D, 0x0A, 0x51,
@@ -47,6 +100,75 @@ export function isProxyProtocolV2(data: Buffer): boolean {
   return data.subarray(0, PROXY_V2_SIGNATURE.length).equals(PROXY_V2_SIGNATURE);
 }
 
+/**
+ * バッファが Proxy Protocol v1 のシグネチャ（"PROXY "）で始まるかチェック
+ */
+export function isProxyProtocolV1(data: Buffer): boolean {
+  if (data.length < PROXY_V1_SIGNATURE.length) {
+    return false;
+  }
+
+  return data.subarray(0, PROXY_V1_SIGNATURE.length).equals(PROXY_V1_SIGNATURE);
+}
+
+/**
+ * Proxy Protocol v1 ヘッダーを解析
+ * 例: "PROXY TCP4 192.0.2.1 198.51.100.1 56324 19132\r\n"
+ * @returns パース結果。パース失敗時は null
+ */
+export function parseProxyProtocolV1(data: Buffer): ProxyProtocolV1Header | null {
+  if (!isProxyProtocolV1(data)) {
+    return null;
+  }
+
+  const end = data.subarray(0, PROXY_V1_MAX_LENGTH).indexOf('\r\n');
+  if (end === -1) {
+    logger.debug('proxy-protocol', 'PROXY v1 header without CRLF', { length: data.length });
+    return null;
+  }
+
+  const parts = data.toString('ascii', 0, end).split(' ');
+  const protocol = parts[1];
+  const headerLength = end + 2;
+
+  // UNKNOWN の場合、残りのフィールドは無視する
+  if (protocol === 'UNKNOWN') {
+    return {
+      version: 1,
+      protocol,
+      sourceAddress: '',
+      destAddress: '',
+      sourcePort: 0,
+      destPort: 0,
+      headerLength
+    };
+  }
+
+  if ((protocol !== 'TCP4' && protocol !== 'TCP6') || parts.length !== 6) {
+    logger.debug('proxy-protocol', 'Invalid PROXY v1 header', { protocol, fields: parts.length });
+    return null;
+  }
+
+  const [, , sourceAddress, destAddress, sourcePortText, destPortText] = parts;
+  const family = protocol === 'TCP4' ? 4 : 6;
+  const isPort = (value: string) => /^\d{1,5}$/.test(value) && parseInt(value, 10) <= 65535;
+  if (isIP(sourceAddress) !== family || isIP(destAddress) !== family
+    || !isPort(sourcePortText) || !isPort(destPortText)) {
+    logger.debug('proxy-protocol', 'Invalid PROXY v1 address fields', { protocol });
+    return null;
+  }
+
+  return {
+    version: 1,
+    protocol,
+    sourceAddress,
+    destAddress,
+    sourcePort: parseInt(sourcePortText, 10),
+    destPort: parseInt(destPortText, 10),
+    headerLength
+  };
+}
+
 /**
  * Proxy Protocol v2 ヘッダーを解析
  * @param data 受信したデータバッファ
@@ -227,11 +349,20 @@ export function parseProxyProtocolV2(data: Buffer): ProxyProtocolV2Header | null
 
     // TLVデータの抽出（アドレス情報の後）
     let tlvData: Buffer | undefined;
+    let tlvs: ProxyProtocolTLVs | undefined;
     const addressInfoLength = getAddressInfoLength(family, protocol);
     if (addressInfoLength > 0 && addressLength > addressInfoLength) {
       const tlvStart = 16 + addressInfoLength;
       const tlvLength = addressLength - addressInfoLength;
       tlvData = data.subarray(tlvStart, tlvStart + tlvLength);
+
+      // 壊れたTLVはアドレス情報を捨てずにTLVだけ無視する
+      const entries = parseProxyProtocolTLVs(tlvData);
+      if (entries) {
+        tlvs = decodeProxyProtocolTLVs(entries);
+      } else {
+        logger.debug('proxy-protocol', 'Malformed TLV data ignored', { tlvLength });
+      }
     }
 
     const result: ProxyProtocolV2Header = {
@@ -245,13 +376,15 @@ export function parseProxyProtocolV2(data: Buffer): ProxyProtocolV2Header | null
       destPort,
       headerLength: totalHeaderLength,
       tlvData,
+      tlvs,
       rawHeader: data.subarray(0, totalHeaderLength) // デバッグ用
     };
 
     logger.debug('proxy-protocol', 'Parsed Proxy Protocol v2 header', {
       ...result,
       rawHeader: undefined, // ログには含めない
-      tlvData: tlvData ? `${tlvData.length} bytes` : 'none'
+      tlvData: tlvData ? `${tlvData.length} bytes` : 'none',
+      tlvs: tlvs ? describeProxyProtocolTLVs(tlvs) : undefined
     });
 
     return result;
@@ -264,6 +397,148 @@ export function parseProxyProtocolV2(data: Buffer): ProxyProtocolV2Header | null
   }
 }
 
+/**
+ * TLV列を分解
+ * @returns 長さが合わない場合は null
+ */
+export function parseProxyProtocolTLVs(data: Buffer): ProxyProtocolTLV[] | null {
+  const entries: ProxyProtocolTLV[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    if (offset + 3 > data.length) return null;
+    const type = data[offset];
+    const length = data.readUInt16BE(offset + 1);
+    const end = offset + 3 + length;
+    if (end > data.length) return null;
+
+    entries.push({ type, value: data.subarray(offset + 3, end) });
+    offset = end;
+  }
+
+  return entries;
+}
+
+/**
+ * TLV列を既知の種別ごとに解釈
+ */
+export function decodeProxyProtocolTLVs(entries: ProxyProtocolTLV[]): ProxyProtocolTLVs {
+  const tlvs: ProxyProtocolTLVs = { custom: [] };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case PP2_TYPE_ALPN:
+        tlvs.alpn = entry.value.toString('ascii');
+        break;
+      case PP2_TYPE_AUTHORITY:
+        tlvs.authority = entry.value.toString('utf8');
+        break;
+      case PP2_TYPE_CRC32C:
+        if (entry.value.length === 4) tlvs.crc32c = entry.value.readUInt32BE(0);
+        break;
+      case PP2_TYPE_NOOP:
+        break;
+      case PP2_TYPE_UNIQUE_ID:
+        if (entry.value.length <= PP2_UNIQUE_ID_MAX_LENGTH) tlvs.uniqueId = Buffer.from(entry.value);
+        break;
+      default:
+        tlvs.custom.push({ type: entry.type, value: Buffer.from(entry.value) });
+    }
+  }
+
+  return tlvs;
+}
+
+/**
+ * TLV列を生成（CRC32Cは値を0で確保し、ヘッダー完成後に generateProxyProtocolV2Header が書き込む）
+ */
+export function encodeProxyProtocolTLVs(options: ProxyProtocolTLVOptions): Buffer {
+  const entries: ProxyProtocolTLV[] = [];
+
+  if (options.alpn) {
+    entries.push({ type: PP2_TYPE_ALPN, value: Buffer.from(options.alpn, 'ascii') });
+  }
+  if (options.authority) {
+    entries.push({ type: PP2_TYPE_AUTHORITY, value: Buffer.from(options.authority, 'utf8') });
+  }
+  if (options.uniqueId && options.uniqueId.length > 0) {
+    entries.push({ type: PP2_TYPE_UNIQUE_ID, value: options.uniqueId.subarray(0, PP2_UNIQUE_ID_MAX_LENGTH) });
+  }
+  for (const entry of options.custom ?? []) {
+    entries.push(entry);
+  }
+  if (options.crc32c) {
+    entries.push({ type: PP2_TYPE_CRC32C, value: Buffer.alloc(4) });
+  }
+
+  return Buffer.concat(entries.map(entry => {
+    const tlv = Buffer.alloc(3 + entry.value.length);
+    tlv[0] = entry.type;
+    tlv.writeUInt16BE(entry.value.length, 1);
+    entry.value.copy(tlv, 3);
+    return tlv;
+  }));
+}
+
+// ログ出力用にTLVを要約
+export function describeProxyProtocolTLVs(tlvs: ProxyProtocolTLVs): Record<string, unknown> {
+  return {
+    alpn: tlvs.alpn,
+    authority: tlvs.authority,
+    crc32c: tlvs.crc32c,
+    uniqueId: tlvs.uniqueId?.toString('hex'),
+    custom: tlvs.custom.map(entry => `0x${entry.type.toString(16)} (${entry.value.length} bytes)`)
+  };
+}
+
+let crc32cTable: Uint32Array | null = null;
+
+/**
+ * CRC32C（Castagnoli）を計算
+ */
+export function crc32c(data: Buffer): number {
+  if (!crc32cTable) {
+    crc32cTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let value = i;
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? (value >>> 1) ^ 0x82F63B78 : value >>> 1;
+      }
+      crc32cTable[i] = value >>> 0;
+    }
+  }
+
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = crc32cTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * CRC32C TLVを検証（チェックサム欄を0にしたヘッダー全体と比較）
+ * @returns CRC32C TLVがない場合も false
+ */
+export function verifyProxyProtocolChecksum(header: ProxyProtocolV2Header): boolean {
+  if (!header.rawHeader || !header.tlvData || header.tlvs?.crc32c === undefined) {
+    return false;
+  }
+
+  const copy = Buffer.from(header.rawHeader);
+  let offset = header.headerLength - header.tlvData.length;
+  while (offset + 3 <= copy.length) {
+    const type = copy[offset];
+    const length = copy.readUInt16BE(offset + 1);
+    if (type === PP2_TYPE_CRC32C && length === 4) {
+      copy.fill(0, offset + 3, offset + 7);
+      break;
+    }
+    offset += 3 + length;
+  }
+
+  return crc32c(copy) === header.tlvs.crc32c;
+}
+
 /**
  * アドレス情報のバイト長を取得
  */
@@ -283,14 +558,39 @@ function getAddressInfoLength(family: string, protocol: string): number {
  */
 export function parseProxyProtocolChain(data: Buffer): ProxyProtocolChain | null {
   try {
-    const headers: ProxyProtocolV2Header[] = [];
+    const headers: ProxyProtocolHeader[] = [];
     let remainingData = data;
     let iteration = 0;
     const maxIterations = 10; // 無限ループ防止
 
-    // ヘッダーを再帰的に解析
-    while (isProxyProtocolV2(remainingData) && iteration < maxIterations) {
-      const beforeParseLength = remainingData.length;
+    // ヘッダーを再帰的に解析（v1・v2 を自動判別）
+    while ((isProxyProtocolV2(remainingData) || isProxyProtocolV1(remainingData)) && iteration < maxIterations) {
+      if (isProxyProtocolV1(remainingData)) {
+        const header = parseProxyProtocolV1(remainingData);
+
+        if (!header) {
+          logger.warn('proxy-protocol', `Failed to parse PROXY v1 header at iteration ${iteration + 1}`);
+          break;
+        }
+
+        // UNKNOWN は v2 の LOCAL と同様に、送信元アドレスをそのまま使う
+        if (header.protocol === 'UNKNOWN') {
+          logger.debug('proxy-protocol', `PROXY v1 UNKNOWN at iteration ${iteration + 1}`);
+          break;
+        }
+
+        headers.push(header);
+        remainingData = remainingData.subarray(header.headerLength);
+        iteration++;
+
+        logger.info('proxy-protocol', `Parsed Proxy Protocol v1 header #${iteration}`, {
+          proxyServer: `${header.destAddress}:${header.destPort}`,
+          realClient: `${header.sourceAddress}:${header.sourcePort}`,
+          protocol: header.protocol
+        });
+        continue;
+      }
+
       const header = parseProxyProtocolV2(remainingData);
       
       if (!header) {
@@ -310,8 +610,8 @@ export function parseProxyProtocolChain(data: Buffer): ProxyProtocolChain | null
       iteration++;
 
       logger.info('proxy-protocol', `Parsed Proxy Protocol v2 header #${iteration}`, {
-        proxyServer: `${header.sourceAddress}:${header.sourcePort}`,
-        realClient: `${header.destAddress}:${header.destPort}`,
+        proxyServer: `${header.destAddress}:${header.destPort}`,
+        realClient: `${header.sourceAddress}:${header.sourcePort}`,
         protocol: header.protocol
       });
     }
@@ -321,16 +621,16 @@ export function parseProxyProtocolChain(data: Buffer): ProxyProtocolChain | null
       return null;
     }
 
-    // プロキシチェーンを構築（sourceAddress = プロキシサーバー）
-    const proxyChain = headers.map(h => `${h.sourceAddress}:${h.sourcePort}`);
+    // プロキシチェーンを構築
+    // v1・v2 とも仕様どおり sourceAddress = 真のクライアント / destAddress = プロキシサーバー
+    const proxyChain = headers.map(h => `${h.destAddress}:${h.destPort}`);
     
-    // destAddressが真のクライアント（プレイヤー）
     const firstHeader = headers[0];
 
     const chain: ProxyProtocolChain = {
       headers,
-      originalClientIP: firstHeader.destAddress,
-      originalClientPort: firstHeader.destPort,
+      originalClientIP: firstHeader.sourceAddress,
+      originalClientPort: firstHeader.sourcePort,
       proxyChain,
       payload: remainingData
     };
@@ -374,22 +674,62 @@ function formatIPv6(buffer: Buffer): string {
   return parts.join(':');
 }
 
+/**
+ * Proxy Protocol v1ヘッダーを生成
+ * v1 にUDPの定義はないため、HAProxy・nginx と同じく TCP4 / TCP6 として送る
+ * @param sourceIP 送信元IP(真のクライアントIP)
+ * @param sourcePort 送信元ポート
+ * @param destIP 宛先IP(サーバーIP)
+ * @param destPort 宛先ポート
+ * @returns 生成されたProxy Protocol v1ヘッダー
+ */
+export function generateProxyProtocolV1Header(
+  sourceIP: string,
+  sourcePort: number,
+  destIP: string,
+  destPort: number
+): Buffer {
+  const source = unmapIPv4(sourceIP);
+  if (!isIP(source)) {
+    return Buffer.from('PROXY UNKNOWN\r\n', 'ascii');
+  }
+
+  // 宛先がホスト名の場合はアドレス不明として 0.0.0.0 / :: を入れる
+  const dest = isIP(unmapIPv4(destIP)) ? unmapIPv4(destIP) : (isIP(source) === 6 ? '::' : '0.0.0.0');
+  const isIPv6 = isIP(source) === 6 || isIP(dest) === 6;
+  const toText = (address: string) => isIPv6 && isIP(address) === 4 ? `::ffff:${address}` : address;
+
+  const line = `PROXY ${isIPv6 ? 'TCP6' : 'TCP4'} ${toText(source)} ${toText(dest)} ${sourcePort} ${destPort}\r\n`;
+  return Buffer.from(line, 'ascii');
+}
+
 /**
  * Proxy Protocol v2ヘッダーを生成
  * @param sourceIP 送信元IP(真のクライアントIP)
  * @param sourcePort 送信元ポート
  * @param destIP 宛先IP(サーバーIP)
  * @param destPort 宛先ポート
+ * @param tlvOptions 付加するTLV
  * @returns 生成されたProxy Protocol v2ヘッダー
  */
 export function generateProxyProtocolV2Header(
   sourceIP: string,
   sourcePort: number,
   destIP: string,
-  destPort: number
+  destPort: number,
+  tlvOptions?: ProxyProtocolTLVOptions
 ): Buffer {
-  // IPv4かIPv6かを判定
-  const isIPv6 = sourceIP.includes(':');
+  // 送信元・宛先のどちらかがIPv6なら、もう一方はIPv4-mapped IPv6にしてINET6で揃える
+  // （宛先がホスト名の場合はアドレス不明として0で埋める）
+  const source = unmapIPv4(sourceIP);
+  const dest = unmapIPv4(destIP);
+  const isIPv6 = isIP(source) === 6 || isIP(dest) === 6;
+  const toBytes = (address: string): Buffer => {
+    if (isIPv6) {
+      return ipToBuffer(isIP(address) === 4 ? `::ffff:${address}` : address) ?? Buffer.alloc(16);
+    }
+    return ipToBuffer(address) ?? Buffer.alloc(4);
+  };
   
   // シグネチャ(12バイト)
   const signature = Buffer.from(PROXY_V2_SIGNATURE);
@@ -406,52 +746,21 @@ export function generateProxyProtocolV2Header(
   }
   
   // アドレス情報を書き込む
-  let addressBuffer: Buffer;
+  // IPv6: 16 + 16 + 2 + 2 = 36バイト / IPv4: 4 + 4 + 2 + 2 = 12バイト
+  const addressSize = isIPv6 ? 16 : 4;
+  const addressBuffer = Buffer.alloc(addressSize * 2 + 4);
+  toBytes(source).copy(addressBuffer, 0);
+  toBytes(dest).copy(addressBuffer, addressSize);
   
-  if (isIPv6) {
-    // IPv6: 16 + 16 + 2 + 2 = 36バイト
-    addressBuffer = Buffer.alloc(36);
-    
-    // 送信元IPv6アドレス
-    const sourceParts = sourceIP.split(':').map(p => parseInt(p || '0', 16));
-    for (let i = 0; i < 8; i++) {
-      addressBuffer.writeUInt16BE(sourceParts[i] || 0, i * 2);
-    }
-    
-    // 宛先IPv6アドレス
-    const destParts = destIP.split(':').map(p => parseInt(p || '0', 16));
-    for (let i = 0; i < 8; i++) {
-      addressBuffer.writeUInt16BE(destParts[i] || 0, 16 + i * 2);
-    }
-    
-    // ポート番号
-    addressBuffer.writeUInt16BE(sourcePort, 32);
-    addressBuffer.writeUInt16BE(destPort, 34);
-  } else {
-    // IPv4: 4 + 4 + 2 + 2 = 12バイト
-    addressBuffer = Buffer.alloc(12);
-    
-    // 送信元IPv4アドレス
-    const sourceParts = sourceIP.split('.').map(Number);
-    addressBuffer[0] = sourceParts[0];
-    addressBuffer[1] = sourceParts[1];
-    addressBuffer[2] = sourceParts[2];
-    addressBuffer[3] = sourceParts[3];
-    
-    // 宛先IPv4アドレス
-    const destParts = destIP.split('.').map(Number);
-    addressBuffer[4] = destParts[0];
-    addressBuffer[5] = destParts[1];
-    addressBuffer[6] = destParts[2];
-    addressBuffer[7] = destParts[3];
-    
-    // ポート番号
-    addressBuffer.writeUInt16BE(sourcePort, 8);
-    addressBuffer.writeUInt16BE(destPort, 10);
-  }
+  // ポート番号
+  addressBuffer.writeUInt16BE(sourcePort, addressSize * 2);
+  addressBuffer.writeUInt16BE(destPort, addressSize * 2 + 2);
+  
+  // TLV（アドレス情報の後ろに続ける）
+  const tlvBuffer = tlvOptions ? encodeProxyProtocolTLVs(tlvOptions) : Buffer.alloc(0);
   
-  // アドレス長(2バイト、ビッグエンディアン)
-  const addressLength = addressBuffer.length;
+  // アドレス長(2バイト、ビッグエンディアン) - TLVを含む
+  const addressLength = addressBuffer.length + tlvBuffer.length;
   
   // ヘッダーを構築
   const header = Buffer.alloc(16 + addressLength);
@@ -460,6 +769,12 @@ export function generateProxyProtocolV2Header(
   header[13] = familyAndProtocol;
   header.writeUInt16BE(addressLength, 14);
   addressBuffer.copy(header, 16);
+  tlvBuffer.copy(header, 16 + addressBuffer.length);
+  
+  // CRC32Cはチェックサム欄を0にしたヘッダー全体から計算する（CRC32CのTLVは末尾に置いている）
+  if (tlvOptions?.crc32c) {
+    header.writeUInt32BE(crc32c(header), header.length - 4);
+  }
   
   return header;
 }
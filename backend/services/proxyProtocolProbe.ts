@@ -0,0 +1,96 @@
+import { createSocket } from "dgram";
+import { randomBytes } from "crypto";
+import { logger } from "./logger.js";
+import { socketTypeFor } from "./address.js";
+import { buildUnconnectedPing, parseRakNetOfflineMessage } from "./raknetParser.js";
+import { generateProxyProtocolV1Header, generateProxyProtocolV2Header } from "./proxyProtocolParser.js";
+import type { ProxyProtocolProbeResult } from "../types/index.js";
+
+/**
+ * 転送先がProxy Protocolヘッダー付きのパケットを受け付けるかの確認
+ * ヘッダーなしとヘッダー付きの Unconnected Ping を別々のソケットから送り、Pong の有無を比べる
+ * ヘッダーを解釈しない転送先は、ヘッダー付きのPingを不明なパケットとして無視する
+ */
+
+export interface ProxyProtocolProbeOptions {
+  host: string;
+  port: number;
+  format: 'v1' | 'v2';
+  timeout?: number; // Pong待ち時間（ミリ秒、デフォルト: 2000）
+}
+
+// ヘッダーで名乗る送信元（ドキュメント用アドレス。転送先のログで確認用と分かるようにする）
+const PROBE_SOURCE_IP = '192.0.2.1';
+const PROBE_SOURCE_PORT = 19132;
+
+export async function probeProxyProtocol(options: ProxyProtocolProbeOptions): Promise<ProxyProtocolProbeResult> {
+  const { host, port, format, timeout = 2000 } = options;
+  const header = format === 'v1'
+    ? generateProxyProtocolV1Header(PROBE_SOURCE_IP, PROBE_SOURCE_PORT, host, port)
+    : generateProxyProtocolV2Header(PROBE_SOURCE_IP, PROBE_SOURCE_PORT, host, port);
+
+  const [plain, withHeader] = await Promise.all([
+    sendPing(host, port, null, timeout),
+    sendPing(host, port, header, timeout)
+  ]);
+
+  const status = withHeader !== null
+    ? 'compatible'
+    : plain !== null ? 'incompatible' : 'unreachable';
+
+  logger.info('udp-proxy', 'Proxy Protocol compatibility probed', {
+    target: `${host}:${port}`,
+    format,
+    status
+  });
+
+  return {
+    destination: `${host}:${port}`,
+    format,
+    status,
+    latency: withHeader ?? undefined
+  };
+}
+
+// Unconnected Ping を1回送り、Pong までの時間を返す（応答がなければ null）
+function sendPing(host: string, port: number, header: Buffer | null, timeout: number): Promise<number | null> {
+  return new Promise((resolve) => {
+    const socket = createSocket(socketTypeFor(host));
+    const sentAt = Date.now();
+    let settled = false;
+
+    const finish = (latency: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      try {
+        socket.close();
+      } catch (e) {
+        // ソケットが既に閉じている場合のエラーを無視
+      }
+      resolve(latency);
+    };
+
+    const timer = setTimeout(() => finish(null), timeout);
+
+    socket.on('message', (data, rinfo) => {
+      if (rinfo.port !== port) return;
+      if (parseRakNetOfflineMessage(data)?.type === 'UNCONNECTED_PONG') {
+        finish(Date.now() - sentAt);
+      }
+    });
+    socket.on('error', (error) => {
+      logger.debug('udp-proxy', 'Proxy Protocol probe socket error', {
+        target: `${host}:${port}`,
+        error: error?.message || String(error) || 'unknown error'
+      });
+      finish(null);
+    });
+
+    const ping = buildUnconnectedPing(BigInt(sentAt), randomBytes(8).readBigUInt64BE());
+    const packet = header ? Buffer.concat([header, ping]) : ping;
+    socket.send(packet, port, host, (error) => {
+      if (error) finish(null);
+    });
+  });
+}
@@ -0,0 +1,493 @@
+import { logger } from "./logger.js";
+
+/**
+ * RakNet オフラインメッセージ パーサー
+ * Bedrock Edition が接続確立前に使用する Unconnected Ping/Pong と
+ * Open Connection Request/Reply 1・2 と、接続確立後の Frame Set を解析する
+ * 参照: https://wiki.vg/Raknet_Protocol
+ */
+
+export type RakNetOfflineMessageType =
+  | 'UNCONNECTED_PING'
+  | 'UNCONNECTED_PING_OPEN_CONNECTIONS'
+  | 'UNCONNECTED_PONG'
+  | 'OPEN_CONNECTION_REQUEST_1'
+  | 'OPEN_CONNECTION_REPLY_1'
+  | 'OPEN_CONNECTION_REQUEST_2'
+  | 'OPEN_CONNECTION_REPLY_2';
+
+// パケットの大分類（オフラインメッセージ以外は接続済みセッションのデータ）
+export type RakNetPacketCategory = 'offline' | 'frameSet' | 'ack' | 'nack' | 'unknown';
+
+export interface RakNetAddress {
+  version: 4 | 6;
+  address: string;
+  port: number;
+}
+
+export interface UnconnectedPing {
+  type: 'UNCONNECTED_PING' | 'UNCONNECTED_PING_OPEN_CONNECTIONS';
+  time: bigint;
+  clientGuid: bigint;
+}
+
+export interface UnconnectedPong {
+  type: 'UNCONNECTED_PONG';
+  time: bigint;
+  serverGuid: bigint;
+  motd: string; // "MCPE;..." 形式のサーバー情報文字列
+}
+
+export interface OpenConnectionRequest1 {
+  type: 'OPEN_CONNECTION_REQUEST_1';
+  protocolVersion: number;
+  mtu: number; // パディングを含むパケット長 + IP/UDPヘッダー(28バイト)
+}
+
+export interface OpenConnectionReply1 {
+  type: 'OPEN_CONNECTION_REPLY_1';
+  serverGuid: bigint;
+  useSecurity: boolean;
+  cookie?: number;
+  mtu: number;
+}
+
+export interface OpenConnectionRequest2 {
+  type: 'OPEN_CONNECTION_REQUEST_2';
+  cookie?: number; // Reply 1 でセキュリティ（cookie）を要求した場合のみ
+  serverAddress: RakNetAddress;
+  mtu: number;
+  clientGuid: bigint;
+}
+
+export interface OpenConnectionReply2 {
+  type: 'OPEN_CONNECTION_REPLY_2';
+  serverGuid: bigint;
+  clientAddress: RakNetAddress;
+  mtu: number;
+  encryption: boolean;
+}
+
+export type RakNetOfflineMessage =
+  | UnconnectedPing
+  | UnconnectedPong
+  | OpenConnectionRequest1
+  | OpenConnectionReply1
+  | OpenConnectionRequest2
+  | OpenConnectionReply2;
+
+// RakNet パケットID
+export const RAKNET_PACKET_IDS = {
+  UNCONNECTED_PING: 0x01,
+  UNCONNECTED_PING_OPEN_CONNECTIONS: 0x02,
+  OPEN_CONNECTION_REQUEST_1: 0x05,
+  OPEN_CONNECTION_REPLY_1: 0x06,
+  OPEN_CONNECTION_REQUEST_2: 0x07,
+  OPEN_CONNECTION_REPLY_2: 0x08,
+  DISCONNECTION_NOTIFICATION: 0x15,
+  UNCONNECTED_PONG: 0x1c,
+  NACK: 0xa0,
+  ACK: 0xc0
+} as const;
+
+// オフラインメッセージ識別用のマジックバイト
+export const RAKNET_MAGIC = Buffer.from([
+  0x00, 0xff, 0xff, 0x00, 0xfe, 0xfe, 0xfe, 0xfe,
+  0xfd, 0xfd, 0xfd, 0xfd, 0x12, 0x34, 0x56, 0x78
+]);
+
+const UDP_IP_HEADER_SIZE = 28; // IPv4(20) + UDP(8)
+
+/**
+ * パケットの大分類を判定（先頭バイトのみで判定する軽量チェック）
+ */
+export function classifyRakNetPacket(data: Buffer): RakNetPacketCategory {
+  if (data.length === 0) return 'unknown';
+
+  const id = data[0];
+  if (isOfflineMessage(data)) return 'offline';
+  if ((id & 0xf0) === 0x80) return 'frameSet'; // 0x80-0x8F: Frame Set (valid bit)
+  if (id === RAKNET_PACKET_IDS.ACK) return 'ack';
+  if (id === RAKNET_PACKET_IDS.NACK) return 'nack';
+  return 'unknown';
+}
+
+/**
+ * バッファが RakNet オフラインメッセージ（マジック付き）かチェック
+ */
+export function isOfflineMessage(data: Buffer): boolean {
+  const offset = getMagicOffset(data[0]);
+  if (offset < 0 || data.length < offset + RAKNET_MAGIC.length) {
+    return false;
+  }
+  return data.subarray(offset, offset + RAKNET_MAGIC.length).equals(RAKNET_MAGIC);
+}
+
+/**
+ * パケットIDごとのマジックの位置を返す（オフラインメッセージでなければ -1）
+ */
+function getMagicOffset(id: number | undefined): number {
+  switch (id) {
+    case RAKNET_PACKET_IDS.UNCONNECTED_PING:
+    case RAKNET_PACKET_IDS.UNCONNECTED_PING_OPEN_CONNECTIONS:
+      return 9; // id + time(8)
+    case RAKNET_PACKET_IDS.UNCONNECTED_PONG:
+      return 17; // id + time(8) + serverGuid(8)
+    case RAKNET_PACKET_IDS.OPEN_CONNECTION_REQUEST_1:
+    case RAKNET_PACKET_IDS.OPEN_CONNECTION_REPLY_1:
+    case RAKNET_PACKET_IDS.OPEN_CONNECTION_REQUEST_2:
+    case RAKNET_PACKET_IDS.OPEN_CONNECTION_REPLY_2:
+      return 1;
+    default:
+      return -1;
+  }
+}
+
+/**
+ * RakNet オフラインメッセージを解析
+ * @param data 受信したデータバッファ（Proxy Protocol ヘッダー除去済み）
+ * @returns パース結果。オフラインメッセージでない、または不正な場合は null
+ */
+export function parseRakNetOfflineMessage(data: Buffer): RakNetOfflineMessage | null {
+  if (!isOfflineMessage(data)) {
+    return null;
+  }
+
+  try {
+    const id = data[0];
+    let offset = 1;
+
+    switch (id) {
+      case RAKNET_PACKET_IDS.UNCONNECTED_PING:
+      case RAKNET_PACKET_IDS.UNCONNECTED_PING_OPEN_CONNECTIONS: {
+        const time = data.readBigUInt64BE(offset);
+        offset += 8 + RAKNET_MAGIC.length;
+        const clientGuid = data.length >= offset + 8 ? data.readBigUInt64BE(offset) : 0n;
+        return {
+          type: id === RAKNET_PACKET_IDS.UNCONNECTED_PING ? 'UNCONNECTED_PING' : 'UNCONNECTED_PING_OPEN_CONNECTIONS',
+          time,
+          clientGuid
+        };
+      }
+
+      case RAKNET_PACKET_IDS.UNCONNECTED_PONG: {
+        const time = data.readBigUInt64BE(offset);
+        const serverGuid = data.readBigUInt64BE(offset + 8);
+        offset += 16 + RAKNET_MAGIC.length;
+        const motdLength = data.readUInt16BE(offset);
+        offset += 2;
+        const motd = data.toString('utf8', offset, Math.min(data.length, offset + motdLength));
+        return { type: 'UNCONNECTED_PONG', time, serverGuid, motd };
+      }
+
+      case RAKNET_PACKET_IDS.OPEN_CONNECTION_REQUEST_1: {
+        offset += RAKNET_MAGIC.length;
+        const protocolVersion = data[offset];
+        return {
+          type: 'OPEN_CONNECTION_REQUEST_1',
+          protocolVersion,
+          mtu: data.length + UDP_IP_HEADER_SIZE
+        };
+      }
+
+      case RAKNET_PACKET_IDS.OPEN_CONNECTION_REPLY_1: {
+        offset += RAKNET_MAGIC.length;
+        const serverGuid = data.readBigUInt64BE(offset);
+        offset += 8;
+        const useSecurity = data[offset] === 1;
+        offset += 1;
+        let cookie: number | undefined;
+        if (useSecurity && data.length >= offset + 6) {
+          cookie = data.readUInt32BE(offset);
+          offset += 4;
+        }
+        const mtu = data.readUInt16BE(offset);
+        return { type: 'OPEN_CONNECTION_REPLY_1', serverGuid, useSecurity, cookie, mtu };
+      }
+
+      case RAKNET_PACKET_IDS.OPEN_CONNECTION_REQUEST_2: {
+        offset += RAKNET_MAGIC.length;
+        const securityLength = getRequest2SecurityLength(data);
+        let cookie: number | undefined;
+        if (securityLength > 0) {
+          cookie = data.readUInt32BE(offset);
+          offset += securityLength;
+        }
+        const serverAddress = readAddress(data, offset);
+        offset += serverAddress.length;
+        const mtu = data.readUInt16BE(offset);
+        offset += 2;
+        const clientGuid = data.readBigUInt64BE(offset);
+        return { type: 'OPEN_CONNECTION_REQUEST_2', cookie, serverAddress: serverAddress.value, mtu, clientGuid };
+      }
+
+      case RAKNET_PACKET_IDS.OPEN_CONNECTION_REPLY_2: {
+        offset += RAKNET_MAGIC.length;
+        const serverGuid = data.readBigUInt64BE(offset);
+        offset += 8;
+        const clientAddress = readAddress(data, offset);
+        offset += clientAddress.length;
+        const mtu = data.readUInt16BE(offset);
+        offset += 2;
+        const encryption = data.length > offset ? data[offset] === 1 : false;
+        return { type: 'OPEN_CONNECTION_REPLY_2', serverGuid, clientAddress: clientAddress.value, mtu, encryption };
+      }
+
+      default:
+        return null;
+    }
+  } catch (error) {
+    logger.debug('raknet', 'Failed to parse RakNet offline message', {
+      packetId: data[0],
+      length: data.length,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * Open Connection Request 2 のセキュリティ部分の長さ（なければ 0）
+ * セキュリティ有効時は cookie(4) + clientWroteChallenge(1) [+ challenge(64)] が先頭に付く
+ * 残りの長さが通常形式（address + mtu(2) + guid(8)）と一致しない場合にセキュリティ付きと判定する
+ */
+function getRequest2SecurityLength(data: Buffer): number {
+  const plainLength = data.length - 1 - RAKNET_MAGIC.length;
+  if (plainLength === 7 + 10 || plainLength === 29 + 10) return 0;
+
+  const wroteChallenge = data[1 + RAKNET_MAGIC.length + 4] === 1;
+  return wroteChallenge ? 5 + 64 : 5;
+}
+
+/**
+ * Open Connection Request 2 からセキュリティ部分（cookie）を取り除く
+ * プロキシで cookie を検証した後、セキュリティを使わない転送先へ通常形式で渡すために使用
+ */
+export function stripRequest2Security(data: Buffer): Buffer {
+  const securityLength = getRequest2SecurityLength(data);
+  if (securityLength === 0) return data;
+
+  const headerLength = 1 + RAKNET_MAGIC.length;
+  return Buffer.concat([
+    data.subarray(0, headerLength),
+    data.subarray(headerLength + securityLength)
+  ]);
+}
+
+/**
+ * RakNet のアドレス構造を読み取る
+ * IPv4: version(1) + ビット反転したアドレス(4) + port(2)
+ * IPv6: version(1) + family(2, LE) + port(2) + flowInfo(4) + address(16) + scopeId(4)
+ */
+function readAddress(data: Buffer, offset: number): { value: RakNetAddress; length: number } {
+  const version = data[offset];
+
+  if (version === 4) {
+    const address = [
+      ~data[offset + 1] & 0xff,
+      ~data[offset + 2] & 0xff,
+      ~data[offset + 3] & 0xff,
+      ~data[offset + 4] & 0xff
+    ].join('.');
+    const port = data.readUInt16BE(offset + 5);
+    return { value: { version: 4, address, port }, length: 7 };
+  }
+
+  if (version === 6) {
+    const port = data.readUInt16BE(offset + 3);
+    const parts: string[] = [];
+    for (let i = 0; i < 16; i += 2) {
+      parts.push(data.readUInt16BE(offset + 9 + i).toString(16));
+    }
+    return { value: { version: 6, address: parts.join(':'), port }, length: 29 };
+  }
+
+  throw new Error(`Unknown RakNet address version: ${version}`);
+}
+
+/**
+ * Unconnected Ping を生成（ステータス取得・死活監視用）
+ * @param time 送信時刻（Pongでそのまま返される）
+ * @param clientGuid 送信元GUID
+ */
+export function buildUnconnectedPing(time: bigint, clientGuid: bigint): Buffer {
+  const packet = Buffer.alloc(1 + 8 + RAKNET_MAGIC.length + 8);
+  let offset = 0;
+  packet[offset++] = RAKNET_PACKET_IDS.UNCONNECTED_PING;
+  packet.writeBigUInt64BE(BigInt.asUintN(64, time), offset);
+  offset += 8;
+  RAKNET_MAGIC.copy(packet, offset);
+  offset += RAKNET_MAGIC.length;
+  packet.writeBigUInt64BE(BigInt.asUintN(64, clientGuid), offset);
+  return packet;
+}
+
+/**
+ * Unconnected Pong を生成
+ * @param time 対応する Ping の時刻
+ * @param serverGuid サーバーGUID
+ * @param motd "MCPE;..." 形式のサーバー情報文字列
+ */
+export function buildUnconnectedPong(time: bigint, serverGuid: bigint, motd: string): Buffer {
+  const motdBuffer = Buffer.from(motd, 'utf8');
+  const packet = Buffer.alloc(1 + 8 + 8 + RAKNET_MAGIC.length + 2 + motdBuffer.length);
+  let offset = 0;
+  packet[offset++] = RAKNET_PACKET_IDS.UNCONNECTED_PONG;
+  packet.writeBigUInt64BE(BigInt.asUintN(64, time), offset);
+  offset += 8;
+  packet.writeBigUInt64BE(BigInt.asUintN(64, serverGuid), offset);
+  offset += 8;
+  RAKNET_MAGIC.copy(packet, offset);
+  offset += RAKNET_MAGIC.length;
+  packet.writeUInt16BE(motdBuffer.length, offset);
+  offset += 2;
+  motdBuffer.copy(packet, offset);
+  return packet;
+}
+
+/**
+ * Open Connection Reply 1 を生成（接続チャレンジ用）
+ * @param serverGuid サーバーGUID
+ * @param cookie クライアントが Request 2 で返す cookie（省略時はセキュリティなし）
+ * @param mtu 合意するMTU
+ */
+export function buildOpenConnectionReply1(serverGuid: bigint, cookie: number | undefined, mtu: number): Buffer {
+  const packet = Buffer.alloc(1 + RAKNET_MAGIC.length + 8 + 1 + (cookie !== undefined ? 4 : 0) + 2);
+  let offset = 0;
+  packet[offset++] = RAKNET_PACKET_IDS.OPEN_CONNECTION_REPLY_1;
+  RAKNET_MAGIC.copy(packet, offset);
+  offset += RAKNET_MAGIC.length;
+  packet.writeBigUInt64BE(BigInt.asUintN(64, serverGuid), offset);
+  offset += 8;
+  packet[offset++] = cookie !== undefined ? 1 : 0;
+  if (cookie !== undefined) {
+    packet.writeUInt32BE(cookie >>> 0, offset);
+    offset += 4;
+  }
+  packet.writeUInt16BE(mtu, offset);
+  return packet;
+}
+
+// Frame Set 内のフレーム（接続確立後のデータ）
+export interface RakNetFrame {
+  reliability: number;
+  reliableIndex?: number;
+  orderIndex?: number;
+  orderChannel?: number;
+  split?: {
+    count: number;
+    id: number;
+    index: number;
+  };
+  body: Buffer;
+}
+
+export interface RakNetFrameSet {
+  sequenceNumber: number;
+  frames: RakNetFrame[];
+}
+
+const RELIABLE_TYPES = new Set([2, 3, 4, 6, 7]);
+const SEQUENCED_TYPES = new Set([1, 4]);
+const ORDERED_TYPES = new Set([1, 3, 4, 7]);
+
+/**
+ * Frame Set（0x80-0x8F）を解析
+ * 形式: flags(1) + sequenceNumber(3, LE) + フレームの並び
+ * フレーム: flags(1) + ビット長(2) + [reliableIndex(3)] + [sequencedIndex(3)] + [orderIndex(3) + channel(1)] + [split(10)] + body
+ */
+export function parseRakNetFrameSet(data: Buffer): RakNetFrameSet | null {
+  if (classifyRakNetPacket(data) !== 'frameSet' || data.length < 4) return null;
+
+  try {
+    const sequenceNumber = data.readUIntLE(1, 3);
+    const frames: RakNetFrame[] = [];
+    let offset = 4;
+
+    while (offset < data.length) {
+      const flags = data[offset++];
+      const reliability = (flags & 0xe0) >> 5;
+      const isSplit = (flags & 0x10) !== 0;
+      const length = Math.ceil(data.readUInt16BE(offset) / 8);
+      offset += 2;
+
+      const frame: RakNetFrame = { reliability, body: Buffer.alloc(0) };
+      if (RELIABLE_TYPES.has(reliability)) {
+        frame.reliableIndex = data.readUIntLE(offset, 3);
+        offset += 3;
+      }
+      if (SEQUENCED_TYPES.has(reliability)) {
+        offset += 3;
+      }
+      if (ORDERED_TYPES.has(reliability)) {
+        frame.orderIndex = data.readUIntLE(offset, 3);
+        frame.orderChannel = data[offset + 3];
+        offset += 4;
+      }
+      if (isSplit) {
+        frame.split = {
+          count: data.readUInt32BE(offset),
+          id: data.readUInt16BE(offset + 4),
+          index: data.readUInt32BE(offset + 6)
+        };
+        offset += 10;
+      }
+
+      if (offset + length > data.length) return null;
+      frame.body = data.subarray(offset, offset + length);
+      offset += length;
+      frames.push(frame);
+    }
+
+    return { sequenceNumber, frames };
+  } catch (error) {
+    logger.debug('raknet', 'Failed to parse RakNet frame set', {
+      length: data.length,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * ACK・NACK（0xC0・0xA0）が示す Frame Set の番号の範囲を解析
+ * 形式: id(1) + レコード数(2, BE) + レコードの並び
+ * レコード: 単一か(1) + 開始番号(3, LE) + [終了番号(3, LE)]
+ */
+export function parseRakNetAck(data: Buffer): Array<{ start: number; end: number }> | null {
+  const category = classifyRakNetPacket(data);
+  if ((category !== 'ack' && category !== 'nack') || data.length < 3) return null;
+
+  const count = data.readUInt16BE(1);
+  const ranges: Array<{ start: number; end: number }> = [];
+  let offset = 3;
+  for (let i = 0; i < count; i++) {
+    if (offset + 4 > data.length) return null;
+    const single = data[offset] !== 0;
+    const start = data.readUIntLE(offset + 1, 3);
+    offset += 4;
+    if (single) {
+      ranges.push({ start, end: start });
+      continue;
+    }
+    if (offset + 3 > data.length) return null;
+    ranges.push({ start, end: data.readUIntLE(offset, 3) });
+    offset += 3;
+  }
+  return ranges;
+}
+
+/**
+ * 1フレームだけの Frame Set を生成（unreliable のため再送・順序の番号は持たない）
+ * プロキシから直接クライアント・転送先へ切断を伝えるために使用
+ * @param sequenceNumber 送信先がこれまでに受け取った番号の続き
+ */
+export function buildRakNetFrameSet(sequenceNumber: number, body: Buffer): Buffer {
+  const packet = Buffer.alloc(4 + 3 + body.length);
+  packet[0] = 0x84;
+  packet.writeUIntLE(sequenceNumber & 0xffffff, 1, 3);
+  packet[4] = 0x00; // unreliable、分割なし
+  packet.writeUInt16BE(body.length * 8, 5);
+  body.copy(packet, 7);
+  return packet;
+}
@@ -0,0 +1,229 @@
+import type { RateLimitSettings, RateLimitStats } from "../types/index.js";
+
+/**
+ * トークンバケットによるレート制限
+ * 真のクライアントIPごと（ポートをまたいで合算）のパケット数・バイト数と、リスナー全体の上限を管理する
+ * 上限超過を短時間に繰り返したIPは一定時間遮断し、自動バンの対象として通知する
+ */
+
+// サーバーごとの設定がない場合の上限
+// Bedrock クライアントの送信は1人あたり通常数十パケット/秒（毎tickの入力とACK）、チャンク読み込み中でも数百パケット/秒程度
+// CGNAT や同じ回線の複数プレイヤーが1つのIPを共有しても超えないよう、IPごとの上限は10人前後の同時読み込みを見込む
+// 自動バンは1分の半分以上上限を超え続けた場合のみ（一時的な超過はドロップのみ）
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  packetsPerSecond: 2000,
+  bytesPerSecond: 1024 * 1024,
+  globalPacketsPerSecond: 20000,
+  globalBytesPerSecond: 16 * 1024 * 1024,
+  autoBanThreshold: 30,
+  autoBanDuration: 600
+};
+
+// 以前のデフォルト（保存済みの設定がこの値のままなら新しいデフォルトへ移行する）
+export const LEGACY_DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  packetsPerSecond: 200,
+  bytesPerSecond: 256 * 1024,
+  globalPacketsPerSecond: 20000,
+  globalBytesPerSecond: 16 * 1024 * 1024,
+  autoBanThreshold: 10,
+  autoBanDuration: 600
+};
+
+// allow: 転送する / drop: 破棄する / ban: 破棄し、このIPを自動バンする（遮断開始時に一度だけ）
+export type RateLimitResult = 'allow' | 'drop' | 'ban';
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  /**
+   * @param rate 1秒あたりの補充量
+   * @param capacity バケットの容量（許容するバースト）
+   */
+  constructor(private readonly rate: number, private readonly capacity: number, now = Date.now()) {
+    this.tokens = capacity;
+    this.lastRefill = now;
+  }
+
+  public consume(amount: number, now = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < amount) return false;
+    this.tokens -= amount;
+    return true;
+  }
+
+  // 満タンになっていれば、しばらく使われていないバケット
+  public isFull(now = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    if (elapsed <= 0) return;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+}
+
+interface ClientBucketState {
+  packets: TokenBucket | null;
+  bytes: TokenBucket | null;
+  violations: number; // 違反ウィンドウ内で上限を超えた秒数
+  violationWindowStart: number;
+  lastViolation: number;
+  blockedUntil: number; // 自動バンによる遮断期限（0は遮断なし）
+}
+
+export class RateLimiter {
+  private options: RateLimitSettings;
+  private clients = new Map<string, ClientBucketState>();
+  private globalPackets: TokenBucket | null = null;
+  private globalBytes: TokenBucket | null = null;
+
+  private droppedPackets = 0;
+  private droppedBytes = 0;
+  private autoBans = 0;
+
+  private readonly BURST_SECONDS = 2; // 何秒分のバーストを許容するか
+  private readonly VIOLATION_WINDOW = 60000; // 違反回数を数える期間（ミリ秒）
+
+  constructor(options: RateLimitSettings) {
+    this.options = options;
+    this.resetGlobalBuckets();
+  }
+
+  // 設定を更新（バケットは新しい上限で作り直し、遮断中のIPと違反回数は維持する）
+  public updateOptions(options: RateLimitSettings, now = Date.now()): void {
+    this.options = options;
+    this.clients.forEach(state => {
+      const buckets = this.createBuckets(now);
+      state.packets = buckets.packets;
+      state.bytes = buckets.bytes;
+    });
+    this.resetGlobalBuckets();
+  }
+
+  /**
+   * パケットを受け付けるか判定
+   * @param address 真のクライアントIP
+   * @param size ペイロードのバイト数
+   */
+  public check(address: string, size: number, now = Date.now()): RateLimitResult {
+    let state = this.clients.get(address);
+    if (!state) {
+      state = this.createClientState(now);
+      this.clients.set(address, state);
+    }
+
+    if (state.blockedUntil > now) {
+      return this.drop(size);
+    }
+    if (state.blockedUntil !== 0) {
+      state.blockedUntil = 0;
+      state.violations = 0;
+    }
+
+    // IPごとの上限（パケット数・バイト数の両方を満たす必要がある）
+    const packetsOk = !state.packets || state.packets.consume(1, now);
+    const bytesOk = packetsOk && (!state.bytes || state.bytes.consume(size, now));
+    if (!packetsOk || !bytesOk) {
+      this.drop(size);
+      return this.recordViolation(state, now);
+    }
+
+    // 全体の上限（特定のIPの違反としては数えない）
+    if (this.globalPackets && !this.globalPackets.consume(1, now)) {
+      return this.drop(size);
+    }
+    if (this.globalBytes && !this.globalBytes.consume(size, now)) {
+      return this.drop(size);
+    }
+
+    return 'allow';
+  }
+
+  // 遮断中のIPを解除（バン解除時など）
+  public unblock(address: string): void {
+    this.clients.delete(address);
+  }
+
+  // しばらく通信のないIPの状態を破棄
+  public prune(now = Date.now()): void {
+    this.clients.forEach((state, address) => {
+      if (state.blockedUntil > now) return;
+      if (now - state.lastViolation < this.VIOLATION_WINDOW) return;
+      if ((state.packets?.isFull(now) ?? true) && (state.bytes?.isFull(now) ?? true)) {
+        this.clients.delete(address);
+      }
+    });
+  }
+
+  public getStats(now = Date.now()): RateLimitStats {
+    let limitedClients = 0;
+    this.clients.forEach(state => {
+      if (state.blockedUntil > now || now - state.lastViolation < 1000) limitedClients++;
+    });
+
+    return {
+      droppedPackets: this.droppedPackets,
+      droppedBytes: this.droppedBytes,
+      limitedClients,
+      autoBans: this.autoBans
+    };
+  }
+
+  private createClientState(now: number): ClientBucketState {
+    return {
+      ...this.createBuckets(now),
+      violations: 0,
+      violationWindowStart: now,
+      lastViolation: 0,
+      blockedUntil: 0
+    };
+  }
+
+  private createBuckets(now: number): Pick<ClientBucketState, 'packets' | 'bytes'> {
+    const { packetsPerSecond, bytesPerSecond } = this.options;
+    return {
+      packets: packetsPerSecond > 0 ? new TokenBucket(packetsPerSecond, packetsPerSecond * this.BURST_SECONDS, now) : null,
+      bytes: bytesPerSecond > 0 ? new TokenBucket(bytesPerSecond, bytesPerSecond * this.BURST_SECONDS, now) : null
+    };
+  }
+
+  private resetGlobalBuckets(): void {
+    const { globalPacketsPerSecond, globalBytesPerSecond } = this.options;
+    this.globalPackets = globalPacketsPerSecond > 0
+      ? new TokenBucket(globalPacketsPerSecond, globalPacketsPerSecond * this.BURST_SECONDS)
+      : null;
+    this.globalBytes = globalBytesPerSecond > 0
+      ? new TokenBucket(globalBytesPerSecond, globalBytesPerSecond * this.BURST_SECONDS)
+      : null;
+  }
+
+  private drop(size: number): 'drop' {
+    this.droppedPackets++;
+    this.droppedBytes += size;
+    return 'drop';
+  }
+
+  // 上限を超えた秒を1回の違反として数え、閾値に達したら遮断する
+  private recordViolation(state: ClientBucketState, now: number): RateLimitResult {
+    if (now - state.lastViolation < 1000) return 'drop';
+
+    if (now - state.violationWindowStart > this.VIOLATION_WINDOW) {
+      state.violations = 0;
+      state.violationWindowStart = now;
+    }
+    state.violations++;
+    state.lastViolation = now;
+
+    const { autoBanThreshold, autoBanDuration } = this.options;
+    if (autoBanThreshold > 0 && state.violations >= autoBanThreshold) {
+      state.blockedUntil = now + autoBanDuration * 1000;
+      this.autoBans++;
+      return 'ban';
+    }
+    return 'drop';
+  }
+}
@@ -0,0 +1,322 @@
+import { randomUUID } from "crypto";
+import type {
+  Events,
+  ScheduleAction,
+  ScheduleActionType,
+  ScheduleRun,
+  ScheduledTask,
+  ScheduledTaskInfo,
+  ServerAPI,
+} from "../types/index.js";
+import { APIError } from "../types/index.js";
+import { dataStorage } from "./dataStorage.js";
+import { CronParseError, getNextRun, getNextRuns, parseCron, type CronSchedule } from "./cronExpression.js";
+import type { ServerManager } from "./serverManager.js";
+
+const ACTION_TYPES: ScheduleActionType[] = ["restart", "stop", "start", "command", "broadcast", "backup", "plugin"];
+
+/**
+ * サーバーごとのスケジュールされたタスク（再起動・コマンド・バックアップなど）
+ * cron 式で指定した時刻に ServerManager の操作を実行し、結果を履歴に残す
+ */
+export class Scheduler {
+  private tasks = new Map<string, ScheduledTask>();
+  private schedules = new Map<string, CronSchedule>(); // taskId -> 解析済みの式
+  private running = new Set<string>(); // 実行中のタスク（同じタスクを重ねて実行しない）
+  private lastCheck = new Date();
+  private onExecuted: ((event: Events.ScheduleExecuted) => void) | null = null;
+  private initPromise: Promise<void>;
+  private readonly CHECK_INTERVAL = 15000; // 実行時刻の確認間隔（ミリ秒）
+  private readonly MAX_HISTORY = 20; // タスクごとに残す実行履歴
+  private readonly PREVIEW_COUNT = 5; // 一覧に含める実行予定の件数
+  private readonly MAX_TASKS_PER_SERVER = 50;
+
+  constructor(private serverManager: ServerManager) {
+    this.initPromise = this.serverManager.whenReady().then(() => this.load());
+    setInterval(() => this.runDueTasks(), this.CHECK_INTERVAL).unref();
+
+    // 削除されたサーバーのタスクも削除
+    this.serverManager.on("serverDeleted", (data: Events.ServerDeleted) => {
+      const removed = Array.from(this.tasks.values()).filter(task => task.serverId === data.serverId);
+      if (removed.length === 0) return;
+      removed.forEach(task => {
+        this.tasks.delete(task.id);
+        this.schedules.delete(task.id);
+      });
+      this.save().catch(() => {});
+    });
+  }
+
+  private async load(): Promise<void> {
+    const stored = await dataStorage.loadSchedules();
+    Object.values(stored).flat().forEach(task => {
+      try {
+        this.schedules.set(task.id, parseCron(task.cron));
+        this.tasks.set(task.id, task);
+      } catch (error) {
+        console.warn(`⚠️ Skipping schedule with invalid cron expression: ${task.name} (${task.cron})`);
+      }
+    });
+    this.lastCheck = new Date();
+    console.log(`⏰ Loaded ${this.tasks.size} scheduled task(s)`);
+  }
+
+  private async save(): Promise<void> {
+    const grouped: Record<string, ScheduledTask[]> = {};
+    this.tasks.forEach(task => {
+      (grouped[task.serverId] = grouped[task.serverId] || []).push(task);
+    });
+    await dataStorage.saveSchedules(grouped);
+  }
+
+  // タスクの実行結果を通知するハンドラーを設定
+  public setExecutedHandler(handler: (event: Events.ScheduleExecuted) => void): void {
+    this.onExecuted = handler;
+  }
+
+  public async getSchedules(serverId?: string): Promise<ScheduledTaskInfo[]> {
+    await this.initPromise;
+    return Array.from(this.tasks.values())
+      .filter(task => !serverId || task.serverId === serverId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(task => this.toInfo(task));
+  }
+
+  public async addSchedule(request: ServerAPI.AddScheduleRequest): Promise<ScheduledTaskInfo> {
+    await this.initPromise;
+    if (!this.serverManager.getServer(request.serverId)) {
+      throw new APIError(`Server with id ${request.serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    const count = Array.from(this.tasks.values()).filter(task => task.serverId === request.serverId).length;
+    if (count >= this.MAX_TASKS_PER_SERVER) {
+      throw new APIError(`A server can have at most ${this.MAX_TASKS_PER_SERVER} scheduled tasks`, "TOO_MANY_SCHEDULES", 400);
+    }
+
+    this.validateName(request.name);
+    const schedule = this.parseExpression(request.cron);
+    this.validateAction(request.action);
+
+    const now = new Date();
+    const task: ScheduledTask = {
+      id: randomUUID(),
+      serverId: request.serverId,
+      name: request.name.trim(),
+      cron: request.cron.trim(),
+      action: request.action,
+      enabled: request.enabled ?? true,
+      history: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.tasks.set(task.id, task);
+    this.schedules.set(task.id, schedule);
+    await this.save();
+
+    console.log(`⏰ Schedule added: ${task.name} (${task.cron}, ${task.action.type})`);
+    return this.toInfo(task);
+  }
+
+  public async updateSchedule(request: ServerAPI.UpdateScheduleRequest): Promise<ScheduledTaskInfo> {
+    await this.initPromise;
+    const task = this.getTask(request.id);
+    const updates = request.updates || {};
+
+    if (updates.name !== undefined) {
+      this.validateName(updates.name);
+      task.name = updates.name.trim();
+    }
+    if (updates.cron !== undefined) {
+      this.schedules.set(task.id, this.parseExpression(updates.cron));
+      task.cron = updates.cron.trim();
+    }
+    if (updates.action !== undefined) {
+      this.validateAction(updates.action);
+      task.action = updates.action;
+    }
+    if (updates.enabled !== undefined) {
+      task.enabled = !!updates.enabled;
+    }
+
+    task.updatedAt = new Date();
+    await this.save();
+    return this.toInfo(task);
+  }
+
+  public async removeSchedule(id: string): Promise<void> {
+    await this.initPromise;
+    const task = this.getTask(id);
+    this.tasks.delete(id);
+    this.schedules.delete(id);
+    await this.save();
+    console.log(`⏰ Schedule removed: ${task.name}`);
+  }
+
+  // 予定を待たずに実行
+  public async runSchedule(id: string): Promise<{ schedule: ScheduledTaskInfo; run: ScheduleRun }> {
+    await this.initPromise;
+    const task = this.getTask(id);
+    if (this.running.has(task.id)) {
+      throw new APIError("Task is already running", "SCHEDULE_RUNNING", 409);
+    }
+    const run = await this.execute(task, "manual");
+    return { schedule: this.toInfo(task), run };
+  }
+
+  // 保存前の式から実行予定を求める
+  public previewSchedule(cron: string, count: number = this.PREVIEW_COUNT): Date[] {
+    const schedule = this.parseExpression(cron);
+    return getNextRuns(schedule, new Date(), Math.min(Math.max(1, count), 20));
+  }
+
+  // 前回の確認から今回までに実行時刻を迎えたタスクを実行
+  private runDueTasks(): void {
+    const now = new Date();
+    const since = this.lastCheck;
+    this.lastCheck = now;
+
+    this.tasks.forEach(task => {
+      const schedule = this.schedules.get(task.id);
+      if (!task.enabled || !schedule || this.running.has(task.id)) return;
+
+      const next = getNextRun(schedule, since);
+      if (next && next <= now) {
+        this.execute(task, "schedule").catch(() => {});
+      }
+    });
+  }
+
+  private async execute(task: ScheduledTask, trigger: ScheduleRun["trigger"]): Promise<ScheduleRun> {
+    this.running.add(task.id);
+    const startedAt = new Date();
+    let error: string | undefined;
+
+    try {
+      await this.performAction(task);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    } finally {
+      this.running.delete(task.id);
+    }
+
+    const run: ScheduleRun = { trigger, startedAt, finishedAt: new Date(), success: !error, error };
+    task.history = [run, ...task.history].slice(0, this.MAX_HISTORY);
+
+    // 実行中に削除されたタスクは保存しない
+    if (this.tasks.has(task.id)) {
+      try {
+        await this.save();
+      } catch (e) {
+        // 履歴の保存失敗は実行結果に影響させない
+      }
+    }
+
+    if (error) {
+      console.warn(`⚠️ Scheduled task failed: ${task.name} - ${error}`);
+    } else {
+      console.log(`⏰ Scheduled task completed: ${task.name} (${task.action.type})`);
+    }
+
+    if (this.onExecuted) {
+      this.onExecuted({ serverId: task.serverId, schedule: this.toInfo(task), run });
+    }
+    return run;
+  }
+
+  private async performAction(task: ScheduledTask): Promise<void> {
+    const { action, serverId } = task;
+    const server = this.serverManager.getServer(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+
+    switch (action.type) {
+      case "start":
+      case "stop":
+        await this.serverManager.performServerAction({ id: serverId, action: action.type });
+        break;
+      case "restart":
+        // 退出を待つ時間が指定されていればドレインしてから再起動する
+        if (action.drainTimeout) {
+          await this.serverManager.drainServer(serverId, action.drainTimeout);
+        } else {
+          await this.serverManager.performServerAction({ id: serverId, action: "restart" });
+        }
+        break;
+      case "command":
+        this.serverManager.sendConsoleCommand(serverId, action.command!);
+        break;
+      case "broadcast":
+        this.serverManager.sendConsoleCommand(serverId, `say ${action.message}`);
+        break;
+      case "backup":
+        await this.serverManager.createWorldBackup(serverId, "schedule");
+        break;
+      case "plugin":
+        if (!server.pluginsEnabled) {
+          throw new APIError("Plugins are disabled for this server", "PLUGINS_DISABLED", 400);
+        }
+        this.serverManager.triggerPluginEvent(serverId, "scheduledTask", {
+          serverId,
+          taskId: task.id,
+          taskName: task.name,
+          payload: action.payload ?? {},
+          timestamp: new Date()
+        });
+        break;
+    }
+  }
+
+  private getTask(id: string): ScheduledTask {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new APIError(`Schedule with id ${id} not found`, "SCHEDULE_NOT_FOUND", 404);
+    }
+    return task;
+  }
+
+  private toInfo(task: ScheduledTask): ScheduledTaskInfo {
+    const schedule = this.schedules.get(task.id);
+    const nextRuns = task.enabled && schedule ? getNextRuns(schedule, new Date(), this.PREVIEW_COUNT) : [];
+    return { ...task, nextRuns };
+  }
+
+  private parseExpression(cron: string): CronSchedule {
+    let schedule: CronSchedule;
+    try {
+      schedule = parseCron(cron);
+    } catch (error) {
+      const message = error instanceof CronParseError ? error.message : String(error);
+      throw new APIError(`Invalid cron expression: ${message}`, "INVALID_CRON", 400);
+    }
+    if (!getNextRun(schedule, new Date())) {
+      throw new APIError("Cron expression never matches a date", "INVALID_CRON", 400);
+    }
+    return schedule;
+  }
+
+  private validateName(name: string): void {
+    if (typeof name !== "string" || !name.trim() || name.length > 64) {
+      throw new APIError("Schedule name must be 1-64 characters", "INVALID_SCHEDULE", 400);
+    }
+  }
+
+  private validateAction(action: ScheduleAction): void {
+    if (!action || !ACTION_TYPES.includes(action.type)) {
+      throw new APIError(`Invalid schedule action: ${action?.type}`, "INVALID_SCHEDULE_ACTION", 400);
+    }
+    if (action.type === "command" && (typeof action.command !== "string" || !action.command.trim() || action.command.length > 256)) {
+      throw new APIError("command must be 1-256 characters", "INVALID_SCHEDULE_ACTION", 400);
+    }
+    if (action.type === "broadcast" && (typeof action.message !== "string" || !action.message.trim() || action.message.length > 256)) {
+      throw new APIError("message must be 1-256 characters", "INVALID_SCHEDULE_ACTION", 400);
+    }
+    if (action.drainTimeout !== undefined
+      && (!Number.isInteger(action.drainTimeout) || action.drainTimeout < 0 || action.drainTimeout > 3600)) {
+      throw new APIError("drainTimeout must be an integer between 0 and 3600", "INVALID_SCHEDULE_ACTION", 400);
+    }
+    if (action.payload !== undefined && (typeof action.payload !== "object" || action.payload === null || Array.isArray(action.payload))) {
+      throw new APIError("payload must be an object", "INVALID_SCHEDULE_ACTION", 400);
+    }
+  }
+}
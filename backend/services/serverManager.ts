@@ -1,21 +1,58 @@
 import { randomUUID } from "crypto";
 import * as path from "path";
 import { access, readFile, writeFile } from "fs/promises";
+import { isIP } from "net";
 import type { 
   Server, 
   ServerStatus, 
   Player, 
   ServerAPI,
   Events,
-  PlayerPacket
+  PlayerPacket,
+  BanEntry,
+  WhitelistEntry,
+  WhitelistEntryType,
+  WhitelistMode,
+  BackendTarget,
+  MaintenanceWindow,
+  DrainState,
+  CrashRecoveryState,
+  CrashReport,
+  WorldBackup,
+  BackupRetention,
+  RateLimitSettings,
+  ChallengeMode,
+  ProxyProtocolFormat,
+  ProxyProtocolEmission,
+  ProxyProtocolProbeResult,
+  CaptureInfo
 } from "../types/index.js";
 import { APIError } from "../types/index.js";
 import { dataStorage } from "./dataStorage.js";
 import { minecraftServerDetector, type DetectedServerInfo } from "./minecraftServerDetector.js";
 import { processManager } from "./processManager.js";
-import { UDPProxy } from "./udpProxy.js";
+import { UDPProxy, type ListenFamily } from "./udpProxy.js";
 import { logger, LogLevel } from "./logger.js";
 import { PluginLoader } from "./pluginLoader.js";
+import { isValidIpOrCidr } from "./ipFilter.js";
+import { DEFAULT_RATE_LIMITS } from "./rateLimiter.js";
+import { isValidHostPort, parseHostPort } from "./address.js";
+import { probeProxyProtocol } from "./proxyProtocolProbe.js";
+import { planCrashRecovery } from "./crashRecovery.js";
+import {
+  WorldBackupManager,
+  DEFAULT_BACKUP_RETENTION,
+  MAX_BACKUP_RETENTION_COUNT,
+  MAX_BACKUP_RETENTION_DAYS,
+  readLevelName
+} from "./worldBackup.js";
+import {
+  PacketCaptureManager,
+  CAPTURE_DOWNLOAD_CHUNK_SIZE,
+  MAX_CAPTURE_MAX_BYTES,
+  MAX_CAPTURE_MAX_DURATION,
+  type CaptureOptions
+} from "./packetCapture.js";
 
 export class ServerManager {
   private servers = new Map<string, Server>();
@@ -24,13 +61,53 @@ export class ServerManager {
   private pluginLoaders = new Map<string, PluginLoader>(); // serverId -> PluginLoader
   // serverId -> (clientKey -> { client, lastActivity })
   private recentClientActivity = new Map<string, Map<string, { client: string; lastActivity: Date }>>();
+  private bans = new Map<string, BanEntry[]>(); // serverId -> IPバンリスト
+  private whitelists = new Map<string, WhitelistEntry[]>(); // serverId -> 許可リスト・拒否リスト
+  private packetCaptures = new PacketCaptureManager(path.join(dataStorage.getDataDirectory(), "captures"));
+  private readonly MAX_RUNNING_CAPTURES = 4; // サーバーごとの同時キャプチャ数
   private initPromise: Promise<void> = Promise.resolve();
+  private readonly MAINTENANCE_CHECK_INTERVAL = 15000; // メンテナンス予定の確認間隔（ミリ秒）
+  private drainTimers = new Map<string, NodeJS.Timeout>(); // serverId -> ドレインのカウントダウン
+  private readonly DEFAULT_DRAIN_TIMEOUT = 300; // プレイヤーの退出を待つ秒数
+  private readonly MAX_DRAIN_TIMEOUT = 3600;
+  private readonly DRAIN_RESTART_TIMEOUT = 120000; // 再起動後にオンラインになるまで待つ時間（ミリ秒）
+  // 再起動までの残り秒数を告知するタイミング
+  private static readonly DRAIN_ANNOUNCE_AT = [600, 300, 120, 60, 30, 10, 5, 4, 3, 2, 1];
+  private crashReports = new Map<string, CrashReport[]>(); // serverId -> クラッシュレポート（新しい順）
+  private crashRestartTimers = new Map<string, NodeJS.Timeout>(); // serverId -> クラッシュ後の自動再起動
+  private readonly CRASH_REPORT_LINES = 100; // クラッシュレポートに残すコンソールの行数
+  private readonly MAX_CRASH_REPORTS = 20; // サーバーごとに残すクラッシュレポート
+  private worldBackups = new WorldBackupManager(path.join(dataStorage.getDataDirectory(), "world-backups"));
+  private worldOperations = new Set<string>(); // バックアップ・復元中のサーバー（同時に1つまで）
+  private readonly RESTORE_STOP_TIMEOUT = 20000; // 復元前にプロセスの終了を待つ時間（ミリ秒）
+
+  // 稼働中のプロキシに即時反映できる設定
+  private static readonly LIVE_RELOAD_SETTINGS = [
+    "name", "description", "maxPlayers", "destinationAddress", "forwardAddress", "backends", "loadBalancing",
+    "rateLimits", "maxConnections", "challengeMode", "challengeThreshold", "proxyProtocolV2Enabled",
+    "outboundProxyProtocol", "proxyProtocolEmission", "trustedProxies", "proxyProtocolStrict",
+    "proxyProtocolChecksum", "whitelistEnabled", "maintenance", "maintenanceMessage", "customMotdEnabled"
+  ];
+  // 反映にサーバーの再起動が必要な設定（受信ソケット・サーバープロセス）
+  private static readonly RESTART_REQUIRED_SETTINGS = ["address", "mode", "executablePath", "serverDirectory"];
 
   constructor() {
     // 初期化を開始して完了を待てるように Promise を保持
     this.initPromise = this.initializeData();
     // プロセスマネージャーのイベントハンドラーを設定
     this.setupProcessManagerEvents();
+    // メンテナンスの予定を定期的に確認（予定がなければ何もしない）
+    setInterval(() => this.applyMaintenanceWindows(), this.MAINTENANCE_CHECK_INTERVAL).unref();
+    // 上限による自動停止も含め、キャプチャの停止を通知
+    this.packetCaptures.setStoppedHandler((capture) => {
+      if (!this.packetCaptures.isCapturing(capture.serverId)) {
+        this.udpProxies.get(capture.serverId)?.setCaptureHandler(null);
+      }
+      this.emit("captureStopped", {
+        serverId: capture.serverId,
+        capture
+      } as Events.CaptureStopped);
+    });
   }
 
   // データの初期化
@@ -39,10 +116,30 @@ export class ServerManager {
       await dataStorage.initialize();
       const servers = await dataStorage.loadServers();
       
-      // メモリ上のマップに復元
+      // メモリ上のマップに復元（再起動待ちの設定は前回のプロセスのもの）
       servers.forEach(server => {
+        server.pendingRestart = [];
+        server.drain = null;
+        server.crashRecovery = null;
         this.servers.set(server.id, server);
       });
+
+      const bans = await dataStorage.loadBans();
+      Object.entries(bans).forEach(([serverId, entries]) => {
+        this.bans.set(serverId, entries);
+      });
+
+      const whitelists = await dataStorage.loadWhitelists();
+      Object.entries(whitelists).forEach(([serverId, entries]) => {
+        this.whitelists.set(serverId, entries);
+      });
+
+      const crashReports = await dataStorage.loadCrashReports();
+      Object.entries(crashReports).forEach(([serverId, reports]) => {
+        this.crashReports.set(serverId, reports);
+      });
+
+      await this.worldBackups.load();
       
       console.log(`📦 Loaded ${servers.length} servers from persistent storage`);
     } catch (error) {
@@ -80,15 +177,21 @@ export class ServerManager {
     if (!server || !server.players) return;
     
     // プレイヤーをサーバーのプレイヤーリストに追加
-    const existingPlayer = server.players.find(p => p.xuid === player.xuid || p.name === player.name);
-    if (!existingPlayer) {
+    // プロキシのログイン解析とコンソール出力の両方から届くため、同じプレイヤーは一度だけ追加する
+    const existingPlayer = server.players.find(p => (player.xuid && p.xuid === player.xuid) || p.name === player.name);
+    if (existingPlayer) {
+      existingPlayer.deviceOS = existingPlayer.deviceOS ?? player.deviceOS;
+      existingPlayer.clientVersion = existingPlayer.clientVersion ?? player.clientVersion;
+    } else {
       const newPlayer: Player = {
         id: player.xuid || randomUUID(),
         name: player.name,
         xuid: player.xuid,
         joinTime: player.timestamp ? new Date(player.timestamp) : new Date(),
         ipAddress: player.ipAddress,
-        port: (player as any).port
+        port: (player as any).port,
+        deviceOS: player.deviceOS,
+        clientVersion: player.clientVersion
       };
 
       // Log inference detail for debugging
@@ -127,7 +230,7 @@ export class ServerManager {
     if (!server || !server.players) return;
     
     // プレイヤーをサーバーのプレイヤーリストから削除
-    const playerIndex = server.players.findIndex(p => p.xuid === player.xuid);
+    const playerIndex = server.players.findIndex(p => player.xuid ? p.xuid === player.xuid : p.name === player.name);
     if (playerIndex !== -1) {
       const leftPlayer = server.players[playerIndex];
       leftPlayer.leaveTime = new Date();
@@ -152,6 +255,11 @@ export class ServerManager {
     }
   }
 
+  // 保存済みデータの読み込み完了を待つ
+  public whenReady(): Promise<void> {
+    return this.initPromise;
+  }
+
   // サーバー一覧を取得
   public getServers(): Server[] {
     return Array.from(this.servers.values()).sort((a, b) => 
@@ -202,6 +310,24 @@ export class ServerManager {
       autoRestart: request.autoRestart || false,
       blockSameIP: request.blockSameIP || false,
       forwardAddress: request.forwardAddress,
+      backends: request.backends || [],
+      loadBalancing: request.loadBalancing || "round-robin",
+      rateLimits: { ...DEFAULT_RATE_LIMITS, ...request.rateLimits },
+      maxConnections: request.maxConnections ?? 1000,
+      challengeMode: request.challengeMode || "auto",
+      challengeThreshold: request.challengeThreshold ?? 100,
+      proxyProtocolV2Enabled: request.proxyProtocolV2Enabled || false,
+      outboundProxyProtocol: request.outboundProxyProtocol || "v2",
+      proxyProtocolEmission: request.proxyProtocolEmission || "every-packet",
+      trustedProxies: request.trustedProxies || [],
+      proxyProtocolStrict: request.proxyProtocolStrict || false,
+      proxyProtocolChecksum: request.proxyProtocolChecksum || false,
+      whitelistEnabled: request.whitelistEnabled || false,
+      maintenance: false,
+      maintenanceMessage: request.maintenanceMessage || "",
+      maintenanceWindow: null,
+      customMotdEnabled: request.customMotdEnabled || false,
+      backupRetention: { ...DEFAULT_BACKUP_RETENTION },
       pluginsEnabled: request.pluginsEnabled || false,
       plugins: {}, // プラグイン設定を初期化
       description: request.description,
@@ -243,7 +369,7 @@ export class ServerManager {
   }
 
   // サーバーを更新
-  public async updateServer(request: ServerAPI.UpdateServerRequest): Promise<Server> {
+  public async updateServer(request: ServerAPI.UpdateServerRequest): Promise<ServerAPI.UpdateServerResponse> {
     const server = this.servers.get(request.id);
     if (!server) {
       throw new APIError(
@@ -253,13 +379,37 @@ export class ServerManager {
       );
     }
 
+    if (request.updates.backends !== undefined) {
+      this.validateBackends(request.updates.backends);
+    }
+    if (request.updates.rateLimits !== undefined) {
+      this.validateRateLimits(request.updates.rateLimits);
+    }
+    if (request.updates.maxConnections !== undefined) {
+      this.validateMaxConnections(request.updates.maxConnections);
+    }
+    if (request.updates.backupRetention !== undefined) {
+      this.validateBackupRetention(request.updates.backupRetention);
+    }
+    this.validateOutboundProxyProtocol(request.updates.outboundProxyProtocol, request.updates.proxyProtocolEmission);
+    if (request.updates.trustedProxies !== undefined) {
+      this.validateTrustedProxies(request.updates.trustedProxies);
+    }
+    this.validateChallengeSettings(request.updates.challengeMode, request.updates.challengeThreshold);
+    this.validateMaintenance(request.updates.maintenanceMessage, request.updates.maintenanceWindow);
+
     // 更新前の状態を保存
     const oldServer = { ...server };
     const changes: string[] = [];
 
-    // 更新を適用
+    // 更新を適用（配列・オブジェクトは内容で比較し、同じ値の再送信を変更として扱わない）
     Object.entries(request.updates).forEach(([key, value]) => {
-      if (key in server && (server as any)[key] !== value) {
+      if (!(key in server) || key === 'pendingRestart' || key === 'drain' || key === 'crashRecovery') return;
+      const current = (server as any)[key];
+      const changed = typeof value === 'object' && value !== null
+        ? JSON.stringify(current) !== JSON.stringify(value)
+        : current !== value;
+      if (changed) {
         changes.push(key);
         (server as any)[key] = value;
       }
@@ -268,16 +418,30 @@ export class ServerManager {
     server.updatedAt = new Date();
     this.servers.set(server.id, server);
 
-    // データを永続化
+    let appliedLive: string[] = [];
     if (changes.length > 0) {
+      // 稼働中のプロキシに反映（反映に再起動が必要な設定は pendingRestart に残す）
+      appliedLive = this.reloadProxyConfig(server, changes);
+
+      // 自動再起動を無効にした場合は待機中の再起動を取り消す
+      if (changes.includes('autoRestart') && !server.autoRestart && this.crashRestartTimers.has(server.id)) {
+        this.clearCrashRestartTimer(server.id);
+        server.crashRecovery = server.crashRecovery ? { ...server.crashRecovery, nextRestartAt: null } : null;
+      }
+
+      // データを永続化
       await this.saveServersToStorage();
       
       this.emit("serverUpdated", {
         server,
-        changes
+        changes,
+        appliedLive
       } as Events.ServerUpdated);
 
       console.log(`🔄 Server updated: ${server.name} (${changes.join(', ')})`);
+      if (server.pendingRestart && server.pendingRestart.length > 0) {
+        console.log(`🔁 Restart required to apply: ${server.pendingRestart.join(', ')}`);
+      }
 
       // 非同期で server.properties を更新（存在すれば）
       (async () => {
@@ -289,7 +453,7 @@ export class ServerManager {
       })();
     }
 
-    return server;
+    return { server, appliedLive };
   }
 
   // サーバーを削除
@@ -320,6 +484,8 @@ export class ServerManager {
     }
 
     // 追加のクリーンアップ（念のため）
+    this.clearDrainTimer(id);
+    this.clearCrashRestartTimer(id);
 
     const udpProxy = this.udpProxies.get(id);
     if (udpProxy) {
@@ -335,6 +501,30 @@ export class ServerManager {
     // データを永続化
     await this.saveServersToStorage();
 
+    if (this.bans.delete(id)) {
+      try {
+        await dataStorage.saveBans(Object.fromEntries(this.bans));
+      } catch (e) {
+        // バンリストの削除失敗はサーバー削除を妨げない
+      }
+    }
+
+    if (this.whitelists.delete(id)) {
+      try {
+        await dataStorage.saveWhitelists(Object.fromEntries(this.whitelists));
+      } catch (e) {
+        // 許可リストの削除失敗はサーバー削除を妨げない
+      }
+    }
+
+    if (this.crashReports.delete(id)) {
+      try {
+        await dataStorage.saveCrashReports(Object.fromEntries(this.crashReports));
+      } catch (e) {
+        // クラッシュレポートの削除失敗はサーバー削除を妨げない
+      }
+    }
+
     // イベント発火
     this.emit("serverDeleted", {
       serverId: id,
@@ -364,38 +554,7 @@ export class ServerManager {
           await this.startServer(server);
         } catch (err: any) {
           if (err && err.code === 'EXECUTABLE_PATH_MISSING' && server.destinationAddress && server.address) {
-            const [, bindPort] = server.address.split(':');
-            const [destIP, destPort] = server.destinationAddress.split(':');
-            const udpProxy = new UDPProxy({
-              listenPort: parseInt(bindPort),
-              targetHost: destIP,
-              targetPort: parseInt(destPort),
-              timeout: 30000,
-              proxyProtocolV2Enabled: server.proxyProtocolV2Enabled ?? false
-            });
-            udpProxy.setConnectionActivityHandler((clientIP, clientPort /*, data */) => {
-              try {
-                const key = `${clientIP}:${clientPort}`;
-                let map = this.recentClientActivity.get(server.id);
-                if (!map) {
-                  map = new Map();
-                  this.recentClientActivity.set(server.id, map);
-                }
-                map.set(key, { client: key, lastActivity: new Date() });
-              } catch (e) {
-                // ignore
-              }
-            });
-            
-            // ネットワーク統計ハンドラーを設定
-            udpProxy.setNetworkStatsHandler((networkStats, clientStats) => {
-              this.emit('networkStats', {
-                serverId: server.id,
-                networkStats,
-                clientStats
-              });
-            });
-            
+            const udpProxy = this.createUdpProxy(server);
             await udpProxy.start();
             this.udpProxies.set(server.id, udpProxy);
 
@@ -437,6 +596,24 @@ export class ServerManager {
       case "restart":
         await this.restartServer(server);
         break;
+      case "block":
+        if (!request.targetIP) {
+          throw new APIError("targetIP is required for block action", "MISSING_TARGET_IP", 400);
+        }
+        await this.addBan(server.id, request.targetIP);
+        break;
+      case "maintenance":
+        if (typeof request.enabled !== "boolean") {
+          throw new APIError("enabled is required for maintenance action", "MISSING_MAINTENANCE_STATE", 400);
+        }
+        await this.setMaintenance(server.id, request.enabled, request.message);
+        break;
+      case "drain":
+        await this.drainServer(server.id, request.timeout, request.redirect);
+        break;
+      case "cancelDrain":
+        await this.cancelDrain(server.id);
+        break;
       
       default:
         throw new APIError(
@@ -546,6 +723,13 @@ export class ServerManager {
           server
         } as Events.ServerStatusChanged);
       }
+
+      // 停止操作によらない異常終了（終了コードが0以外・シグナル）はクラッシュとして扱う
+      if (data.status === 'error' && 'exitCode' in data) {
+        this.handleCrash(server, data.exitCode ?? null, data.signal ?? null).catch((err: Error) => {
+          console.error(`❌ Failed to handle crash of ${server.name}:`, err);
+        });
+      }
     });
 
   processManager.on('consoleOutput', (data: any) => {
@@ -620,9 +804,7 @@ export class ServerManager {
 
         // If we found a near candidate within threshold, return it
         if (bestFromMap && bestFromMap.delta <= maxAgeMs) {
-          const parts = (bestFromMap.client || '').split(':');
-          const ip = parts[0] || undefined;
-          const port = parts.length > 1 ? parseInt(parts[1]) : undefined;
+          const { ip, port } = this.splitClientKey(bestFromMap.client);
           return ip ? { ip, port } : undefined;
         }
 
@@ -652,26 +834,20 @@ export class ServerManager {
       }
 
       if (bestFromStats && bestFromStats.delta <= maxAgeMs) {
-        const parts = (bestFromStats.client || '').split(':');
-        const ip = parts[0] || undefined;
-        const port = parts.length > 1 ? parseInt(parts[1]) : undefined;
+        const { ip, port } = this.splitClientKey(bestFromStats.client);
         return ip ? { ip, port } : undefined;
       }
 
       // Last-resort: if we have any candidate from the map, pick the most-recent one even if it exceeded threshold
       if (bestFromMap) {
-        const parts = (bestFromMap.client || '').split(':');
-        const ip = parts[0] || undefined;
-        const port = parts.length > 1 ? parseInt(parts[1]) : undefined;
+        const { ip, port } = this.splitClientKey(bestFromMap.client);
         logger.warn('ServerManager', 'No UDP activity within threshold, selecting most-recent entry from recentClientActivity as last-resort', { serverId, client: bestFromMap.client, deltaMs: bestFromMap.delta });
         return ip ? { ip, port } : undefined;
       }
 
       // Otherwise pick most recent from stats if present
       if (bestFromStats) {
-        const parts = (bestFromStats.client || '').split(':');
-        const ip = parts[0] || undefined;
-        const port = parts.length > 1 ? parseInt(parts[1]) : undefined;
+        const { ip, port } = this.splitClientKey(bestFromStats.client);
         logger.warn('ServerManager', 'No UDP activity within threshold, selecting most-recent entry from udpProxy.getStats() as last-resort', { serverId, client: bestFromStats.client, deltaMs: bestFromStats.delta });
         return ip ? { ip, port } : undefined;
       }
@@ -684,6 +860,13 @@ export class ServerManager {
     }
   }
 
+  // "ip:port" 形式のクライアントキーを分解（IPv6のアドレスにも ':' が含まれるため最後の ':' で区切る）
+  private splitClientKey(client: string): { ip?: string; port?: number } {
+    const index = (client || '').lastIndexOf(':');
+    if (index <= 0) return { ip: client || undefined, port: undefined };
+    return { ip: client.slice(0, index), port: parseInt(client.slice(index + 1)) };
+  }
+
   // server.properties を更新するヘルパー
   private async updateServerProperties(server: Server, changes: string[]): Promise<void> {
     // 必要な変更がなければ何もしない
@@ -716,9 +899,8 @@ export class ServerManager {
 
         if ((k.toLowerCase() === 'server-port' || k.toLowerCase() === 'server-portv4') && changes.includes('destinationAddress')) {
           // destinationAddress is like ip:port
-          const parts = String(server.destinationAddress || '').split(':');
-          const port = parts.length > 1 ? parts[1] : parts[0] || '';
-          return `${k}=${port}`;
+          const parsed = parseHostPort(String(server.destinationAddress || ''));
+          return parsed ? `${k}=${parsed.port}` : line;
         }
 
         return line;
@@ -736,6 +918,237 @@ export class ServerManager {
     }
   }
 
+  /**
+   * 変更された設定を稼働中のプロキシに反映する
+   * 既存のセッションは維持し、転送先の変更は新規セッションから適用する（既存セッションは元の転送先のまま終了を待つ）
+   * 受信アドレスやプロセスの設定など即時反映できないものは server.pendingRestart に記録する
+   * @returns 即時反映した設定（プロキシが停止中の場合は空）
+   */
+  private reloadProxyConfig(server: Server, changes: string[]): string[] {
+    const udpProxy = this.udpProxies.get(server.id);
+    if (!udpProxy?.isActive()) return [];
+
+    // server.properties を管理しているサーバーでは、ポート・名前・最大人数は Minecraft サーバーの再起動で反映する
+    const managesProperties = server.mode !== "proxyOnly" && !!server.serverDirectory;
+    const restartRequired = changes.filter(key =>
+      ServerManager.RESTART_REQUIRED_SETTINGS.includes(key)
+      || (managesProperties && ["destinationAddress", "name", "maxPlayers"].includes(key))
+    );
+    const appliedLive = changes.filter(key =>
+      ServerManager.LIVE_RELOAD_SETTINGS.includes(key) && !restartRequired.includes(key)
+    );
+
+    if (changes.includes('customMotdEnabled')) {
+      udpProxy.updateConfig({ customMotdEnabled: server.customMotdEnabled ?? false });
+    }
+    if (changes.includes('name')) {
+      udpProxy.updateConfig({ listenerName: server.name });
+    }
+    if (changes.includes('forwardAddress')) {
+      udpProxy.updateConfig(this.getFallbackConfig(server));
+    }
+    if (changes.includes('backends') || changes.includes('loadBalancing')
+      || (changes.includes('destinationAddress') && !restartRequired.includes('destinationAddress'))) {
+      udpProxy.updateConfig(this.getBackendConfig(server));
+    }
+    if (changes.includes('proxyProtocolV2Enabled')) {
+      udpProxy.updateConfig({ proxyProtocolV2Enabled: server.proxyProtocolV2Enabled ?? false });
+    }
+    if (changes.includes('outboundProxyProtocol') || changes.includes('proxyProtocolEmission')) {
+      udpProxy.updateConfig({
+        outboundProxyProtocol: server.outboundProxyProtocol ?? "v2",
+        proxyProtocolEmission: server.proxyProtocolEmission ?? "every-packet"
+      });
+    }
+    if (changes.includes('trustedProxies') || changes.includes('proxyProtocolStrict') || changes.includes('proxyProtocolChecksum')) {
+      udpProxy.updateConfig({
+        trustedProxies: server.trustedProxies ?? [],
+        proxyProtocolStrict: server.proxyProtocolStrict ?? false,
+        proxyProtocolChecksum: server.proxyProtocolChecksum ?? false
+      });
+    }
+    if (changes.includes('maintenance') || changes.includes('maintenanceMessage')) {
+      udpProxy.updateConfig({
+        maintenance: server.maintenance ?? false,
+        maintenanceMessage: server.maintenanceMessage ?? ""
+      });
+    }
+    if (changes.includes('whitelistEnabled')) {
+      udpProxy.setWhitelist(this.getWhitelist(server.id), server.whitelistEnabled ?? false);
+    }
+    if (changes.includes('rateLimits')) {
+      udpProxy.updateConfig({ rateLimits: server.rateLimits ?? DEFAULT_RATE_LIMITS });
+    }
+    if (changes.includes('maxConnections')) {
+      udpProxy.updateConfig({ maxConnections: server.maxConnections ?? 1000 });
+    }
+    if (changes.includes('challengeMode') || changes.includes('challengeThreshold')) {
+      udpProxy.updateConfig({
+        challengeMode: server.challengeMode ?? "auto",
+        challengeThreshold: server.challengeThreshold ?? 100
+      });
+    }
+
+    if (restartRequired.length > 0) {
+      server.pendingRestart = Array.from(new Set([...(server.pendingRestart ?? []), ...restartRequired]));
+    }
+    return appliedLive;
+  }
+
+  // forwardAddress をUDPProxyのフォールバック設定に変換（未設定・不正な場合は無効）
+  private getFallbackConfig(server: Server): { fallbackHost?: string; fallbackPort?: number } {
+    if (!server.forwardAddress || !this.isValidAddress(server.forwardAddress)
+      || server.forwardAddress === server.destinationAddress) {
+      return { fallbackHost: undefined, fallbackPort: undefined };
+    }
+
+    const { host, port } = parseHostPort(server.forwardAddress)!;
+    return { fallbackHost: host, fallbackPort: port };
+  }
+
+  // destinationAddress 以外の転送先と負荷分散の戦略をUDPProxyの設定に変換
+  private getBackendConfig(server: Server) {
+    const destination = parseHostPort(server.destinationAddress)!;
+    const backends = (server.backends ?? [])
+      .filter(backend => this.isValidAddress(backend.address) && backend.address !== server.destinationAddress)
+      .map(backend => {
+        const { host, port } = parseHostPort(backend.address)!;
+        return { host, port, weight: backend.weight };
+      });
+
+    return {
+      targetHost: destination.host,
+      targetPort: destination.port,
+      backends,
+      loadBalancing: server.loadBalancing ?? "round-robin"
+    };
+  }
+
+  // 待ち受けアドレスのファミリー（"[::]" はIPv4も受け付けるデュアルスタック）
+  private getListenFamily(host: string): ListenFamily {
+    if (isIP(host) !== 6) return 'ipv4';
+    return host === '::' ? 'dual' : 'ipv6';
+  }
+
+  // サーバー設定からUDPProxyを作成し、各ハンドラーを登録
+  private createUdpProxy(server: Server): UDPProxy {
+    const listen = parseHostPort(server.address)!;
+    // 保存済みの設定はすべてこのプロキシで反映される
+    server.pendingRestart = [];
+
+    const udpProxy = new UDPProxy({
+      listenPort: listen.port,
+      listenFamily: this.getListenFamily(listen.host),
+      ...this.getBackendConfig(server),
+      timeout: 30000,
+      proxyProtocolV2Enabled: server.proxyProtocolV2Enabled ?? false,
+      outboundProxyProtocol: server.outboundProxyProtocol ?? "v2",
+      proxyProtocolEmission: server.proxyProtocolEmission ?? "every-packet",
+      trustedProxies: server.trustedProxies ?? [],
+      proxyProtocolStrict: server.proxyProtocolStrict ?? false,
+      proxyProtocolChecksum: server.proxyProtocolChecksum ?? false,
+      listenerName: server.name,
+      customMotdEnabled: server.customMotdEnabled ?? false,
+      maintenance: server.maintenance ?? false,
+      maintenanceMessage: server.maintenanceMessage ?? "",
+      rateLimits: server.rateLimits ?? DEFAULT_RATE_LIMITS,
+      maxConnections: server.maxConnections ?? 1000,
+      challengeMode: server.challengeMode ?? "auto",
+      challengeThreshold: server.challengeThreshold ?? 100,
+      ...this.getFallbackConfig(server)
+    });
+
+    // Register connection activity handler to keep a lightweight recent-activity map
+    udpProxy.setConnectionActivityHandler((clientIP, clientPort /*, data */) => {
+      try {
+        const key = `${clientIP}:${clientPort}`;
+        let map = this.recentClientActivity.get(server.id);
+        if (!map) {
+          map = new Map();
+          this.recentClientActivity.set(server.id, map);
+        }
+        map.set(key, { client: key, lastActivity: new Date() });
+        try {
+          logger.debug('ServerManager', 'Recorded UDP activity', { serverId: server.id, client: key, time: new Date().toISOString() });
+        } catch (e) {
+          // ignore logging errors
+        }
+      } catch (e) {
+        // ignore
+      }
+    });
+
+    // ログインパケットから取得したプレイヤーの参加・退出（proxyOnly でもプレイヤーを把握できる）
+    udpProxy.setPlayerActionHandler((packet) => {
+      if (packet.action === 'join') {
+        this.handlePlayerJoined(server.id, packet);
+      } else {
+        this.handlePlayerLeft(server.id, packet);
+      }
+    });
+
+    // ネットワーク統計ハンドラーを設定
+    udpProxy.setNetworkStatsHandler((networkStats, clientStats) => {
+      this.emit('networkStats', {
+        serverId: server.id,
+        networkStats,
+        clientStats
+      });
+    });
+
+    // フェイルオーバー状態の変化を通知
+    udpProxy.setFailoverHandler((event) => {
+      this.emit('proxyFailover', {
+        serverId: server.id,
+        ...event,
+        timestamp: new Date()
+      } as Events.ProxyFailover);
+    });
+
+    // 接続チャレンジの自動切り替えを通知
+    udpProxy.setUnderAttackHandler((event) => {
+      console.log(event.active
+        ? `🛡️ Connection challenge enabled on ${server.name} (${event.newSourcesPerSecond} new sources/s)`
+        : `🛡️ Connection challenge disabled on ${server.name}`);
+      this.emit('proxyUnderAttack', {
+        serverId: server.id,
+        ...event,
+        timestamp: new Date()
+      } as Events.ProxyUnderAttack);
+    });
+
+    udpProxy.setBanList(this.getBans(server.id));
+    udpProxy.setWhitelist(this.getWhitelist(server.id), server.whitelistEnabled ?? false);
+
+    // 停止中に開始したキャプチャや再起動をまたぐキャプチャも記録を続ける
+    if (this.packetCaptures.isCapturing(server.id)) {
+      udpProxy.setCaptureHandler(packet => this.packetCaptures.record(server.id, packet));
+    }
+
+    // レート制限の違反を繰り返したIPは期限付きでバンリストに追加
+    udpProxy.setAbuseHandler((address, durationSeconds) => {
+      const expiresAt = new Date(Date.now() + durationSeconds * 1000);
+      this.addBan(server.id, address, "Rate limit exceeded (auto-ban)", expiresAt).catch((error) => {
+        console.warn(`⚠️ Failed to auto-ban ${address} on ${server.name}:`, error);
+      });
+    });
+
+    // ステータス応答用に最新のサーバー情報を提供
+    udpProxy.setStatusProvider(() => {
+      const current = this.servers.get(server.id) ?? server;
+      return {
+        name: current.name,
+        description: current.description,
+        playersOnline: current.playersOnline,
+        maxPlayers: current.maxPlayers,
+        status: current.status,
+        maintenance: current.maintenance ?? false
+      };
+    });
+
+    return udpProxy;
+  }
+
   // サーバー開始
   private async startServer(server: Server): Promise<void> {
     if (server.status === "online") {
@@ -783,6 +1196,9 @@ export class ServerManager {
     }
 
     console.log(`🚀 Starting server: ${server.name}`);
+    // 手動で起動した場合はクラッシュループの判定をやり直す
+    this.clearCrashRestartTimer(server.id);
+    server.crashRecovery = null;
     server.status = "starting";
     server.updatedAt = new Date();
     this.servers.set(server.id, server);
@@ -791,48 +1207,9 @@ export class ServerManager {
     await this.saveServersToStorage();
 
     try {
-      // UDPProxyを作成・開始
-      if (server.address && server.destinationAddress) {
-        const [, bindPort] = server.address.split(':');
-        const [destIP, destPort] = server.destinationAddress.split(':');
-
-        const udpProxy = new UDPProxy({
-          listenPort: parseInt(bindPort),
-          targetHost: destIP,
-          targetPort: parseInt(destPort),
-          timeout: 30000,
-          proxyProtocolV2Enabled: server.proxyProtocolV2Enabled ?? false
-        });
-
-        // Register connection activity handler to keep a lightweight recent-activity map
-        udpProxy.setConnectionActivityHandler((clientIP, clientPort /*, data */) => {
-          try {
-            const key = `${clientIP}:${clientPort}`;
-            let map = this.recentClientActivity.get(server.id);
-            if (!map) {
-              map = new Map();
-              this.recentClientActivity.set(server.id, map);
-            }
-            map.set(key, { client: key, lastActivity: new Date() });
-            try {
-              logger.debug('ServerManager', 'Recorded UDP activity', { serverId: server.id, client: key, time: new Date().toISOString() });
-            } catch (e) {
-              // ignore logging errors
-            }
-          } catch (e) {
-            // ignore
-          }
-        });
-
-        // ネットワーク統計ハンドラーを設定
-        udpProxy.setNetworkStatsHandler((networkStats, clientStats) => {
-          this.emit('networkStats', {
-            serverId: server.id,
-            networkStats,
-            clientStats
-          });
-        });
-
+      // UDPProxyを作成・開始（クラッシュ後はプロキシが動き続けているので再利用する）
+      if (server.address && server.destinationAddress && !this.udpProxies.has(server.id)) {
+        const udpProxy = this.createUdpProxy(server);
         await udpProxy.start();
         this.udpProxies.set(server.id, udpProxy);
       }
@@ -876,6 +1253,11 @@ export class ServerManager {
     }
 
     console.log(`🛑 Stopping server: ${server.name}`);
+    // ドレイン中の停止はカウントダウンを取り消す
+    this.clearDrainTimer(server.id);
+    server.drain = null;
+    this.clearCrashRestartTimer(server.id);
+    server.crashRecovery = null;
     server.status = "stopping";
     server.updatedAt = new Date();
     this.servers.set(server.id, server);
@@ -921,6 +1303,7 @@ export class ServerManager {
       server.status = "offline";
       server.playersOnline = 0;
       server.players = [];
+      server.pendingRestart = [];
       server.updatedAt = new Date();
       this.servers.set(server.id, server);
       await this.saveServersToStorage();
@@ -932,6 +1315,7 @@ export class ServerManager {
         server.status = "offline";
         server.playersOnline = 0;
         server.players = [];
+        server.pendingRestart = [];
         server.updatedAt = new Date();
         this.servers.set(server.id, server);
         await this.saveServersToStorage();
@@ -955,6 +1339,9 @@ export class ServerManager {
       );
     }
 
+    this.clearCrashRestartTimer(server.id);
+    server.crashRecovery = null;
+
     try {
       // プロセスマネージャーでサーバープロセスを再起動
       await processManager.restartProcess(server.id, server.executablePath);
@@ -1048,118 +1435,964 @@ export class ServerManager {
     return true;
   }
 
-  // プレイヤーキック
-  public kickPlayer(serverId: string, playerId: string): boolean {
-    // 実際の実装では、プロキシサーバーにキックコマンドを送信
-    console.log(`👮 Kicking player ${playerId} from server ${serverId}`);
-    return this.removePlayer(serverId, playerId);
+  // IPバンリストを取得（期限切れのエントリは除外）
+  public getBans(serverId: string): BanEntry[] {
+    const now = Date.now();
+    return (this.bans.get(serverId) ?? []).filter(ban => !ban.expiresAt || ban.expiresAt.getTime() > now);
   }
 
-  // 初期データの読み込み（デモ用）
-  private loadInitialData(): void {
-    const demoServers: Omit<Server, 'id' | 'createdAt' | 'updatedAt'>[] = [
-      {
-        name: "Lobby",
-        address: "127.0.0.1:19132",
-        destinationAddress: "192.168.1.10:19132",
-        status: "online",
-        playersOnline: 12,
-        maxPlayers: 100,
-        tags: ["Proxy", "入口"],
-        autoRestart: true,
-        blockSameIP: false,
-        forwardAddress: "192.168.1.50:19132",
-        description: "メインロビーサーバー",
-        players: [],
-      },
-      {
-        name: "Survival East",
-        address: "10.0.0.45:19132",
-        destinationAddress: "10.0.0.100:19133", 
-        status: "starting",
-        playersOnline: 3,
-        maxPlayers: 50,
-        iconUrl: "https://api.dicebear.com/8.x/shapes/svg?seed=survival",
-        tags: ["Survival", "Whitelist"],
-        autoRestart: false,
-        blockSameIP: true,
-        description: "サバイバルサーバー東館",
-        players: [],
-      },
-      {
-        name: "Creative",
-        address: "10.0.0.76:19133",
-        destinationAddress: "127.0.0.1:19134",
-        status: "offline",
-        playersOnline: 0,
-        maxPlayers: 60,
-        tags: ["Creative", "Sandbox"],
-        autoRestart: true,
-        blockSameIP: false,
-        forwardAddress: "10.0.0.100:19133",
-        description: "クリエイティブモードサーバー",
-        players: [],
-      },
-    ];
+  // 転送先ごとにProxy Protocolヘッダー付きのパケットを受け付けるか確認
+  public async probeProxyProtocol(serverId: string, format?: "v1" | "v2"): Promise<ProxyProtocolProbeResult[]> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    if (format !== undefined && !["v1", "v2"].includes(format)) {
+      throw new APIError(`Invalid Proxy Protocol format: ${format}`, "INVALID_PROXY_PROTOCOL", 400);
+    }
 
-    const now = new Date();
-    demoServers.forEach(serverData => {
-      const server: Server = {
-        ...serverData,
-        id: randomUUID(),
-        createdAt: now,
-        updatedAt: now,
-      };
-      this.servers.set(server.id, server);
-    });
+    const probeFormat = format ?? (server.outboundProxyProtocol === "v1" ? "v1" : "v2");
+    const destinations = [
+      server.destinationAddress,
+      ...(server.backends ?? []).map(backend => backend.address),
+      ...(server.forwardAddress ? [server.forwardAddress] : [])
+    ].filter((address, index, list) => this.isValidAddress(address) && list.indexOf(address) === index);
 
-    console.log(`📦 Loaded ${demoServers.length} demo servers`);
+    const results = await Promise.all(destinations.map(address => {
+      const { host, port } = parseHostPort(address)!;
+      return probeProxyProtocol({ host, port, format: probeFormat });
+    }));
+
+    console.log(`🧪 Proxy Protocol probe: ${server.name} (${results.map(r => `${r.destination}=${r.status}`).join(', ')})`);
+    return results;
   }
 
-  // バリデーション
-  private validateServerRequest(request: ServerAPI.AddServerRequest): void {
-    if (!request.name || request.name.trim().length === 0) {
-      throw new APIError("Server name is required", "INVALID_NAME", 400);
+  // IPバンを追加
+  public async addBan(serverId: string, target: string, reason?: string, expiresAt?: Date): Promise<BanEntry> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
     }
 
-    if (!request.address || !this.isValidAddress(request.address)) {
-      throw new APIError("Valid server address is required", "INVALID_ADDRESS", 400);
+    const normalizedTarget = target.trim();
+    if (!isValidIpOrCidr(normalizedTarget)) {
+      throw new APIError(`Invalid IP address or CIDR: ${target}`, "INVALID_BAN_TARGET", 400);
+    }
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now())) {
+      throw new APIError("expiresAt must be a future date", "INVALID_BAN_EXPIRY", 400);
     }
 
-    if (!request.destinationAddress || !this.isValidAddress(request.destinationAddress)) {
-      throw new APIError("Valid destination address is required", "INVALID_DESTINATION", 400);
+    // 同じ対象が既にある場合は置き換える
+    const bans = this.getBans(serverId).filter(ban => ban.target !== normalizedTarget);
+    const ban: BanEntry = {
+      id: randomUUID(),
+      target: normalizedTarget,
+      reason,
+      createdAt: new Date(),
+      expiresAt
+    };
+    bans.push(ban);
+
+    await this.applyBans(serverId, bans);
+    console.log(`🚫 IP banned on ${server.name}: ${normalizedTarget}${reason ? ` (${reason})` : ''}`);
+    return ban;
+  }
+
+  // IPバンを解除
+  public async removeBan(serverId: string, banId: string): Promise<void> {
+    const current = this.getBans(serverId);
+    const bans = current.filter(ban => ban.id !== banId);
+    if (bans.length === current.length) {
+      throw new APIError(`Ban ${banId} not found`, "BAN_NOT_FOUND", 404);
     }
 
-    if (request.maxPlayers < 1 || request.maxPlayers > 1000) {
-      throw new APIError("Max players must be between 1 and 1000", "INVALID_MAX_PLAYERS", 400);
+    await this.applyBans(serverId, bans);
+  }
+
+  // バンリストを保存し、稼働中のプロキシへ反映
+  private async applyBans(serverId: string, bans: BanEntry[]): Promise<void> {
+    this.bans.set(serverId, bans);
+    await dataStorage.saveBans(Object.fromEntries(this.bans));
+
+    this.udpProxies.get(serverId)?.setBanList(bans);
+
+    this.emit("bansUpdated", {
+      serverId,
+      bans
+    } as Events.BansUpdated);
+  }
+
+  /**
+   * メンテナンスの開始・終了
+   * 予定の期間中に手動で終了した場合は、予定も削除する（次の確認で再開しないように）
+   * @param message 切断メッセージ（未指定なら現在の設定を使う）
+   */
+  public async setMaintenance(serverId: string, enabled: boolean, message?: string): Promise<Server> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
     }
 
-    // Proxy Onlyモードの場合はexecutablePathは不要
-    if (request.mode !== "proxyOnly" && !request.executablePath) {
-      console.warn("⚠️ Server added without executablePath (normal mode). Server process management may not work.");
+    const updates: Partial<Server> = { maintenance: enabled };
+    if (message !== undefined) {
+      updates.maintenanceMessage = message;
+    }
+    if (!enabled && server.maintenanceWindow && Date.parse(server.maintenanceWindow.startsAt) <= Date.now()) {
+      updates.maintenanceWindow = null;
     }
-  }
 
-  // Minecraftサーバーの自動検出
-  public async detectMinecraftServer(executablePath: string): Promise<DetectedServerInfo> {
-    return await minecraftServerDetector.detectServerConfig(executablePath);
+    const { server: updated } = await this.updateServer({ id: serverId, updates });
+    console.log(`🛠️  Maintenance ${enabled ? 'started' : 'ended'}: ${server.name}`);
+    return updated;
   }
 
-  // 検出された情報からサーバーを追加
-  public async addServerFromDetection(
-    detectedInfo: DetectedServerInfo, 
-    customConfig?: Partial<ServerAPI.AddServerRequest>
-  ): Promise<Server> {
-    const recommendedConfig = minecraftServerDetector.generateRecommendedConfig(detectedInfo);
-    
-    const serverRequest: ServerAPI.AddServerRequest = {
-      ...recommendedConfig,
-      ...customConfig, // カスタム設定で上書き
-      executablePath: detectedInfo.executablePath, // 実行ファイルパスを設定
-      serverDirectory: detectedInfo.serverDirectory, // サーバーディレクトリを設定
-    };
+  // メンテナンスの予定に従って開始・終了する
+  private applyMaintenanceWindows(): void {
+    const now = Date.now();
+    this.servers.forEach((server) => {
+      const window = server.maintenanceWindow;
+      if (!window) return;
+
+      const startsAt = Date.parse(window.startsAt);
+      const endsAt = window.endsAt ? Date.parse(window.endsAt) : Infinity;
+      let action: Promise<Server> | null = null;
+
+      if (now >= endsAt) {
+        action = this.setMaintenance(server.id, false);
+      } else if (now >= startsAt && !server.maintenance) {
+        action = this.setMaintenance(server.id, true);
+      }
 
-    return await this.addServer(serverRequest);
+      action?.catch((error) => {
+        console.warn(`⚠️ Failed to apply maintenance window on ${server.name}:`, error);
+      });
+    });
+  }
+
+  /**
+   * ドレイン再起動を開始
+   * 新規セッションを止めてゲーム内で再起動を告知し、全員の退出または期限を待ってからプロセスを再起動する
+   * プロキシは停止しないため、再起動中も受信ポートは応答し続ける
+   * @param timeout プレイヤーの退出を待つ最大秒数（0なら即座に再起動）
+   * @param redirect 再起動中の新規セッションを forwardAddress へ転送する
+   */
+  public async drainServer(serverId: string, timeout: number = this.DEFAULT_DRAIN_TIMEOUT, redirect: boolean = false): Promise<Server> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    if (server.status !== "online") {
+      throw new APIError("Server is not online", "SERVER_OFFLINE", 400);
+    }
+    if (server.drain) {
+      throw new APIError("Server is already draining", "SERVER_DRAINING", 400);
+    }
+    if (!server.executablePath) {
+      throw new APIError("Server executable path is not configured", "EXECUTABLE_PATH_MISSING", 400);
+    }
+    if (!Number.isInteger(timeout) || timeout < 0 || timeout > this.MAX_DRAIN_TIMEOUT) {
+      throw new APIError(`timeout must be an integer between 0 and ${this.MAX_DRAIN_TIMEOUT}`, "INVALID_DRAIN_TIMEOUT", 400);
+    }
+    if (redirect && !this.getFallbackConfig(server).fallbackHost) {
+      throw new APIError("redirect requires a valid forwardAddress", "FORWARD_ADDRESS_MISSING", 400);
+    }
+
+    this.udpProxies.get(serverId)?.setDraining(true, redirect);
+
+    const startedAt = Date.now();
+    const deadline = startedAt + timeout * 1000;
+    await this.setDrainState(server, {
+      phase: "draining",
+      startedAt: new Date(startedAt).toISOString(),
+      deadline: new Date(deadline).toISOString(),
+      redirect
+    });
+    console.log(`🚰 Draining server: ${server.name} (timeout: ${timeout}s${redirect ? `, redirecting to ${server.forwardAddress}` : ''})`);
+
+    let announced: number | null = null;
+    const tick = () => {
+      const remaining = Math.ceil((deadline - Date.now()) / 1000);
+      if (server.playersOnline === 0 || remaining <= 0) {
+        this.clearDrainTimer(serverId);
+        this.restartDrainedServer(server).catch((error) => {
+          console.error(`❌ Failed to restart drained server ${server.name}:`, error);
+        });
+        return;
+      }
+
+      // 開始時と、告知タイミングを過ぎるたびに残り時間を知らせる
+      const mark = Math.min(...ServerManager.DRAIN_ANNOUNCE_AT.filter(at => at >= remaining));
+      if (announced === null || mark < announced) {
+        this.announceRestart(serverId, remaining);
+        announced = mark;
+      }
+    };
+
+    this.drainTimers.set(serverId, setInterval(tick, 1000));
+    tick();
+    return server;
+  }
+
+  // ドレインを取り消す（再起動が始まった後は取り消せない）
+  public async cancelDrain(serverId: string): Promise<Server> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    if (!server.drain) {
+      throw new APIError("Server is not draining", "SERVER_NOT_DRAINING", 400);
+    }
+    if (server.drain.phase === "restarting") {
+      throw new APIError("Server is already restarting", "SERVER_RESTARTING", 400);
+    }
+
+    this.clearDrainTimer(serverId);
+    this.udpProxies.get(serverId)?.setDraining(false);
+    await this.setDrainState(server, null);
+    this.sendGameCommands(serverId, ["say Restart cancelled"]);
+
+    console.log(`🚰 Drain cancelled: ${server.name}`);
+    return server;
+  }
+
+  // 退出を待ち終えたサーバーのプロセスを再起動し、ドレインを終了する
+  private async restartDrainedServer(server: Server): Promise<void> {
+    const drain = server.drain;
+    if (!drain) return;
+
+    await this.setDrainState(server, { ...drain, phase: "restarting" });
+    console.log(`🔄 Restarting drained server: ${server.name}`);
+
+    // 残っているセッションは終了し、再接続でフォールバック先へ移す
+    if (drain.redirect) {
+      this.udpProxies.get(server.id)?.endPrimarySessions();
+    }
+
+    try {
+      await processManager.restartProcess(server.id, server.executablePath!);
+      await this.waitForOnline(server, this.DRAIN_RESTART_TIMEOUT);
+      await this.applyPendingRestart(server);
+      console.log(`✅ Drained restart completed: ${server.name}`);
+    } finally {
+      this.udpProxies.get(server.id)?.setDraining(false);
+      await this.setDrainState(server, null);
+    }
+  }
+
+  // プロセスの起動を待つ（失敗・タイムアウトは例外）
+  private waitForOnline(server: Server, timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const startedAt = Date.now();
+      const check = setInterval(() => {
+        if (server.status === "online") {
+          clearInterval(check);
+          resolve();
+        } else if (server.status === "error" || Date.now() - startedAt > timeoutMs) {
+          clearInterval(check);
+          reject(new Error(`Server did not come back online (status: ${server.status})`));
+        }
+      }, 500);
+    });
+  }
+
+  // プロセスの再起動では反映されない設定（受信ソケット・転送先）をプロキシに反映する
+  private async applyPendingRestart(server: Server): Promise<void> {
+    const pending = server.pendingRestart ?? [];
+    const udpProxy = this.udpProxies.get(server.id);
+    if (udpProxy && (pending.includes("address") || pending.includes("mode"))) {
+      // 受信ソケットの変更はプロキシを作り直す（この間だけ受信が途切れる）
+      await udpProxy.stop();
+      const next = this.createUdpProxy(server);
+      await next.start();
+      this.udpProxies.set(server.id, next);
+      return;
+    }
+    if (udpProxy && pending.includes("destinationAddress")) {
+      udpProxy.updateConfig(this.getBackendConfig(server));
+    }
+    if (udpProxy && pending.includes("name")) {
+      udpProxy.updateConfig({ listenerName: server.name });
+    }
+    server.pendingRestart = [];
+  }
+
+  private clearDrainTimer(serverId: string): void {
+    const timer = this.drainTimers.get(serverId);
+    if (timer) {
+      clearInterval(timer);
+      this.drainTimers.delete(serverId);
+    }
+  }
+
+  private async setDrainState(server: Server, drain: DrainState | null): Promise<void> {
+    server.drain = drain;
+    server.updatedAt = new Date();
+    this.servers.set(server.id, server);
+    await this.saveServersToStorage();
+    this.emit("serverUpdated", { server, changes: ["drain"], appliedLive: [] } as Events.ServerUpdated);
+  }
+
+  // 再起動までの残り時間をゲーム内のチャットと画面に表示
+  private announceRestart(serverId: string, seconds: number): void {
+    const remaining = seconds >= 60 && seconds % 60 === 0
+      ? `${seconds / 60} minute${seconds === 60 ? '' : 's'}`
+      : `${seconds} second${seconds === 1 ? '' : 's'}`;
+    this.sendGameCommands(serverId, [
+      `say Server restarting in ${remaining}. Please finish up and log out.`,
+      `title @a actionbar Server restarting in ${remaining}`
+    ]);
+  }
+
+  // コンソールにコマンドを送る（プロセスが応答しない場合は告知を諦める）
+  private sendGameCommands(serverId: string, commands: string[]): void {
+    try {
+      commands.forEach(command => processManager.sendCommand(serverId, command));
+    } catch (error) {
+      console.warn(`⚠️ Failed to send announcement to ${serverId}:`, error);
+    }
+  }
+
+  // クラッシュレポートを取得（新しい順）
+  public getCrashReports(serverId: string): CrashReport[] {
+    if (!this.servers.has(serverId)) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    return this.crashReports.get(serverId) ?? [];
+  }
+
+  /**
+   * サーバープロセスのクラッシュを記録し、autoRestart が有効なら間隔を空けて再起動する
+   * 間隔とクラッシュループの判定は planCrashRecovery を参照
+   */
+  private async handleCrash(server: Server, exitCode: number | null, signal: string | null): Promise<void> {
+    const now = Date.now();
+    let consoleLines: string[] = [];
+    try {
+      consoleLines = processManager.getConsoleOutput(server.id, this.CRASH_REPORT_LINES);
+    } catch (e) {
+      // コンソール出力がなくてもレポートは残す
+    }
+
+    // クラッシュでドレイン再起動の前提が崩れるため取り消す
+    if (server.drain) {
+      this.clearDrainTimer(server.id);
+      this.udpProxies.get(server.id)?.setDraining(false);
+      server.drain = null;
+    }
+
+    const { crashes, action, restartDelay } = planCrashRecovery(server.crashRecovery?.crashes ?? [], server.autoRestart === true, now);
+
+    const report: CrashReport = {
+      id: randomUUID(),
+      serverId: server.id,
+      time: new Date(now),
+      exitCode,
+      signal,
+      consoleLines,
+      action,
+      restartDelay
+    };
+    this.crashReports.set(server.id, [report, ...(this.crashReports.get(server.id) ?? [])].slice(0, this.MAX_CRASH_REPORTS));
+    try {
+      await dataStorage.saveCrashReports(Object.fromEntries(this.crashReports));
+    } catch (e) {
+      // レポートの保存失敗は自動再起動を妨げない
+    }
+
+    this.clearCrashRestartTimer(server.id);
+    if (restartDelay !== undefined) {
+      this.crashRestartTimers.set(server.id, setTimeout(() => {
+        this.crashRestartTimers.delete(server.id);
+        this.restartCrashedServer(server).catch((error) => {
+          console.error(`❌ Failed to restart crashed server ${server.name}:`, error);
+        });
+      }, restartDelay * 1000));
+    }
+
+    await this.setCrashRecovery(server, {
+      crashes,
+      nextRestartAt: restartDelay !== undefined ? new Date(now + restartDelay * 1000).toISOString() : null,
+      gaveUp: action === "gaveUp"
+    });
+
+    if (action === "gaveUp") {
+      console.error(`💥 Crash loop detected: ${server.name} crashed ${crashes.length} times, auto-restart stopped`);
+    } else {
+      console.warn(`💥 Server crashed: ${server.name} (code: ${exitCode}, signal: ${signal})${restartDelay !== undefined ? `, restarting in ${restartDelay}s` : ''}`);
+    }
+
+    this.emit("serverCrashed", { serverId: server.id, report, server } as Events.ServerCrashed);
+  }
+
+  // クラッシュしたサーバーのプロセスを起動し直す（プロキシは動かしたまま）
+  private async restartCrashedServer(server: Server): Promise<void> {
+    // 待機中に手動で起動・停止・削除された場合は何もしない
+    if (this.servers.get(server.id) !== server || server.status !== "error" || !server.crashRecovery) return;
+
+    await this.setCrashRecovery(server, { ...server.crashRecovery, nextRestartAt: null });
+    console.log(`🔄 Auto-restarting crashed server: ${server.name}`);
+    await processManager.startProcess(server.id, server.executablePath!);
+  }
+
+  private clearCrashRestartTimer(serverId: string): void {
+    const timer = this.crashRestartTimers.get(serverId);
+    if (timer) {
+      clearTimeout(timer);
+      this.crashRestartTimers.delete(serverId);
+    }
+  }
+
+  private async setCrashRecovery(server: Server, crashRecovery: CrashRecoveryState | null): Promise<void> {
+    server.crashRecovery = crashRecovery;
+    server.updatedAt = new Date();
+    this.servers.set(server.id, server);
+    await this.saveServersToStorage();
+    this.emit("serverUpdated", { server, changes: ["crashRecovery"], appliedLive: [] } as Events.ServerUpdated);
+  }
+
+  // ワールドのバックアップ一覧（新しい順）
+  public listWorldBackups(serverId: string): WorldBackup[] {
+    if (!this.servers.has(serverId)) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    return this.worldBackups.list(serverId);
+  }
+
+  /**
+   * ワールドをバックアップし、保存条件を超えた古いバックアップを削除する
+   * サーバープロセスが稼働中なら save hold で書き込みを止めて取得する
+   */
+  public async createWorldBackup(serverId: string, trigger: WorldBackup["trigger"] = "manual"): Promise<WorldBackup> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    if (!server.serverDirectory) {
+      throw new APIError("Server directory is not configured", "SERVER_DIRECTORY_MISSING", 400);
+    }
+
+    const hot = processManager.getProcessInfo(serverId)?.status === "running";
+    // 管理していないプロセスが動いている場合は書き込みを止められない
+    if (!hot && (server.status === "online" || server.status === "starting")) {
+      throw new APIError("Cannot back up a world while an unmanaged server is running", "SERVER_NOT_MANAGED", 409);
+    }
+
+    this.beginWorldOperation(serverId);
+    let backup: WorldBackup;
+    try {
+      backup = await this.worldBackups.create(serverId, server.serverDirectory, trigger, hot);
+    } catch (error) {
+      if (error instanceof APIError) throw error;
+      throw new APIError(`Failed to back up world: ${error instanceof Error ? error.message : String(error)}`, "BACKUP_FAILED", 500);
+    } finally {
+      this.worldOperations.delete(serverId);
+    }
+
+    const expired = await this.worldBackups.applyRetention(serverId, server.backupRetention ?? DEFAULT_BACKUP_RETENTION, backup.id);
+    console.log(`💾 World backup created: ${server.name} (${backup.fileName}, ${backup.fileCount} files${expired.length > 0 ? `, ${expired.length} expired` : ''})`);
+
+    this.emitBackupsUpdated(serverId);
+    return backup;
+  }
+
+  /**
+   * バックアップからワールドを復元する
+   * 稼働中のサーバーは停止してから置き換え、置き換え後に起動し直す
+   */
+  public async restoreWorldBackup(backupId: string): Promise<{ backup: WorldBackup; server: Server }> {
+    const backup = this.worldBackups.get(backupId);
+    if (!backup) {
+      throw new APIError(`Backup with id ${backupId} not found`, "BACKUP_NOT_FOUND", 404);
+    }
+    const server = this.servers.get(backup.serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${backup.serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    if (!server.serverDirectory) {
+      throw new APIError("Server directory is not configured", "SERVER_DIRECTORY_MISSING", 400);
+    }
+    if (server.drain) {
+      throw new APIError("Server is draining", "SERVER_DRAINING", 409);
+    }
+
+    const wasRunning = processManager.isProcessRunning(server.id);
+    if (!wasRunning && (server.status === "online" || server.status === "starting")) {
+      throw new APIError("Stop the server before restoring a world", "SERVER_NOT_MANAGED", 409);
+    }
+    // 別のワールドを読み込む設定なら、サーバーを止める前に断る
+    const levelName = await readLevelName(server.serverDirectory);
+    if (levelName !== backup.worldName) {
+      throw new APIError(
+        `The backup is of world "${backup.worldName}", but the server is set to load "${levelName}"`,
+        "WORLD_NAME_MISMATCH",
+        409
+      );
+    }
+
+    this.beginWorldOperation(server.id);
+    let failure: unknown = null;
+    try {
+      if (wasRunning) {
+        this.sendGameCommands(server.id, ["say Server is stopping to restore a world backup"]);
+        await this.performServerAction({ id: server.id, action: "stop" });
+        await processManager.waitForProcessStop(server.id, this.RESTORE_STOP_TIMEOUT);
+      }
+      await this.worldBackups.restore(backup, server.serverDirectory);
+      console.log(`♻️ World restored: ${server.name} (${backup.fileName})`);
+    } catch (error) {
+      failure = error;
+    } finally {
+      this.worldOperations.delete(server.id);
+    }
+
+    // 復元に失敗しても、展開前に失敗した場合は元のワールドのまま起動し直す
+    if (wasRunning && server.status === "offline") {
+      try {
+        await this.performServerAction({ id: server.id, action: "start" });
+      } catch (error) {
+        if (!failure) throw error;
+        console.error(`❌ Failed to start ${server.name} after a failed restore:`, error);
+      }
+    }
+
+    if (failure) {
+      if (failure instanceof APIError) throw failure;
+      throw new APIError(`Failed to restore world: ${failure instanceof Error ? failure.message : String(failure)}`, "RESTORE_FAILED", 500);
+    }
+    return { backup, server };
+  }
+
+  public async deleteWorldBackup(backupId: string): Promise<void> {
+    const backup = this.worldBackups.get(backupId);
+    if (!backup) {
+      throw new APIError(`Backup with id ${backupId} not found`, "BACKUP_NOT_FOUND", 404);
+    }
+    if (this.worldOperations.has(backup.serverId)) {
+      throw new APIError("A backup or restore is in progress", "BACKUP_IN_PROGRESS", 409);
+    }
+
+    await this.worldBackups.remove(backupId);
+    console.log(`🗑️  World backup deleted: ${backup.fileName}`);
+    this.emitBackupsUpdated(backup.serverId);
+  }
+
+  private beginWorldOperation(serverId: string): void {
+    if (this.worldOperations.has(serverId)) {
+      throw new APIError("A backup or restore is in progress", "BACKUP_IN_PROGRESS", 409);
+    }
+    this.worldOperations.add(serverId);
+  }
+
+  private emitBackupsUpdated(serverId: string): void {
+    this.emit("backupsUpdated", {
+      serverId,
+      backups: this.worldBackups.list(serverId)
+    } as Events.BackupsUpdated);
+  }
+
+  /**
+   * パケットキャプチャを開始（サーバーが停止中の場合は起動後から記録）
+   * @param options clientKey を指定するとそのセッションのみ記録
+   */
+  public async startCapture(serverId: string, options: CaptureOptions = {}): Promise<CaptureInfo> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    if (options.clientKey !== undefined && !/^[\w.:%-]+:\d+$/.test(options.clientKey)) {
+      throw new APIError(`Invalid client key: ${options.clientKey}`, "INVALID_CAPTURE_OPTIONS", 400);
+    }
+    if (options.maxBytes !== undefined
+      && (!Number.isInteger(options.maxBytes) || options.maxBytes < 1 || options.maxBytes > MAX_CAPTURE_MAX_BYTES)) {
+      throw new APIError(`maxBytes must be between 1 and ${MAX_CAPTURE_MAX_BYTES}`, "INVALID_CAPTURE_OPTIONS", 400);
+    }
+    if (options.maxDuration !== undefined
+      && (!Number.isInteger(options.maxDuration) || options.maxDuration < 1 || options.maxDuration > MAX_CAPTURE_MAX_DURATION)) {
+      throw new APIError(`maxDuration must be between 1 and ${MAX_CAPTURE_MAX_DURATION} seconds`, "INVALID_CAPTURE_OPTIONS", 400);
+    }
+    if (this.packetCaptures.countRunning(serverId) >= this.MAX_RUNNING_CAPTURES) {
+      throw new APIError(`Too many running captures on ${server.name}`, "CAPTURE_LIMIT_REACHED", 400);
+    }
+
+    const capture = await this.packetCaptures.start(serverId, `${server.name} (${server.address})`, options);
+    this.udpProxies.get(serverId)?.setCaptureHandler(packet => this.packetCaptures.record(serverId, packet));
+
+    console.log(`🎥 Capture started on ${server.name}${capture.clientKey ? ` for ${capture.clientKey}` : ''}: ${capture.fileName}`);
+    return capture;
+  }
+
+  public async stopCapture(captureId: string): Promise<CaptureInfo> {
+    const capture = await this.packetCaptures.stop(captureId);
+    if (!capture) {
+      throw new APIError(`Capture ${captureId} not found`, "CAPTURE_NOT_FOUND", 404);
+    }
+    return capture;
+  }
+
+  public async listCaptures(serverId?: string): Promise<CaptureInfo[]> {
+    return this.packetCaptures.list(serverId);
+  }
+
+  // キャプチャファイルを offset から1チャンク分読み出す
+  public async downloadCapture(captureId: string, offset: number = 0): Promise<ServerAPI.DownloadCaptureResponse> {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new APIError("offset must be a non-negative integer", "INVALID_CAPTURE_OPTIONS", 400);
+    }
+
+    const chunk = await this.packetCaptures.read(captureId, offset, CAPTURE_DOWNLOAD_CHUNK_SIZE);
+    if (!chunk) {
+      throw new APIError(`Capture ${captureId} not found`, "CAPTURE_NOT_FOUND", 404);
+    }
+
+    return {
+      captureId,
+      fileName: chunk.fileName,
+      size: chunk.size,
+      offset,
+      data: chunk.data.toString("base64"),
+      done: offset + chunk.data.length >= chunk.size
+    };
+  }
+
+  // 許可リスト・拒否リストを取得
+  public getWhitelist(serverId: string): WhitelistEntry[] {
+    return this.whitelists.get(serverId) ?? [];
+  }
+
+  // 許可リスト・拒否リストにエントリを追加
+  public async addWhitelistEntry(
+    serverId: string,
+    type: WhitelistEntryType,
+    value: string,
+    mode: WhitelistMode = "allow",
+    name?: string,
+    note?: string
+  ): Promise<WhitelistEntry> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+
+    const normalizedValue = this.validateWhitelistEntry(type, value, mode);
+
+    // 同じ対象が既にある場合は置き換える
+    const entries = this.getWhitelist(serverId).filter(entry => !this.isSameWhitelistTarget(entry, type, normalizedValue));
+    const entry: WhitelistEntry = {
+      id: randomUUID(),
+      type,
+      value: normalizedValue,
+      mode,
+      name,
+      note,
+      createdAt: new Date()
+    };
+    entries.push(entry);
+
+    await this.applyWhitelist(serverId, entries);
+    console.log(`📋 Whitelist ${mode} added on ${server.name}: ${type}=${normalizedValue}`);
+    return entry;
+  }
+
+  // 許可リスト・拒否リストからエントリを削除
+  public async removeWhitelistEntry(serverId: string, entryId: string): Promise<void> {
+    const current = this.getWhitelist(serverId);
+    const entries = current.filter(entry => entry.id !== entryId);
+    if (entries.length === current.length) {
+      throw new APIError(`Whitelist entry ${entryId} not found`, "WHITELIST_ENTRY_NOT_FOUND", 404);
+    }
+
+    await this.applyWhitelist(serverId, entries);
+  }
+
+  // サーバーディレクトリの allowlist.json（旧形式の whitelist.json）を許可エントリとして取り込む
+  public async importAllowlist(serverId: string): Promise<{ imported: number; entries: WhitelistEntry[] }> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    if (!server.serverDirectory) {
+      throw new APIError("Server directory is not configured", "NO_SERVER_DIRECTORY", 400);
+    }
+
+    let content: string | null = null;
+    let sourcePath = "";
+    for (const fileName of ["allowlist.json", "whitelist.json"]) {
+      sourcePath = path.join(server.serverDirectory, fileName);
+      try {
+        content = await readFile(sourcePath, "utf-8");
+        break;
+      } catch {
+        // 次の候補を試す
+      }
+    }
+    if (content === null) {
+      throw new APIError(`allowlist.json not found in ${server.serverDirectory}`, "ALLOWLIST_NOT_FOUND", 404);
+    }
+
+    let records: unknown;
+    try {
+      records = JSON.parse(content);
+    } catch {
+      throw new APIError(`Invalid JSON in ${sourcePath}`, "INVALID_ALLOWLIST", 400);
+    }
+    if (!Array.isArray(records)) {
+      throw new APIError(`${sourcePath} must contain an array`, "INVALID_ALLOWLIST", 400);
+    }
+
+    let entries = this.getWhitelist(serverId);
+    let imported = 0;
+    for (const record of records) {
+      const xuid = typeof record?.xuid === "string" && /^\d+$/.test(record.xuid) ? record.xuid : undefined;
+      const name = typeof record?.name === "string" && record.name.trim() ? record.name.trim() : undefined;
+      if (!xuid && !name) continue;
+
+      // XUIDがあればXUIDで照合し、なければゲーマータグで照合する
+      const type: WhitelistEntryType = xuid ? "xuid" : "name";
+      const value = xuid ?? name!;
+      entries = entries.filter(entry => !this.isSameWhitelistTarget(entry, type, value));
+      entries.push({
+        id: randomUUID(),
+        type,
+        value,
+        mode: "allow",
+        name: xuid ? name : undefined,
+        createdAt: new Date()
+      });
+      imported++;
+    }
+
+    await this.applyWhitelist(serverId, entries);
+    console.log(`📋 Imported ${imported} allowlist entries into ${server.name} from ${sourcePath}`);
+    return { imported, entries };
+  }
+
+  // 許可エントリをサーバーディレクトリの allowlist.json に書き出す
+  // allowlist.json は name が必須のため、名前のないXUIDエントリとIPエントリは書き出さない
+  public async exportAllowlist(serverId: string): Promise<{ exported: number; skipped: number; path: string }> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+    if (!server.serverDirectory) {
+      throw new APIError("Server directory is not configured", "NO_SERVER_DIRECTORY", 400);
+    }
+
+    const allowed = this.getWhitelist(serverId).filter(entry => entry.mode === "allow");
+    const records: Array<{ ignoresPlayerLimit: boolean; name: string; xuid?: string }> = [];
+    for (const entry of allowed) {
+      if (entry.type === "xuid" && entry.name) {
+        records.push({ ignoresPlayerLimit: false, name: entry.name, xuid: entry.value });
+      } else if (entry.type === "name") {
+        records.push({ ignoresPlayerLimit: false, name: entry.value });
+      }
+    }
+
+    const targetPath = path.join(server.serverDirectory, "allowlist.json");
+    await writeFile(targetPath, JSON.stringify(records, null, 2), "utf-8");
+
+    const skipped = allowed.length - records.length;
+    console.log(`📋 Exported ${records.length} allowlist entries from ${server.name} to ${targetPath}${skipped ? ` (${skipped} skipped)` : ''}`);
+    return { exported: records.length, skipped, path: targetPath };
+  }
+
+  // 許可リストを保存し、稼働中のプロキシへ反映
+  private async applyWhitelist(serverId: string, entries: WhitelistEntry[]): Promise<void> {
+    this.whitelists.set(serverId, entries);
+    await dataStorage.saveWhitelists(Object.fromEntries(this.whitelists));
+
+    const server = this.servers.get(serverId);
+    this.udpProxies.get(serverId)?.setWhitelist(entries, server?.whitelistEnabled ?? false);
+
+    this.emit("whitelistUpdated", {
+      serverId,
+      entries
+    } as Events.WhitelistUpdated);
+  }
+
+  private isSameWhitelistTarget(entry: WhitelistEntry, type: WhitelistEntryType, value: string): boolean {
+    if (entry.type !== type) return false;
+    return type === "name" ? entry.value.toLowerCase() === value.toLowerCase() : entry.value === value;
+  }
+
+  // プレイヤーキック
+  // normalモードではサーバープロセスに kick コマンドを送信し、
+  // proxyOnlyモード（またはプロセス未起動時）はプロキシ側でセッションを強制切断する
+  public async kickPlayer(serverId: string, playerId: string, reason?: string): Promise<Events.PlayerKicked> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new APIError(`Server with id ${serverId} not found`, "SERVER_NOT_FOUND", 404);
+    }
+
+    const player = server.players?.find(p => p.id === playerId || p.xuid === playerId);
+    if (!player) {
+      throw new APIError(`Player ${playerId} not found on server ${server.name}`, "PLAYER_NOT_FOUND", 404);
+    }
+
+    const kickReason = reason?.replace(/[\r\n]+/g, ' ').trim() || undefined;
+    let method: Events.PlayerKicked['method'];
+
+    if (server.mode !== 'proxyOnly' && processManager.isProcessRunning(serverId)) {
+      // 名前に空白を含む場合は引用符で囲む
+      const target = /\s/.test(player.name) ? `"${player.name}"` : player.name;
+      processManager.sendCommand(serverId, kickReason ? `kick ${target} ${kickReason}` : `kick ${target}`);
+      method = 'command';
+      // 退出はコンソールの "Player disconnected" から検出される
+    } else {
+      const udpProxy = this.udpProxies.get(serverId);
+      if (!udpProxy || !player.ipAddress) {
+        throw new APIError(
+          `Cannot kick ${player.name}: no running process or proxy session`,
+          "KICK_UNAVAILABLE",
+          400
+        );
+      }
+
+      udpProxy.disconnectClient(player.ipAddress, player.port, kickReason);
+      method = 'proxy';
+      this.removePlayer(serverId, player.id);
+    }
+
+    const kickedData: Events.PlayerKicked = {
+      serverId,
+      playerId: player.id,
+      playerName: player.name,
+      reason: kickReason,
+      method
+    };
+    this.emit('playerKicked', kickedData);
+
+    // プラグインにイベントを転送
+    this.triggerPluginEvent(serverId, 'playerKicked', kickedData);
+
+    logger.info('ServerManager', `Player kicked: ${player.name}`, { serverId, playerName: player.name, reason: kickReason, method });
+    return kickedData;
+  }
+
+  // 初期データの読み込み（デモ用）
+  private loadInitialData(): void {
+    const demoServers: Omit<Server, 'id' | 'createdAt' | 'updatedAt'>[] = [
+      {
+        name: "Lobby",
+        address: "127.0.0.1:19132",
+        destinationAddress: "192.168.1.10:19132",
+        status: "online",
+        playersOnline: 12,
+        maxPlayers: 100,
+        tags: ["Proxy", "入口"],
+        autoRestart: true,
+        blockSameIP: false,
+        forwardAddress: "192.168.1.50:19132",
+        description: "メインロビーサーバー",
+        players: [],
+      },
+      {
+        name: "Survival East",
+        address: "10.0.0.45:19132",
+        destinationAddress: "10.0.0.100:19133", 
+        status: "starting",
+        playersOnline: 3,
+        maxPlayers: 50,
+        iconUrl: "https://api.dicebear.com/8.x/shapes/svg?seed=survival",
+        tags: ["Survival", "Whitelist"],
+        autoRestart: false,
+        blockSameIP: true,
+        description: "サバイバルサーバー東館",
+        players: [],
+      },
+      {
+        name: "Creative",
+        address: "10.0.0.76:19133",
+        destinationAddress: "127.0.0.1:19134",
+        status: "offline",
+        playersOnline: 0,
+        maxPlayers: 60,
+        tags: ["Creative", "Sandbox"],
+        autoRestart: true,
+        blockSameIP: false,
+        forwardAddress: "10.0.0.100:19133",
+        description: "クリエイティブモードサーバー",
+        players: [],
+      },
+    ];
+
+    const now = new Date();
+    demoServers.forEach(serverData => {
+      const server: Server = {
+        ...serverData,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.servers.set(server.id, server);
+    });
+
+    console.log(`📦 Loaded ${demoServers.length} demo servers`);
+  }
+
+  // バリデーション
+  private validateServerRequest(request: ServerAPI.AddServerRequest): void {
+    if (!request.name || request.name.trim().length === 0) {
+      throw new APIError("Server name is required", "INVALID_NAME", 400);
+    }
+
+    if (!request.address || !this.isValidAddress(request.address)) {
+      throw new APIError("Valid server address is required", "INVALID_ADDRESS", 400);
+    }
+
+    if (!request.destinationAddress || !this.isValidAddress(request.destinationAddress)) {
+      throw new APIError("Valid destination address is required", "INVALID_DESTINATION", 400);
+    }
+
+    if (request.maxPlayers < 1 || request.maxPlayers > 1000) {
+      throw new APIError("Max players must be between 1 and 1000", "INVALID_MAX_PLAYERS", 400);
+    }
+
+    if (request.backends) {
+      this.validateBackends(request.backends);
+    }
+
+    if (request.rateLimits) {
+      this.validateRateLimits(request.rateLimits);
+    }
+
+    if (request.maxConnections !== undefined) {
+      this.validateMaxConnections(request.maxConnections);
+    }
+
+    if (request.trustedProxies) {
+      this.validateTrustedProxies(request.trustedProxies);
+    }
+
+    this.validateOutboundProxyProtocol(request.outboundProxyProtocol, request.proxyProtocolEmission);
+
+    this.validateChallengeSettings(request.challengeMode, request.challengeThreshold);
+
+    // Proxy Onlyモードの場合はexecutablePathは不要
+    if (request.mode !== "proxyOnly" && !request.executablePath) {
+      console.warn("⚠️ Server added without executablePath (normal mode). Server process management may not work.");
+    }
+  }
+
+  // Minecraftサーバーの自動検出
+  public async detectMinecraftServer(executablePath: string): Promise<DetectedServerInfo> {
+    return await minecraftServerDetector.detectServerConfig(executablePath);
+  }
+
+  // 検出された情報からサーバーを追加
+  public async addServerFromDetection(
+    detectedInfo: DetectedServerInfo, 
+    customConfig?: Partial<ServerAPI.AddServerRequest>
+  ): Promise<Server> {
+    const recommendedConfig = minecraftServerDetector.generateRecommendedConfig(detectedInfo);
+    
+    const serverRequest: ServerAPI.AddServerRequest = {
+      ...recommendedConfig,
+      ...customConfig, // カスタム設定で上書き
+      executablePath: detectedInfo.executablePath, // 実行ファイルパスを設定
+      serverDirectory: detectedInfo.serverDirectory, // サーバーディレクトリを設定
+    };
+
+    return await this.addServer(serverRequest);
   }
   
   // サーバーコンソールログを取得
@@ -1532,8 +2765,135 @@ export class ServerManager {
     return await dataStorage.createBackup();
   }
 
+  private validateBackends(backends: BackendTarget[]): void {
+    if (!Array.isArray(backends)) {
+      throw new APIError("Backends must be an array", "INVALID_BACKEND", 400);
+    }
+
+    for (const backend of backends) {
+      if (!backend?.address || !this.isValidAddress(backend.address)) {
+        throw new APIError(`Invalid backend address: ${backend?.address}`, "INVALID_BACKEND", 400);
+      }
+      if (backend.weight !== undefined && (!Number.isInteger(backend.weight) || backend.weight < 1 || backend.weight > 100)) {
+        throw new APIError("Backend weight must be an integer between 1 and 100", "INVALID_BACKEND", 400);
+      }
+    }
+  }
+
+  private validateRateLimits(rateLimits: RateLimitSettings): void {
+    const fields: Array<keyof RateLimitSettings> = [
+      "packetsPerSecond",
+      "bytesPerSecond",
+      "globalPacketsPerSecond",
+      "globalBytesPerSecond",
+      "autoBanThreshold",
+      "autoBanDuration"
+    ];
+
+    for (const field of fields) {
+      const value = rateLimits?.[field];
+      if (!Number.isInteger(value) || value < 0) {
+        throw new APIError(`Rate limit ${field} must be a non-negative integer`, "INVALID_RATE_LIMIT", 400);
+      }
+    }
+    if (rateLimits.autoBanThreshold > 0 && rateLimits.autoBanDuration === 0) {
+      throw new APIError("autoBanDuration must be greater than 0 when auto-ban is enabled", "INVALID_RATE_LIMIT", 400);
+    }
+  }
+
+  private validateMaxConnections(maxConnections: number): void {
+    if (!Number.isInteger(maxConnections) || maxConnections < 1 || maxConnections > 100000) {
+      throw new APIError("maxConnections must be an integer between 1 and 100000", "INVALID_MAX_CONNECTIONS", 400);
+    }
+  }
+
+  private validateBackupRetention(retention: BackupRetention): void {
+    if (!retention || !Number.isInteger(retention.maxCount) || retention.maxCount < 0 || retention.maxCount > MAX_BACKUP_RETENTION_COUNT) {
+      throw new APIError(`maxCount must be an integer between 0 and ${MAX_BACKUP_RETENTION_COUNT}`, "INVALID_BACKUP_RETENTION", 400);
+    }
+    if (!Number.isInteger(retention.maxAgeDays) || retention.maxAgeDays < 0 || retention.maxAgeDays > MAX_BACKUP_RETENTION_DAYS) {
+      throw new APIError(`maxAgeDays must be an integer between 0 and ${MAX_BACKUP_RETENTION_DAYS}`, "INVALID_BACKUP_RETENTION", 400);
+    }
+  }
+
+  private validateTrustedProxies(trustedProxies: string[]): void {
+    if (!Array.isArray(trustedProxies)) {
+      throw new APIError("Trusted proxies must be an array", "INVALID_TRUSTED_PROXY", 400);
+    }
+
+    for (const entry of trustedProxies) {
+      if (typeof entry !== "string" || !isValidIpOrCidr(entry)) {
+        throw new APIError(`Invalid trusted proxy: ${entry}`, "INVALID_TRUSTED_PROXY", 400);
+      }
+    }
+  }
+
+  // エントリの値を検証し、正規化した値を返す
+  private validateWhitelistEntry(type: WhitelistEntryType, value: string, mode: WhitelistMode): string {
+    if (!["allow", "deny"].includes(mode)) {
+      throw new APIError(`Invalid whitelist mode: ${mode}`, "INVALID_WHITELIST_ENTRY", 400);
+    }
+
+    const normalized = typeof value === "string" ? value.trim() : "";
+    switch (type) {
+      case "xuid":
+        if (!/^\d+$/.test(normalized)) {
+          throw new APIError(`Invalid XUID: ${value}`, "INVALID_WHITELIST_ENTRY", 400);
+        }
+        break;
+      case "name":
+        if (normalized.length === 0 || normalized.length > 32) {
+          throw new APIError(`Invalid player name: ${value}`, "INVALID_WHITELIST_ENTRY", 400);
+        }
+        break;
+      case "ip":
+        if (!isValidIpOrCidr(normalized)) {
+          throw new APIError(`Invalid IP address or CIDR: ${value}`, "INVALID_WHITELIST_ENTRY", 400);
+        }
+        break;
+      default:
+        throw new APIError(`Invalid whitelist entry type: ${type}`, "INVALID_WHITELIST_ENTRY", 400);
+    }
+    return normalized;
+  }
+
+  private validateMaintenance(message?: string, window?: MaintenanceWindow | null): void {
+    if (message !== undefined && (typeof message !== "string" || message.length > 256)) {
+      throw new APIError("maintenanceMessage must be a string of at most 256 characters", "INVALID_MAINTENANCE", 400);
+    }
+    if (!window) return;
+
+    const startsAt = Date.parse(window.startsAt);
+    if (Number.isNaN(startsAt)) {
+      throw new APIError(`Invalid maintenance start: ${window.startsAt}`, "INVALID_MAINTENANCE", 400);
+    }
+    if (window.endsAt !== undefined) {
+      const endsAt = Date.parse(window.endsAt);
+      if (Number.isNaN(endsAt) || endsAt <= startsAt) {
+        throw new APIError("Maintenance end must be after its start", "INVALID_MAINTENANCE", 400);
+      }
+    }
+  }
+
+  private validateOutboundProxyProtocol(format?: ProxyProtocolFormat, emission?: ProxyProtocolEmission): void {
+    if (format !== undefined && !["none", "v1", "v2"].includes(format)) {
+      throw new APIError(`Invalid outbound Proxy Protocol format: ${format}`, "INVALID_PROXY_PROTOCOL", 400);
+    }
+    if (emission !== undefined && !["never", "first-packet", "every-packet", "preamble"].includes(emission)) {
+      throw new APIError(`Invalid Proxy Protocol emission mode: ${emission}`, "INVALID_PROXY_PROTOCOL", 400);
+    }
+  }
+
+  private validateChallengeSettings(mode?: ChallengeMode, threshold?: number): void {
+    if (mode !== undefined && !["off", "auto", "always"].includes(mode)) {
+      throw new APIError(`Invalid challenge mode: ${mode}`, "INVALID_CHALLENGE_MODE", 400);
+    }
+    if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 1)) {
+      throw new APIError("challengeThreshold must be a positive integer", "INVALID_CHALLENGE_MODE", 400);
+    }
+  }
+
   private isValidAddress(address: string): boolean {
-    const regex = /^[\w.-]+:\d+$/;
-    return regex.test(address);
+    return isValidHostPort(address);
   }
 }
\ No newline at end of file
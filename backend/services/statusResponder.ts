@@ -0,0 +1,285 @@
+import { createSocket, Socket } from "dgram";
+import { randomBytes } from "crypto";
+import { logger } from "./logger.js";
+import { socketTypeFor } from "./address.js";
+import type { ServerStatus } from "../types/index.js";
+import {
+  buildUnconnectedPing,
+  buildUnconnectedPong,
+  parseRakNetOfflineMessage,
+  type UnconnectedPing
+} from "./raknetParser.js";
+
+/**
+ * プロキシ側で Unconnected Ping に応答するためのステータスキャッシュ
+ * 転送先の Pong をキャッシュし、Server レコードの情報で MOTD を書き換えて返す
+ * 転送先が停止中・起動中でもキャッシュまたは合成した Pong を返せる
+ */
+
+// Bedrock の MOTD 文字列（"MCPE;..." をセミコロン区切りで解析したもの）
+export interface BedrockMotd {
+  edition: string;
+  motd: string; // 1行目（サーバー名）
+  protocolVersion: number;
+  gameVersion: string;
+  playersOnline: number;
+  maxPlayers: number;
+  serverGuid: string;
+  subMotd: string; // 2行目（ワールド名）
+  gameMode: string;
+  gameModeNumeric: number;
+  portV4: number;
+  portV6: number;
+}
+
+// Server レコードから提供されるステータス情報
+export interface ProxyStatusInfo {
+  name: string;
+  description?: string;
+  playersOnline: number;
+  maxPlayers: number;
+  status: ServerStatus;
+  maintenance?: boolean;
+}
+
+export interface CachedStatus {
+  motd: BedrockMotd;
+  serverGuid: bigint;
+  receivedAt: number;
+}
+
+export interface StatusResponderOptions {
+  targetHost: string;
+  targetPort: number;
+  listenPort: number;
+  refreshInterval?: number; // 転送先への問い合わせ間隔（ミリ秒）
+  freshTtl?: number; // この時間内のキャッシュは転送先が応答中とみなす（ミリ秒）
+  maxAge?: number; // この時間を過ぎたキャッシュは使わず、転送先を停止中とみなす（ミリ秒）
+}
+
+// 転送先の情報が一度も取得できていない場合に使う既定値
+const DEFAULT_PROTOCOL_VERSION = 766;
+const DEFAULT_GAME_VERSION = '1.21.50';
+
+/**
+ * "MCPE;..." 形式の MOTD 文字列を解析
+ */
+export function parseBedrockMotd(raw: string): BedrockMotd | null {
+  const parts = raw.split(';');
+  if (parts.length < 6) {
+    return null;
+  }
+
+  const toInt = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value ?? '');
+    return Number.isNaN(parsed) ? fallback : parsed;
+  };
+
+  return {
+    edition: parts[0] || 'MCPE',
+    motd: parts[1] ?? '',
+    protocolVersion: toInt(parts[2], 0),
+    gameVersion: parts[3] ?? '',
+    playersOnline: toInt(parts[4], 0),
+    maxPlayers: toInt(parts[5], 0),
+    serverGuid: parts[6] ?? '',
+    subMotd: parts[7] ?? '',
+    gameMode: parts[8] ?? 'Survival',
+    gameModeNumeric: toInt(parts[9], 1),
+    portV4: toInt(parts[10], 0),
+    portV6: toInt(parts[11], 0)
+  };
+}
+
+/**
+ * MOTD を "MCPE;..." 形式の文字列に変換
+ */
+export function formatBedrockMotd(motd: BedrockMotd): string {
+  const sanitize = (value: string) => value.replace(/[;\r\n]/g, ' ');
+  return [
+    motd.edition,
+    sanitize(motd.motd),
+    motd.protocolVersion,
+    sanitize(motd.gameVersion),
+    motd.playersOnline,
+    motd.maxPlayers,
+    motd.serverGuid,
+    sanitize(motd.subMotd),
+    sanitize(motd.gameMode),
+    motd.gameModeNumeric,
+    motd.portV4,
+    motd.portV6,
+    ''
+  ].join(';');
+}
+
+export class StatusResponder {
+  private socket: Socket;
+  private options: Required<StatusResponderOptions>;
+  private cache: CachedStatus | null = null;
+  private lastRefresh = 0;
+  private readonly proxyGuid = randomBytes(8).readBigUInt64BE();
+  private closed = false;
+
+  constructor(options: StatusResponderOptions) {
+    this.options = {
+      refreshInterval: 5000,
+      freshTtl: 15000,
+      maxAge: 60000,
+      ...options
+    };
+
+    this.socket = createSocket(socketTypeFor(this.options.targetHost));
+    this.socket.on('message', (data, rinfo) => {
+      this.handleTargetResponse(data, rinfo);
+    });
+    this.socket.on('error', (error) => {
+      logger.warn('udp-proxy', 'Status socket error', {
+        error: error?.message || String(error) || 'unknown error'
+      });
+    });
+  }
+
+  // 転送先からの Pong をキャッシュ
+  private handleTargetResponse(data: Buffer, rinfo: { address: string; port: number }): void {
+    // 専用ソケットなので送信元ポートのみ確認（ホスト名指定時はアドレスが一致しないため）
+    if (rinfo.port !== this.options.targetPort) {
+      return;
+    }
+
+    const message = parseRakNetOfflineMessage(data);
+    if (message?.type !== 'UNCONNECTED_PONG') return;
+
+    const motd = parseBedrockMotd(message.motd);
+    if (!motd) {
+      logger.debug('udp-proxy', 'Ignoring malformed MOTD from target', { motd: message.motd });
+      return;
+    }
+
+    const wasFresh = this.isTargetResponding();
+    this.cache = { motd, serverGuid: message.serverGuid, receivedAt: Date.now() };
+
+    if (!wasFresh) {
+      logger.info('udp-proxy', 'Target status cached', {
+        target: `${this.options.targetHost}:${this.options.targetPort}`,
+        version: motd.gameVersion,
+        players: `${motd.playersOnline}/${motd.maxPlayers}`
+      });
+    }
+  }
+
+  // 転送先に Unconnected Ping を送信してキャッシュを更新（間隔内の再送は抑制）
+  public refresh(force: boolean = false): void {
+    if (this.closed) return;
+
+    const now = Date.now();
+    if (!force && now - this.lastRefresh < this.options.refreshInterval) return;
+    this.lastRefresh = now;
+
+    const ping = buildUnconnectedPing(BigInt(now), this.proxyGuid);
+    this.socket.send(ping, this.options.targetPort, this.options.targetHost, (error) => {
+      if (error) {
+        logger.debug('udp-proxy', 'Failed to send status ping to target', {
+          error: error?.message || String(error) || 'unknown error'
+        });
+      }
+    });
+  }
+
+  // 直近のキャッシュが有効期限内か（転送先が応答しているか）
+  public isTargetResponding(): boolean {
+    return !!this.cache && Date.now() - this.cache.receivedAt < this.options.freshTtl;
+  }
+
+  public getCachedStatus(): CachedStatus | null {
+    return this.cache;
+  }
+
+  // 有効期限内のキャッシュ（転送先の停止が続いている場合は null）
+  private getUsableCache(): CachedStatus | null {
+    if (this.cache && Date.now() - this.cache.receivedAt >= this.options.maxAge) {
+      return null;
+    }
+    return this.cache;
+  }
+
+  /**
+   * クライアントの Ping に対する Pong を生成
+   * @param ping クライアントから受信した Ping
+   * @param info Server レコードのステータス情報
+   */
+  public buildPong(ping: UnconnectedPing, info: ProxyStatusInfo): Buffer {
+    // 応答のたびにキャッシュの鮮度を保つ
+    this.refresh();
+
+    const cache = this.getUsableCache();
+    const motd = this.composeMotd(info, cache);
+    const serverGuid = cache?.serverGuid ?? this.proxyGuid;
+    motd.serverGuid = serverGuid.toString();
+
+    return buildUnconnectedPong(ping.time, serverGuid, formatBedrockMotd(motd));
+  }
+
+  /**
+   * 転送先の MOTD をそのまま使った Pong を生成（有効なキャッシュがなければ null）
+   * 接続チャレンジ中など、Ping を転送先へ中継せずに応答する場合に使用
+   */
+  public buildCachedPong(ping: UnconnectedPing): Buffer | null {
+    this.refresh();
+    const cache = this.getUsableCache();
+    if (!cache) return null;
+    return buildUnconnectedPong(ping.time, cache.serverGuid, formatBedrockMotd(cache.motd));
+  }
+
+  // Server レコードとキャッシュから MOTD を組み立てる
+  private composeMotd(info: ProxyStatusInfo, cache: CachedStatus | null): BedrockMotd {
+    const base: BedrockMotd = cache
+      ? { ...cache.motd }
+      : {
+          edition: 'MCPE',
+          motd: '',
+          protocolVersion: DEFAULT_PROTOCOL_VERSION,
+          gameVersion: DEFAULT_GAME_VERSION,
+          playersOnline: 0,
+          maxPlayers: 0,
+          serverGuid: '',
+          subMotd: '',
+          gameMode: 'Survival',
+          gameModeNumeric: 1,
+          portV4: 0,
+          portV6: 0
+        };
+
+    base.motd = info.name;
+    base.subMotd = info.description || base.subMotd || info.name;
+    base.playersOnline = info.playersOnline;
+    base.maxPlayers = info.maxPlayers;
+    base.portV4 = this.options.listenPort;
+    base.portV6 = this.options.listenPort;
+
+    // 転送先が応答していない場合は状態をサブMOTDで知らせる
+    if (info.status === 'starting') {
+      base.subMotd = '§eServer is starting...';
+      base.playersOnline = 0;
+    } else if (!cache) {
+      base.subMotd = '§cServer is offline';
+      base.playersOnline = 0;
+    }
+
+    // メンテナンス中は転送先の状態に関わらずメンテナンス中と表示する
+    if (info.maintenance) {
+      base.subMotd = '§6Under maintenance';
+    }
+
+    return base;
+  }
+
+  public close(): void {
+    this.closed = true;
+    try {
+      this.socket.close();
+    } catch (e) {
+      // ソケットが既に閉じている場合のエラーを無視
+    }
+  }
+}
@@ -1,38 +1,110 @@
 import { createSocket, Socket } from "dgram";
+import { randomBytes } from "crypto";
+import { isIP } from "net";
 import { logger } from "./logger.js";
-import type { PlayerPacket, PlayerAction, NetworkStats, ClientNetworkStats } from "../types/index.js";
+import type { PlayerPacket, PlayerAction, NetworkStats, ClientNetworkStats, ConnectionStage, LoadBalancingStrategy, RateLimitSettings, ChallengeMode, ChallengeStats, ProxyProtocolFormat, ProxyProtocolEmission, WhitelistEntryType, WhitelistMode } from "../types/index.js";
 import {
   isProxyProtocolV2,
+  isProxyProtocolV1,
   parseProxyProtocolV2,
   parseProxyProtocolChain,
   stripProxyProtocolV2Header,
   generateProxyProtocolV2Header,
+  generateProxyProtocolV1Header,
   type ProxyProtocolV2Header,
-  type ProxyProtocolChain
+  type ProxyProtocolChain,
+  verifyProxyProtocolChecksum,
+  type ProxyProtocolTLVs,
+  type ProxyProtocolTLVOptions
 } from "./proxyProtocolParser.js";
+import {
+  classifyRakNetPacket,
+  isOfflineMessage,
+  parseRakNetOfflineMessage,
+  buildOpenConnectionReply1,
+  buildRakNetFrameSet,
+  parseRakNetFrameSet,
+  parseRakNetAck,
+  stripRequest2Security,
+  RAKNET_PACKET_IDS,
+  type UnconnectedPing
+} from "./raknetParser.js";
+import { StatusResponder, type ProxyStatusInfo } from "./statusResponder.js";
+import type { CaptureDirection, CapturedPacket } from "./packetCapture.js";
+import { parseIpRange, ipInRange, type IpRange } from "./ipFilter.js";
+import { BackendPool, type Backend, type BackendConfig } from "./backendPool.js";
+import { RateLimiter, DEFAULT_RATE_LIMITS } from "./rateLimiter.js";
+import { HandshakeChallenge } from "./handshakeChallenge.js";
+import { socketTypeFor, unmapIPv4, type SocketType } from "./address.js";
+import { BedrockLoginDecoder, buildDisconnectPacket, type BedrockLoginInfo } from "./bedrockLoginParser.js";
+
+// 待ち受けるアドレスファミリー（dualはIPv6ソケットでIPv4も受け付ける）
+export type ListenFamily = 'ipv4' | 'ipv6' | 'dual';
 
 export interface UDPProxyConfig {
   listenPort: number;
+  listenFamily?: ListenFamily; // デフォルト: ipv4
   targetHost: string;
   targetPort: number;
   timeout: number;
-  proxyProtocolV2Enabled?: boolean; // Proxy Protocol v2サポートを有効化
+  proxyProtocolV2Enabled?: boolean; // Proxy Protocolサポートを有効化（受信時は v1・v2 を自動判別）
+  outboundProxyProtocol?: ProxyProtocolFormat; // 転送時に付加するヘッダーの形式（デフォルト: v2）
+  proxyProtocolEmission?: ProxyProtocolEmission; // 転送時にヘッダーを付けるタイミング（デフォルト: every-packet）
+  proxyProtocolTlvsEnabled?: boolean; // 転送時のヘッダーにセッションIDとリスナー名のTLVを付加（デフォルト: true）
+  listenerName?: string; // AUTHORITY TLVで転送先に伝えるリスナー名
+  trustedProxies?: string[]; // Proxy Protocolヘッダーを受け付ける上流（IP/CIDR、空なら全ての送信元）
+  proxyProtocolStrict?: boolean; // 不正・信頼できないヘッダー付きのパケットを破棄
+  proxyProtocolChecksum?: boolean; // CRC32C TLVのないヘッダー・一致しないヘッダーを不正とみなす
   maxConnections?: number; // 最大接続数制限(デフォルト: 1000)
-  rateLimit?: number; // クライアントごとの秒間パケット数制限(デフォルト: 100)
+  rateLimits?: RateLimitSettings; // 真のクライアントIPごと・全体のレート制限と自動バン
+  challengeMode?: ChallengeMode; // 新規送信元に接続チャレンジを課すか（デフォルト: auto）
+  challengeThreshold?: number; // autoで有効化する秒間の新規送信元数（デフォルト: 100）
   socketReuseEnabled?: boolean; // ソケット再利用を有効化(デフォルト: true)
+  customMotdEnabled?: boolean; // Unconnected Pingにプロキシ側でMOTDを書き換えて応答
+  maintenance?: boolean; // メンテナンス中（MOTDで知らせ、許可エントリ以外のログインを拒否）
+  maintenanceMessage?: string; // メンテナンス中にログインを拒否する際の切断メッセージ
+  fallbackHost?: string; // プライマリ停止時の転送先ホスト（forwardAddress）
+  fallbackPort?: number; // プライマリ停止時の転送先ポート
+  backends?: BackendConfig[]; // 追加の転送先（targetHost/targetPortと合わせて負荷分散）
+  loadBalancing?: LoadBalancingStrategy; // 負荷分散の戦略（デフォルト: round-robin）
+}
+
+// 接続チャレンジ（アンダーアタックモード）の切り替え
+export interface ProxyUnderAttackEvent {
+  active: boolean;
+  newSourcesPerSecond: number;
+}
+
+// フェイルオーバー状態の変化
+export interface ProxyFailoverEvent {
+  active: 'primary' | 'fallback'; // 新規セッションの転送先
+  primary: string;
+  fallback: string;
 }
 
 export interface ProxyConnection {
   clientAddress: string;
   clientPort: number;
   targetSocket: Socket;
+  targetHost: string; // このセッションの転送先（作成時に決定）
+  targetPort: number;
   lastActivity: number; // Date型からnumber型(timestamp)に変更してメモリ効率化
   hasLoggedSuccess?: boolean;
   hasLoggedResponseSuccess?: boolean;
   realClientAddress?: string; // Proxy Protocol v2で解析された真のクライアントIP
   realClientPort?: number; // Proxy Protocol v2で解析された真のクライアントポート
-  packetCount?: number; // レート制限用のパケット数カウンター
-  lastReset?: number; // レート制限リセット時刻
+  proxyTlvs?: ProxyProtocolTLVs; // 上流のProxy Protocol v2ヘッダーに含まれていたTLV
+  uniqueId: Buffer; // 転送時にUNIQUE_ID TLVで付加するセッションID
+  proxyHeaderSent?: boolean; // first-packet・preamble でヘッダーを送信済みか
+  stage: ConnectionStage; // RakNetハンドシェイクの段階
+  guid?: bigint; // Open Connection Request 2 のクライアントGUID（NAT再マッピング時のセッション照合に使用）
+  loginDecoder?: BedrockLoginDecoder; // Login パケットの解析状態（取得後・打ち切り後は解析しない）
+  player?: BedrockLoginInfo; // Login パケットから取得したプレイヤー情報
+  clientSequence?: number; // クライアント→転送先の Frame Set の最新の番号
+  targetSequence?: number; // 転送先→クライアントの Frame Set の最新の番号
+  mtu?: number; // Open Connection で合意されたMTU
+  disconnectSequence?: number; // クライアントが切断通知を送った Frame Set の番号
+  backendDisconnected?: boolean; // 転送先が切断通知を受け取った（ACKを返した）
   
   // ネットワーク統計用フィールド
   bytesSent: number;
@@ -49,16 +121,70 @@ export interface ProxyConnection {
 export class UDPProxy {
   private server: Socket;
   private connections = new Map<string, ProxyConnection>();
-  private realClientInfo = new Map<string, { address: string; port: number }>(); // clientAddressごとの真のIP情報
+  private sessionsByGuid = new Map<bigint, ProxyConnection>(); // クライアントGUID -> 接続（アドレスが変わっても同じセッションとして扱う）
+  private realClientInfo = new Map<string, { address: string; port: number; tlvs?: ProxyProtocolTLVs }>(); // clientAddressごとの真のIP情報
   private config: UDPProxyConfig;
   private isRunning = false;
   private cleanupInterval: NodeJS.Timeout | null = null;
-  private sharedSocket: Socket | null = null; // 再利用される共有ソケット
-  private socketPool: Socket[] = []; // ソケットプール(高負荷時用)
-  private poolIndex = 0; // ラウンドロビン用インデックス
+  // 上流ソケットは常に1セッションが専有する（送信元ポートでセッションを識別するため）
+  // socketReuseEnabled時は解放されたソケットをidleSocketsに戻して再利用する
+  private socketOwners = new Map<Socket, ProxyConnection>(); // 上流ソケット -> 使用中の接続
+  private idleSockets: Record<SocketType, Socket[]> = { udp4: [], udp6: [] }; // 再利用待ちの上流ソケット（種別ごと）
+  private socketTypes = new WeakMap<Socket, SocketType>();
   private readonly DEFAULT_MAX_CONNECTIONS = 1000;
-  private readonly DEFAULT_RATE_LIMIT = 100; // 秒間パケット数
-  private readonly SOCKET_POOL_SIZE = 10; // ソケットプールのサイズ
+  private readonly SOCKET_POOL_SIZE = 10; // 待機させておく再利用ソケットの最大数
+  private readonly KICK_COOLDOWN = 10000; // キック後に同じ送信元からの再接続を拒否する時間(ミリ秒)
+  private readonly REBIND_MIN_IDLE = 3000; // GUIDで引き継ぐ前に元のアドレスが無通信であるべき時間(ミリ秒)
+  private readonly REBIND_FRAME_MIN_IDLE = 1000; // Frame Setで引き継ぐ前に元のアドレスが無通信であるべき時間(ミリ秒)
+  private readonly REBIND_SEQUENCE_WINDOW = 1024; // Frame Setで引き継ぐ際に続きの番号とみなす範囲
+  private readonly DEFAULT_CHALLENGE_THRESHOLD = 100; // 秒間の新規送信元数
+  private readonly UNDER_ATTACK_COOLDOWN = 60000; // 新規送信元が閾値を下回ってから解除するまでの時間(ミリ秒)
+  private readonly MAX_MTU = 1492;
+
+  // キックされたセッション（"address:port" -> 拒否期限）
+  private kickedClients = new Map<string, number>();
+
+  // 転送先プール（targetHost/targetPort + backends）とフェイルオーバー状態
+  // ヘルスチェックは複数の転送先がある場合、またはfallback設定時のみ実行
+  private backendPool: BackendPool;
+  private healthChecksRunning = false;
+  private failoverActive = false;
+  private draining = false; // 再起動前のドレイン中（新規セッションを作成しない）
+  private redirectActive = false; // 新規セッションをフォールバック先へ転送する（ドレイン再起動中）
+
+  // レート制限（トークンバケット）
+  private rateLimiter: RateLimiter;
+
+  // 接続チャレンジ（新規送信元はcookieを返すまでセッションを割り当てない）
+  private challenge = new HandshakeChallenge();
+  private underAttack = false;
+  private underAttackCalmSince: number | null = null;
+  private newSourceCount = 0; // 統計タイマーの間隔（1秒）ごとにリセット
+  private newSourcesPerSecond = 0;
+  private challengesIssued = 0;
+  private challengesPassed = 0;
+  private challengeDrops = 0;
+
+  // Proxy Protocolヘッダーを受け付ける上流（空なら全ての送信元）
+  private trustedProxyRanges: IpRange[] = [];
+  private proxyHeaderRejections = 0;
+  private securityLogTimes = new Map<string, number>(); // 送信元IP -> 最後に拒否を記録した時刻
+  private readonly SECURITY_LOG_INTERVAL = 60000; // 同じ送信元の拒否を記録する間隔(ミリ秒)
+
+  // バンリスト（IP/CIDR）
+  private banRules: Array<{ target: string; range: IpRange; expiresAt?: number }> = [];
+
+  // 許可リスト・拒否リスト（XUID・ゲーマータグ・IP/CIDR）
+  // 拒否は常に適用し、許可は whitelistEnabled の場合のみ適用する
+  private whitelistRules: Array<{ type: WhitelistEntryType; mode: WhitelistMode; value: string; range?: IpRange }> = [];
+  private whitelistEnabled = false;
+  private readonly WHITELIST_DISCONNECT_MESSAGE = 'You are not invited to this server.';
+  private readonly MAINTENANCE_DISCONNECT_MESSAGE = 'Server is under maintenance. Please try again later.';
+  private readonly KICK_DISCONNECT_MESSAGE = 'You have been kicked from the server.';
+  private readonly BAN_DISCONNECT_MESSAGE = 'You are banned from this server.';
+  private readonly RESTART_DISCONNECT_MESSAGE = 'Server is restarting. Please reconnect.';
+  private readonly BACKEND_DOWN_DISCONNECT_MESSAGE = 'Lost connection to the server. Please reconnect.';
+  private readonly STOP_DISCONNECT_MESSAGE = 'Server closed.';
 
   // ネットワーク統計
   private totalBytesSent = 0;
@@ -81,60 +207,55 @@ export class UDPProxy {
   private onPlayerAction?: (packet: PlayerPacket) => void;
   private onConnectionActivity?: (clientIP: string, clientPort: number, data: Buffer) => void;
   private onNetworkStatsUpdate?: (stats: NetworkStats, clientStats: ClientNetworkStats[]) => void;
+  private statusProvider?: () => ProxyStatusInfo;
+  private onFailover?: (event: ProxyFailoverEvent) => void;
+  private onAbuse?: (address: string, durationSeconds: number) => void;
+  private onUnderAttack?: (event: ProxyUnderAttackEvent) => void;
+  private onCapture?: (packet: CapturedPacket) => void; // パケットキャプチャ中のみ設定
+
+  // プロキシ側でのステータス応答（customMotdEnabled時のみ使用）
+  private statusResponder: StatusResponder | null = null;
 
   constructor(config: UDPProxyConfig) {
     this.config = {
       maxConnections: this.DEFAULT_MAX_CONNECTIONS,
-      rateLimit: this.DEFAULT_RATE_LIMIT,
+      rateLimits: DEFAULT_RATE_LIMITS,
+      challengeMode: 'auto',
+      challengeThreshold: this.DEFAULT_CHALLENGE_THRESHOLD,
       socketReuseEnabled: true,
       ...config
     };
-    this.server = createSocket('udp4');
-    // UDPソケットのバッファサイズを増やして高負荷に対応
-    this.server.setRecvBufferSize(1024 * 1024 * 4); // 4MB
-    this.server.setSendBufferSize(1024 * 1024 * 4); // 4MB
+    this.rateLimiter = new RateLimiter(this.config.rateLimits!);
+    this.trustedProxyRanges = this.parseTrustedProxies(this.config.trustedProxies);
+    this.backendPool = this.createBackendPool();
+    this.server = this.createServerSocket();
     this.setupServerEvents();
     this.initializeSocketPool();
   }
 
+  private createServerSocket(): Socket {
+    const family = this.config.listenFamily ?? 'ipv4';
+    if (family === 'ipv4') {
+      return createSocket('udp4');
+    }
+    return createSocket({ type: 'udp6', ipv6Only: family === 'ipv6' });
+  }
+
+  // デュアルスタックのソケットからIPv4クライアントへ送る場合はIPv4-mapped IPv6にする
+  private toServerAddress(address: string): string {
+    if (this.config.listenFamily === 'dual' && isIP(address) === 4) {
+      return `::ffff:${address}`;
+    }
+    return address;
+  }
+
   private initializeSocketPool(): void {
     if (!this.config.socketReuseEnabled) return;
 
-    // 共有ソケットを作成
-    this.sharedSocket = createSocket('udp4');
-    this.sharedSocket.setRecvBufferSize(1024 * 1024 * 2);
-    this.sharedSocket.setSendBufferSize(1024 * 1024 * 2);
-    
-    // 共有ソケットのメッセージハンドラーを設定
-    this.sharedSocket.on('message', (data, rinfo) => {
-      this.handleSharedSocketMessage(data, rinfo);
-    });
-    
-    this.sharedSocket.on('error', (error) => {
-      logger.error('udp-proxy', 'Shared socket error', {
-        error: error?.message || String(error) || 'unknown error'
-      });
-    });
-    
-    // 高負荷用のソケットプールを作成
+    // 再利用用のソケットを事前に作成しておく（プライマリの転送先の種別）
+    const type = socketTypeFor(this.config.targetHost);
     for (let i = 0; i < this.SOCKET_POOL_SIZE; i++) {
-      const socket = createSocket('udp4');
-      socket.setRecvBufferSize(1024 * 1024);
-      socket.setSendBufferSize(1024 * 1024);
-      
-      // プールソケットのメッセージハンドラーを設定
-      socket.on('message', (data, rinfo) => {
-        this.handleSharedSocketMessage(data, rinfo);
-      });
-      
-      socket.on('error', (error) => {
-        logger.error('udp-proxy', 'Pool socket error', {
-          poolIndex: i,
-          error: error?.message || String(error) || 'unknown error'
-        });
-      });
-      
-      this.socketPool.push(socket);
+      this.idleSockets[type].push(this.createTargetSocket(type));
     }
 
     logger.info('udp-proxy', 'Socket pool initialized', {
@@ -142,65 +263,122 @@ export class UDPProxy {
       reuseEnabled: true
     });
   }
-  
-  // 共有ソケット/プールソケットからのメッセージを適切なクライアントに転送
-  private handleSharedSocketMessage(data: Buffer, rinfo: { address: string; port: number }): void {
+
+  // 上流用ソケットを作成（イベントリスナーはソケットごとに一度だけ設定）
+  private createTargetSocket(type: SocketType): Socket {
+    const socket = createSocket(type);
+    this.socketTypes.set(socket, type);
+
+    socket.on('message', (data, rinfo) => {
+      this.handleTargetSocketMessage(socket, data, rinfo);
+    });
+
+    socket.on('error', (error) => {
+      const owner = this.socketOwners.get(socket);
+      logger.error('udp-proxy', 'Target socket error', {
+        client: owner ? `${owner.clientAddress}:${owner.clientPort}` : undefined,
+        error: error?.message || String(error) || 'unknown error'
+      });
+    });
+
+    return socket;
+  }
+
+  // 接続専用の上流ソケットを取得（再利用可能なソケットがあれば優先）
+  private acquireTargetSocket(host: string): Socket {
+    const type = socketTypeFor(host);
+    if (this.config.socketReuseEnabled) {
+      const socket = this.idleSockets[type].pop();
+      if (socket) return socket;
+    }
+    return this.createTargetSocket(type);
+  }
+
+  // 接続が使っていた上流ソケットを解放（再利用が有効ならプールに戻す）
+  // 転送先のRakNetセッションが残っているソケットは、次の接続が引き継がないよう閉じる
+  private releaseTargetSocket(connection: ProxyConnection): void {
+    const socket = connection.targetSocket;
+    if (this.socketOwners.get(socket) === connection) {
+      this.socketOwners.delete(socket);
+      this.backendPool.release(`${connection.targetHost}:${connection.targetPort}`);
+    }
+
+    const idle = this.idleSockets[this.socketTypes.get(socket) ?? 'udp4'];
+    const sessionClosed = connection.stage === 'pinging' || connection.backendDisconnected === true;
+    if (this.config.socketReuseEnabled && this.isRunning && sessionClosed && idle.length < this.SOCKET_POOL_SIZE) {
+      idle.push(socket);
+      return;
+    }
+
+    try {
+      socket.close();
+    } catch (e) {
+      // ソケットが既に閉じている場合のエラーを無視
+    }
+  }
+
+  // 上流ソケットで受信した応答を、そのソケットを専有している接続のクライアントに転送
+  private handleTargetSocketMessage(socket: Socket, data: Buffer, rinfo: { address: string; port: number }): void {
     if (!this.server) return;
-    
-    // どのクライアントへの返信かを特定する必要がある
-    // サーバーからの応答はターゲットサーバーから来るため、
-    // 全接続をチェックして該当するものを見つける
-    for (const [connectionKey, connection] of this.connections) {
-      // 共有ソケットまたはプールソケットを使用している接続のみ対象
-      const isShared = connection.targetSocket === this.sharedSocket ||
-                       this.socketPool.includes(connection.targetSocket);
-      
-      if (isShared && rinfo.address === this.config.targetHost && rinfo.port === this.config.targetPort) {
-        // 最後にアクティビティがあった接続に送信（最新のものを優先）
-        const timeSinceActivity = Date.now() - connection.lastActivity;
-        
-        // 最近アクティブだった接続（2秒以内）に送信
-        if (timeSinceActivity < 2000) {
-          this.server.send(data, connection.clientPort, connection.clientAddress, (error) => {
-            if (error) {
-              const errorMsg = error?.message || String(error) || 'unknown error';
-              if (!errorMsg.includes('Socket is closed') && !errorMsg.includes('closed')) {
-                logger.error('udp-proxy', 'Failed to send response to client', {
-                  client: `${connection.clientAddress}:${connection.clientPort}`,
-                  error: errorMsg
-                });
-              }
-            } else {
-              // 統計情報を更新
-              connection.bytesReceived += data.length;
-              connection.packetsReceived++;
-              this.totalBytesReceived += data.length;
-              this.totalPacketsReceived++;
-              
-              // レスポンス転送成功時のログ（最初のレスポンス時のみ）
-              if (!connection.hasLoggedResponseSuccess) {
-                logger.info('udp-proxy', 'Response forwarded to client', {
-                  client: `${connection.clientAddress}:${connection.clientPort}`,
-                  target: `${this.config.targetHost}:${this.config.targetPort}`,
-                  size: data.length
-                });
-                connection.hasLoggedResponseSuccess = true;
-              }
-            }
+
+    const connection = this.socketOwners.get(socket);
+    if (!connection) {
+      // 解放済みソケットに遅れて届いた応答は破棄する
+      logger.debug('udp-proxy', 'Dropping response on unowned socket', {
+        from: `${rinfo.address}:${rinfo.port}`,
+        size: data.length
+      });
+      return;
+    }
+
+    const clientKey = `${connection.clientAddress}:${connection.clientPort}`;
+    if (this.onCapture) {
+      const local = this.getSocketAddress(socket);
+      const listen = this.getSocketAddress(this.server);
+      this.capturePacket('target-to-proxy', clientKey, rinfo.address, rinfo.port, local.address, local.port, data);
+      this.capturePacket('proxy-to-client', clientKey, listen.address, listen.port, connection.clientAddress, connection.clientPort, data);
+    }
+    this.trackTargetPacket(connection, data);
+    this.server.send(data, connection.clientPort, this.toServerAddress(connection.clientAddress), (error) => {
+      if (error) {
+        const errorMsg = error?.message || String(error) || 'unknown error';
+        if (errorMsg.includes('Socket is closed') || errorMsg.includes('closed')) {
+          logger.debug('udp-proxy', 'Failed to send response to client (socket closed)', {
+            client: clientKey,
+            error: errorMsg
+          });
+        } else {
+          logger.error('udp-proxy', 'Failed to send response to client', {
+            client: clientKey,
+            error: errorMsg
           });
-          
-          // 最初に見つかった最近アクティブな接続に送信して終了
-          return;
         }
+        return;
       }
-    }
+
+      // 統計情報を更新
+      connection.bytesReceived += data.length;
+      connection.packetsReceived++;
+      this.totalBytesReceived += data.length;
+      this.totalPacketsReceived++;
+
+      // レスポンス転送成功時のログ（最初のレスポンス時のみ）
+      if (!connection.hasLoggedResponseSuccess) {
+        logger.info('udp-proxy', 'Response forwarded to client', {
+          client: clientKey,
+          target: `${rinfo.address}:${rinfo.port}`,
+          size: data.length
+        });
+        connection.hasLoggedResponseSuccess = true;
+      }
+    });
   }
 
   private setupServerEvents(): void {
     this.server.on('message', (data, rinfo) => {
       // 非同期処理で即座にリターンし、次のパケットを受信可能にする
       setImmediate(() => {
-        this.handleClientMessage(data, rinfo.address, rinfo.port);
+        this.handleClientMessage(data, unmapIPv4(rinfo.address), rinfo.port);
       });
     });
 
@@ -217,252 +395,1150 @@ export class UDPProxy {
         port: address?.port,
         target: `${this.config.targetHost}:${this.config.targetPort}`,
         maxConnections: this.config.maxConnections,
-        rateLimit: this.config.rateLimit
+        rateLimits: this.config.rateLimits
       });
     });
   }
 
-  private handleClientMessage(data: Buffer, clientAddress: string, clientPort: number): void {
-    const connectionKey = `${clientAddress}:${clientPort}`;
+  private handleClientMessage(data: Buffer, clientAddress: string, clientPort: number): void {
+    const connectionKey = `${clientAddress}:${clientPort}`;
+
+    if (this.onCapture) {
+      const listen = this.getSocketAddress(this.server);
+      this.capturePacket('client-to-proxy', connectionKey, clientAddress, clientPort, listen.address, listen.port, data);
+    }
+
+    // Proxy Protocol v2の解析（有効な場合）
+    let proxyChain: ProxyProtocolChain | null = null;
+    let actualData = data;
+    let realClientAddress = clientAddress;
+    let realClientPort = clientPort;
+    let realClientTlvs: ProxyProtocolTLVs | undefined;
+
+    if (this.config.proxyProtocolV2Enabled && (isProxyProtocolV2(data) || isProxyProtocolV1(data))) {
+      // 多段Proxy Protocolを解析（v1・v2 を自動判別）
+      proxyChain = parseProxyProtocolChain(data);
+
+      // 信頼できない送信元・不正なヘッダーの真のIPは使わない
+      const rejection = this.checkProxyHeader(clientAddress, proxyChain);
+      if (rejection) {
+        this.recordProxyHeaderRejection(rejection, clientAddress, clientPort);
+        if (this.config.proxyProtocolStrict) return;
+        // strictでなければヘッダーを取り除き、送信元アドレスのまま扱う
+        actualData = proxyChain ? proxyChain.payload : data;
+        proxyChain = null;
+      }
+      
+      if (proxyChain) {
+        // 最も元のクライアント情報を使用
+        realClientAddress = proxyChain.originalClientIP;
+        realClientPort = proxyChain.originalClientPort;
+        const firstHeader = proxyChain.headers[0];
+        realClientTlvs = firstHeader.version === 2 ? firstHeader.tlvs : undefined;
+        actualData = proxyChain.payload;
+
+        // ペイロードが空の場合は接続情報を保存するだけで、接続は作成しない
+        if (actualData.length === 0) {
+          // clientAddressごとに真のIP情報を保存
+          this.realClientInfo.set(clientAddress, {
+            address: realClientAddress,
+            port: realClientPort,
+            tlvs: realClientTlvs
+          });
+          
+          logger.debug('udp-proxy', 'Proxy Protocol header-only packet, real client info saved', {
+            clientAddress,
+            realClient: `${realClientAddress}:${realClientPort}`
+          });
+          return; // 空ペイロードは転送しない
+        }
+      }
+    }
+
+    // ペイロードが空の場合は接続情報更新のみ(転送しない)
+    if (actualData.length === 0) {
+      return;
+    }
+
+    // Proxy Protocol v2で真のIPが検出されていない場合、
+    // realClientInfoマップから情報を取得（バン・拒否リスト・レート制限も真のIPで判定する）
+    if (realClientAddress === clientAddress && realClientPort === clientPort) {
+      const savedInfo = this.realClientInfo.get(clientAddress);
+      if (savedInfo) {
+        realClientAddress = savedInfo.address;
+        realClientPort = savedInfo.port;
+        realClientTlvs = savedInfo.tlvs;
+        if (!this.connections.has(connectionKey)) {
+          logger.debug('udp-proxy', 'Using saved real client info', {
+            client: connectionKey,
+            realClient: `${realClientAddress}:${realClientPort}`
+          });
+        }
+      }
+    }
+
+    // バン対象からの新規セッションは作成しない（既存セッションはバン時に切断済み）
+    if (!this.connections.has(connectionKey) && this.isBanned(clientAddress, realClientAddress)) {
+      logger.debug('udp-proxy', 'Packet from banned client dropped', {
+        client: connectionKey,
+        realClient: `${realClientAddress}:${realClientPort}`
+      });
+      return;
+    }
+
+    // 拒否リストのIPからの新規セッションも転送先に届く前に破棄する
+    if (!this.connections.has(connectionKey) && this.checkAccess(realClientAddress) === 'denied') {
+      logger.debug('udp-proxy', 'Packet from denied client dropped', {
+        client: connectionKey,
+        realClient: `${realClientAddress}:${realClientPort}`
+      });
+      return;
+    }
+
+    // レート制限（Pingへの応答・セッション作成の前に判定し、フラッドで資源を消費しない）
+    if (!this.checkRateLimit(connectionKey, clientAddress, realClientAddress, actualData.length)) {
+      return;
+    }
+
+    // Unconnected Pingはプロキシが応答し、転送先への接続は作成しない（メンテナンス中も同様）
+    if ((this.config.customMotdEnabled || this.config.maintenance) && this.statusProvider && this.respondToStatusPing(actualData, clientAddress, clientPort)) {
+      return;
+    }
+
+    // NATの再マッピングで送信元が変わったクライアントの Frame Set は、同じIPのセッションへ引き継ぐ
+    // （ハンドシェイク済みのセッションなので、新規送信元として数えずチャレンジも課さない）
+    if (!this.connections.has(connectionKey) && classifyRakNetPacket(actualData) === 'frameSet') {
+      const rebind = this.rebindSessionByFrameSet(actualData, clientAddress, clientPort, realClientAddress, realClientPort);
+      if (rebind === 'wait') return;
+    }
+
+    // 新規送信元は数えておき、チャレンジ中はcookieを返すまでセッションを割り当てない
+    if (!this.connections.has(connectionKey)) {
+      this.newSourceCount++;
+      if (this.isChallengeActive()) {
+        const verified = this.handleChallenge(actualData, clientAddress, clientPort);
+        if (!verified) return;
+        actualData = verified;
+      }
+    }
+
+    // 接続アクティビティを記録（真のクライアントアドレスを使用）
+    if (this.onConnectionActivity) {
+      this.onConnectionActivity(realClientAddress, realClientPort, actualData);
+    }
+
+    // NATの再マッピングで送信元が変わったクライアントは、GUIDで既存セッションを引き継ぐ
+    this.rebindSessionByGuid(actualData, clientAddress, clientPort, realClientAddress, realClientPort);
+
+    let connection = this.connections.get(connectionKey);
+    const now = Date.now();
+    
+    if (!connection) {
+      // キック直後のセッションからの残りパケットで接続を作り直さない
+      const kickedUntil = this.kickedClients.get(connectionKey);
+      if (kickedUntil !== undefined) {
+        if (now < kickedUntil) return;
+        this.kickedClients.delete(connectionKey);
+      }
+
+      // 同時セッション数の上限（上限を下げても既存セッションは切断せず、新規セッションのみ断る）
+      if (this.connections.size >= this.config.maxConnections!) {
+        logger.debug('udp-proxy', 'Connection limit reached, new session dropped', {
+          client: connectionKey,
+          maxConnections: this.config.maxConnections
+        });
+        return;
+      }
+
+      // ドレイン中は新規セッションを作成しない（フォールバック先へ転送する場合を除く）
+      // サーバー一覧から消えないよう、Pingにはキャッシュしたステータスで応答する
+      if (this.draining && !this.redirectActive) {
+        const message = parseRakNetOfflineMessage(actualData);
+        if (message?.type === 'UNCONNECTED_PING' || message?.type === 'UNCONNECTED_PING_OPEN_CONNECTIONS') {
+          this.respondWithCachedStatus(message, clientAddress, clientPort);
+          return;
+        }
+        logger.debug('udp-proxy', 'Draining, new session dropped', { client: connectionKey });
+        return;
+      }
+
+      // 新しい接続を作成（同じクライアントIPは同じ転送先へ振り分ける）
+      connection = this.createConnection(clientAddress, clientPort, realClientAddress);
+      
+      connection.realClientAddress = realClientAddress;
+      connection.realClientPort = realClientPort;
+      connection.proxyTlvs = realClientTlvs;
+      
+      this.connections.set(connectionKey, connection);
+      this.totalConnectionsCreated++;
+      
+      logger.info('udp-proxy', 'New connection established', {
+        client: connectionKey,
+        realClient: `${realClientAddress}:${realClientPort}`,
+        target: `${connection.targetHost}:${connection.targetPort}`,
+        totalConnections: this.connections.size
+      });
+    }
+
+    // 最終アクティビティ時間を更新
+    connection.lastActivity = now;
+    if (realClientTlvs) {
+      connection.proxyTlvs = realClientTlvs;
+    }
+
+    // RakNetパケットを分類してハンドシェイク段階を記録
+    this.trackClientPacket(connection, actualData);
+
+    // ログインを拒否してセッションを終了した場合は転送しない
+    if (!this.isLiveConnection(connection)) return;
+
+    // メッセージを転送
+    // 真のIPが取得できている場合は設定された形式・タイミングでProxy Protocolヘッダーを付加
+    // （上流プロキシがヘッダーを最初のパケットにしか付けない場合も、セッションの真のIPを使う）
+    let dataToSend = actualData;
+    const proxyHeader = connection.realClientAddress !== undefined && connection.realClientAddress !== clientAddress
+      ? this.takeProxyHeader(connection, connection.realClientAddress, connection.realClientPort ?? clientPort)
+      : null;
+    if (proxyHeader && this.config.proxyProtocolEmission === 'preamble') {
+      // ヘッダーだけのパケットを先に送り、本体はそのまま転送する
+      this.sendProxyPreamble(connection, connectionKey, proxyHeader);
+    } else if (proxyHeader) {
+      dataToSend = Buffer.concat([proxyHeader, actualData]);
+      
+      logger.debug('udp-proxy', 'Added Proxy Protocol header to outgoing packet', {
+        format: this.config.outboundProxyProtocol ?? 'v2',
+        realClient: `${connection.realClientAddress}:${connection.realClientPort}`,
+        headerSize: proxyHeader.length,
+        payloadSize: actualData.length
+      });
+    }
+
+    connection.targetSocket.send(dataToSend, connection.targetPort, connection.targetHost, (error) => {
+      if (error) {
+        const errorMsg = error?.message || String(error) || 'unknown error';
+        if (errorMsg.includes('Socket is closed') || errorMsg.includes('closed')) {
+          logger.debug('udp-proxy', 'Failed to forward message to target (socket closed)', {
+            client: connectionKey,
+            error: errorMsg
+          });
+        } else {
+          logger.error('udp-proxy', 'Failed to forward message to target', {
+            client: connectionKey,
+            error: errorMsg
+          });
+        }
+      } else {
+        // 送信後に記録する（初回の送信で上流ソケットのポートが決まるため）
+        if (this.onCapture) {
+          const local = this.getSocketAddress(connection.targetSocket);
+          this.capturePacket('proxy-to-target', connectionKey, local.address, local.port, connection.targetHost, connection.targetPort, dataToSend);
+        }
+
+        // 統計情報を更新
+        connection.bytesSent += dataToSend.length;
+        connection.packetsSent++;
+        this.totalBytesSent += dataToSend.length;
+        this.totalPacketsSent++;
+        
+        if (!connection.hasLoggedSuccess) {
+          logger.info('udp-proxy', 'Message forwarded successfully', {
+            client: connectionKey,
+            realClient: `${realClientAddress}:${realClientPort}`,
+            target: `${connection.targetHost}:${connection.targetPort}`,
+            size: dataToSend.length
+          });
+          connection.hasLoggedSuccess = true;
+        }
+      }
+    });
+  }
+
+  // 受信したProxy Protocolヘッダーを受け付けられるか（拒否する場合はその理由）
+  private checkProxyHeader(clientAddress: string, chain: ProxyProtocolChain | null): 'untrusted' | 'malformed' | 'checksum' | null {
+    if (this.trustedProxyRanges.length > 0
+      && !this.trustedProxyRanges.some(range => ipInRange(clientAddress, range))) {
+      return 'untrusted';
+    }
+
+    // 解析できないヘッダー・途中で解析が止まったチェーン・壊れたTLVは不正とみなす
+    if (!chain || isProxyProtocolV2(chain.payload) || isProxyProtocolV1(chain.payload)
+      || chain.headers.some(header => header.version === 2 && header.tlvData && !header.tlvs)) {
+      return 'malformed';
+    }
+
+    // v1 ヘッダーにはチェックサムがないため、検証が必須なら拒否する
+    if (this.config.proxyProtocolChecksum
+      && !chain.headers.every(header => header.version === 2 && verifyProxyProtocolChecksum(header))) {
+      return 'checksum';
+    }
+    return null;
+  }
+
+  // ヘッダーの拒否をセキュリティイベントとして記録（同じ送信元は一定間隔ごと）
+  private recordProxyHeaderRejection(reason: 'untrusted' | 'malformed' | 'checksum', clientAddress: string, clientPort: number): void {
+    this.proxyHeaderRejections++;
+
+    const now = Date.now();
+    const lastLogged = this.securityLogTimes.get(clientAddress);
+    if (lastLogged !== undefined && now - lastLogged < this.SECURITY_LOG_INTERVAL) return;
+    this.securityLogTimes.set(clientAddress, now);
+
+    logger.warn('security', 'Proxy Protocol header rejected', {
+      reason,
+      source: `${clientAddress}:${clientPort}`,
+      action: this.config.proxyProtocolStrict ? 'dropped' : 'header ignored',
+      totalRejections: this.proxyHeaderRejections
+    });
+  }
+
+  private parseTrustedProxies(entries?: string[]): IpRange[] {
+    const ranges: IpRange[] = [];
+    for (const entry of entries ?? []) {
+      const range = parseIpRange(entry);
+      if (!range) {
+        logger.warn('udp-proxy', 'Invalid trusted proxy entry ignored', { target: entry });
+        continue;
+      }
+      ranges.push(range);
+    }
+    return ranges;
+  }
+
+  // 転送時に付加するProxy Protocolヘッダー（none の場合は null）
+  private buildProxyHeader(connection: ProxyConnection, realClientAddress: string, realClientPort: number): Buffer | null {
+    switch (this.config.outboundProxyProtocol ?? 'v2') {
+      case 'none':
+        return null;
+      case 'v1':
+        return generateProxyProtocolV1Header(realClientAddress, realClientPort, connection.targetHost, connection.targetPort);
+      default:
+        return generateProxyProtocolV2Header(
+          realClientAddress,
+          realClientPort,
+          connection.targetHost,
+          connection.targetPort,
+          this.getOutgoingTlvs(connection)
+        );
+    }
+  }
+
+  // このパケットに使うProxy Protocolヘッダー（付けない場合は null）
+  // first-packet・preamble はセッションごとに一度だけ返す
+  private takeProxyHeader(connection: ProxyConnection, realClientAddress: string, realClientPort: number): Buffer | null {
+    const emission = this.config.proxyProtocolEmission ?? 'every-packet';
+    if (emission === 'never') return null;
+    if (emission !== 'every-packet' && connection.proxyHeaderSent) return null;
+
+    const header = this.buildProxyHeader(connection, realClientAddress, realClientPort);
+    if (header) {
+      connection.proxyHeaderSent = true;
+    }
+    return header;
+  }
+
+  // ヘッダーだけのパケットを転送先へ送る（同じソケットから本体より先に送信する）
+  private sendProxyPreamble(connection: ProxyConnection, connectionKey: string, header: Buffer): void {
+    connection.targetSocket.send(header, connection.targetPort, connection.targetHost, (error) => {
+      if (error) {
+        logger.debug('udp-proxy', 'Failed to send Proxy Protocol preamble', {
+          client: connectionKey,
+          error: error.message
+        });
+        return;
+      }
+      connection.bytesSent += header.length;
+      connection.packetsSent++;
+      this.totalBytesSent += header.length;
+      this.totalPacketsSent++;
+    });
+
+    logger.debug('udp-proxy', 'Sent Proxy Protocol preamble packet', {
+      client: connectionKey,
+      format: this.config.outboundProxyProtocol ?? 'v2',
+      headerSize: header.length
+    });
+  }
+
+  // 転送時のヘッダーに付けるTLV（上流から受け取ったALPN・独自TLVは引き継ぎ、セッションIDとリスナー名は付け替える）
+  private getOutgoingTlvs(connection: ProxyConnection): ProxyProtocolTLVOptions | undefined {
+    if (this.config.proxyProtocolTlvsEnabled === false) return undefined;
+    return {
+      alpn: connection.proxyTlvs?.alpn,
+      authority: this.config.listenerName,
+      uniqueId: connection.uniqueId,
+      custom: connection.proxyTlvs?.custom
+    };
+  }
+
+  // レート制限を判定（破棄する場合はfalse）
+  // 同じIPの別ポートや、上流プロキシ経由の同じ真のIPはひとつのバケットで数える
+  private checkRateLimit(connectionKey: string, clientAddress: string, realClientAddress: string, size: number): boolean {
+    const address = this.connections.get(connectionKey)?.realClientAddress
+      ?? (realClientAddress !== clientAddress ? realClientAddress : this.realClientInfo.get(clientAddress)?.address)
+      ?? clientAddress;
+
+    const result = this.rateLimiter.check(address, size);
+    if (result === 'allow') return true;
+
+    if (result === 'ban') {
+      const duration = this.config.rateLimits!.autoBanDuration;
+      logger.warn('udp-proxy', 'Repeated rate limit violations, blocking client', {
+        client: connectionKey,
+        address,
+        durationSeconds: duration
+      });
+
+      // 既存セッションも切断し、遮断期間が終わるまで新規セッションを作らせない
+      this.disconnectClient(address, undefined, this.BAN_DISCONNECT_MESSAGE);
+      if (this.onAbuse) {
+        this.onAbuse(address, duration);
+      }
+    }
+    return false;
+  }
+
+  // クライアント→転送先パケットからハンドシェイク段階を更新
+  private trackClientPacket(connection: ProxyConnection, data: Buffer): void {
+    const category = classifyRakNetPacket(data);
+
+    if (category === 'frameSet') {
+      if (data.length >= 4) {
+        connection.clientSequence = Math.max(connection.clientSequence ?? 0, data.readUIntLE(1, 3));
+      }
+      // 通常の退出: 転送先のACKを待ってから上流ソケットを再利用できるようにする
+      const frameSet = parseRakNetFrameSet(data);
+      if (frameSet?.frames.some(frame => frame.body[0] === RAKNET_PACKET_IDS.DISCONNECTION_NOTIFICATION)) {
+        connection.disconnectSequence = frameSet.sequenceNumber;
+      }
+      this.advanceConnectionStage(connection, 'in-game');
+      this.decodeLogin(connection, data);
+      return;
+    }
+    if (category !== 'offline') return;
+
+    const message = parseRakNetOfflineMessage(data);
+    if (!message) return;
+
+    switch (message.type) {
+      case 'UNCONNECTED_PING':
+      case 'UNCONNECTED_PING_OPEN_CONNECTIONS':
+        this.advanceConnectionStage(connection, 'pinging');
+        break;
+      case 'OPEN_CONNECTION_REQUEST_1':
+        this.advanceConnectionStage(connection, 'connecting');
+        break;
+      case 'OPEN_CONNECTION_REQUEST_2':
+        connection.mtu = message.mtu;
+        if (message.clientGuid !== connection.guid) {
+          if (connection.guid !== undefined && this.sessionsByGuid.get(connection.guid) === connection) {
+            this.sessionsByGuid.delete(connection.guid);
+          }
+          connection.guid = message.clientGuid;
+          // 同じGUIDの動作中セッションがあれば、そちらを引き継ぎ先として残す
+          const owner = this.sessionsByGuid.get(message.clientGuid);
+          if (!owner || !this.isLiveConnection(owner)) {
+            this.sessionsByGuid.set(message.clientGuid, connection);
+          }
+        }
+        this.advanceConnectionStage(connection, 'connecting');
+        break;
+    }
+  }
+
+  /**
+   * 新しい送信元から届いた Open Connection Request 2 のGUIDが既存セッションと一致すれば、
+   * そのセッションを新しいアドレスへ付け替える（上流ソケットと統計はそのまま引き継ぐ）
+   * 動作中のセッションを乗っ取られないよう、同じ真のクライアントIPから届き、元のアドレスが一定時間無通信の場合に限る
+   * クライアントはハンドシェイクをやり直すため、転送先に残っている RakNet セッションは先に閉じる
+   */
+  private rebindSessionByGuid(
+    data: Buffer,
+    clientAddress: string,
+    clientPort: number,
+    realClientAddress: string,
+    realClientPort: number
+  ): void {
+    if (!isOfflineMessage(data)) return;
+    const message = parseRakNetOfflineMessage(data);
+    if (message?.type !== 'OPEN_CONNECTION_REQUEST_2') return;
+
+    const session = this.sessionsByGuid.get(message.clientGuid);
+    if (!session) return;
+
+    const connectionKey = `${clientAddress}:${clientPort}`;
+    const previousKey = `${session.clientAddress}:${session.clientPort}`;
+    if (previousKey === connectionKey) return;
+
+    // 切断・タイムアウト済みのセッションは引き継がない
+    if (!this.isLiveConnection(session)) {
+      this.sessionsByGuid.delete(message.clientGuid);
+      return;
+    }
+    // GUIDは誰でも名乗れるため、同じ真のクライアントIPからの Request 2 に限る
+    if ((session.realClientAddress ?? session.clientAddress) !== realClientAddress) {
+      logger.debug('udp-proxy', 'GUID matches a session of another client, not rebinding', {
+        client: connectionKey,
+        session: previousKey
+      });
+      return;
+    }
+    if (Date.now() - session.lastActivity < this.REBIND_MIN_IDLE) {
+      logger.debug('udp-proxy', 'GUID matches an active session, not rebinding', {
+        client: connectionKey,
+        session: previousKey
+      });
+      return;
+    }
+
+    // 退出イベントは元のアドレスで発行する
+    this.resetUpstreamSession(session);
+    this.moveSession(session, clientAddress, clientPort, realClientAddress, realClientPort);
+
+    logger.info('udp-proxy', 'Session rebound to new client address by GUID', {
+      guid: message.clientGuid.toString(),
+      from: previousKey,
+      to: connectionKey,
+      target: `${session.targetHost}:${session.targetPort}`
+    });
+  }
+
+  /**
+   * 接続のない送信元から届いた Frame Set を、同じ真のクライアントIPのセッションへ付け替える
+   * NATの再マッピングではハンドシェイクをやり直さず Frame Set だけが新しいポートから届くため、
+   * Frame Set の番号が続きになっているセッションを引き継ぎ先とする（複数ある場合は番号が最も近いもの）
+   * @returns rebound: 付け替えた / wait: 引き継ぎ先の元のアドレスがまだ通信中のため破棄する / none: 該当なし
+   */
+  private rebindSessionByFrameSet(
+    data: Buffer,
+    clientAddress: string,
+    clientPort: number,
+    realClientAddress: string,
+    realClientPort: number
+  ): 'rebound' | 'wait' | 'none' {
+    if (data.length < 4) return 'none';
+    const sequence = data.readUIntLE(1, 3);
+
+    let session: ProxyConnection | undefined;
+    for (const connection of this.connections.values()) {
+      if (connection.stage !== 'in-game' || connection.clientSequence === undefined) continue;
+      if ((connection.realClientAddress ?? connection.clientAddress) !== realClientAddress) continue;
+      const gap = sequence - connection.clientSequence;
+      if (gap <= 0 || gap > this.REBIND_SEQUENCE_WINDOW) continue;
+      if (!session || connection.clientSequence > session.clientSequence!) {
+        session = connection;
+      }
+    }
+    if (!session) return 'none';
+
+    const connectionKey = `${clientAddress}:${clientPort}`;
+    const previousKey = `${session.clientAddress}:${session.clientPort}`;
+    // 元のアドレスがまだ通信中なら付け替えない（クライアントが再送するため、Frame Set は破棄する）
+    if (Date.now() - session.lastActivity < this.REBIND_FRAME_MIN_IDLE) {
+      logger.debug('udp-proxy', 'Frame set matches an active session, not rebinding yet', {
+        client: connectionKey,
+        session: previousKey
+      });
+      return 'wait';
+    }
+
+    this.moveSession(session, clientAddress, clientPort, realClientAddress, realClientPort);
+
+    logger.info('udp-proxy', 'Session rebound to new client address by frame set', {
+      sequence,
+      from: previousKey,
+      to: connectionKey,
+      target: `${session.targetHost}:${session.targetPort}`
+    });
+    return 'rebound';
+  }
+
+  // セッションを新しい送信元アドレスへ付け替える
+  private moveSession(
+    session: ProxyConnection,
+    clientAddress: string,
+    clientPort: number,
+    realClientAddress: string,
+    realClientPort: number
+  ): void {
+    const connectionKey = `${clientAddress}:${clientPort}`;
+    const previousKey = `${session.clientAddress}:${session.clientPort}`;
+
+    // 新しいアドレスで先に作られた接続（Open Connection Request 1 など）は統計を合算して破棄
+    const pending = this.connections.get(connectionKey);
+    if (pending) {
+      session.bytesSent += pending.bytesSent;
+      session.bytesReceived += pending.bytesReceived;
+      session.packetsSent += pending.packetsSent;
+      session.packetsReceived += pending.packetsReceived;
+      if (pending.guid !== undefined && this.sessionsByGuid.get(pending.guid) === pending) {
+        this.sessionsByGuid.delete(pending.guid);
+      }
+      this.releaseTargetSocket(pending);
+    }
+
+    // 真のクライアント情報は新しい送信元のものに更新（上流プロキシ経由でなければ送信元そのもの）
+    const savedInfo = this.realClientInfo.get(clientAddress);
+    if (realClientAddress !== clientAddress) {
+      session.realClientAddress = realClientAddress;
+      session.realClientPort = realClientPort;
+    } else if (savedInfo) {
+      session.realClientAddress = savedInfo.address;
+      session.realClientPort = savedInfo.port;
+    } else if (session.realClientAddress === session.clientAddress) {
+      session.realClientAddress = clientAddress;
+      session.realClientPort = clientPort;
+    }
+
+    this.connections.delete(previousKey);
+    session.clientAddress = clientAddress;
+    session.clientPort = clientPort;
+    this.connections.set(connectionKey, session);
+  }
+
+  /**
+   * 引き継いだセッションの転送先に切断通知を送り、RakNet の状態を初期化する
+   * 同じ上流ソケットから新しいハンドシェイクを送る前に、転送先に残っている古いセッションを終わらせる
+   * 新しいハンドシェイクでは Login も送り直されるため、プレイヤーは退出扱いにして Login を判定し直す
+   */
+  private resetUpstreamSession(session: ProxyConnection): void {
+    if (session.clientSequence !== undefined && !session.backendDisconnected) {
+      const notification = buildRakNetFrameSet(session.clientSequence + 1, Buffer.from([RAKNET_PACKET_IDS.DISCONNECTION_NOTIFICATION]));
+      session.targetSocket.send(notification, session.targetPort, session.targetHost, (error) => {
+        if (error) {
+          logger.debug('udp-proxy', 'Failed to send disconnect to target before rehandshake', {
+            client: `${session.clientAddress}:${session.clientPort}`,
+            error: error.message
+          });
+        }
+      });
+    }
+
+    session.clientSequence = undefined;
+    session.targetSequence = undefined;
+    session.disconnectSequence = undefined;
+    session.backendDisconnected = undefined;
+    session.mtu = undefined;
+    // ハンドシェイクからやり直すため段階を戻す
+    session.stage = 'connecting';
+
+    this.emitLeave(session);
+    session.player = undefined;
+    session.loginDecoder = undefined;
+  }
+
+  // 転送先→クライアントのオフラインメッセージからハンドシェイク情報を更新
+  private trackTargetPacket(connection: ProxyConnection, data: Buffer): void {
+    const category = classifyRakNetPacket(data);
+    if (category === 'frameSet' && data.length >= 4) {
+      connection.targetSequence = Math.max(connection.targetSequence ?? 0, data.readUIntLE(1, 3));
+      return;
+    }
+    if (category === 'ack') {
+      const sequence = connection.disconnectSequence;
+      if (sequence !== undefined && !connection.backendDisconnected
+        && parseRakNetAck(data)?.some(range => range.start <= sequence && sequence <= range.end)) {
+        connection.backendDisconnected = true;
+        logger.debug('udp-proxy', 'Disconnect acknowledged by target', {
+          client: `${connection.clientAddress}:${connection.clientPort}`
+        });
+      }
+      return;
+    }
+    if (!isOfflineMessage(data)) return;
+
+    const message = parseRakNetOfflineMessage(data);
+    if (message?.type === 'OPEN_CONNECTION_REPLY_2') {
+      connection.mtu = message.mtu;
+      logger.debug('udp-proxy', 'RakNet handshake accepted by target', {
+        client: `${connection.clientAddress}:${connection.clientPort}`,
+        mtu: message.mtu
+      });
+    }
+  }
+
+  /**
+   * 暗号化が始まる前の Login パケットからプレイヤー情報を取得し、参加イベントを発行
+   * 許可リスト・メンテナンス中は、Login を確認できないまま解析を打ち切ったセッションを転送せずに終了する
+   */
+  private decodeLogin(connection: ProxyConnection, data: Buffer): void {
+    if (connection.player) return;
+
+    if (!connection.loginDecoder) {
+      connection.loginDecoder = new BedrockLoginDecoder();
+    }
+    const login = connection.loginDecoder.push(data);
+    if (!login) {
+      if (connection.loginDecoder.isFinished() && this.requiresVerifiedLogin()) {
+        this.refuseUnverifiedSession(connection);
+      }
+      return;
+    }
+
+    const ipAddress = connection.realClientAddress ?? connection.clientAddress;
+    const port = connection.realClientPort ?? connection.clientPort;
+    if (this.checkAccess(ipAddress, login) === 'denied') {
+      this.refuseLogin(connection, login, this.WHITELIST_DISCONNECT_MESSAGE);
+      return;
+    }
+    // メンテナンス中は許可エントリに一致するプレイヤー（スタッフ）のみ参加できる
+    if (this.config.maintenance && !this.isAllowlisted(ipAddress, login)) {
+      this.refuseLogin(connection, login, this.config.maintenanceMessage || this.MAINTENANCE_DISCONNECT_MESSAGE);
+      return;
+    }
+
+    connection.player = login;
+
+    logger.info('udp-proxy', 'Player login decoded', {
+      client: `${connection.clientAddress}:${connection.clientPort}`,
+      player: login.displayName,
+      xuid: login.xuid,
+      authenticated: login.authenticated,
+      deviceOS: login.deviceOS,
+      clientVersion: login.clientVersion,
+      protocolVersion: login.protocolVersion
+    });
+
+    this.emitPlayerAction({
+      name: login.displayName,
+      xuid: login.xuid,
+      action: 'join',
+      ipAddress,
+      port,
+      deviceOS: login.deviceOS,
+      clientVersion: login.clientVersion,
+      timestamp: new Date()
+    });
+  }
+
+  // プレイヤーを確認してから参加させる必要があるか（許可リストが有効、またはメンテナンス中）
+  private requiresVerifiedLogin(): boolean {
+    return this.whitelistEnabled || !!this.config.maintenance;
+  }
+
+  /**
+   * 許可リスト・拒否リストの判定
+   * プレイヤー情報がまだない場合、IP以外のエントリでは判定できないため pending を返す
+   * @param address 真のクライアントIP（上流プロキシ経由でなければ送信元IP）
+   */
+  private checkAccess(address: string, player?: BedrockLoginInfo): 'allowed' | 'denied' | 'pending' {
+    if (this.whitelistRules.length === 0 && !this.whitelistEnabled) return 'allowed';
+
+    if (this.whitelistRules.some(rule => rule.mode === 'deny' && this.matchesWhitelistRule(rule, address, player))) return 'denied';
+    if (!this.whitelistEnabled) return 'allowed';
+    if (this.isAllowlisted(address, player)) return 'allowed';
+    return player ? 'denied' : 'pending';
+  }
+
+  // 許可エントリに一致するか（whitelistEnabled に関わらず判定する）
+  private isAllowlisted(address: string, player?: BedrockLoginInfo): boolean {
+    return this.whitelistRules.some(rule => rule.mode === 'allow' && this.matchesWhitelistRule(rule, address, player));
+  }
+
+  // XUID・名前のエントリは Xbox 認証済みのプレイヤーのみ照合する（未認証のプレイヤーはIPのみ）
+  private matchesWhitelistRule(
+    rule: { type: WhitelistEntryType; value: string; range?: IpRange },
+    address: string,
+    player?: BedrockLoginInfo
+  ): boolean {
+    switch (rule.type) {
+      case 'ip':
+        return rule.range !== undefined && ipInRange(address, rule.range);
+      case 'xuid':
+        return player?.authenticated === true && player.xuid !== '' && player.xuid === rule.value;
+      case 'name':
+        return player?.authenticated === true && player.displayName.toLowerCase() === rule.value.toLowerCase();
+    }
+  }
+
+  /**
+   * ログインを拒否してセッションを終了
+   * Login は転送せず、クライアント・転送先の両方に切断を伝える
+   */
+  private refuseLogin(connection: ProxyConnection, login: BedrockLoginInfo, message: string): void {
+    const connectionKey = `${connection.clientAddress}:${connection.clientPort}`;
+
+    this.sendDisconnect(connection, message, login.protocolVersion);
+
+    this.connections.delete(connectionKey);
+    this.kickedClients.set(connectionKey, Date.now() + this.KICK_COOLDOWN);
+
+    logger.info('udp-proxy', 'Login refused', {
+      client: connectionKey,
+      player: login.displayName,
+      xuid: login.xuid,
+      message
+    });
+  }
+
+  /**
+   * Login を確認できなかったセッションを終了
+   * 解析しなかった Frame Set に Login が含まれている可能性があるため、このパケットも転送しない
+   */
+  private refuseUnverifiedSession(connection: ProxyConnection): void {
+    const connectionKey = `${connection.clientAddress}:${connection.clientPort}`;
+    const message = this.config.maintenance
+      ? this.config.maintenanceMessage || this.MAINTENANCE_DISCONNECT_MESSAGE
+      : this.WHITELIST_DISCONNECT_MESSAGE;
+
+    this.endSession(connection, message);
+
+    this.connections.delete(connectionKey);
+    this.kickedClients.set(connectionKey, Date.now() + this.KICK_COOLDOWN);
+
+    logger.warn('udp-proxy', 'Session refused, login could not be verified', {
+      client: connectionKey,
+      realClient: `${connection.realClientAddress ?? connection.clientAddress}:${connection.realClientPort ?? connection.clientPort}`
+    });
+  }
+
+  /**
+   * プロキシからセッションを切断する
+   * クライアントには Disconnect パケット（プロトコルバージョンが分かる場合）と RakNet の切断通知、
+   * 転送先には RakNet の切断通知を送ってから上流ソケットを解放する（転送先のACKを待たないため、プールには戻さず閉じる）
+   * 暗号化が始まった後の Disconnect パケットはクライアントが読めないが、RakNet の切断通知で切断される
+   * @returns すべての送信が終わると解決する
+   */
+  private sendDisconnect(connection: ProxyConnection, message: string, protocolVersion?: number): Promise<void> {
+    const connectionKey = `${connection.clientAddress}:${connection.clientPort}`;
+    const clientAddress = this.toServerAddress(connection.clientAddress);
+    const notification = Buffer.from([RAKNET_PACKET_IDS.DISCONNECTION_NOTIFICATION]);
+    let sequence = connection.targetSequence ?? 0;
+
+    const packets: Buffer[] = [];
+    if (protocolVersion !== undefined) {
+      packets.push(buildRakNetFrameSet(++sequence, buildDisconnectPacket(message, protocolVersion)));
+    }
+    packets.push(buildRakNetFrameSet(++sequence, notification));
+    const sends = packets.map(packet => new Promise<void>((resolve) => {
+      this.server.send(packet, connection.clientPort, clientAddress, (error) => {
+        if (error) {
+          logger.debug('udp-proxy', 'Failed to send disconnect to client', {
+            client: connectionKey,
+            error: error.message
+          });
+        }
+        resolve();
+      });
+    }));
+
+    const targetNotification = buildRakNetFrameSet((connection.clientSequence ?? 0) + 1, notification);
+    sends.push(new Promise<void>((resolve) => {
+      connection.targetSocket.send(targetNotification, connection.targetPort, connection.targetHost, () => {
+        this.releaseTargetSocket(connection);
+        resolve();
+      });
+    }));
+    return Promise.all(sends).then(() => undefined);
+  }
+
+  /**
+   * セッションを終了（上流ソケットを解放し、ログイン済みなら退出イベントを発行）
+   * @param message 指定した場合はプロキシから切断し、クライアント・転送先に切断を伝える
+   * @returns 切断の送信が終わると解決する
+   */
+  private endSession(connection: ProxyConnection, message?: string): Promise<void> {
+    let sent = Promise.resolve();
+    if (message !== undefined) {
+      sent = this.sendDisconnect(connection, message, connection.player?.protocolVersion);
+    } else {
+      this.releaseTargetSocket(connection);
+    }
+    this.emitLeave(connection);
+    return sent;
+  }
+
+  // ログイン済みのセッションの退出イベントを発行
+  private emitLeave(connection: ProxyConnection): void {
+    if (!connection.player) return;
+
+    this.emitPlayerAction({
+      name: connection.player.displayName,
+      xuid: connection.player.xuid,
+      action: 'leave',
+      ipAddress: connection.realClientAddress ?? connection.clientAddress,
+      port: connection.realClientPort ?? connection.clientPort,
+      timestamp: new Date()
+    });
+  }
+
+  // 切断・タイムアウトで接続一覧から外れていないか
+  private isLiveConnection(connection: ProxyConnection): boolean {
+    return this.connections.get(`${connection.clientAddress}:${connection.clientPort}`) === connection;
+  }
+
+  // ハンドシェイク段階を進める（後戻りはしない）
+  private advanceConnectionStage(connection: ProxyConnection, stage: ConnectionStage): void {
+    const order: ConnectionStage[] = ['pinging', 'connecting', 'in-game'];
+    if (order.indexOf(stage) <= order.indexOf(connection.stage)) return;
+
+    logger.debug('udp-proxy', 'Connection stage changed', {
+      client: `${connection.clientAddress}:${connection.clientPort}`,
+      from: connection.stage,
+      to: stage
+    });
+    connection.stage = stage;
+  }
+
+  private createBackendPool(): BackendPool {
+    return new BackendPool(
+      [{ host: this.config.targetHost, port: this.config.targetPort }, ...(this.config.backends ?? [])],
+      this.config.loadBalancing
+    );
+  }
+
+  // 新規セッションの転送先（フェイルオーバー中はフォールバック先）
+  private getActiveTarget(affinityKey?: string): { host: string; port: number } {
+    if ((this.failoverActive || this.redirectActive) && this.config.fallbackHost && this.config.fallbackPort) {
+      return { host: this.config.fallbackHost, port: this.config.fallbackPort };
+    }
+
+    const backend = this.backendPool.select(affinityKey);
+    if (backend) {
+      return { host: backend.host, port: backend.port };
+    }
+    return { host: this.config.targetHost, port: this.config.targetPort };
+  }
+
+  // 転送先が複数ある場合、またはフォールバック先が設定されている場合のみ監視
+  private startHealthCheck(): void {
+    const hasFallback = !!(this.config.fallbackHost && this.config.fallbackPort);
+    if (this.backendPool.size < 2 && !hasFallback) return;
+
+    this.backendPool.startHealthChecks((backend, healthy) => {
+      this.handleBackendHealthChange(backend, healthy);
+    });
+    this.healthChecksRunning = true;
+  }
+
+  private stopHealthCheck(): void {
+    if (this.healthChecksRunning) {
+      this.backendPool.stopHealthChecks();
+      this.healthChecksRunning = false;
+    }
+  }
+
+  // 応答しなくなった転送先のセッションは破棄し、再接続で他の転送先へ振り分ける
+  private handleBackendHealthChange(backend: Backend, healthy: boolean): void {
+    if (!healthy) {
+      const stale: string[] = [];
+      this.connections.forEach((connection, key) => {
+        if (connection.targetHost === backend.host && connection.targetPort === backend.port) {
+          this.endSession(connection, this.BACKEND_DOWN_DISCONNECT_MESSAGE);
+          stale.push(key);
+        }
+      });
+      stale.forEach(key => this.connections.delete(key));
+
+      logger.warn('udp-proxy', 'Backend evicted', {
+        backend: backend.key,
+        droppedSessions: stale.length,
+        healthyBackends: this.backendPool.getStatus().filter(b => b.healthy).length
+      });
+    } else {
+      logger.info('udp-proxy', 'Backend restored', { backend: backend.key });
+    }
+
+    // すべての転送先が応答しない場合のみフォールバック先へ切り替える
+    if (this.config.fallbackHost && this.config.fallbackPort) {
+      this.setFailoverActive(!this.backendPool.hasHealthy());
+    }
+  }
+
+  private setFailoverActive(active: boolean): void {
+    if (this.failoverActive === active) return;
+    this.failoverActive = active;
+
+    const primary = `${this.config.targetHost}:${this.config.targetPort}`;
+    const fallback = `${this.config.fallbackHost}:${this.config.fallbackPort}`;
+
+    if (active) {
+      // 応答しない転送先のセッションは handleBackendHealthChange で破棄済み
+      logger.warn('udp-proxy', 'All destinations unreachable, failing over', { primary, fallback });
+    } else {
+      // フォールバック先の既存セッションは維持し、新規セッションのみプライマリへ戻す
+      logger.info('udp-proxy', 'Primary destination recovered, switching back', { primary, fallback });
+    }
+
+    if (this.onFailover) {
+      this.onFailover({ active: active ? 'fallback' : 'primary', primary, fallback });
+    }
+  }
+
+  // Unconnected Pingに書き換えたMOTDで応答（応答した場合はtrue）
+  private respondToStatusPing(data: Buffer, clientAddress: string, clientPort: number): boolean {
+    const message = parseRakNetOfflineMessage(data);
+    if (message?.type !== 'UNCONNECTED_PING' && message?.type !== 'UNCONNECTED_PING_OPEN_CONNECTIONS') {
+      return false;
+    }
+
+    const pong = this.getStatusResponder().buildPong(message, this.statusProvider!());
+    this.sendOfflineReply(pong, clientAddress, clientPort);
+    return true;
+  }
+
+  private getStatusResponder(): StatusResponder {
+    if (!this.statusResponder) {
+      this.statusResponder = new StatusResponder({
+        targetHost: this.config.targetHost,
+        targetPort: this.config.targetPort,
+        listenPort: this.config.listenPort
+      });
+    }
+    return this.statusResponder;
+  }
+
+  // プロキシが直接応答するオフラインメッセージ（Pong・Reply 1）を送信
+  private sendOfflineReply(packet: Buffer, clientAddress: string, clientPort: number): void {
+    if (this.onCapture) {
+      const listen = this.getSocketAddress(this.server);
+      this.capturePacket('proxy-to-client', `${clientAddress}:${clientPort}`, listen.address, listen.port, clientAddress, clientPort, packet);
+    }
+
+    this.server.send(packet, clientPort, this.toServerAddress(clientAddress), (error) => {
+      if (error) {
+        logger.debug('udp-proxy', 'Failed to send offline reply to client', {
+          client: `${clientAddress}:${clientPort}`,
+          packetId: packet[0],
+          error: error?.message || String(error) || 'unknown error'
+        });
+      }
+    });
+
+    this.totalBytesSent += packet.length;
+    this.totalPacketsSent++;
+  }
+
+  private isChallengeActive(): boolean {
+    return this.config.challengeMode === 'always'
+      || (this.config.challengeMode === 'auto' && this.underAttack);
+  }
 
-    // Proxy Protocol v2の解析（有効な場合）
-    let proxyChain: ProxyProtocolChain | null = null;
-    let actualData = data;
-    let realClientAddress = clientAddress;
-    let realClientPort = clientPort;
+  /**
+   * 新規送信元のパケットを接続チャレンジで処理
+   * @returns cookieの検証に成功した場合、転送先へ渡すRequest 2（cookieを除去したもの）。それ以外はnull
+   */
+  private handleChallenge(data: Buffer, clientAddress: string, clientPort: number): Buffer | null {
+    const message = parseRakNetOfflineMessage(data);
 
-    if (this.config.proxyProtocolV2Enabled && isProxyProtocolV2(data)) {
-      // 多段Proxy Protocolを解析
-      proxyChain = parseProxyProtocolChain(data);
-      
-      if (proxyChain) {
-        // 最も元のクライアント情報を使用
-        realClientAddress = proxyChain.originalClientIP;
-        realClientPort = proxyChain.originalClientPort;
-        actualData = proxyChain.payload;
+    switch (message?.type) {
+      case 'UNCONNECTED_PING':
+      case 'UNCONNECTED_PING_OPEN_CONNECTIONS':
+        // Pingも転送先へ中継せず、キャッシュしたステータスで応答する
+        this.respondWithCachedStatus(message, clientAddress, clientPort);
+        return null;
 
-        // ペイロードが空の場合は接続情報を保存するだけで、接続は作成しない
-        if (actualData.length === 0) {
-          // clientAddressごとに真のIP情報を保存
-          this.realClientInfo.set(clientAddress, {
-            address: realClientAddress,
-            port: realClientPort
-          });
-          
-          logger.debug('udp-proxy', 'Proxy Protocol header-only packet, real client info saved', {
-            clientAddress,
-            realClient: `${realClientAddress}:${realClientPort}`
+      case 'OPEN_CONNECTION_REQUEST_1': {
+        const cookie = this.challenge.issue(clientAddress, clientPort);
+        const serverGuid = this.statusResponder?.getCachedStatus()?.serverGuid ?? this.challenge.serverGuid;
+        const reply = buildOpenConnectionReply1(serverGuid, cookie, Math.min(message.mtu, this.MAX_MTU));
+        this.sendOfflineReply(reply, clientAddress, clientPort);
+        this.challengesIssued++;
+        return null;
+      }
+
+      case 'OPEN_CONNECTION_REQUEST_2':
+        if (message.cookie !== undefined && this.challenge.verify(clientAddress, clientPort, message.cookie)) {
+          this.challengesPassed++;
+          logger.debug('udp-proxy', 'Connection challenge passed', {
+            client: `${clientAddress}:${clientPort}`
           });
-          return; // 空ペイロードは転送しない
+          return stripRequest2Security(data);
         }
-      }
+        break;
     }
 
-    // ペイロードが空の場合は接続情報更新のみ(転送しない)
-    if (actualData.length === 0) {
-      return;
-    }
+    this.challengeDrops++;
+    return null;
+  }
 
-    // 接続アクティビティを記録（真のクライアントアドレスを使用）
-    if (this.onConnectionActivity) {
-      this.onConnectionActivity(realClientAddress, realClientPort, actualData);
-    }
+  // 転送先のMOTD（customMotdEnabled時・メンテナンス中は書き換えたMOTD）で応答
+  private respondWithCachedStatus(ping: UnconnectedPing, clientAddress: string, clientPort: number): void {
+    const responder = this.getStatusResponder();
+    const pong = (this.config.customMotdEnabled || this.config.maintenance) && this.statusProvider
+      ? responder.buildPong(ping, this.statusProvider())
+      : responder.buildCachedPong(ping)
+        ?? (this.statusProvider ? responder.buildPong(ping, this.statusProvider()) : null);
 
-    let connection = this.connections.get(connectionKey);
-    const now = Date.now();
-    
-    if (!connection) {
-      // 新しい接続を作成
-      connection = this.createConnection(clientAddress, clientPort);
-      
-      // Proxy Protocol v2で真のIPが検出されていない場合、
-      // realClientInfoマップから情報を取得
-      if (realClientAddress === clientAddress && realClientPort === clientPort) {
-        const savedInfo = this.realClientInfo.get(clientAddress);
-        if (savedInfo) {
-          realClientAddress = savedInfo.address;
-          realClientPort = savedInfo.port;
-          logger.debug('udp-proxy', 'Using saved real client info', {
-            client: connectionKey,
-            realClient: `${realClientAddress}:${realClientPort}`
-          });
-        }
-      }
-      
-      connection.realClientAddress = realClientAddress;
-      connection.realClientPort = realClientPort;
-      connection.packetCount = 0;
-      connection.lastReset = now;
-      
-      this.connections.set(connectionKey, connection);
-      this.totalConnectionsCreated++;
-      
-      logger.info('udp-proxy', 'New connection established', {
-        client: connectionKey,
-        realClient: `${realClientAddress}:${realClientPort}`,
-        target: `${this.config.targetHost}:${this.config.targetPort}`,
-        totalConnections: this.connections.size
-      });
+    if (pong) {
+      this.sendOfflineReply(pong, clientAddress, clientPort);
     }
+  }
 
-    // レート制限チェック
-    if (this.config.rateLimit && connection.packetCount !== undefined && connection.lastReset !== undefined) {
-      const timeSinceReset = now - connection.lastReset;
-      if (timeSinceReset >= 1000) {
-        // 1秒経過したのでリセット
-        connection.packetCount = 0;
-        connection.lastReset = now;
-      } else if (connection.packetCount >= this.config.rateLimit) {
-        // レート制限超過
-        logger.warn('udp-proxy', 'Rate limit exceeded, dropping packet', {
-          client: connectionKey,
-          packetCount: connection.packetCount,
-          limit: this.config.rateLimit
-        });
-        return;
+  // 新規送信元の増加を監視し、autoモードでは接続チャレンジを自動で切り替える
+  private evaluateUnderAttack(now: number): void {
+    this.newSourcesPerSecond = this.newSourceCount;
+    this.newSourceCount = 0;
+
+    if (this.config.challengeMode !== 'auto') return;
+
+    const threshold = this.config.challengeThreshold ?? this.DEFAULT_CHALLENGE_THRESHOLD;
+    if (this.newSourcesPerSecond >= threshold) {
+      this.underAttackCalmSince = null;
+      this.setUnderAttack(true);
+    } else if (this.underAttack) {
+      // 閾値を下回った状態が続いたら解除（解除直後の再開でセッションを大量に作られないように）
+      if (this.underAttackCalmSince === null) {
+        this.underAttackCalmSince = now;
+      } else if (now - this.underAttackCalmSince >= this.UNDER_ATTACK_COOLDOWN) {
+        this.setUnderAttack(false);
       }
-      connection.packetCount++;
     }
+  }
 
-    // 最終アクティビティ時間を更新
-    connection.lastActivity = now;
+  private setUnderAttack(active: boolean): void {
+    if (this.underAttack === active) return;
+    this.underAttack = active;
+    this.underAttackCalmSince = null;
 
-    // メッセージを転送
-    // 真のIPが取得できている場合は常にProxy Protocol v2ヘッダーを付加
-    let dataToSend = actualData;
-    if (realClientAddress !== clientAddress) {
-      const proxyHeader = generateProxyProtocolV2Header(
-        realClientAddress,
-        realClientPort,
-        this.config.targetHost,
-        this.config.targetPort
-      );
-      dataToSend = Buffer.concat([proxyHeader, actualData]);
-      
-      logger.debug('udp-proxy', 'Added Proxy Protocol v2 header to outgoing packet', {
-        realClient: `${realClientAddress}:${realClientPort}`,
-        headerSize: proxyHeader.length,
-        payloadSize: actualData.length
+    if (active) {
+      logger.warn('udp-proxy', 'New source surge detected, enabling connection challenge', {
+        newSourcesPerSecond: this.newSourcesPerSecond,
+        threshold: this.config.challengeThreshold
+      });
+    } else {
+      logger.info('udp-proxy', 'New source rate normal, disabling connection challenge', {
+        newSourcesPerSecond: this.newSourcesPerSecond
       });
     }
 
-    connection.targetSocket.send(dataToSend, this.config.targetPort, this.config.targetHost, (error) => {
-      if (error) {
-        const errorMsg = error?.message || String(error) || 'unknown error';
-        if (errorMsg.includes('Socket is closed') || errorMsg.includes('closed')) {
-          logger.debug('udp-proxy', 'Failed to forward message to target (socket closed)', {
-            client: connectionKey,
-            error: errorMsg
-          });
-        } else {
-          logger.error('udp-proxy', 'Failed to forward message to target', {
-            client: connectionKey,
-            error: errorMsg
-          });
-        }
-      } else {
-        // 統計情報を更新
-        connection.bytesSent += dataToSend.length;
-        connection.packetsSent++;
-        this.totalBytesSent += dataToSend.length;
-        this.totalPacketsSent++;
-        
-        if (!connection.hasLoggedSuccess) {
-          logger.info('udp-proxy', 'Message forwarded successfully', {
-            client: connectionKey,
-            realClient: `${realClientAddress}:${realClientPort}`,
-            target: `${this.config.targetHost}:${this.config.targetPort}`,
-            size: dataToSend.length
-          });
-          connection.hasLoggedSuccess = true;
-        }
-      }
-    });
+    if (this.onUnderAttack) {
+      this.onUnderAttack({ active, newSourcesPerSecond: this.newSourcesPerSecond });
+    }
   }
 
-  private createConnection(clientAddress: string, clientPort: number): ProxyConnection {
-    // ソケット再利用が有効な場合は共有ソケットまたはプールから取得
-    let targetSocket: Socket;
-    let isSharedSocket = false;
-    
-    if (this.config.socketReuseEnabled && this.connections.size < 50) {
-      // 接続数が少ない場合は共有ソケットを使用
-      targetSocket = this.sharedSocket!;
-      isSharedSocket = true;
-    } else if (this.config.socketReuseEnabled && this.socketPool.length > 0) {
-      // ラウンドロビンでプールからソケットを取得
-      targetSocket = this.socketPool[this.poolIndex];
-      this.poolIndex = (this.poolIndex + 1) % this.socketPool.length;
-      isSharedSocket = true;
-    } else {
-      // 新しいソケットを作成(フォールバック)
-      targetSocket = createSocket('udp4');
-      isSharedSocket = false;
-    }
+  private getChallengeStats(): ChallengeStats {
+    return {
+      active: this.isChallengeActive(),
+      newSourcesPerSecond: this.newSourcesPerSecond,
+      issued: this.challengesIssued,
+      passed: this.challengesPassed,
+      dropped: this.challengeDrops
+    };
+  }
+
+  private createConnection(clientAddress: string, clientPort: number, affinityKey: string): ProxyConnection {
+    // 上流ソケットは接続ごとに専有し、応答の振り分けは送信元ソケットで行う
+    const target = this.getActiveTarget(affinityKey);
+    const targetSocket = this.acquireTargetSocket(target.host);
+    this.backendPool.acquire(`${target.host}:${target.port}`);
 
     const connection: ProxyConnection = {
       clientAddress,
       clientPort,
       targetSocket,
+      targetHost: target.host,
+      targetPort: target.port,
       lastActivity: Date.now(),
+      stage: 'pinging',
+      uniqueId: randomBytes(16),
       bytesSent: 0,
       bytesReceived: 0,
       packetsSent: 0,
       packetsReceived: 0,
       connectedAt: Date.now()
     };
-    
-    // 共有ソケットでない場合のみイベントリスナーを設定
-    // 共有ソケットのイベントリスナーは初期化時に一度だけ設定済み
-    if (!isSharedSocket) {
-      targetSocket.on('message', (data, rinfo) => {
-        if (!this.server) return;
-        
-        this.server.send(data, clientPort, clientAddress, (error) => {
-          if (error) {
-            const errorMsg = error?.message || String(error) || 'unknown error';
-            if (errorMsg.includes('Socket is closed') || errorMsg.includes('closed')) {
-              logger.debug('udp-proxy', 'Failed to send response to client (socket closed)', {
-                client: `${clientAddress}:${clientPort}`,
-                error: errorMsg
-              });
-            } else {
-              logger.error('udp-proxy', 'Failed to send response to client', {
-                client: `${clientAddress}:${clientPort}`,
-                error: errorMsg
-              });
-            }
-          } else {
-            // 統計情報を更新
-            const conn = this.connections.get(`${clientAddress}:${clientPort}`);
-            if (conn) {
-              conn.bytesReceived += data.length;
-              conn.packetsReceived++;
-              this.totalBytesReceived += data.length;
-              this.totalPacketsReceived++;
-              
-              // レスポンス転送成功時のログ（最初のレスポンス時のみ）
-              if (!conn.hasLoggedResponseSuccess) {
-                logger.info('udp-proxy', 'Response forwarded to client', {
-                  client: `${clientAddress}:${clientPort}`,
-                  target: `${this.config.targetHost}:${this.config.targetPort}`,
-                  size: data.length
-                });
-                conn.hasLoggedResponseSuccess = true;
-              }
-            }
-          }
-        });
-      });
-      
-      targetSocket.on('error', (error) => {
-        logger.error('udp-proxy', 'Target socket error', {
-          client: `${clientAddress}:${clientPort}`,
-          error: error?.message || String(error) || 'unknown error'
-        });
-      });
-    }
-    
+
+    this.socketOwners.set(targetSocket, connection);
     return connection;
   }
 
@@ -478,12 +1554,21 @@ export class UDPProxy {
       });
 
       this.server.bind(this.config.listenPort, () => {
+        this.increaseBufferSizes();
         this.isRunning = true;
         this.startCleanupTimer();
         this.startStatsUpdateTimer();
+        this.startHealthCheck();
         
+        if (this.config.proxyProtocolV2Enabled && this.trustedProxyRanges.length === 0) {
+          logger.warn('security', 'Proxy Protocol headers are accepted from any source', {
+            listenPort: this.config.listenPort
+          });
+        }
+
         logger.info('udp-proxy', 'UDP Proxy started', {
           listenPort: this.config.listenPort,
+          listenFamily: this.config.listenFamily ?? 'ipv4',
           target: `${this.config.targetHost}:${this.config.targetPort}`
         });
         
@@ -492,6 +1577,18 @@ export class UDPProxy {
     });
   }
 
+  // UDPソケットのバッファサイズを増やして高負荷に対応（バインド前は設定できない）
+  private increaseBufferSizes(): void {
+    try {
+      this.server.setRecvBufferSize(1024 * 1024 * 4); // 4MB
+      this.server.setSendBufferSize(1024 * 1024 * 4); // 4MB
+    } catch (error) {
+      logger.warn('udp-proxy', 'Failed to increase socket buffer sizes', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
   public stop(): Promise<void> {
     return new Promise((resolve) => {
       if (!this.isRunning) {
@@ -511,48 +1608,58 @@ export class UDPProxy {
         this.statsUpdateInterval = null;
       }
 
-      // すべての接続を閉じる
+      this.stopHealthCheck();
+
+      // すべてのセッションを終了（クライアント・転送先に切断を伝え、ログイン済みなら退出イベントを発行）
+      const disconnects: Promise<void>[] = [];
       this.connections.forEach((connection, key) => {
-        // ソケット再利用が無効な場合、または共有ソケット/プール以外の場合のみ閉じる
-        if (!this.config.socketReuseEnabled || 
-            (connection.targetSocket !== this.sharedSocket && 
-             !this.socketPool.includes(connection.targetSocket))) {
-          try {
-            connection.targetSocket.close();
-          } catch (e) {
-            // エラーを無視
-          }
-        }
+        disconnects.push(this.endSession(connection, this.STOP_DISCONNECT_MESSAGE));
         logger.debug('udp-proxy', 'Connection closed', { client: key });
       });
-      
-      // 共有ソケットとプールをクリーンアップ
-      if (this.sharedSocket) {
-        try {
-          this.sharedSocket.close();
-        } catch (e) {}
-        this.sharedSocket = null;
-      }
-      
-      this.socketPool.forEach(socket => {
-        try {
-          socket.close();
-        } catch (e) {}
-      });
-      this.socketPool = [];
+
+      this.failoverActive = false;
+      this.draining = false;
+      this.redirectActive = false;
+      this.underAttack = false;
+      this.underAttackCalmSince = null;
+      this.backendPool = this.createBackendPool();
+
+      this.closeIdleSockets();
+      this.socketOwners.clear();
       
       this.connections.clear();
+      this.sessionsByGuid.clear();
       this.realClientInfo.clear();
+      this.kickedClients.clear();
 
-      // サーバーを閉じる
-      this.server.close(() => {
-        this.isRunning = false;
-        logger.info('udp-proxy', 'UDP Proxy stopped');
-        resolve();
+      if (this.statusResponder) {
+        this.statusResponder.close();
+        this.statusResponder = null;
+      }
+
+      // 切断通知を送り終えてからサーバーを閉じる
+      Promise.all(disconnects).then(() => {
+        this.server.close(() => {
+          this.isRunning = false;
+          // 切断通知の送信後に解放されたソケットも閉じる
+          this.closeIdleSockets();
+          logger.info('udp-proxy', 'UDP Proxy stopped');
+          resolve();
+        });
       });
     });
   }
 
+  // 再利用待ちのソケットをクリーンアップ
+  private closeIdleSockets(): void {
+    [...this.idleSockets.udp4, ...this.idleSockets.udp6].forEach(socket => {
+      try {
+        socket.close();
+      } catch (e) {}
+    });
+    this.idleSockets = { udp4: [], udp6: [] };
+  }
+
   private startCleanupTimer(): void {
     this.cleanupInterval = setInterval(() => {
       this.cleanupStaleConnections();
@@ -561,6 +1668,7 @@ export class UDPProxy {
 
   private startStatsUpdateTimer(): void {
     this.statsUpdateInterval = setInterval(() => {
+      this.evaluateUnderAttack(Date.now());
       this.updateNetworkStats();
     }, 1000); // 1秒間隔
   }
@@ -596,6 +1704,10 @@ export class UDPProxy {
         clientPort: conn.clientPort,
         realClientAddress: conn.realClientAddress,
         realClientPort: conn.realClientPort,
+        stage: conn.stage,
+        guid: conn.guid?.toString(),
+        playerName: conn.player?.displayName,
+        xuid: conn.player?.xuid,
         bytesSent: conn.bytesSent,
         bytesReceived: conn.bytesReceived,
         packetsSent: conn.packetsSent,
@@ -617,6 +1729,8 @@ export class UDPProxy {
       currentDownloadSpeed: this.currentDownloadSpeed,
       activeConnections: this.connections.size,
       totalConnections: this.totalConnectionsCreated,
+      rateLimit: this.rateLimiter.getStats(now),
+      challenge: this.getChallengeStats(),
       timestamp: now
     };
     
@@ -635,16 +1749,7 @@ export class UDPProxy {
       
       if (timeSinceLastActivity > this.config.timeout) {
         staleConnections.push(key);
-        // ソケット再利用が有効な場合は、共有ソケットやプールのソケットは閉じない
-        if (!this.config.socketReuseEnabled || 
-            (connection.targetSocket !== this.sharedSocket && 
-             !this.socketPool.includes(connection.targetSocket))) {
-          try {
-            connection.targetSocket.close();
-          } catch (e) {
-            // ソケットが既に閉じている場合のエラーを無視
-          }
-        }
+        this.endSession(connection);
       }
     });
 
@@ -653,6 +1758,18 @@ export class UDPProxy {
       logger.debug('udp-proxy', 'Stale connection cleaned up', { client: key });
     });
 
+    this.kickedClients.forEach((until, key) => {
+      if (now >= until) this.kickedClients.delete(key);
+    });
+    this.securityLogTimes.forEach((loggedAt, address) => {
+      if (now - loggedAt >= this.SECURITY_LOG_INTERVAL) this.securityLogTimes.delete(address);
+    });
+    this.sessionsByGuid.forEach((connection, guid) => {
+      if (!this.isLiveConnection(connection)) this.sessionsByGuid.delete(guid);
+    });
+    this.backendPool.pruneAffinity();
+    this.rateLimiter.prune(now);
+
     if (staleConnections.length > 0) {
       logger.info('udp-proxy', 'Cleanup completed', {
         cleanedConnections: staleConnections.length,
@@ -676,6 +1793,68 @@ export class UDPProxy {
     this.onNetworkStatsUpdate = handler;
   }
 
+  // フェイルオーバー状態変化ハンドラーを設定
+  public setFailoverHandler(handler: (event: ProxyFailoverEvent) => void): void {
+    this.onFailover = handler;
+  }
+
+  // レート制限の違反を繰り返したクライアントの通知ハンドラーを設定（自動バン用）
+  public setAbuseHandler(handler: (address: string, durationSeconds: number) => void): void {
+    this.onAbuse = handler;
+  }
+
+  // 接続チャレンジの自動切り替えハンドラーを設定
+  public setUnderAttackHandler(handler: (event: ProxyUnderAttackEvent) => void): void {
+    this.onUnderAttack = handler;
+  }
+
+  // パケットキャプチャのハンドラーを設定（null で解除）
+  public setCaptureHandler(handler: ((packet: CapturedPacket) => void) | null): void {
+    this.onCapture = handler ?? undefined;
+  }
+
+  private capturePacket(
+    direction: CaptureDirection,
+    clientKey: string,
+    sourceAddress: string,
+    sourcePort: number,
+    destinationAddress: string,
+    destinationPort: number,
+    data: Buffer
+  ): void {
+    try {
+      this.onCapture?.({
+        direction,
+        clientKey,
+        sourceAddress,
+        sourcePort,
+        destinationAddress,
+        destinationPort,
+        data,
+        timestamp: Math.round((performance.timeOrigin + performance.now()) * 1000)
+      });
+    } catch (error) {
+      logger.debug('udp-proxy', 'Packet capture handler failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // バインド済みソケットのローカルアドレス（未バインド・クローズ済みの場合は未指定アドレス）
+  private getSocketAddress(socket: Socket): { address: string; port: number } {
+    try {
+      const { address, port } = socket.address();
+      return { address, port };
+    } catch {
+      return { address: '0.0.0.0', port: 0 };
+    }
+  }
+
+  // ステータス応答に使うサーバー情報の取得関数を設定
+  public setStatusProvider(provider: () => ProxyStatusInfo): void {
+    this.statusProvider = provider;
+  }
+
   // プレイヤーアクションを発火
   public emitPlayerAction(packet: PlayerPacket): void {
     if (this.onPlayerAction) {
@@ -689,11 +1868,18 @@ export class UDPProxy {
       isRunning: this.isRunning,
       activeConnections: this.connections.size,
       config: this.config,
+      failoverActive: this.failoverActive,
+      draining: this.draining,
+      backends: this.backendPool.getStatus(),
+      rateLimit: this.rateLimiter.getStats(),
+      challenge: this.getChallengeStats(),
       connections: Array.from(this.connections.entries()).map(([key, conn]) => ({
         client: key,
         lastActivity: new Date(conn.lastActivity),
         timeSinceActivity: Date.now() - conn.lastActivity,
-        packetCount: conn.packetCount || 0,
+        packetsSent: conn.packetsSent,
+        stage: conn.stage,
+        target: `${conn.targetHost}:${conn.targetPort}`,
         realClient: conn.realClientAddress ? `${conn.realClientAddress}:${conn.realClientPort}` : undefined
       }))
     };
@@ -702,6 +1888,62 @@ export class UDPProxy {
   // 設定を更新
   public updateConfig(newConfig: Partial<UDPProxyConfig>): void {
     this.config = { ...this.config, ...newConfig };
+
+    // 転送先が変わった場合はステータスキャッシュを破棄
+    const targetChanged = newConfig.targetHost !== undefined || newConfig.targetPort !== undefined;
+    if (this.statusResponder && targetChanged) {
+      this.statusResponder.close();
+      this.statusResponder = null;
+    }
+
+    if (newConfig.rateLimits) {
+      this.rateLimiter.updateOptions(this.config.rateLimits!);
+    }
+    if (newConfig.trustedProxies) {
+      this.trustedProxyRanges = this.parseTrustedProxies(newConfig.trustedProxies);
+    }
+    if (newConfig.proxyProtocolV2Enabled === false) {
+      // 無効化後の新規セッションに以前のヘッダーの情報を使わない
+      this.realClientInfo.clear();
+    }
+    if (newConfig.challengeMode !== undefined && newConfig.challengeMode !== 'auto') {
+      this.setUnderAttack(false);
+    }
+    if (newConfig.maintenance && this.isRunning) {
+      // メンテナンスMOTDを返せるよう転送先のステータスを取得しておく
+      this.getStatusResponder().refresh(true);
+    }
+
+    // 転送先・負荷分散・フォールバック先が変わった場合はプールとヘルスチェックを作り直す
+    // （既存セッションは作成時の転送先を維持する）
+    const poolChanged = targetChanged || 'backends' in newConfig || 'loadBalancing' in newConfig;
+    if (poolChanged || 'fallbackHost' in newConfig || 'fallbackPort' in newConfig) {
+      this.stopHealthCheck();
+      if (poolChanged) {
+        this.backendPool = this.createBackendPool();
+        const fallback = `${this.config.fallbackHost}:${this.config.fallbackPort}`;
+        let draining = 0;
+        this.connections.forEach(connection => {
+          const key = `${connection.targetHost}:${connection.targetPort}`;
+          if (this.backendPool.get(key)) {
+            this.backendPool.acquire(key);
+          } else if (key !== fallback) {
+            draining++;
+          }
+        });
+        if (draining > 0) {
+          logger.info('udp-proxy', 'Existing sessions stay on the previous destination until they end', {
+            sessions: draining,
+            target: `${this.config.targetHost}:${this.config.targetPort}`
+          });
+        }
+      }
+      if (this.isRunning) {
+        this.setFailoverActive(false);
+        this.startHealthCheck();
+      }
+    }
+
     logger.info('udp-proxy', 'Configuration updated', { config: this.config });
   }
 
@@ -716,7 +1958,7 @@ export class UDPProxy {
     
     this.connections.forEach((connection, key) => {
       if (connection.clientAddress === clientAddress) {
-        connection.targetSocket.close();
+        this.endSession(connection, this.BAN_DISCONNECT_MESSAGE);
         blockedConnections.push(key);
       }
     });
@@ -731,18 +1973,185 @@ export class UDPProxy {
     });
   }
 
+  /**
+   * ドレインモードを設定（再起動前に新規セッションの受け付けを止める）
+   * 既存のセッションは維持し、プレイヤーの退出を待つ（新規の送信元の Ping にはキャッシュしたステータスで応答する）
+   * @param draining ドレインを開始する場合はtrue
+   * @param redirect 新規セッションを断らずにフォールバック先（forwardAddress）へ転送する
+   */
+  public setDraining(draining: boolean, redirect: boolean = false): void {
+    this.draining = draining;
+    this.redirectActive = draining && redirect && !!(this.config.fallbackHost && this.config.fallbackPort);
+    if (draining && !this.redirectActive && this.isRunning) {
+      // ドレイン中のPingに応答できるよう転送先のステータスを取得しておく
+      this.getStatusResponder().refresh(true);
+    }
+
+    logger.info('udp-proxy', draining ? 'Draining started' : 'Draining ended', {
+      sessions: this.connections.size,
+      redirect: this.redirectActive ? `${this.config.fallbackHost}:${this.config.fallbackPort}` : undefined
+    });
+  }
+
+  /**
+   * フォールバック先以外のセッションを終了する
+   * 転送先の再起動前に呼び出し、残っていたクライアントが再接続でフォールバック先へ移れるようにする
+   * @returns 終了したセッション数
+   */
+  public endPrimarySessions(): number {
+    const fallback = `${this.config.fallbackHost}:${this.config.fallbackPort}`;
+    const ended: string[] = [];
+
+    this.connections.forEach((connection, key) => {
+      if (`${connection.targetHost}:${connection.targetPort}` === fallback) return;
+      this.endSession(connection, this.RESTART_DISCONNECT_MESSAGE);
+      ended.push(key);
+    });
+    ended.forEach(key => this.connections.delete(key));
+
+    if (ended.length > 0) {
+      logger.info('udp-proxy', 'Sessions ended before restart', { sessions: ended.length });
+    }
+    return ended.length;
+  }
+
+  /**
+   * 特定のクライアントのセッションを強制切断（キック用）
+   * クライアントアドレス・真のクライアントアドレスのどちらでも一致を判定する
+   * @param address クライアントIP
+   * @param port クライアントポート（省略時はIPが一致する全セッション）
+   * @param message クライアントに表示する切断メッセージ（省略時は既定のキックメッセージ）
+   * @returns 切断したセッション数
+   */
+  public disconnectClient(address: string, port?: number, message?: string): number {
+    const disconnected: string[] = [];
+    const kickedUntil = Date.now() + this.KICK_COOLDOWN;
+
+    this.connections.forEach((connection, key) => {
+      const matchesClient = connection.clientAddress === address
+        && (port === undefined || connection.clientPort === port);
+      const matchesRealClient = connection.realClientAddress === address
+        && (port === undefined || connection.realClientPort === port);
+
+      if (matchesClient || matchesRealClient) {
+        this.endSession(connection, message || this.KICK_DISCONNECT_MESSAGE);
+        this.kickedClients.set(key, kickedUntil);
+        disconnected.push(key);
+      }
+    });
+
+    disconnected.forEach(key => {
+      this.connections.delete(key);
+    });
+
+    logger.info('udp-proxy', 'Client disconnected', {
+      client: port !== undefined ? `${address}:${port}` : address,
+      disconnectedSessions: disconnected.length
+    });
+
+    return disconnected.length;
+  }
+
+  /**
+   * バンリストを設定
+   * 設定時に該当する既存セッションは切断する
+   * @param entries IPアドレスまたはCIDRと有効期限
+   */
+  public setBanList(entries: Array<{ target: string; expiresAt?: Date }>): void {
+    // 解除されたバン（自動バンを含む）はレート制限の遮断も解除する
+    const remaining = new Set(entries.map(entry => entry.target));
+    this.banRules.forEach(rule => {
+      if (!remaining.has(rule.target)) this.rateLimiter.unblock(rule.target);
+    });
+
+    this.banRules = [];
+    for (const entry of entries) {
+      const range = parseIpRange(entry.target);
+      if (!range) {
+        logger.warn('udp-proxy', 'Ignoring invalid ban target', { target: entry.target });
+        continue;
+      }
+      this.banRules.push({ target: entry.target, range, expiresAt: entry.expiresAt?.getTime() });
+    }
+
+    const banned: string[] = [];
+    this.connections.forEach((connection, key) => {
+      if (this.isBanned(connection.clientAddress, connection.realClientAddress)) {
+        this.endSession(connection, this.BAN_DISCONNECT_MESSAGE);
+        banned.push(key);
+      }
+    });
+    banned.forEach(key => this.connections.delete(key));
+
+    logger.info('udp-proxy', 'Ban list updated', {
+      rules: this.banRules.length,
+      disconnectedSessions: banned.length
+    });
+  }
+
+  /**
+   * 許可リスト・拒否リストを設定
+   * 設定時に拒否されるようになった既存セッションは切断する
+   * @param entries XUID・ゲーマータグ・IP/CIDR のエントリ
+   * @param enabled 許可リストにないプレイヤーを拒否するか
+   */
+  public setWhitelist(entries: Array<{ type: WhitelistEntryType; value: string; mode: WhitelistMode }>, enabled: boolean): void {
+    this.whitelistEnabled = enabled;
+    this.whitelistRules = [];
+    for (const entry of entries) {
+      if (entry.type === 'ip') {
+        const range = parseIpRange(entry.value);
+        if (!range) {
+          logger.warn('udp-proxy', 'Ignoring invalid whitelist IP', { value: entry.value });
+          continue;
+        }
+        this.whitelistRules.push({ ...entry, range });
+      } else {
+        this.whitelistRules.push({ type: entry.type, value: entry.value, mode: entry.mode });
+      }
+    }
+
+    const denied: string[] = [];
+    this.connections.forEach((connection, key) => {
+      if (this.checkAccess(connection.realClientAddress ?? connection.clientAddress, connection.player) === 'denied') {
+        this.endSession(connection, this.WHITELIST_DISCONNECT_MESSAGE);
+        denied.push(key);
+      }
+    });
+    denied.forEach(key => this.connections.delete(key));
+
+    logger.info('udp-proxy', 'Whitelist updated', {
+      enabled,
+      rules: this.whitelistRules.length,
+      disconnectedSessions: denied.length
+    });
+  }
+
+  // 接続元（またはProxy Protocolで得た真のIP）がバン対象か
+  private isBanned(clientAddress: string, realClientAddress?: string): boolean {
+    if (this.banRules.length === 0) return false;
+
+    const now = Date.now();
+    return this.banRules.some(rule => {
+      if (rule.expiresAt !== undefined && now >= rule.expiresAt) return false;
+      return ipInRange(clientAddress, rule.range)
+        || (realClientAddress !== undefined && ipInRange(realClientAddress, rule.range));
+    });
+  }
+
   // 真のクライアント情報を取得(プラグインAPI用)
-  public getRealClientInfo(localAddress: string, localPort: number): { realIP: string; realPort: number } | null {
+  public getRealClientInfo(localAddress: string, localPort: number): { realIP: string; realPort: number; tlvs?: ProxyProtocolTLVs } | null {
     const connectionKey = `${localAddress}:${localPort}`;
     const connection = this.connections.get(connectionKey);
     if (connection?.realClientAddress && connection.realClientPort) {
-      return { realIP: connection.realClientAddress, realPort: connection.realClientPort };
+      return { realIP: connection.realClientAddress, realPort: connection.realClientPort, tlvs: connection.proxyTlvs };
     }
     const savedInfo = this.realClientInfo.get(localAddress);
     if (savedInfo) {
-      return { realIP: savedInfo.address, realPort: savedInfo.port };
+      return { realIP: savedInfo.address, realPort: savedInfo.port, tlvs: savedInfo.tlvs };
     }
     return null;
   }
+
 }
 
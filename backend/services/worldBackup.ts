@@ -0,0 +1,347 @@
+import { mkdir, readdir, readFile, rename, rm, stat } from "fs/promises";
+import { join, relative } from "path";
+import type { BackupRetention, WorldBackup } from "../types/index.js";
+import { dataStorage } from "./dataStorage.js";
+import { processManager, type ConsoleEvent, type ManagedProcess } from "./processManager.js";
+import { extractZip, toZipPath, ZipWriter } from "./zipArchive.js";
+
+/**
+ * Bedrock サーバーのワールドを ZIP でバックアップ・復元する
+ * 稼働中のサーバーは save hold / save query / save resume で書き込みを止め、
+ * save query が返したファイルを返された長さまでコピーする（LevelDB の一貫したスナップショット）
+ */
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = { maxCount: 10, maxAgeDays: 0 };
+export const MAX_BACKUP_RETENTION_COUNT = 100;
+export const MAX_BACKUP_RETENTION_DAYS = 365;
+
+const DEFAULT_LEVEL_NAME = "Bedrock level";
+const SAVE_QUERY_INTERVAL = 1000; // save query を繰り返す間隔（ミリ秒）
+const SAVE_QUERY_ATTEMPTS = 30; // ファイルの準備ができるまで save query を送る回数
+const SAVE_QUERY_SETTLE = 300; // ファイル一覧の出力が途切れてから解析するまでの時間（ミリ秒）
+const SAVE_QUERY_TIMEOUT = 60 * 1000; // ファイル一覧を受け取り終えるまでの上限（ミリ秒）
+const SAVE_QUERY_READY = "Files are now ready to be copied";
+
+// ファイル名は "<serverId>__<作成日時>.zip"（ID は拡張子を除いたファイル名）
+const BACKUP_ID_PATTERN = /^[\w-]+__[\w-]+$/;
+
+interface SnapshotFile {
+  path: string; // ワールドのディレクトリからの相対パス（"/" 区切り）
+  length: number; // コピーするバイト数
+}
+
+/**
+ * server.properties の level-name（読めない場合は既定のワールド名）
+ */
+export async function readLevelName(serverDirectory: string): Promise<string> {
+  try {
+    const properties = await readFile(join(serverDirectory, "server.properties"), "utf-8");
+    const line = properties.split(/\r?\n/).find(l => /^\s*level-name\s*=/.test(l));
+    const value = line?.slice(line.indexOf("=") + 1).trim();
+    return value || DEFAULT_LEVEL_NAME;
+  } catch {
+    return DEFAULT_LEVEL_NAME;
+  }
+}
+
+/**
+ * save query の出力からファイル一覧を取り出す
+ * 形式: "<ワールド名>/db/000005.ldb:1234, <ワールド名>/level.dat:2048, ..."
+ * @returns ワールド名で始まるエントリ（ワールド名を除いたパス）
+ */
+export function parseSaveQueryFiles(output: string, levelName: string): SnapshotFile[] {
+  const prefix = `${levelName}/`;
+  const files: SnapshotFile[] = [];
+
+  for (const token of output.split(/,\s*/)) {
+    const separator = token.lastIndexOf(":");
+    if (separator <= 0) continue;
+
+    const path = token.slice(0, separator).trim().replace(/\\/g, "/");
+    const length = Number(token.slice(separator + 1));
+    if (!path.startsWith(prefix) || !Number.isInteger(length) || length < 0) continue;
+
+    files.push({ path: path.slice(prefix.length), length });
+  }
+  return files;
+}
+
+/**
+ * サーバーごとのワールドのバックアップを管理
+ * 一覧は DataStorage に保存し、ZIP ファイルは directory に置く
+ */
+export class WorldBackupManager {
+  private backups = new Map<string, WorldBackup[]>(); // serverId -> バックアップ（新しい順）
+
+  constructor(private directory: string) {}
+
+  public async load(): Promise<void> {
+    const stored = await dataStorage.loadWorldBackups();
+    Object.entries(stored).forEach(([serverId, backups]) => {
+      this.backups.set(serverId, backups);
+    });
+  }
+
+  public list(serverId: string): WorldBackup[] {
+    return this.backups.get(serverId) ?? [];
+  }
+
+  public get(backupId: string): WorldBackup | null {
+    for (const backups of this.backups.values()) {
+      const backup = backups.find(b => b.id === backupId);
+      if (backup) return backup;
+    }
+    return null;
+  }
+
+  /**
+   * ワールドを ZIP にまとめる
+   * @param hot 稼働中のサーバープロセスに save hold を送って書き込みを止める
+   */
+  public async create(
+    serverId: string,
+    serverDirectory: string,
+    trigger: WorldBackup["trigger"],
+    hot: boolean
+  ): Promise<WorldBackup> {
+    await mkdir(this.directory, { recursive: true });
+
+    const worldName = await readLevelName(serverDirectory);
+    const worldDirectory = join(serverDirectory, "worlds", worldName);
+    try {
+      await stat(worldDirectory);
+    } catch {
+      throw new Error(`World directory not found: ${worldDirectory}`);
+    }
+
+    const createdAt = new Date();
+    const stamp = createdAt.toISOString().replace(/[-:]/g, '').replace('T', '-').replace(/\..*$/, '');
+    let id = `${serverId}__${stamp}`;
+    for (let suffix = 2; this.get(id); suffix++) {
+      id = `${serverId}__${stamp}-${suffix}`;
+    }
+
+    const fileName = `${id}.zip`;
+    const finalPath = join(this.directory, fileName);
+    const partialPath = `${finalPath}.partial`;
+    const writer = await ZipWriter.create(partialPath);
+    let size: number;
+
+    try {
+      if (hot) {
+        await this.writeHotSnapshot(serverId, worldName, worldDirectory, writer);
+      } else {
+        await this.writeDirectory(worldDirectory, worldDirectory, writer);
+      }
+      size = await writer.finish();
+      await rename(partialPath, finalPath);
+    } catch (error) {
+      await writer.abort();
+      await rm(partialPath, { force: true }).catch(() => {});
+      throw error;
+    }
+
+    const backup: WorldBackup = {
+      id,
+      serverId,
+      fileName,
+      worldName,
+      size,
+      fileCount: writer.entryCount,
+      method: hot ? "hot" : "offline",
+      trigger,
+      createdAt
+    };
+    this.backups.set(serverId, [backup, ...this.list(serverId)]);
+    await this.save();
+    return backup;
+  }
+
+  /**
+   * 保存条件を超えた古いバックアップを削除（keepId のバックアップは残す）
+   * @returns 削除したバックアップ
+   */
+  public async applyRetention(serverId: string, retention: BackupRetention, keepId?: string): Promise<WorldBackup[]> {
+    const now = Date.now();
+    const maxAge = retention.maxAgeDays * 24 * 60 * 60 * 1000;
+    const expired = this.list(serverId).filter((backup, index) =>
+      backup.id !== keepId && (
+        (retention.maxCount > 0 && index >= retention.maxCount)
+        || (retention.maxAgeDays > 0 && now - backup.createdAt.getTime() > maxAge)
+      )
+    );
+
+    for (const backup of expired) {
+      await this.removeFile(backup);
+    }
+    if (expired.length > 0) {
+      this.backups.set(serverId, this.list(serverId).filter(backup => !expired.includes(backup)));
+      await this.save();
+    }
+    return expired;
+  }
+
+  /**
+   * バックアップをワールドのディレクトリに展開して置き換える（サーバーは停止しておくこと）
+   * 置き換え前のワールドは "<ワールド名>.before-restore" として1世代だけ残す
+   * @throws Error 現在の level-name がバックアップのワールドと異なる場合（別のワールドを上書きしない）
+   */
+  public async restore(backup: WorldBackup, serverDirectory: string): Promise<void> {
+    const worldName = await readLevelName(serverDirectory);
+    if (worldName !== backup.worldName) {
+      throw new Error(`The backup is of world "${backup.worldName}", but the server is set to load "${worldName}"`);
+    }
+    const worldDirectory = join(serverDirectory, "worlds", backup.worldName);
+    const staging = `${worldDirectory}.restoring`;
+    const previous = `${worldDirectory}.before-restore`;
+
+    // 展開に失敗しても現在のワールドには触れない
+    await rm(staging, { recursive: true, force: true });
+    try {
+      await extractZip(join(this.directory, backup.fileName), staging);
+    } catch (error) {
+      await rm(staging, { recursive: true, force: true }).catch(() => {});
+      throw error;
+    }
+
+    await rm(previous, { recursive: true, force: true });
+    try {
+      await rename(worldDirectory, previous);
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+    await rename(staging, worldDirectory);
+  }
+
+  public async remove(backupId: string): Promise<WorldBackup | null> {
+    const backup = this.get(backupId);
+    if (!backup) return null;
+
+    await this.removeFile(backup);
+    this.backups.set(backup.serverId, this.list(backup.serverId).filter(b => b.id !== backupId));
+    await this.save();
+    return backup;
+  }
+
+  private async removeFile(backup: WorldBackup): Promise<void> {
+    if (!BACKUP_ID_PATTERN.test(backup.id)) return;
+    await rm(join(this.directory, backup.fileName), { force: true });
+  }
+
+  private async save(): Promise<void> {
+    await dataStorage.saveWorldBackups(Object.fromEntries(this.backups));
+  }
+
+  // 停止中のワールドのファイルをすべて追加
+  private async writeDirectory(root: string, directory: string, writer: ZipWriter): Promise<void> {
+    const entries = await readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        await this.writeDirectory(root, path, writer);
+      } else if (entry.isFile()) {
+        const { mtime } = await stat(path);
+        await writer.addFile(toZipPath(relative(root, path)), await readFile(path), mtime);
+      }
+    }
+  }
+
+  // save hold で書き込みを止め、save query が返したファイルを返された長さまで追加する
+  private async writeHotSnapshot(
+    serverId: string,
+    worldName: string,
+    worldDirectory: string,
+    writer: ZipWriter
+  ): Promise<void> {
+    processManager.sendCommand(serverId, "save hold");
+    try {
+      const files = await this.waitForSnapshot(serverId, worldName);
+      if (files.length === 0) {
+        throw new Error("save query did not list any world files");
+      }
+
+      for (const file of files) {
+        const path = join(worldDirectory, ...file.path.split("/"));
+        const data = await readFile(path);
+        const { mtime } = await stat(path);
+        await writer.addFile(file.path, data.subarray(0, Math.min(file.length, data.length)), mtime);
+      }
+    } finally {
+      try {
+        processManager.sendCommand(serverId, "save resume");
+      } catch (error) {
+        console.warn(`⚠️ Failed to resume saving for ${serverId}:`, error);
+      }
+    }
+  }
+
+  // ファイルの準備ができるまで save query を繰り返し、続けて出力されるファイル一覧を返す
+  // 一覧を受け取り終える前に上限時間を過ぎた場合・プロセスが終了した場合は失敗
+  private waitForSnapshot(serverId: string, worldName: string): Promise<SnapshotFile[]> {
+    return new Promise((resolve, reject) => {
+      let ready = false;
+      let attempts = 0;
+      let listing: string[] = [];
+      let settle: NodeJS.Timeout | null = null;
+
+      const finish = () => {
+        clearInterval(query);
+        clearTimeout(deadline);
+        if (settle) clearTimeout(settle);
+        processManager.off("consoleOutput", onOutput);
+        processManager.off("processStatusChanged", onStatus);
+      };
+
+      const onStatus = (event: { serverId: string; status: ManagedProcess["status"] }) => {
+        if (event.serverId !== serverId || (event.status !== "stopped" && event.status !== "error")) return;
+        finish();
+        reject(new Error("The server process exited before the world files were listed"));
+      };
+
+      const onOutput = (event: ConsoleEvent) => {
+        if (event.serverId !== serverId) return;
+        // 先頭の時刻（ProcessManager が付ける）だけを除き、分割された一覧の空白は残す
+        const line = event.line.replace(/^\[[^\]]*\] /, "").replace(/\r$/, "");
+
+        if (!ready) {
+          if (line.includes(SAVE_QUERY_READY)) {
+            ready = true;
+            clearInterval(query);
+          }
+          return;
+        }
+
+        // 長い一覧は出力の区切りで分割されるため、ログ行・コマンドの表示以外をつなげる
+        if (!line.trim() || line.startsWith("[") || line.startsWith(">")) return;
+        listing.push(line);
+        if (settle) clearTimeout(settle);
+        settle = setTimeout(() => {
+          finish();
+          resolve(parseSaveQueryFiles(listing.join(""), worldName));
+        }, SAVE_QUERY_SETTLE);
+      };
+
+      const query = setInterval(() => {
+        if (++attempts > SAVE_QUERY_ATTEMPTS) {
+          finish();
+          reject(new Error("Timed out waiting for the server to prepare the world files"));
+          return;
+        }
+        try {
+          processManager.sendCommand(serverId, "save query");
+        } catch (error) {
+          finish();
+          reject(error);
+        }
+      }, SAVE_QUERY_INTERVAL);
+
+      const deadline = setTimeout(() => {
+        finish();
+        reject(new Error("Timed out waiting for the list of world files"));
+      }, SAVE_QUERY_TIMEOUT);
+
+      processManager.on("consoleOutput", onOutput);
+      processManager.on("processStatusChanged", onStatus);
+    });
+  }
+}
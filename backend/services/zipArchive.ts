@@ -0,0 +1,306 @@
+import { open, mkdir, writeFile, type FileHandle } from "fs/promises";
+import { dirname, join, resolve, sep } from "path";
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+/**
+ * ワールドのバックアップ用の ZIP 書き込み・読み込み
+ * 圧縮は deflate（小さくならないファイルは無圧縮）。ZIP64 には対応しないため、
+ * アーカイブ・各ファイルとも 4GiB 未満、エントリ数は 65535 まで
+ */
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION = 20; // 2.0（deflate）
+const FLAG_UTF8 = 0x0800;
+const MAX_UINT32 = 0xFFFFFFFF;
+const MAX_ENTRIES = 0xFFFF;
+const EOCD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xFFFF;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number; // ローカルファイルヘッダーの位置
+  modifiedAt: Date;
+}
+
+let crc32Table: Uint32Array | null = null;
+
+/**
+ * CRC-32（ZIP で使う IEEE 802.3 の多項式）を計算
+ */
+export function crc32(data: Buffer): number {
+  if (!crc32Table) {
+    crc32Table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let value = i;
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? (value >>> 1) ^ 0xEDB88320 : value >>> 1;
+      }
+      crc32Table[i] = value >>> 0;
+    }
+  }
+
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = crc32Table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// MS-DOS 形式の日時（2秒単位、1980年以降）
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7F) + 1980,
+    ((date >> 5) & 0x0F) - 1,
+    date & 0x1F,
+    (time >> 11) & 0x1F,
+    (time >> 5) & 0x3F,
+    (time & 0x1F) * 2
+  );
+}
+
+/**
+ * ファイルに ZIP を順に書き出す（エントリごとにメモリ上で圧縮する）
+ */
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+
+  private constructor(private handle: FileHandle) {}
+
+  public static async create(path: string): Promise<ZipWriter> {
+    return new ZipWriter(await open(path, "w"));
+  }
+
+  public get entryCount(): number {
+    return this.entries.length;
+  }
+
+  // name は "/" 区切りの相対パス
+  public async addFile(name: string, data: Buffer, modifiedAt: Date = new Date()): Promise<void> {
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error(`ZIP archives are limited to ${MAX_ENTRIES} entries`);
+    }
+    if (data.length >= MAX_UINT32) {
+      throw new Error(`File is too large for a ZIP archive: ${name}`);
+    }
+
+    const deflated = deflateRawSync(data);
+    const method = deflated.length < data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const body = method === METHOD_DEFLATE ? deflated : data;
+    const nameBytes = Buffer.from(name, "utf-8");
+    const entry: ZipEntry = {
+      name,
+      method,
+      crc: crc32(data),
+      compressedSize: body.length,
+      size: data.length,
+      offset: this.offset,
+      modifiedAt
+    };
+
+    if (this.offset + 30 + nameBytes.length + body.length >= MAX_UINT32) {
+      throw new Error("ZIP archive would exceed 4GiB");
+    }
+
+    const { time, date } = toDosDateTime(modifiedAt);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+    header.writeUInt16LE(0, 28); // 拡張フィールドなし
+
+    await this.write(Buffer.concat([header, nameBytes, body]));
+    this.entries.push(entry);
+  }
+
+  /**
+   * セントラルディレクトリを書き込んで閉じる
+   * @returns アーカイブのサイズ（バイト）
+   */
+  public async finish(): Promise<number> {
+    const centralOffset = this.offset;
+    const records = this.entries.map(entry => {
+      const nameBytes = Buffer.from(entry.name, "utf-8");
+      const { time, date } = toDosDateTime(entry.modifiedAt);
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      record.writeUInt16LE(VERSION, 4); // 作成したバージョン
+      record.writeUInt16LE(VERSION, 6); // 展開に必要なバージョン
+      record.writeUInt16LE(FLAG_UTF8, 8);
+      record.writeUInt16LE(entry.method, 10);
+      record.writeUInt16LE(time, 12);
+      record.writeUInt16LE(date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(nameBytes.length, 28);
+      // 拡張フィールド・コメント・ディスク番号・属性は 0
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, nameBytes]);
+    });
+    const central = Buffer.concat(records);
+
+    const end = Buffer.alloc(EOCD_SIZE);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(central.length, 12);
+    end.writeUInt32LE(centralOffset, 16);
+
+    await this.write(Buffer.concat([central, end]));
+    await this.handle.close();
+    return this.offset;
+  }
+
+  // 書き込みを中断してファイルを閉じる（ファイルの削除は呼び出し元で行う）
+  public async abort(): Promise<void> {
+    await this.handle.close().catch(() => {});
+  }
+
+  private async write(buffer: Buffer): Promise<void> {
+    await this.handle.write(buffer, 0, buffer.length, this.offset);
+    this.offset += buffer.length;
+  }
+}
+
+/**
+ * ZIP のエントリ一覧をセントラルディレクトリから読み出す
+ * @throws Error ZIP として読めない場合
+ */
+export async function readZipEntries(path: string): Promise<ZipEntry[]> {
+  const handle = await open(path, "r");
+  try {
+    return await readEntries(handle);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readEntries(handle: FileHandle): Promise<ZipEntry[]> {
+  const { size } = await handle.stat();
+  const tailSize = Math.min(size, EOCD_SIZE + MAX_COMMENT_SIZE);
+  const tail = Buffer.alloc(tailSize);
+  await handle.read(tail, 0, tailSize, size - tailSize);
+
+  // 末尾のコメントを飛ばして終端レコードを探す
+  let endOffset = -1;
+  for (let i = tailSize - EOCD_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const count = tail.readUInt16LE(endOffset + 10);
+  const centralSize = tail.readUInt32LE(endOffset + 12);
+  const centralOffset = tail.readUInt32LE(endOffset + 16);
+  if (centralOffset + centralSize > size) {
+    throw new Error("ZIP central directory is out of range");
+  }
+
+  const central = Buffer.alloc(centralSize);
+  await handle.read(central, 0, centralSize, centralOffset);
+
+  const entries: ZipEntry[] = [];
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > central.length || central.readUInt32LE(position) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Invalid ZIP central directory");
+    }
+    const nameLength = central.readUInt16LE(position + 28);
+    const extraLength = central.readUInt16LE(position + 30);
+    const commentLength = central.readUInt16LE(position + 32);
+    entries.push({
+      name: central.toString("utf-8", position + 46, position + 46 + nameLength),
+      method: central.readUInt16LE(position + 10),
+      crc: central.readUInt32LE(position + 16),
+      compressedSize: central.readUInt32LE(position + 20),
+      size: central.readUInt32LE(position + 24),
+      offset: central.readUInt32LE(position + 42),
+      modifiedAt: fromDosDateTime(central.readUInt16LE(position + 12), central.readUInt16LE(position + 14))
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * ZIP を destination 以下に展開する（destination の外を指すエントリは拒否）
+ * @returns 展開したファイル数
+ */
+export async function extractZip(path: string, destination: string): Promise<number> {
+  const root = resolve(destination);
+  const handle = await open(path, "r");
+  try {
+    const entries = await readEntries(handle);
+    let extracted = 0;
+
+    for (const entry of entries) {
+      const target = resolve(root, entry.name);
+      if (target !== root && !target.startsWith(root + sep)) {
+        throw new Error(`ZIP entry escapes the destination: ${entry.name}`);
+      }
+      if (entry.name.endsWith("/")) {
+        await mkdir(target, { recursive: true });
+        continue;
+      }
+      if (entry.method !== METHOD_STORE && entry.method !== METHOD_DEFLATE) {
+        throw new Error(`Unsupported compression method ${entry.method}: ${entry.name}`);
+      }
+
+      // ローカルヘッダーの可変長部分を読み飛ばしてデータを読む
+      const header = Buffer.alloc(30);
+      await handle.read(header, 0, 30, entry.offset);
+      if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Invalid ZIP local header: ${entry.name}`);
+      }
+      const dataOffset = entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+      const body = Buffer.alloc(entry.compressedSize);
+      await handle.read(body, 0, body.length, dataOffset);
+
+      const data = entry.method === METHOD_DEFLATE ? inflateRawSync(body) : body;
+      if (data.length !== entry.size || crc32(data) !== entry.crc) {
+        throw new Error(`ZIP entry is corrupted: ${entry.name}`);
+      }
+
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, data);
+      extracted++;
+    }
+
+    return extracted;
+  } finally {
+    await handle.close();
+  }
+}
+
+// ZIP 内のパス（"/" 区切り）に変換
+export function toZipPath(...segments: string[]): string {
+  return join(...segments).split(sep).join("/");
+}
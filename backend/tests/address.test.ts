@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { formatHostPort, isValidHostPort, parseHostPort, socketTypeFor, unmapIPv4 } from '../services/address.js';
+
+describe('parseHostPort', () => {
+  test('reads IPv4, host name and bracketed IPv6 addresses', () => {
+    expect(parseHostPort('127.0.0.1:19132')).toEqual({ host: '127.0.0.1', port: 19132 });
+    expect(parseHostPort(' play.example.com:19133 ')).toEqual({ host: 'play.example.com', port: 19133 });
+    expect(parseHostPort('[::1]:19132')).toEqual({ host: '::1', port: 19132 });
+    expect(parseHostPort('[2001:db8::5]:1')).toEqual({ host: '2001:db8::5', port: 1 });
+  });
+
+  test('rejects unbracketed IPv6, missing hosts and out-of-range ports', () => {
+    for (const value of ['::1:19132', '2001:db8::5', ':19132', '127.0.0.1', '127.0.0.1:0', '127.0.0.1:65536', '[example.com]:19132', 'bad host:1']) {
+      expect(parseHostPort(value)).toBeNull();
+      expect(isValidHostPort(value)).toBe(false);
+    }
+  });
+});
+
+describe('formatHostPort', () => {
+  test('brackets IPv6 hosts only and round-trips through parseHostPort', () => {
+    expect(formatHostPort('::1', 19132)).toBe('[::1]:19132');
+    expect(formatHostPort('192.0.2.1', 19132)).toBe('192.0.2.1:19132');
+    expect(formatHostPort('example.com', 19132)).toBe('example.com:19132');
+    expect(parseHostPort(formatHostPort('2001:db8::1', 19132))).toEqual({ host: '2001:db8::1', port: 19132 });
+  });
+});
+
+describe('socketTypeFor / unmapIPv4', () => {
+  test('uses an IPv6 socket only for IPv6 literals', () => {
+    expect(socketTypeFor('::1')).toBe('udp6');
+    expect(socketTypeFor('127.0.0.1')).toBe('udp4');
+    expect(socketTypeFor('example.com')).toBe('udp4');
+  });
+
+  test('turns IPv4-mapped addresses back into IPv4', () => {
+    expect(unmapIPv4('::ffff:192.0.2.1')).toBe('192.0.2.1');
+    expect(unmapIPv4('::FFFF:192.0.2.1')).toBe('192.0.2.1');
+    expect(unmapIPv4('2001:db8::1')).toBe('2001:db8::1');
+  });
+});
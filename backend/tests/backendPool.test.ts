@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+import { BackendPool, type Backend } from '../services/backendPool.js';
+
+function keys(pool: BackendPool, count: number, affinityKey?: string): Array<string | undefined> {
+  return Array.from({ length: count }, () => pool.select(affinityKey)?.key);
+}
+
+// Simulates the health checker marking a backend up or down
+function setHealthy(backend: Backend | undefined, healthy: boolean): void {
+  backend!.healthy = healthy;
+  backend!.currentWeight = 0;
+}
+
+describe('BackendPool', () => {
+  test('drops duplicate destinations and clamps weights', () => {
+    const pool = new BackendPool([
+      { host: '10.0.0.1', port: 19132, weight: 0 },
+      { host: '10.0.0.1', port: 19132, weight: 5 },
+      { host: '10.0.0.2', port: 19132, weight: 2.7 },
+    ]);
+    expect(pool.size).toBe(2);
+    expect(pool.getStatus().map((status) => [status.address, status.weight])).toEqual([
+      ['10.0.0.1:19132', 1],
+      ['10.0.0.2:19132', 2],
+    ]);
+  });
+
+  test('rotates through backends with round-robin', () => {
+    const pool = new BackendPool([
+      { host: 'a', port: 1 },
+      { host: 'b', port: 1 },
+      { host: 'c', port: 1 },
+    ]);
+    expect(keys(pool, 4)).toEqual(['a:1', 'b:1', 'c:1', 'a:1']);
+  });
+
+  test('spreads weighted selections smoothly by weight', () => {
+    const pool = new BackendPool([
+      { host: 'a', port: 1, weight: 5 },
+      { host: 'b', port: 1, weight: 1 },
+      { host: 'c', port: 1, weight: 1 },
+    ], 'weighted');
+    expect(keys(pool, 7)).toEqual(['a:1', 'a:1', 'b:1', 'a:1', 'c:1', 'a:1', 'a:1']);
+  });
+
+  test('picks the backend with the fewest sessions with least-connections', () => {
+    const pool = new BackendPool([
+      { host: 'a', port: 1 },
+      { host: 'b', port: 1 },
+    ], 'least-connections');
+    pool.acquire('a:1');
+    pool.acquire('a:1');
+    pool.acquire('b:1');
+    expect(pool.select()?.key).toBe('b:1');
+
+    pool.release('a:1');
+    pool.release('a:1');
+    pool.release('a:1');
+    expect(pool.get('a:1')?.activeSessions).toBe(0);
+    expect(pool.select()?.key).toBe('a:1');
+  });
+
+  test('keeps a client on the same backend while it stays healthy', () => {
+    const pool = new BackendPool([
+      { host: 'a', port: 1 },
+      { host: 'b', port: 1 },
+    ]);
+    const first = pool.select('203.0.113.5')?.key;
+    expect(keys(pool, 3, '203.0.113.5')).toEqual([first, first, first]);
+
+    setHealthy(pool.get(first!), false);
+    const moved = pool.select('203.0.113.5')?.key;
+    expect(moved).not.toBe(first);
+    expect(moved).toBeDefined();
+  });
+
+  test('skips unhealthy backends and returns null when none are left', () => {
+    const pool = new BackendPool([
+      { host: 'a', port: 1 },
+      { host: 'b', port: 1 },
+    ]);
+    setHealthy(pool.get('a:1'), false);
+    expect(keys(pool, 3)).toEqual(['b:1', 'b:1', 'b:1']);
+    expect(pool.hasHealthy()).toBe(true);
+
+    setHealthy(pool.get('b:1'), false);
+    expect(pool.select()).toBeNull();
+    expect(pool.hasHealthy()).toBe(false);
+  });
+});
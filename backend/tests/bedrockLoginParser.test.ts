@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import {
+  BedrockLoginDecoder,
+  buildDisconnectPacket,
+  decodeGamePacketBatch,
+  parseLoginPacket,
+} from '../services/bedrockLoginParser.js';
+import { logger, LogLevel } from '../services/logger.js';
+import {
+  buildClientData,
+  buildLoginFrameSet,
+  buildLoginPacket,
+  buildOfflineChain,
+  buildSplitFrameSet,
+  buildXboxChain,
+  createSigningKey,
+  signJwt,
+  tamperJwt,
+} from './helpers/login.js';
+
+const STEVE = { displayName: 'Steve', XUID: '2535400000000001', identity: '11111111-2222-3333-4444-555555555555' };
+
+const root = createSigningKey();
+const xbox = createSigningKey();
+const client = createSigningKey();
+const TRUSTED = [root.publicKey];
+
+function parse(chain: string[], clientData = buildClientData(client)) {
+  return parseLoginPacket(buildLoginPacket(chain, clientData), TRUSTED);
+}
+
+let logLevel: LogLevel;
+
+beforeAll(() => {
+  logLevel = logger.getLogLevel();
+  logger.setLogLevel(LogLevel.ERROR);
+});
+
+afterAll(() => {
+  logger.setLogLevel(logLevel);
+});
+
+describe('parseLoginPacket', () => {
+  test('reads the identity of a chain signed from the trusted root', () => {
+    expect(parse(buildXboxChain(client, root, xbox, STEVE))).toEqual({
+      displayName: 'Steve',
+      xuid: '2535400000000001',
+      identity: STEVE.identity,
+      authenticated: true,
+      protocolVersion: 766,
+      clientVersion: '1.21.50',
+      deviceOS: 'Windows',
+      deviceModel: 'Test PC',
+    });
+  });
+
+  test('treats a self-signed offline chain as unauthenticated', () => {
+    const login = parse(buildOfflineChain(client, STEVE));
+    expect(login).toMatchObject({ displayName: 'Steve', xuid: '', authenticated: false });
+    expect(login?.identity).toBeUndefined();
+  });
+
+  test('does not trust a chain rooted in another key', () => {
+    const login = parseLoginPacket(buildLoginPacket(buildXboxChain(client, root, xbox, STEVE), buildClientData(client)));
+    expect(login).toMatchObject({ xuid: '', authenticated: false });
+  });
+
+  test('rejects an identity that was changed after signing', () => {
+    const chain = buildXboxChain(client, root, xbox, STEVE);
+    chain[2] = tamperJwt(chain[2], { extraData: { ...STEVE, XUID: '2535400000000002' }, identityPublicKey: client.publicKey });
+    expect(parse(chain)).toMatchObject({ xuid: '', authenticated: false });
+  });
+
+  test('ignores identities outside the Xbox-signed link', () => {
+    const chain = buildXboxChain(client, root, xbox, STEVE);
+    chain[0] = signJwt(client, {
+      certificateAuthority: true,
+      identityPublicKey: root.publicKey,
+      extraData: { displayName: 'Mallory', XUID: '2535400000000666' },
+    });
+    expect(parse(chain)).toMatchObject({ displayName: 'Steve', xuid: STEVE.XUID, authenticated: true });
+  });
+
+  test('does not accept a chain replayed with another client key', () => {
+    const other = createSigningKey();
+    expect(parse(buildXboxChain(client, root, xbox, STEVE), buildClientData(other))).toMatchObject({
+      xuid: '',
+      authenticated: false,
+    });
+  });
+
+  test('does not accept an expired chain', () => {
+    const expired = Math.floor(Date.now() / 1000) - 3600;
+    expect(parse(buildXboxChain(client, root, xbox, STEVE, expired))).toMatchObject({ authenticated: false });
+  });
+
+  test('returns null for other packets and chains without a name', () => {
+    expect(parseLoginPacket(Buffer.from([0x02, 0x00]), TRUSTED)).toBeNull();
+    expect(parse([signJwt(client, { identityPublicKey: client.publicKey })])).toBeNull();
+  });
+});
+
+describe('BedrockLoginDecoder', () => {
+  test('finds the Login in a frame set and stops decoding afterwards', () => {
+    const decoder = new BedrockLoginDecoder(TRUSTED);
+    const login = buildLoginPacket(buildXboxChain(client, root, xbox, STEVE), buildClientData(client));
+    expect(decoder.push(buildLoginFrameSet(0, login))).toMatchObject({ displayName: 'Steve', authenticated: true });
+    expect(decoder.isFinished()).toBe(true);
+    expect(decoder.push(buildLoginFrameSet(1, login))).toBeNull();
+  });
+
+  test('gives up when a split frame cannot be reassembled', () => {
+    const decoder = new BedrockLoginDecoder(TRUSTED);
+    for (let id = 0; id < 4; id++) {
+      decoder.push(buildSplitFrameSet(id, { id, index: 0, count: 2 }, Buffer.from('part')));
+    }
+    expect(decoder.isFinished()).toBe(false);
+
+    // A fifth pending split might carry the Login, so the decoder cannot vouch for the session anymore
+    decoder.push(buildSplitFrameSet(4, { id: 4, index: 0, count: 2 }, Buffer.from('part')));
+    expect(decoder.isFinished()).toBe(true);
+  });
+
+  test('gives up after too many frame sets without a Login', () => {
+    const decoder = new BedrockLoginDecoder(TRUSTED);
+    for (let sequence = 0; sequence < 256; sequence++) {
+      decoder.push(buildLoginFrameSet(sequence, Buffer.from([0x02, 0x00])));
+    }
+    expect(decoder.isFinished()).toBe(false);
+    decoder.push(buildLoginFrameSet(256, Buffer.from([0x02, 0x00])));
+    expect(decoder.isFinished()).toBe(true);
+  });
+});
+
+describe('buildDisconnectPacket', () => {
+  test('builds a batch the client can decode for old and new protocols', () => {
+    for (const protocolVersion of [600, 766]) {
+      const packets = decodeGamePacketBatch(buildDisconnectPacket('Bye', protocolVersion));
+      expect(packets).toHaveLength(1);
+      expect(packets![0][0]).toBe(0x05);
+      expect(packets![0].includes(Buffer.from('Bye'))).toBe(true);
+    }
+  });
+});
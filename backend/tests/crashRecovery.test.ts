@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  CRASH_LOOP_MAX_CRASHES,
+  CRASH_LOOP_WINDOW,
+  planCrashRecovery,
+  type CrashRecoveryPlan,
+} from '../services/crashRecovery.js';
+
+const T = Date.parse('2026-01-05T10:00:00.000Z');
+
+// Plans each crash in turn, carrying the crash history over like ServerManager does
+function crashAt(times: number[], autoRestart = true): CrashRecoveryPlan[] {
+  let crashes: string[] = [];
+  return times.map((time) => {
+    const plan = planCrashRecovery(crashes, autoRestart, time);
+    crashes = plan.crashes;
+    return plan;
+  });
+}
+
+describe('planCrashRecovery', () => {
+  test('doubles the restart delay with each crash and gives up on a crash loop', () => {
+    const plans = crashAt([0, 10, 30, 70, 150].map((seconds) => T + seconds * 1000));
+    expect(plans.map((plan) => plan.action)).toEqual(['restart', 'restart', 'restart', 'restart', 'gaveUp']);
+    expect(plans.map((plan) => plan.restartDelay)).toEqual([5, 10, 20, 40, undefined]);
+    expect(plans[CRASH_LOOP_MAX_CRASHES - 1].crashes).toHaveLength(CRASH_LOOP_MAX_CRASHES);
+  });
+
+  test('forgets crashes older than the crash-loop window', () => {
+    const plans = crashAt([T, T + 1000, T + 2000, T + 1000 + CRASH_LOOP_WINDOW]);
+    expect(plans[3].crashes).toEqual([new Date(T + 2000).toISOString(), new Date(T + 1000 + CRASH_LOOP_WINDOW).toISOString()]);
+    expect(plans[3].restartDelay).toBe(10);
+  });
+
+  test('only records the crash when auto-restart is off', () => {
+    const plans = crashAt([T, T + 1000], false);
+    expect(plans[1]).toEqual({
+      crashes: [new Date(T).toISOString(), new Date(T + 1000).toISOString()],
+      action: 'none',
+    });
+  });
+});
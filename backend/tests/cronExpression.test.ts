@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { CronParseError, getNextRun, getNextRuns, parseCron } from '../services/cronExpression.js';
+
+// Local wall-clock time as "YYYY-MM-DD HH:MM"
+function local(date: Date | null): string | null {
+  if (!date) return null;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function nextRuns(expression: string, after: Date, count: number): Array<string | null> {
+  return getNextRuns(parseCron(expression), after, count).map(local);
+}
+
+let timeZone: string | undefined;
+
+beforeAll(() => {
+  // A zone with daylight saving time; the schedule works in server local time
+  timeZone = process.env.TZ;
+  process.env.TZ = 'America/New_York';
+});
+
+afterAll(() => {
+  if (timeZone === undefined) delete process.env.TZ;
+  else process.env.TZ = timeZone;
+});
+
+describe('parseCron', () => {
+  test('expands ranges, lists, steps and names', () => {
+    const schedule = parseCron('0-30/10 9-17/4 1,15 JAN-MAR mon-fri');
+    expect([...schedule.minutes]).toEqual([0, 10, 20, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  test('treats 7 as Sunday and expands macros', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+    expect(parseCron('@hourly')).toEqual(parseCron('0 * * * *'));
+  });
+
+  test('counts day fields starting with * as unrestricted', () => {
+    expect(parseCron('0 0 * * *')).toMatchObject({ daysOfMonthRestricted: false, daysOfWeekRestricted: false });
+    expect(parseCron('0 0 */2 * */2')).toMatchObject({ daysOfMonthRestricted: false, daysOfWeekRestricted: false });
+    expect(parseCron('0 0 1 * MON')).toMatchObject({ daysOfMonthRestricted: true, daysOfWeekRestricted: true });
+  });
+
+  test('rejects malformed expressions', () => {
+    for (const expression of ['', '* * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '5-1 * * * *', '*/0 * * * *', 'x * * * *']) {
+      expect(() => parseCron(expression)).toThrow(CronParseError);
+    }
+  });
+});
+
+describe('getNextRun', () => {
+  test('starts at the next minute', () => {
+    expect(nextRuns('*/15 * * * *', new Date(2026, 0, 5, 10, 15, 30), 3)).toEqual([
+      '2026-01-05 10:30',
+      '2026-01-05 10:45',
+      '2026-01-05 11:00',
+    ]);
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // 2026-01-01 is a Thursday
+    expect(nextRuns('0 12 13 * FRI', new Date(2026, 0, 1), 3)).toEqual([
+      '2026-01-02 12:00',
+      '2026-01-09 12:00',
+      '2026-01-13 12:00',
+    ]);
+  });
+
+  test('requires both day fields when one starts with *', () => {
+    // Every other day of the month (1, 3, 5, ...) that is a Monday
+    expect(nextRuns('0 0 */2 * MON', new Date(2026, 0, 1), 3)).toEqual([
+      '2026-01-05 00:00',
+      '2026-01-19 00:00',
+      '2026-02-09 00:00',
+    ]);
+    // Day 1 of the month that also falls on Sunday, Tuesday, Thursday or Saturday
+    expect(nextRuns('0 0 1 * */2', new Date(2026, 0, 1), 2)).toEqual(['2026-02-01 00:00', '2026-03-01 00:00']);
+  });
+
+  test('finds leap days and gives up on dates that never occur', () => {
+    expect(local(getNextRun(parseCron('0 0 29 2 *'), new Date(2026, 0, 1)))).toBe('2028-02-29 00:00');
+    expect(getNextRun(parseCron('0 0 31 2 *'), new Date(2026, 0, 1))).toBeNull();
+  });
+
+  test('runs jobs in the hour skipped by the start of daylight saving time once, shifted by the gap', () => {
+    // Clocks go from 02:00 to 03:00 on 2026-03-08
+    expect(nextRuns('30 2 * * *', new Date(2026, 2, 7, 12, 0), 3)).toEqual([
+      '2026-03-08 03:30',
+      '2026-03-09 02:30',
+      '2026-03-10 02:30',
+    ]);
+    expect(nextRuns('0 * * * *', new Date(2026, 2, 8, 0, 30), 3)).toEqual([
+      '2026-03-08 01:00',
+      '2026-03-08 03:00',
+      '2026-03-08 04:00',
+    ]);
+  });
+
+  test('runs jobs in the hour repeated at the end of daylight saving time once', () => {
+    // Clocks go from 02:00 back to 01:00 on 2026-11-01
+    const runs = getNextRuns(parseCron('30 1 * * *'), new Date(2026, 9, 31, 12, 0), 3);
+    expect(runs.map(local)).toEqual(['2026-11-01 01:30', '2026-11-02 01:30', '2026-11-03 01:30']);
+    expect(runs[1].getTime() - runs[0].getTime()).toBe(25 * 60 * 60 * 1000);
+  });
+});
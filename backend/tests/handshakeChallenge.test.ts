@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test';
+import { HandshakeChallenge } from '../services/handshakeChallenge.js';
+
+describe('HandshakeChallenge', () => {
+  test('accepts the cookie issued to the same address in the current or previous window', () => {
+    const challenge = new HandshakeChallenge();
+    const cookie = challenge.issue('198.51.100.1', 50000, 100000);
+    expect(challenge.verify('198.51.100.1', 50000, cookie, 100000)).toBe(true);
+    expect(challenge.verify('198.51.100.1', 50000, cookie, 119999)).toBe(true);
+    expect(challenge.verify('198.51.100.1', 50000, cookie, 120000)).toBe(false);
+  });
+
+  test('rejects cookies replayed from another address or port', () => {
+    const challenge = new HandshakeChallenge();
+    const cookie = challenge.issue('198.51.100.1', 50000, 0);
+    expect(challenge.verify('198.51.100.2', 50000, cookie, 0)).toBe(false);
+    expect(challenge.verify('198.51.100.1', 50001, cookie, 0)).toBe(false);
+  });
+
+  test('does not accept cookies from another proxy instance', () => {
+    const cookie = new HandshakeChallenge().issue('198.51.100.1', 50000, 0);
+    expect(new HandshakeChallenge().verify('198.51.100.1', 50000, cookie, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { HealthChecker } from '../services/healthChecker.js';
+import { buildUnconnectedPong, parseRakNetOfflineMessage } from '../services/raknetParser.js';
+import { logger, LogLevel } from '../services/logger.js';
+import { LOOPBACK, UdpPeer, delay } from './helpers/udp.js';
+
+const MOTD = 'MCPE;Dedicated Server;712;1.21.20;0;10;1;Bedrock level;Survival;1;19132;19133;';
+
+// A destination that answers pings only while `answering` is set
+async function startTarget(): Promise<{ peer: UdpPeer; setAnswering: (value: boolean) => void }> {
+  const peer = await UdpPeer.bind();
+  let answering = true;
+  peer.socket.on('message', (data, rinfo) => {
+    const message = parseRakNetOfflineMessage(data);
+    if (answering && message?.type === 'UNCONNECTED_PING') {
+      peer.send(buildUnconnectedPong(message.time, 1n, MOTD), rinfo.port, rinfo.address);
+    }
+  });
+  return { peer, setAnswering: (value) => (answering = value) };
+}
+
+function waitForChange(checker: HealthChecker, timeout = 2000): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('health did not change')), timeout);
+    checker.setChangeHandler((healthy) => {
+      clearTimeout(timer);
+      resolve(healthy);
+    });
+  });
+}
+
+describe('HealthChecker', () => {
+  let checker: HealthChecker | null = null;
+  let target: UdpPeer | null = null;
+  let logLevel: LogLevel;
+
+  beforeAll(() => {
+    logLevel = logger.getLogLevel();
+    logger.setLogLevel(LogLevel.ERROR);
+  });
+
+  afterAll(() => {
+    logger.setLogLevel(logLevel);
+  });
+
+  afterEach(async () => {
+    checker?.stop();
+    checker = null;
+    await target?.close();
+    target = null;
+  });
+
+  test('stays healthy and records the latency while the destination answers', async () => {
+    const { peer } = await startTarget();
+    target = peer;
+    checker = new HealthChecker({ host: LOOPBACK, port: peer.port, interval: 20, timeout: 15, failureThreshold: 2 });
+    checker.start();
+    await delay(100);
+
+    const status = checker.getStatus();
+    expect(status.healthy).toBe(true);
+    expect(status.lastSuccess).toBeDefined();
+    expect(status.lastFailure).toBeUndefined();
+    expect(status.latency).toBeGreaterThanOrEqual(0);
+  });
+
+  test('reports the destination down after consecutive failures and back up after recoveries', async () => {
+    const { peer, setAnswering } = await startTarget();
+    target = peer;
+    setAnswering(false);
+    checker = new HealthChecker({
+      host: LOOPBACK,
+      port: peer.port,
+      interval: 20,
+      timeout: 15,
+      failureThreshold: 3,
+      recoveryThreshold: 2,
+    });
+
+    const down = waitForChange(checker);
+    checker.start();
+    expect(await down).toBe(false);
+    expect(checker.isHealthy()).toBe(false);
+
+    const up = waitForChange(checker);
+    setAnswering(true);
+    expect(await up).toBe(true);
+    expect(checker.isHealthy()).toBe(true);
+  });
+
+  test('does not flip on a single missed ping', async () => {
+    const { peer, setAnswering } = await startTarget();
+    target = peer;
+    checker = new HealthChecker({ host: LOOPBACK, port: peer.port, interval: 40, timeout: 20, failureThreshold: 3 });
+    let changes = 0;
+    checker.setChangeHandler(() => changes++);
+    checker.start();
+
+    await delay(50);
+    setAnswering(false);
+    await delay(60);
+    setAnswering(true);
+    await delay(120);
+
+    expect(changes).toBe(0);
+    expect(checker.isHealthy()).toBe(true);
+    expect(checker.getStatus().lastFailure).toBeDefined();
+  });
+});
@@ -0,0 +1,122 @@
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { decodeGamePacketBatch, GAME_PACKET_ID } from '../../services/bedrockLoginParser.js';
+import { buildRakNetFrameSet, parseRakNetFrameSet } from '../../services/raknetParser.js';
+import type { Datagram } from './udp.js';
+
+/**
+ * Helpers for building Bedrock Login packets with ES384-signed JWT chains, shaped like the
+ * chains Xbox Live issues: client (self-signed) -> root -> Xbox -> client data.
+ */
+
+export interface SigningKey {
+  privateKey: KeyObject;
+  publicKey: string; // base64 DER (SubjectPublicKeyInfo), as used in x5u and identityPublicKey
+}
+
+export interface Identity {
+  displayName: string;
+  XUID?: string;
+  identity?: string;
+}
+
+export function createSigningKey(): SigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'secp384r1' });
+  return { privateKey, publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64') };
+}
+
+export function signJwt(key: SigningKey, payload: object): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'ES384', x5u: key.publicKey })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = sign('sha384', Buffer.from(`${header}.${body}`), { key: key.privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${header}.${body}.${signature.toString('base64url')}`;
+}
+
+// Replaces the payload of a signed JWT without signing it again
+export function tamperJwt(token: string, payload: object): string {
+  const [header, , signature] = token.split('.');
+  return `${header}.${Buffer.from(JSON.stringify(payload)).toString('base64url')}.${signature}`;
+}
+
+// The chain a client authenticated by `xbox` (delegated by `root`) sends
+export function buildXboxChain(client: SigningKey, root: SigningKey, xbox: SigningKey, identity: Identity, exp?: number): string[] {
+  const expires = exp ?? Math.floor(Date.now() / 1000) + 3600;
+  return [
+    signJwt(client, { certificateAuthority: true, identityPublicKey: root.publicKey, exp: expires }),
+    signJwt(root, { identityPublicKey: xbox.publicKey, certificateAuthority: true, exp: expires }),
+    signJwt(xbox, { extraData: identity, identityPublicKey: client.publicKey, exp: expires }),
+  ];
+}
+
+// The single self-signed link an offline-mode client sends
+export function buildOfflineChain(client: SigningKey, identity: Identity): string[] {
+  return [signJwt(client, { extraData: identity, identityPublicKey: client.publicKey })];
+}
+
+export function buildClientData(client: SigningKey, claims: object = { DeviceOS: 7, GameVersion: '1.21.50', DeviceModel: 'Test PC' }): string {
+  return signJwt(client, claims);
+}
+
+function varUInt(value: number): Buffer {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value = Math.floor(value / 128);
+    if (value > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (value > 0);
+  return Buffer.from(bytes);
+}
+
+// Login game packet (without the batch wrapper)
+export function buildLoginPacket(chain: string[], clientData: string, protocolVersion = 766): Buffer {
+  const chainJson = Buffer.from(JSON.stringify({ Certificate: JSON.stringify({ chain }) }));
+  const token = Buffer.from(clientData);
+  const payload = Buffer.alloc(4 + chainJson.length + 4 + token.length);
+  payload.writeUInt32LE(chainJson.length, 0);
+  chainJson.copy(payload, 4);
+  payload.writeUInt32LE(token.length, 4 + chainJson.length);
+  token.copy(payload, 8 + chainJson.length);
+
+  const protocol = Buffer.alloc(4);
+  protocol.writeInt32BE(protocolVersion, 0);
+  return Buffer.concat([varUInt(0x01), protocol, varUInt(payload.length), payload]);
+}
+
+// Uncompressed batch holding the Login packet, in a single unsplit frame set
+export function buildLoginFrameSet(sequenceNumber: number, login: Buffer): Buffer {
+  const batch = Buffer.concat([Buffer.from([GAME_PACKET_ID, 0xff]), varUInt(login.length), login]);
+  return buildRakNetFrameSet(sequenceNumber, batch);
+}
+
+// One part of a split frame, in its own frame set
+export function buildSplitFrameSet(sequenceNumber: number, split: { id: number; index: number; count: number }, body: Buffer): Buffer {
+  const packet = Buffer.alloc(4 + 3 + 10 + body.length);
+  packet[0] = 0x84;
+  packet.writeUIntLE(sequenceNumber, 1, 3);
+  packet[4] = 0x10; // unreliable, split
+  packet.writeUInt16BE(body.length * 8, 5);
+  packet.writeUInt32BE(split.count, 7);
+  packet.writeUInt16BE(split.id, 11);
+  packet.writeUInt32BE(split.index, 13);
+  body.copy(packet, 17);
+  return packet;
+}
+
+// Whether a datagram carries a game packet with the given id inside a batch
+function carriesGamePacket(datagram: Datagram, id: number, content?: Buffer): boolean {
+  return parseRakNetFrameSet(datagram.data)?.frames.some(
+    (frame) => decodeGamePacketBatch(frame.body)?.some(
+      (packet) => packet[0] === id && (content === undefined || packet.includes(content))
+    ) ?? false
+  ) ?? false;
+}
+
+// Whether a datagram carries a Login game packet (id 0x01)
+export function carriesLogin(datagram: Datagram): boolean {
+  return carriesGamePacket(datagram, 0x01);
+}
+
+// Whether a datagram carries a Disconnect game packet (id 0x05) showing the given message
+export function carriesDisconnect(datagram: Datagram, message: string): boolean {
+  return carriesGamePacket(datagram, 0x05, Buffer.from(message, 'utf8'));
+}
@@ -0,0 +1,77 @@
+import {
+  encodePacketBlock,
+  encodePcapngHeader,
+  decodePcapng,
+  type CapturedPacket,
+} from '../../services/packetCapture.js';
+import { RAKNET_MAGIC, buildRakNetFrameSet, buildUnconnectedPing } from '../../services/raknetParser.js';
+import { logger, LogLevel } from '../../services/logger.js';
+import { buildOpenConnectionRequest2 } from './udp.js';
+import { replayCapture, type ReplayOptions, type ReplayReport } from '../../../Tool/ProxyReplay/harness.js';
+
+/**
+ * Helpers for proxy regression tests: build a capture of scripted RakNet sessions
+ * and replay it through UDPProxy with the harness in Tool/ProxyReplay.
+ */
+
+export interface ScriptedClient {
+  address: string;
+  port: number;
+  guid: bigint; // must differ between clients, or the proxy merges their sessions
+  frames?: number; // frame sets sent after the handshake (default: 20)
+}
+
+const CAPTURE_PROXY = { address: '192.0.2.1', port: 19132 };
+
+// Ping, Open Connection Request 1/2 and a run of numbered frame sets per client
+function scriptClientPackets(client: ScriptedClient): Buffer[] {
+  const ping = buildUnconnectedPing(BigInt(Date.now()), client.guid);
+
+  const request1 = Buffer.alloc(1 + RAKNET_MAGIC.length + 1 + 400);
+  request1[0] = 0x05;
+  RAKNET_MAGIC.copy(request1, 1);
+  request1[1 + RAKNET_MAGIC.length] = 11; // RakNet protocol version
+
+  const frames = Array.from({ length: client.frames ?? 20 }, (_, sequence) =>
+    buildRakNetFrameSet(sequence, Buffer.from(`${client.guid}:${sequence}`))
+  );
+  return [ping, request1, buildOpenConnectionRequest2(client.guid), ...frames];
+}
+
+// pcapng bytes as written by a capture, with the clients' packets interleaved 1ms apart
+export function buildScriptedCapture(clients: ScriptedClient[]): Buffer {
+  const scripts = clients.map(scriptClientPackets);
+  const blocks: Buffer[] = [encodePcapngHeader('test')];
+  const longest = Math.max(0, ...scripts.map((packets) => packets.length));
+  let timestamp = Date.now() * 1000;
+
+  for (let i = 0; i < longest; i++) {
+    clients.forEach((client, index) => {
+      const data = scripts[index][i];
+      if (!data) return;
+      blocks.push(encodePacketBlock({
+        direction: 'client-to-proxy',
+        clientKey: `${client.address}:${client.port}`,
+        sourceAddress: client.address,
+        sourcePort: client.port,
+        destinationAddress: CAPTURE_PROXY.address,
+        destinationPort: CAPTURE_PROXY.port,
+        data,
+        timestamp: (timestamp += 1000),
+      }));
+    });
+  }
+  return Buffer.concat(blocks);
+}
+
+// Decodes the capture (exercising the pcapng reader too) and replays it quietly
+export async function replayScriptedClients(clients: ScriptedClient[], options: ReplayOptions = {}): Promise<ReplayReport> {
+  const packets: CapturedPacket[] = decodePcapng(buildScriptedCapture(clients));
+  const level = logger.getLogLevel();
+  logger.setLogLevel(LogLevel.ERROR);
+  try {
+    return await replayCapture(packets, options);
+  } finally {
+    logger.setLogLevel(level);
+  }
+}
@@ -0,0 +1,112 @@
+import { createSocket, type Socket } from 'dgram';
+import { parseRakNetFrameSet, RAKNET_MAGIC, RAKNET_PACKET_IDS } from '../../services/raknetParser.js';
+
+/**
+ * Helpers for tests that send real datagrams through a UDPProxy on the loopback interface.
+ */
+
+export const LOOPBACK = '127.0.0.1';
+
+export interface Datagram {
+  data: Buffer;
+  address: string;
+  port: number;
+}
+
+// A UDP socket on the loopback interface that records everything it receives
+export class UdpPeer {
+  public readonly received: Datagram[] = [];
+  private listeners: Array<() => void> = [];
+
+  private constructor(public readonly socket: Socket) {
+    socket.on('message', (data, rinfo) => {
+      this.received.push({ data, address: rinfo.address, port: rinfo.port });
+      this.listeners.forEach((listener) => listener());
+    });
+  }
+
+  public static bind(): Promise<UdpPeer> {
+    const socket = createSocket('udp4');
+    return new Promise((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(0, LOOPBACK, () => resolve(new UdpPeer(socket)));
+    });
+  }
+
+  public get port(): number {
+    return this.socket.address().port;
+  }
+
+  public send(data: Buffer, port: number, address: string = LOOPBACK): void {
+    this.socket.send(data, port, address);
+  }
+
+  // Resolves with the first received datagram (already received or not) matching the predicate
+  public waitFor(predicate: (datagram: Datagram) => boolean, timeout = 2000): Promise<Datagram> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const found = this.received.find(predicate);
+        if (!found) return false;
+        clearTimeout(timer);
+        this.listeners = this.listeners.filter((listener) => listener !== onMessage);
+        resolve(found);
+        return true;
+      };
+      const onMessage = () => {
+        check();
+      };
+      const timer = setTimeout(() => {
+        this.listeners = this.listeners.filter((listener) => listener !== onMessage);
+        reject(new Error(`No matching datagram within ${timeout}ms (received ${this.received.length})`));
+      }, timeout);
+      if (!check()) this.listeners.push(onMessage);
+    });
+  }
+
+  public close(): Promise<void> {
+    return new Promise((resolve) => this.socket.close(() => resolve()));
+  }
+}
+
+export function findFreePort(): Promise<number> {
+  const socket = createSocket('udp4');
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(0, LOOPBACK, () => {
+      const { port } = socket.address();
+      socket.close(() => resolve(port));
+    });
+  });
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Open Connection Request 2 for 192.0.2.1:19132, optionally with a cookie (security enabled)
+export function buildOpenConnectionRequest2(guid: bigint, cookie?: number): Buffer {
+  const security = cookie !== undefined ? Buffer.alloc(5) : Buffer.alloc(0);
+  if (cookie !== undefined) security.writeUInt32BE(cookie, 0);
+
+  const body = Buffer.alloc(7 + 2 + 8);
+  body[0] = 4;
+  [192, 0, 2, 1].forEach((part, i) => (body[1 + i] = ~part & 0xff));
+  body.writeUInt16BE(19132, 5);
+  body.writeUInt16BE(1400, 7);
+  body.writeBigUInt64BE(guid, 9);
+  return Buffer.concat([Buffer.from([0x07]), RAKNET_MAGIC, security, body]);
+}
+
+// ACK for a single frame set sequence number
+export function buildAck(sequenceNumber: number): Buffer {
+  const ack = Buffer.from([0xc0, 0x00, 0x01, 0x01, 0, 0, 0]);
+  ack.writeUIntLE(sequenceNumber, 4, 3);
+  return ack;
+}
+
+// Whether a datagram is a frame set carrying a RakNet Disconnection Notification
+export function isDisconnectNotification(datagram: Datagram): boolean {
+  return parseRakNetFrameSet(datagram.data)?.frames.some(
+    (frame) => frame.body[0] === RAKNET_PACKET_IDS.DISCONNECTION_NOTIFICATION
+  ) ?? false;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { ipInRange, ipToBuffer, isValidIpOrCidr, parseIpRange } from '../services/ipFilter.js';
+
+describe('parseIpRange', () => {
+  test('reads single addresses and CIDR ranges of both families', () => {
+    expect(parseIpRange('203.0.113.5')).toEqual({ family: 4, network: 0xcb007105n, prefixLength: 32 });
+    expect(parseIpRange(' 198.51.100.77/24 ')).toEqual({ family: 4, network: 0xc6336400n, prefixLength: 24 });
+    expect(parseIpRange('2001:db8::1/32')).toEqual({
+      family: 6,
+      network: 0x20010db8n << 96n,
+      prefixLength: 32,
+    });
+    expect(parseIpRange('0.0.0.0/0')).toEqual({ family: 4, network: 0n, prefixLength: 0 });
+  });
+
+  test('treats IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(parseIpRange('::ffff:192.0.2.1')).toEqual(parseIpRange('192.0.2.1'));
+  });
+
+  test('rejects malformed addresses and prefixes', () => {
+    for (const value of ['', '/24', '192.0.2.1/33', '2001:db8::/129', '192.0.2.1/-1', '192.0.2.1/24/8', '192.0.2', 'example.com']) {
+      expect(parseIpRange(value)).toBeNull();
+      expect(isValidIpOrCidr(value)).toBe(false);
+    }
+  });
+});
+
+describe('ipInRange', () => {
+  test('matches addresses inside the range only', () => {
+    const range = parseIpRange('198.51.100.0/24')!;
+    expect(ipInRange('198.51.100.1', range)).toBe(true);
+    expect(ipInRange('198.51.100.255', range)).toBe(true);
+    expect(ipInRange('198.51.101.0', range)).toBe(false);
+  });
+
+  test('matches IPv6 ranges, including embedded IPv4 tails', () => {
+    const range = parseIpRange('64:ff9b::/96')!;
+    expect(ipInRange('64:ff9b::192.0.2.1', range)).toBe(true);
+    expect(ipInRange('64:ff9b::1:0:0', range)).toBe(false);
+    expect(ipInRange('2001:db8::1', parseIpRange('2001:db8::/32')!)).toBe(true);
+  });
+
+  test('matches IPv4 ranges against addresses from a dual-stack socket', () => {
+    expect(ipInRange('::ffff:203.0.113.9', parseIpRange('203.0.113.0/24')!)).toBe(true);
+  });
+
+  test('never matches across families', () => {
+    expect(ipInRange('::1', parseIpRange('0.0.0.0/0')!)).toBe(false);
+    expect(ipInRange('127.0.0.1', parseIpRange('::/0')!)).toBe(false);
+  });
+});
+
+describe('ipToBuffer', () => {
+  test('encodes addresses in network byte order', () => {
+    expect([...ipToBuffer('192.0.2.1')!]).toEqual([192, 0, 2, 1]);
+    expect(ipToBuffer('2001:db8::ff')!.toString('hex')).toBe('20010db80000000000000000000000ff');
+    expect(ipToBuffer('not-an-ip')).toBeNull();
+  });
+});
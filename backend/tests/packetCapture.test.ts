@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  PacketCaptureManager,
+  decodePcapng,
+  encodePacketBlock,
+  encodePcapngHeader,
+  type CapturedPacket,
+} from '../services/packetCapture.js';
+import { logger, LogLevel } from '../services/logger.js';
+import { delay } from './helpers/udp.js';
+
+const IPV4_PACKET: CapturedPacket = {
+  direction: 'client-to-proxy',
+  clientKey: '192.0.2.10:50000',
+  sourceAddress: '192.0.2.10',
+  sourcePort: 50000,
+  destinationAddress: '198.51.100.1',
+  destinationPort: 19132,
+  data: Buffer.from([0x84, 0x00, 0x00, 0x00, 0x01, 0x02, 0x03]), // odd length exercises the padding
+  timestamp: 1_700_000_000_123_456,
+};
+
+// Ones' complement sum over the buffers; 0 when the embedded checksum is valid
+function checksumResidue(...buffers: Buffer[]): number {
+  let sum = 0;
+  for (const buffer of buffers) {
+    for (let i = 0; i < buffer.length; i += 2) {
+      sum += (buffer[i] << 8) | (i + 1 < buffer.length ? buffer[i + 1] : 0);
+    }
+  }
+  while (sum > 0xffff) sum = (sum & 0xffff) + (sum >>> 16);
+  return ~sum & 0xffff;
+}
+
+describe('encodePcapngHeader / encodePacketBlock / decodePcapng', () => {
+  test('round-trips IPv4 and IPv6 packets in every direction', () => {
+    const packets: CapturedPacket[] = [
+      IPV4_PACKET,
+      { ...IPV4_PACKET, direction: 'proxy-to-target', sourceAddress: '127.0.0.1', sourcePort: 40000, destinationAddress: '127.0.0.1', destinationPort: 19133, timestamp: IPV4_PACKET.timestamp + 1 },
+      {
+        direction: 'target-to-proxy',
+        clientKey: '[2001:db8::10]:50000',
+        sourceAddress: '2001:db8:0:0:0:0:0:1',
+        sourcePort: 19133,
+        destinationAddress: '2001:db8:0:0:0:0:0:2',
+        destinationPort: 40001,
+        data: Buffer.from('pong'),
+        timestamp: IPV4_PACKET.timestamp + 2,
+      },
+      // Mixed families are written as IPv6 with an IPv4-mapped address and read back as IPv4
+      { ...IPV4_PACKET, direction: 'proxy-to-client', sourceAddress: '2001:db8:0:0:0:0:0:1', timestamp: IPV4_PACKET.timestamp + 3 },
+    ];
+
+    const file = Buffer.concat([encodePcapngHeader('lobby'), ...packets.map(encodePacketBlock)]);
+    expect(decodePcapng(file)).toEqual(packets);
+  });
+
+  test('writes 4-byte aligned blocks with the total length at both ends', () => {
+    const file = Buffer.concat([encodePcapngHeader('lobby'), encodePacketBlock(IPV4_PACKET)]);
+    const types: number[] = [];
+    for (let offset = 0; offset < file.length;) {
+      const length = file.readUInt32LE(offset + 4);
+      expect(length % 4).toBe(0);
+      expect(file.readUInt32LE(offset + length - 4)).toBe(length);
+      types.push(file.readUInt32LE(offset));
+      offset += length;
+    }
+    expect(types).toEqual([0x0a0d0d0a, 0x00000001, 0x00000006]);
+  });
+
+  test('writes valid IPv4 header and UDP checksums', () => {
+    const block = encodePacketBlock(IPV4_PACKET);
+    const frame = block.subarray(28, 28 + block.readUInt32LE(20));
+    const ip = frame.subarray(0, 20);
+    const udp = frame.subarray(20);
+    expect(checksumResidue(ip)).toBe(0);
+
+    const pseudo = Buffer.alloc(12);
+    ip.copy(pseudo, 0, 12, 20);
+    pseudo[9] = 17;
+    pseudo.writeUInt16BE(udp.length, 10);
+    expect(checksumResidue(pseudo, udp)).toBe(0);
+  });
+
+  test('skips packets without a direction comment and rejects broken blocks', () => {
+    const block = encodePacketBlock(IPV4_PACKET);
+    const comment = block.indexOf('client-to-proxy');
+    const foreign = Buffer.from(block);
+    foreign.write('client-to-relay', comment);
+    expect(decodePcapng(Buffer.concat([encodePcapngHeader('lobby'), foreign]))).toEqual([]);
+
+    const truncated = Buffer.concat([encodePcapngHeader('lobby'), block.subarray(0, block.length - 4)]);
+    expect(() => decodePcapng(truncated)).toThrow('Invalid pcapng block');
+  });
+});
+
+describe('PacketCaptureManager', () => {
+  let directory: string;
+  let logLevel: LogLevel;
+
+  beforeAll(async () => {
+    logLevel = logger.getLogLevel();
+    logger.setLogLevel(LogLevel.ERROR);
+    directory = await mkdtemp(join(tmpdir(), 'capture-test-'));
+  });
+
+  afterAll(async () => {
+    logger.setLogLevel(logLevel);
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('writes only the selected session and stops at the size limit', async () => {
+    const manager = new PacketCaptureManager(directory);
+    const stopped: string[] = [];
+    manager.setStoppedHandler((capture) => stopped.push(capture.stopReason ?? ''));
+
+    const header = encodePcapngHeader('lobby').length;
+    const block = encodePacketBlock(IPV4_PACKET).length;
+    const info = await manager.start('lobby', 'lobby', { clientKey: IPV4_PACKET.clientKey, maxBytes: header + block * 2 });
+
+    manager.record('lobby', { ...IPV4_PACKET, clientKey: '192.0.2.99:1' });
+    manager.record('lobby', IPV4_PACKET);
+    manager.record('lobby', IPV4_PACKET);
+    expect(manager.isCapturing('lobby')).toBe(true);
+    manager.record('lobby', IPV4_PACKET);
+
+    for (let i = 0; i < 100 && stopped.length === 0; i++) {
+      await delay(10);
+    }
+    expect(stopped).toEqual(['size-limit']);
+    expect(manager.isCapturing('lobby')).toBe(false);
+
+    const packets = decodePcapng(await readFile(join(directory, info.fileName)));
+    expect(packets).toHaveLength(2);
+    expect(packets.every((packet) => packet.clientKey === IPV4_PACKET.clientKey)).toBe(true);
+  });
+});
@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import {
+  PP2_TYPE_ALPN,
+  PP2_TYPE_AUTHORITY,
+  PP2_TYPE_NOOP,
+  PP2_TYPE_UNIQUE_ID,
+  crc32c,
+  decodeProxyProtocolTLVs,
+  encodeProxyProtocolTLVs,
+  generateProxyProtocolV1Header,
+  generateProxyProtocolV2Header,
+  parseProxyProtocolChain,
+  parseProxyProtocolTLVs,
+  parseProxyProtocolV1,
+  parseProxyProtocolV2,
+  verifyProxyProtocolChecksum,
+} from '../services/proxyProtocolParser.js';
+import { ipToBuffer } from '../services/ipFilter.js';
+import { logger, LogLevel } from '../services/logger.js';
+
+const PAYLOAD = Buffer.from([0x05, 0x00, 0xff]);
+
+let logLevel: LogLevel;
+
+beforeAll(() => {
+  logLevel = logger.getLogLevel();
+  logger.setLogLevel(LogLevel.ERROR);
+});
+
+afterAll(() => {
+  logger.setLogLevel(logLevel);
+});
+
+describe('Proxy Protocol v1', () => {
+  test('round-trips IPv4 and IPv6 headers', () => {
+    const v4 = generateProxyProtocolV1Header('192.0.2.10', 50000, '198.51.100.1', 19132);
+    expect(v4.toString()).toBe('PROXY TCP4 192.0.2.10 198.51.100.1 50000 19132\r\n');
+    expect(parseProxyProtocolV1(Buffer.concat([v4, PAYLOAD]))).toEqual({
+      version: 1,
+      protocol: 'TCP4',
+      sourceAddress: '192.0.2.10',
+      destAddress: '198.51.100.1',
+      sourcePort: 50000,
+      destPort: 19132,
+      headerLength: v4.length,
+    });
+
+    const v6 = parseProxyProtocolV1(generateProxyProtocolV1Header('2001:db8::10', 50000, '192.0.2.1', 19132));
+    expect(v6).toMatchObject({ protocol: 'TCP6', sourceAddress: '2001:db8::10', destAddress: '::ffff:192.0.2.1' });
+  });
+
+  test('writes UNKNOWN for clients without an IP and zeros for host name destinations', () => {
+    expect(generateProxyProtocolV1Header('not-an-ip', 1, '198.51.100.1', 2).toString()).toBe('PROXY UNKNOWN\r\n');
+    expect(generateProxyProtocolV1Header('::ffff:192.0.2.10', 1, 'example.com', 2).toString())
+      .toBe('PROXY TCP4 192.0.2.10 0.0.0.0 1 2\r\n');
+  });
+
+  test('rejects malformed lines', () => {
+    for (const line of [
+      'PROXY TCP4 192.0.2.10 198.51.100.1 50000\r\n',
+      'PROXY TCP4 2001:db8::1 198.51.100.1 50000 19132\r\n',
+      'PROXY UDP4 192.0.2.10 198.51.100.1 50000 19132\r\n',
+      'PROXY TCP4 192.0.2.10 198.51.100.1 70000 19132\r\n',
+      'PROXY TCP4 192.0.2.10 198.51.100.1 50000 19132',
+    ]) {
+      expect(parseProxyProtocolV1(Buffer.from(line))).toBeNull();
+    }
+  });
+});
+
+describe('parseProxyProtocolChain', () => {
+  test('takes the client from the source address of a v1 header', () => {
+    const chain = parseProxyProtocolChain(Buffer.concat([
+      generateProxyProtocolV1Header('192.0.2.10', 50000, '198.51.100.1', 19132),
+      PAYLOAD,
+    ]))!;
+    expect(chain.originalClientIP).toBe('192.0.2.10');
+    expect(chain.originalClientPort).toBe(50000);
+    expect(chain.proxyChain).toEqual(['198.51.100.1:19132']);
+    expect(chain.payload.equals(PAYLOAD)).toBe(true);
+  });
+
+  test('takes the client from the source address of a v2 header', () => {
+    const chain = parseProxyProtocolChain(Buffer.concat([
+      generateProxyProtocolV2Header('192.0.2.10', 50000, '198.51.100.1', 19132),
+      PAYLOAD,
+    ]))!;
+    expect(chain.originalClientIP).toBe('192.0.2.10');
+    expect(chain.originalClientPort).toBe(50000);
+    expect(chain.proxyChain).toEqual(['198.51.100.1:19132']);
+    expect(chain.payload.equals(PAYLOAD)).toBe(true);
+
+    const v6 = parseProxyProtocolChain(generateProxyProtocolV2Header('2001:db8::10', 50001, '2001:db8::1', 19132))!;
+    expect(ipToBuffer(v6.originalClientIP)?.equals(ipToBuffer('2001:db8::10')!)).toBe(true);
+    expect(v6.originalClientPort).toBe(50001);
+  });
+
+  test('reads the same client from either version of a stacked chain', () => {
+    const outer = generateProxyProtocolV2Header('192.0.2.10', 50000, '198.51.100.1', 19132);
+    const inner = generateProxyProtocolV1Header('198.51.100.1', 40000, '203.0.113.1', 19132);
+    const chain = parseProxyProtocolChain(Buffer.concat([outer, inner, PAYLOAD]))!;
+    expect(chain.headers.map((header) => header.version)).toEqual([2, 1]);
+    expect(`${chain.originalClientIP}:${chain.originalClientPort}`).toBe('192.0.2.10:50000');
+    expect(chain.proxyChain).toEqual(['198.51.100.1:19132', '203.0.113.1:19132']);
+    expect(chain.payload.equals(PAYLOAD)).toBe(true);
+  });
+
+  test('returns null without a PROXY header or for UNKNOWN', () => {
+    expect(parseProxyProtocolChain(PAYLOAD)).toBeNull();
+    expect(parseProxyProtocolChain(Buffer.concat([Buffer.from('PROXY UNKNOWN\r\n'), PAYLOAD]))).toBeNull();
+  });
+});
+
+describe('Proxy Protocol v2 TLVs', () => {
+  test('round-trips authority, ALPN, unique ID and custom entries', () => {
+    const uniqueId = Buffer.from('0123456789abcdef', 'hex');
+    const encoded = encodeProxyProtocolTLVs({
+      alpn: 'raknet',
+      authority: 'lobby.example.com',
+      uniqueId,
+      custom: [{ type: 0xe0, value: Buffer.from('vendor') }],
+    });
+
+    const tlvs = decodeProxyProtocolTLVs(parseProxyProtocolTLVs(encoded)!);
+    expect(tlvs.alpn).toBe('raknet');
+    expect(tlvs.authority).toBe('lobby.example.com');
+    expect(tlvs.uniqueId?.equals(uniqueId)).toBe(true);
+    expect(tlvs.custom).toHaveLength(1);
+    expect(tlvs.custom[0].type).toBe(0xe0);
+    expect(tlvs.custom[0].value.toString()).toBe('vendor');
+  });
+
+  test('drops NOOP entries and over-long unique IDs', () => {
+    const entries = [
+      { type: PP2_TYPE_NOOP, value: Buffer.alloc(3) },
+      { type: PP2_TYPE_UNIQUE_ID, value: Buffer.alloc(129) },
+      { type: PP2_TYPE_ALPN, value: Buffer.from('h2') },
+    ];
+    expect(decodeProxyProtocolTLVs(entries)).toEqual({ alpn: 'h2', custom: [] });
+  });
+
+  test('truncates unique IDs to 128 bytes when encoding', () => {
+    const entries = parseProxyProtocolTLVs(encodeProxyProtocolTLVs({ uniqueId: Buffer.alloc(200, 1) }))!;
+    expect(entries[0].type).toBe(PP2_TYPE_UNIQUE_ID);
+    expect(entries[0].value).toHaveLength(128);
+  });
+
+  test('rejects TLVs that run past the end of the data', () => {
+    const encoded = encodeProxyProtocolTLVs({ authority: 'example.com' });
+    expect(parseProxyProtocolTLVs(encoded.subarray(0, encoded.length - 1))).toBeNull();
+    expect(parseProxyProtocolTLVs(Buffer.from([PP2_TYPE_AUTHORITY, 0x00]))).toBeNull();
+    expect(parseProxyProtocolTLVs(Buffer.alloc(0))).toEqual([]);
+  });
+
+  test('carries TLVs after the address block of a v2 header', () => {
+    const header = generateProxyProtocolV2Header('192.0.2.10', 50000, '198.51.100.1', 19132, { authority: 'lobby' });
+    const payload = Buffer.from([0x01, 0x02]);
+    const parsed = parseProxyProtocolV2(Buffer.concat([header, payload]));
+    expect(parsed?.headerLength).toBe(header.length);
+    expect(parsed?.tlvs).toEqual({ authority: 'lobby', custom: [] });
+  });
+
+  test('keeps the addresses of a header whose TLVs are broken', () => {
+    const header = generateProxyProtocolV2Header('192.0.2.10', 50000, '198.51.100.1', 19132, { authority: 'lobby' });
+    // Claim a longer authority than the header holds
+    header.writeUInt16BE(200, 16 + 12 + 1);
+    const parsed = parseProxyProtocolV2(header);
+    expect(parsed?.sourceAddress).toBe('192.0.2.10');
+    expect(parsed?.tlvData).toBeDefined();
+    expect(parsed?.tlvs).toBeUndefined();
+  });
+});
+
+describe('Proxy Protocol v2 CRC32C', () => {
+  test('computes the Castagnoli checksum', () => {
+    expect(crc32c(Buffer.from('123456789'))).toBe(0xe3069283);
+    expect(crc32c(Buffer.alloc(32))).toBe(0x8a9136aa);
+    expect(crc32c(Buffer.alloc(0))).toBe(0);
+  });
+
+  test('verifies the checksum written into a generated header', () => {
+    const header = parseProxyProtocolV2(
+      generateProxyProtocolV2Header('2001:db8::10', 50000, '2001:db8::1', 19132, { authority: 'lobby', crc32c: true })
+    )!;
+    expect(header.tlvs?.crc32c).toBeDefined();
+    expect(verifyProxyProtocolChecksum(header)).toBe(true);
+  });
+
+  test('fails headers that were modified or carry no checksum', () => {
+    const generated = generateProxyProtocolV2Header('192.0.2.10', 50000, '198.51.100.1', 19132, { crc32c: true });
+    generated[19] ^= 0x01; // last octet of the source address
+    expect(verifyProxyProtocolChecksum(parseProxyProtocolV2(generated)!)).toBe(false);
+
+    const unsigned = parseProxyProtocolV2(generateProxyProtocolV2Header('192.0.2.10', 50000, '198.51.100.1', 19132))!;
+    expect(verifyProxyProtocolChecksum(unsigned)).toBe(false);
+  });
+});
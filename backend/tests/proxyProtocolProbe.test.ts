@@ -0,0 +1,64 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { probeProxyProtocol } from '../services/proxyProtocolProbe.js';
+import { isProxyProtocolV1, isProxyProtocolV2, parseProxyProtocolChain } from '../services/proxyProtocolParser.js';
+import { buildUnconnectedPong, RAKNET_PACKET_IDS } from '../services/raknetParser.js';
+import { logger, LogLevel } from '../services/logger.js';
+import { LOOPBACK, UdpPeer } from './helpers/udp.js';
+
+const isPing = (data: Buffer) => data[0] === RAKNET_PACKET_IDS.UNCONNECTED_PING;
+
+describe('probeProxyProtocol', () => {
+  let server: UdpPeer;
+  let logLevel: LogLevel;
+
+  beforeAll(() => {
+    logLevel = logger.getLogLevel();
+    logger.setLogLevel(LogLevel.ERROR);
+  });
+
+  afterAll(() => {
+    logger.setLogLevel(logLevel);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  // A fake server that answers the pings `answers` accepts with a Pong
+  async function startServer(answers: (data: Buffer) => boolean): Promise<void> {
+    server = await UdpPeer.bind();
+    server.socket.on('message', (data, rinfo) => {
+      if (answers(data)) server.send(buildUnconnectedPong(0n, 1n, 'MCPE;Test;'), rinfo.port, rinfo.address);
+    });
+  }
+
+  test('reports a server that answers pings behind a header as compatible', async () => {
+    await startServer((data) => isPing(data) || isPing(parseProxyProtocolChain(data)?.payload ?? Buffer.alloc(0)));
+
+    for (const format of ['v2', 'v1'] as const) {
+      const result = await probeProxyProtocol({ host: LOOPBACK, port: server.port, format, timeout: 500 });
+      expect(result).toMatchObject({ destination: `${LOOPBACK}:${server.port}`, format, status: 'compatible' });
+      expect(result.latency).toBeGreaterThanOrEqual(0);
+    }
+
+    // Each probe sends one plain ping and one behind a header naming the documentation address
+    const headers = server.received.filter((datagram) => !isPing(datagram.data));
+    expect(headers.map((datagram) => isProxyProtocolV2(datagram.data))).toEqual([true, false]);
+    expect(headers.map((datagram) => isProxyProtocolV1(datagram.data))).toEqual([false, true]);
+    expect(headers.map((datagram) => parseProxyProtocolChain(datagram.data)?.originalClientIP)).toEqual(['192.0.2.1', '192.0.2.1']);
+  });
+
+  test('reports a server that only answers plain pings as incompatible', async () => {
+    await startServer(isPing);
+    const result = await probeProxyProtocol({ host: LOOPBACK, port: server.port, format: 'v2', timeout: 300 });
+    expect(result.status).toBe('incompatible');
+    expect(result.latency).toBeUndefined();
+  });
+
+  test('reports a server that answers nothing as unreachable', async () => {
+    await startServer(() => false);
+    const result = await probeProxyProtocol({ host: LOOPBACK, port: server.port, format: 'v1', timeout: 300 });
+    expect(result.status).toBe('unreachable');
+    expect(server.received).toHaveLength(2);
+  });
+});
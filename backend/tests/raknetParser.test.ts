@@ -0,0 +1,166 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  RAKNET_MAGIC,
+  buildOpenConnectionReply1,
+  buildRakNetFrameSet,
+  buildUnconnectedPing,
+  buildUnconnectedPong,
+  classifyRakNetPacket,
+  isOfflineMessage,
+  parseRakNetAck,
+  parseRakNetFrameSet,
+  parseRakNetOfflineMessage,
+  stripRequest2Security,
+} from '../services/raknetParser.js';
+import { buildOpenConnectionRequest2 as buildRequest2 } from './helpers/udp.js';
+
+describe('classifyRakNetPacket', () => {
+  test('tells offline messages, frame sets, ACKs and NACKs apart', () => {
+    expect(classifyRakNetPacket(buildUnconnectedPing(1n, 2n))).toBe('offline');
+    expect(classifyRakNetPacket(buildRakNetFrameSet(0, Buffer.from([0xfe])))).toBe('frameSet');
+    expect(classifyRakNetPacket(Buffer.from([0xc0, 0, 0]))).toBe('ack');
+    expect(classifyRakNetPacket(Buffer.from([0xa0, 0, 0]))).toBe('nack');
+    expect(classifyRakNetPacket(Buffer.from([0x13]))).toBe('unknown');
+    expect(classifyRakNetPacket(Buffer.alloc(0))).toBe('unknown');
+  });
+
+  test('does not treat an id without the magic as an offline message', () => {
+    const ping = buildUnconnectedPing(1n, 2n);
+    ping[9] ^= 0xff;
+    expect(isOfflineMessage(ping)).toBe(false);
+    expect(parseRakNetOfflineMessage(ping)).toBeNull();
+  });
+});
+
+describe('parseRakNetOfflineMessage', () => {
+  test('round-trips unconnected ping and pong', () => {
+    expect(parseRakNetOfflineMessage(buildUnconnectedPing(123n, 0xabcdefn))).toEqual({
+      type: 'UNCONNECTED_PING',
+      time: 123n,
+      clientGuid: 0xabcdefn,
+    });
+
+    const motd = 'MCPE;Dedicated Server;712;1.21.20;3;10;1234;Bedrock level;Survival;1;19132;19133;';
+    expect(parseRakNetOfflineMessage(buildUnconnectedPong(5n, 77n, motd))).toEqual({
+      type: 'UNCONNECTED_PONG',
+      time: 5n,
+      serverGuid: 77n,
+      motd,
+    });
+  });
+
+  test('derives the MTU of Open Connection Request 1 from the padded length', () => {
+    const request1 = Buffer.concat([Buffer.from([0x05]), RAKNET_MAGIC, Buffer.from([11]), Buffer.alloc(400)]);
+    expect(parseRakNetOfflineMessage(request1)).toEqual({
+      type: 'OPEN_CONNECTION_REQUEST_1',
+      protocolVersion: 11,
+      mtu: request1.length + 28,
+    });
+  });
+
+  test('reads Open Connection Reply 1 with and without a cookie', () => {
+    expect(parseRakNetOfflineMessage(buildOpenConnectionReply1(9n, 0xdeadbeef, 1400))).toEqual({
+      type: 'OPEN_CONNECTION_REPLY_1',
+      serverGuid: 9n,
+      useSecurity: true,
+      cookie: 0xdeadbeef,
+      mtu: 1400,
+    });
+    expect(parseRakNetOfflineMessage(buildOpenConnectionReply1(9n, undefined, 1200))).toMatchObject({
+      useSecurity: false,
+      cookie: undefined,
+      mtu: 1200,
+    });
+  });
+
+  test('reads the client GUID of Open Connection Request 2', () => {
+    expect(parseRakNetOfflineMessage(buildRequest2(0x1122334455667788n))).toEqual({
+      type: 'OPEN_CONNECTION_REQUEST_2',
+      cookie: undefined,
+      serverAddress: { version: 4, address: '192.0.2.1', port: 19132 },
+      mtu: 1400,
+      clientGuid: 0x1122334455667788n,
+    });
+  });
+
+  test('reads the cookie of Open Connection Request 2 and strips it for the backend', () => {
+    const secured = buildRequest2(42n, 0x01020304);
+    expect(parseRakNetOfflineMessage(secured)).toMatchObject({ cookie: 0x01020304, clientGuid: 42n, mtu: 1400 });
+
+    const stripped = stripRequest2Security(secured);
+    expect(stripped.equals(buildRequest2(42n))).toBe(true);
+    expect(stripRequest2Security(stripped)).toBe(stripped);
+  });
+
+  test('returns null for truncated messages', () => {
+    expect(parseRakNetOfflineMessage(buildRequest2(42n).subarray(0, 25))).toBeNull();
+  });
+});
+
+describe('parseRakNetFrameSet', () => {
+  test('round-trips the frame set built for proxy disconnects', () => {
+    const frameSet = parseRakNetFrameSet(buildRakNetFrameSet(0x123456, Buffer.from([0x15])));
+    expect(frameSet?.sequenceNumber).toBe(0x123456);
+    expect(frameSet?.frames).toHaveLength(1);
+    expect(frameSet?.frames[0].reliability).toBe(0);
+    expect([...frameSet!.frames[0].body]).toEqual([0x15]);
+  });
+
+  test('reads reliable ordered and split frames', () => {
+    const body = Buffer.from('hello');
+    const frame = Buffer.alloc(1 + 2 + 3 + 4 + 10 + body.length);
+    let offset = 0;
+    frame[offset++] = (3 << 5) | 0x10; // reliable ordered, split
+    frame.writeUInt16BE(body.length * 8, offset);
+    offset += 2;
+    frame.writeUIntLE(7, offset, 3); // reliable index
+    offset += 3;
+    frame.writeUIntLE(5, offset, 3); // order index
+    frame[offset + 3] = 1; // order channel
+    offset += 4;
+    frame.writeUInt32BE(3, offset); // split count
+    frame.writeUInt16BE(9, offset + 4); // split id
+    frame.writeUInt32BE(2, offset + 6); // split index
+    offset += 10;
+    body.copy(frame, offset);
+
+    const header = Buffer.from([0x84, 1, 0, 0]);
+    const frameSet = parseRakNetFrameSet(Buffer.concat([header, frame, frame]));
+    expect(frameSet?.sequenceNumber).toBe(1);
+    expect(frameSet?.frames).toHaveLength(2);
+    expect(frameSet?.frames[0]).toMatchObject({
+      reliability: 3,
+      reliableIndex: 7,
+      orderIndex: 5,
+      orderChannel: 1,
+      split: { count: 3, id: 9, index: 2 },
+    });
+    expect(frameSet?.frames[1].body.toString()).toBe('hello');
+  });
+
+  test('returns null when a frame runs past the end of the datagram', () => {
+    const packet = buildRakNetFrameSet(1, Buffer.from('payload'));
+    expect(parseRakNetFrameSet(packet.subarray(0, packet.length - 2))).toBeNull();
+    expect(parseRakNetFrameSet(buildUnconnectedPing(1n, 2n))).toBeNull();
+  });
+});
+
+describe('parseRakNetAck', () => {
+  test('reads single and ranged records', () => {
+    const ack = Buffer.from([
+      0xc0, 0x00, 0x02,
+      0x01, 0x05, 0x00, 0x00, // single: 5
+      0x00, 0x0a, 0x00, 0x00, 0x0f, 0x00, 0x00, // range: 10-15
+    ]);
+    expect(parseRakNetAck(ack)).toEqual([
+      { start: 5, end: 5 },
+      { start: 10, end: 15 },
+    ]);
+    expect(parseRakNetAck(Buffer.from([0xa0, 0x00, 0x01, 0x01, 0x02, 0x00, 0x00]))).toEqual([{ start: 2, end: 2 }]);
+  });
+
+  test('returns null for truncated records and other packets', () => {
+    expect(parseRakNetAck(Buffer.from([0xc0, 0x00, 0x01, 0x00, 0x0a, 0x00, 0x00]))).toBeNull();
+    expect(parseRakNetAck(buildRakNetFrameSet(0, Buffer.from([0x15])))).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+import { RateLimiter, TokenBucket, DEFAULT_RATE_LIMITS } from '../services/rateLimiter.js';
+import type { RateLimitSettings } from '../types/index.js';
+
+const LIMITS: RateLimitSettings = {
+  packetsPerSecond: 10,
+  bytesPerSecond: 0,
+  globalPacketsPerSecond: 0,
+  globalBytesPerSecond: 0,
+  autoBanThreshold: 3,
+  autoBanDuration: 60,
+};
+
+// Listener-wide buckets start from the wall clock, so every test clock starts there too
+const T = Date.now();
+
+// Sends `count` packets from the address at the same instant and returns the results
+function burst(limiter: RateLimiter, address: string, count: number, now: number, size = 100): string[] {
+  return Array.from({ length: count }, () => limiter.check(address, size, now));
+}
+
+// Exceeds the per-IP limit once per second until the address is banned; returns when it was banned
+function exceedUntilBanned(limiter: RateLimiter, address: string, start: number): number {
+  for (let now = start; now < start + 60000; now += 1000) {
+    if (burst(limiter, address, 50, now).includes('ban')) return now;
+  }
+  throw new Error('never banned');
+}
+
+describe('TokenBucket', () => {
+  test('allows a burst up to the capacity and refills at the rate', () => {
+    const bucket = new TokenBucket(10, 20, 0);
+    expect(Array.from({ length: 21 }, () => bucket.consume(1, 0)).filter(Boolean)).toHaveLength(20);
+    expect(bucket.consume(1, 50)).toBe(false);
+    expect(bucket.consume(1, 100)).toBe(true);
+    expect(bucket.isFull(2100)).toBe(true);
+  });
+});
+
+describe('RateLimiter', () => {
+  test('limits each IP separately with a two second burst', () => {
+    const limiter = new RateLimiter(LIMITS);
+    const results = burst(limiter, '198.51.100.1', 25, T);
+    expect(results.filter((result) => result === 'allow')).toHaveLength(20);
+    expect(limiter.check('198.51.100.2', 100, T)).toBe('allow');
+    expect(limiter.getStats(T)).toMatchObject({ droppedPackets: 5, droppedBytes: 500, limitedClients: 1 });
+  });
+
+  test('limits bytes and the listener-wide budget', () => {
+    const limiter = new RateLimiter({ ...LIMITS, packetsPerSecond: 0, bytesPerSecond: 1000, globalPacketsPerSecond: 3 });
+    expect(limiter.check('198.51.100.1', 1500, T)).toBe('allow');
+    expect(limiter.check('198.51.100.1', 600, T)).toBe('drop');
+    expect(burst(limiter, '198.51.100.2', 6, 0, 1)).toEqual(['allow', 'allow', 'allow', 'allow', 'allow', 'drop']);
+  });
+
+  test('bans an IP that keeps exceeding the limit and blocks it for the ban duration', () => {
+    const limiter = new RateLimiter(LIMITS);
+    const bannedAt = exceedUntilBanned(limiter, '203.0.113.9', T);
+    expect(bannedAt).toBe(T + 2000);
+    expect(limiter.getStats(bannedAt).autoBans).toBe(1);
+
+    expect(limiter.check('203.0.113.9', 1, bannedAt + 59000)).toBe('drop');
+    expect(limiter.check('203.0.113.9', 1, bannedAt + 61000)).toBe('allow');
+  });
+
+  test('does not ban when auto-ban is disabled', () => {
+    const limiter = new RateLimiter({ ...LIMITS, autoBanThreshold: 0 });
+    for (let now = T; now < T + 10000; now += 1000) {
+      expect(burst(limiter, '203.0.113.9', 50, now)).not.toContain('ban');
+    }
+  });
+
+  test('keeps blocks and violations when the options are updated', () => {
+    const limiter = new RateLimiter(LIMITS);
+    const bannedAt = exceedUntilBanned(limiter, '203.0.113.9', T);
+    burst(limiter, '203.0.113.10', 50, T);
+    burst(limiter, '203.0.113.10', 50, T + 1000);
+
+    limiter.updateOptions({ ...LIMITS, packetsPerSecond: 20 }, bannedAt);
+    expect(limiter.check('203.0.113.9', 1, bannedAt + 1000)).toBe('drop');
+    expect(limiter.getStats(bannedAt + 1000).autoBans).toBe(1);
+
+    // Two earlier violations still count towards the threshold of three
+    expect(burst(limiter, '203.0.113.10', 50, bannedAt + 1000)).toContain('ban');
+  });
+
+  test('applies updated limits to clients that were already tracked', () => {
+    const limiter = new RateLimiter(LIMITS);
+    burst(limiter, '198.51.100.1', 20, T);
+    limiter.updateOptions({ ...LIMITS, packetsPerSecond: 50 }, T);
+    expect(burst(limiter, '198.51.100.1', 100, T).filter((result) => result === 'allow')).toHaveLength(100);
+  });
+
+  test('unblocks an IP when its ban is lifted', () => {
+    const limiter = new RateLimiter(LIMITS);
+    const bannedAt = exceedUntilBanned(limiter, '203.0.113.9', T);
+    limiter.unblock('203.0.113.9');
+    expect(limiter.check('203.0.113.9', 1, bannedAt)).toBe('allow');
+  });
+
+  test('forgets idle IPs but not blocked ones', () => {
+    const limiter = new RateLimiter(LIMITS);
+    limiter.check('198.51.100.1', 1, T);
+    const bannedAt = exceedUntilBanned(limiter, '203.0.113.9', T);
+    limiter.prune(bannedAt + 3000);
+    expect(limiter.getStats(bannedAt + 3000).limitedClients).toBe(1);
+    limiter.prune(bannedAt + 61000);
+    expect(limiter.getStats(bannedAt + 61000).limitedClients).toBe(0);
+  });
+
+  test('lets several players behind one address through with the defaults', () => {
+    // Ten clients loading chunks at a few hundred packets per second each, for a minute
+    const limiter = new RateLimiter(DEFAULT_RATE_LIMITS);
+    for (let now = T; now < T + 60000; now += 100) {
+      expect(burst(limiter, '100.64.0.1', 10 * 15, now, 200)).not.toContain('drop');
+    }
+  });
+});
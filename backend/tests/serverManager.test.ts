@@ -0,0 +1,367 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Server, ServerAPI } from '../types/index.js';
+import { ServerManager } from '../services/serverManager.js';
+import { dataStorage } from '../services/dataStorage.js';
+import { processManager } from '../services/processManager.js';
+import { buildRakNetFrameSet, buildUnconnectedPing, buildUnconnectedPong, parseRakNetOfflineMessage } from '../services/raknetParser.js';
+import { logger, LogLevel } from '../services/logger.js';
+import { LOOPBACK, UdpPeer, buildOpenConnectionRequest2, delay, findFreePort, isDisconnectNotification } from './helpers/udp.js';
+import {
+  buildClientData,
+  buildLoginFrameSet,
+  buildLoginPacket,
+  buildOfflineChain,
+  carriesDisconnect,
+  carriesLogin,
+  createSigningKey,
+} from './helpers/login.js';
+
+const BACKEND_MOTD = 'MCPE;Dedicated Server;712;1.21.20;0;10;99;Bedrock level;Survival;1;;;';
+const EXECUTABLE = '/srv/lobby/bedrock_server';
+const MINUTE = 60 * 1000;
+
+async function waitUntil(condition: () => boolean, timeout = 4000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Condition not met within ${timeout}ms`);
+    await delay(20);
+  }
+}
+
+describe('ServerManager', () => {
+  let directory: string;
+  let manager: ServerManager;
+  let backend: UdpPeer;
+  let commands: string[];
+  let logLevel: LogLevel;
+  let listeners: Map<string | symbol, Function[]>;
+
+  // processManager is shared with other test files, so the listeners the manager adds are removed afterwards
+  function processManagerListeners(): Map<string | symbol, Function[]> {
+    return new Map(processManager.eventNames().map((event) => [event, processManager.listeners(event)]));
+  }
+
+  // Persistence stays in memory and server processes are simulated through processManager's events
+  beforeAll(async () => {
+    logLevel = logger.getLogLevel();
+    logger.setLogLevel(LogLevel.ERROR);
+    spyOn(console, 'log').mockImplementation(() => {});
+
+    directory = await mkdtemp(join(tmpdir(), 'server-manager-test-'));
+    spyOn(dataStorage, 'getDataDirectory').mockReturnValue(directory);
+    spyOn(dataStorage, 'getPluginsDirectory').mockReturnValue(join(directory, 'plugins'));
+    spyOn(dataStorage, 'initialize').mockResolvedValue();
+    spyOn(dataStorage, 'loadServers').mockResolvedValue([]);
+    spyOn(dataStorage, 'loadBans').mockResolvedValue({});
+    spyOn(dataStorage, 'loadWhitelists').mockResolvedValue({});
+    spyOn(dataStorage, 'loadCrashReports').mockResolvedValue({});
+    spyOn(dataStorage, 'loadWorldBackups').mockResolvedValue({});
+    spyOn(dataStorage, 'saveServers').mockResolvedValue();
+    spyOn(dataStorage, 'saveBans').mockResolvedValue();
+    spyOn(dataStorage, 'saveWhitelists').mockResolvedValue();
+    spyOn(dataStorage, 'saveCrashReports').mockResolvedValue();
+
+    const setStatus = (serverId: string, status: string) => {
+      processManager.emit('processStatusChanged', { serverId, status });
+    };
+    spyOn(processManager, 'startProcess').mockImplementation(async (serverId) => setStatus(serverId, 'running'));
+    spyOn(processManager, 'restartProcess').mockImplementation(async (serverId) => setStatus(serverId, 'running'));
+    spyOn(processManager, 'stopProcess').mockImplementation(async (serverId) => setStatus(serverId, 'stopped'));
+    spyOn(processManager, 'cleanupProcess').mockImplementation(() => {});
+    spyOn(processManager, 'sendCommand').mockImplementation((_serverId, command) => {
+      commands.push(command);
+    });
+
+    listeners = processManagerListeners();
+    manager = new ServerManager();
+    await manager.whenReady();
+  });
+
+  afterAll(async () => {
+    for (const [event, added] of processManagerListeners()) {
+      const existing = listeners.get(event) ?? [];
+      for (const listener of added) {
+        if (!existing.includes(listener)) processManager.off(event, listener as (...args: unknown[]) => void);
+      }
+    }
+    mock.restore();
+    logger.setLogLevel(logLevel);
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    commands = [];
+    (processManager.restartProcess as ReturnType<typeof spyOn>).mockClear();
+    backend = await UdpPeer.bind();
+    // The backend answers status pings like a dedicated server
+    backend.socket.on('message', (data, rinfo) => {
+      const message = parseRakNetOfflineMessage(data);
+      if (message?.type === 'UNCONNECTED_PING') {
+        backend.send(buildUnconnectedPong(message.time, 99n, BACKEND_MOTD), rinfo.port, rinfo.address);
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.all(manager.getServers().map((server) => manager.deleteServer(server.id)));
+    await backend.close();
+  });
+
+  // A running server whose proxy listens on a free loopback port and forwards to the fake backend
+  async function startServer(request: Partial<ServerAPI.AddServerRequest> = {}): Promise<Server> {
+    const port = await findFreePort();
+    const server = await manager.addServer({
+      name: 'Lobby',
+      address: `${LOOPBACK}:${port}`,
+      destinationAddress: `${LOOPBACK}:${backend.port}`,
+      maxPlayers: 10,
+      executablePath: EXECUTABLE,
+      ...request,
+    });
+    return manager.performServerAction({ id: server.id, action: 'start' });
+  }
+
+  function listenPort(server: Server): number {
+    return Number(server.address.split(':')[1]);
+  }
+
+  describe('live reload', () => {
+    test('applies live settings to the running proxy', async () => {
+      const server = await startServer();
+      const proxy = manager.getUdpProxy(server.id);
+      const other = await UdpPeer.bind();
+      try {
+        const { appliedLive } = await manager.updateServer({
+          id: server.id,
+          updates: { destinationAddress: `${LOOPBACK}:${other.port}`, maxConnections: 50 },
+        });
+        expect(appliedLive).toEqual(['destinationAddress', 'maxConnections']);
+        expect(server.pendingRestart ?? []).toEqual([]);
+        expect(manager.getUdpProxy(server.id)).toBe(proxy);
+
+        // New sessions already go to the new destination
+        const client = await UdpPeer.bind();
+        try {
+          client.send(buildOpenConnectionRequest2(0x1919n), listenPort(server));
+          await other.waitFor((datagram) => datagram.data[0] === 0x07);
+          expect(backend.received).toHaveLength(0);
+        } finally {
+          await client.close();
+        }
+      } finally {
+        await other.close();
+      }
+    });
+
+    test('keeps restart-only settings pending while the proxy keeps its listen address', async () => {
+      const server = await startServer();
+      const oldPort = listenPort(server);
+      const proxy = manager.getUdpProxy(server.id);
+      const port = await findFreePort();
+
+      const { appliedLive } = await manager.updateServer({ id: server.id, updates: { address: `${LOOPBACK}:${port}` } });
+      expect(appliedLive).toEqual([]);
+      expect(server.pendingRestart).toEqual(['address']);
+      expect(manager.getUdpProxy(server.id)).toBe(proxy);
+
+      const client = await UdpPeer.bind();
+      try {
+        client.send(buildOpenConnectionRequest2(0x1a1an), oldPort);
+        await backend.waitFor((datagram) => datagram.data[0] === 0x07);
+      } finally {
+        await client.close();
+      }
+    });
+
+    test('reports nothing as applied live while the proxy is stopped', async () => {
+      const server = await startServer();
+      await manager.performServerAction({ id: server.id, action: 'stop' });
+
+      const { appliedLive } = await manager.updateServer({ id: server.id, updates: { maxConnections: 50, address: `${LOOPBACK}:1` } });
+      expect(appliedLive).toEqual([]);
+      expect(server.pendingRestart ?? []).toEqual([]);
+    });
+  });
+
+  describe('maintenance', () => {
+    const MAINTENANCE_MESSAGE = 'Back at 18:00';
+
+    function window(startOffset: number, endOffset?: number) {
+      return {
+        startsAt: new Date(Date.now() + startOffset).toISOString(),
+        endsAt: endOffset === undefined ? undefined : new Date(Date.now() + endOffset).toISOString(),
+      };
+    }
+
+    function applyMaintenanceWindows(): void {
+      manager['applyMaintenanceWindows']();
+    }
+
+    // Opens a session with a signed-in Login, after `padding` frame sets without one
+    async function join(port: number, guid: bigint, padding = 0): Promise<UdpPeer> {
+      const client = await UdpPeer.bind();
+      client.send(buildOpenConnectionRequest2(guid), port);
+      for (let sequence = 0; sequence < padding; sequence++) {
+        client.send(buildRakNetFrameSet(sequence, Buffer.from('padding')), port);
+      }
+      const key = createSigningKey();
+      const chain = buildOfflineChain(key, { displayName: 'Steve' });
+      client.send(buildLoginFrameSet(padding, buildLoginPacket(chain, buildClientData(key))), port);
+      return client;
+    }
+
+    test('starts and ends on schedule', async () => {
+      const server = await startServer();
+
+      await manager.updateServer({ id: server.id, updates: { maintenanceWindow: window(MINUTE, 2 * MINUTE) } });
+      applyMaintenanceWindows();
+      await delay(50);
+      expect(server.maintenance).toBe(false);
+
+      await manager.updateServer({ id: server.id, updates: { maintenanceWindow: window(-MINUTE, MINUTE) } });
+      applyMaintenanceWindows();
+      await waitUntil(() => server.maintenance === true);
+      expect(server.maintenanceWindow).not.toBeNull();
+
+      await manager.updateServer({ id: server.id, updates: { maintenanceWindow: window(-2 * MINUTE, -MINUTE) } });
+      applyMaintenanceWindows();
+      await waitUntil(() => server.maintenance === false);
+      expect(server.maintenanceWindow).toBeNull();
+    });
+
+    test('keeps maintenance on without an end time until it is ended by hand', async () => {
+      const server = await startServer();
+      await manager.updateServer({ id: server.id, updates: { maintenanceWindow: window(-MINUTE) } });
+      applyMaintenanceWindows();
+      await waitUntil(() => server.maintenance === true);
+
+      applyMaintenanceWindows();
+      await delay(50);
+      expect(server.maintenance).toBe(true);
+
+      await manager.setMaintenance(server.id, false);
+      expect(server.maintenanceWindow).toBeNull();
+    });
+
+    test('disconnects a player who joins during maintenance with its message', async () => {
+      const server = await startServer();
+      await manager.setMaintenance(server.id, true, MAINTENANCE_MESSAGE);
+
+      const client = await join(listenPort(server), 0x2020n);
+      try {
+        await client.waitFor((datagram) => carriesDisconnect(datagram, MAINTENANCE_MESSAGE));
+        await client.waitFor(isDisconnectNotification);
+        await delay(50);
+        expect(backend.received.some(carriesLogin)).toBe(false);
+      } finally {
+        await client.close();
+      }
+    });
+
+    test('disconnects a player whose Login could not be read during maintenance', async () => {
+      const server = await startServer();
+      await manager.setMaintenance(server.id, true, MAINTENANCE_MESSAGE);
+
+      // The decoder gives up before the Login, so the player cannot be checked against the whitelist
+      const client = await join(listenPort(server), 0x2121n, 257);
+      try {
+        await client.waitFor(isDisconnectNotification);
+        await delay(50);
+        expect(backend.received.some(carriesLogin)).toBe(false);
+        expect(manager.getUdpProxy(server.id)!.getStats().activeConnections).toBe(0);
+      } finally {
+        await client.close();
+      }
+    });
+
+    test('lets players in again once maintenance ends', async () => {
+      const server = await startServer();
+      await manager.setMaintenance(server.id, true, MAINTENANCE_MESSAGE);
+      await manager.setMaintenance(server.id, false);
+
+      const client = await join(listenPort(server), 0x2222n);
+      try {
+        await backend.waitFor(carriesLogin);
+      } finally {
+        await client.close();
+      }
+    });
+  });
+
+  describe('drain', () => {
+    test('stops new sessions, keeps answering pings and announces the restart', async () => {
+      const server = await startServer();
+      manager.addPlayer(server.id, 'Steve');
+
+      await manager.drainServer(server.id, 60);
+      expect(server.drain).toMatchObject({ phase: 'draining', redirect: false });
+      expect(manager.getUdpProxy(server.id)!.getStats().draining).toBe(true);
+      expect(commands).toContain('say Server restarting in 1 minute. Please finish up and log out.');
+      await expect(manager.drainServer(server.id, 60)).rejects.toMatchObject({ code: 'SERVER_DRAINING' });
+
+      const client = await UdpPeer.bind();
+      try {
+        await delay(100);
+        client.send(buildUnconnectedPing(1n, 0x1717n), listenPort(server));
+        const pong = await client.waitFor((datagram) => parseRakNetOfflineMessage(datagram.data)?.type === 'UNCONNECTED_PONG');
+        expect(pong.data.includes(Buffer.from('Dedicated Server'))).toBe(true);
+      } finally {
+        await client.close();
+      }
+    });
+
+    test('can be cancelled before the restart', async () => {
+      const server = await startServer();
+      manager.addPlayer(server.id, 'Steve');
+      await manager.drainServer(server.id, 60);
+
+      await manager.cancelDrain(server.id);
+      expect(server.drain).toBeNull();
+      expect(manager.getUdpProxy(server.id)!.getStats().draining).toBe(false);
+      expect(commands).toContain('say Restart cancelled');
+      expect(processManager.restartProcess).not.toHaveBeenCalled();
+      await expect(manager.cancelDrain(server.id)).rejects.toMatchObject({ code: 'SERVER_NOT_DRAINING' });
+    });
+
+    test('restarts the process once the last player leaves', async () => {
+      const server = await startServer();
+      const player = manager.addPlayer(server.id, 'Steve');
+      const proxy = manager.getUdpProxy(server.id);
+      await manager.drainServer(server.id, 60);
+
+      manager.removePlayer(server.id, player.id);
+      await waitUntil(() => server.drain === null);
+
+      expect(processManager.restartProcess).toHaveBeenCalledWith(server.id, EXECUTABLE);
+      expect(manager.getUdpProxy(server.id)).toBe(proxy);
+      expect(proxy!.getStats().draining).toBe(false);
+    }, 6000);
+
+    test('applies restart-only settings after the drained restart', async () => {
+      const server = await startServer();
+      const proxy = manager.getUdpProxy(server.id);
+      const port = await findFreePort();
+
+      await manager.updateServer({ id: server.id, updates: { address: `${LOOPBACK}:${port}` } });
+      expect(server.pendingRestart).toEqual(['address']);
+
+      await manager.drainServer(server.id, 0);
+      await waitUntil(() => server.drain === null);
+
+      // The proxy was rebuilt on the new listen address
+      expect(server.pendingRestart).toEqual([]);
+      expect(manager.getUdpProxy(server.id)).not.toBe(proxy);
+      expect(proxy!.isActive()).toBe(false);
+      const client = await UdpPeer.bind();
+      try {
+        client.send(buildOpenConnectionRequest2(0x1818n), port);
+        await backend.waitFor((datagram) => datagram.data[0] === 0x07);
+      } finally {
+        await client.close();
+      }
+    }, 6000);
+  });
+});
@@ -0,0 +1,146 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { buildUnconnectedPong, parseRakNetOfflineMessage, type UnconnectedPing } from '../services/raknetParser.js';
+import {
+  StatusResponder,
+  formatBedrockMotd,
+  parseBedrockMotd,
+  type ProxyStatusInfo,
+  type StatusResponderOptions,
+} from '../services/statusResponder.js';
+import { logger, LogLevel } from '../services/logger.js';
+import { LOOPBACK, UdpPeer, delay } from './helpers/udp.js';
+
+const TARGET_MOTD = 'MCPE;Dedicated Server;712;1.21.20;3;10;1234567890;Bedrock level;Survival;1;19132;19133;';
+const PING: UnconnectedPing = { type: 'UNCONNECTED_PING', time: 42n, clientGuid: 7n };
+const INFO: ProxyStatusInfo = { name: 'Lobby', playersOnline: 5, maxPlayers: 50, status: 'online' };
+
+// MOTD of the Pong the responder sends back for PING
+function pongMotd(pong: Buffer): string[] {
+  const message = parseRakNetOfflineMessage(pong);
+  if (message?.type !== 'UNCONNECTED_PONG') throw new Error('not a pong');
+  return message.motd.split(';');
+}
+
+describe('parseBedrockMotd / formatBedrockMotd', () => {
+  test('round-trips a dedicated server MOTD', () => {
+    const motd = parseBedrockMotd(TARGET_MOTD);
+    expect(motd).toEqual({
+      edition: 'MCPE',
+      motd: 'Dedicated Server',
+      protocolVersion: 712,
+      gameVersion: '1.21.20',
+      playersOnline: 3,
+      maxPlayers: 10,
+      serverGuid: '1234567890',
+      subMotd: 'Bedrock level',
+      gameMode: 'Survival',
+      gameModeNumeric: 1,
+      portV4: 19132,
+      portV6: 19133,
+    });
+    expect(formatBedrockMotd(motd!)).toBe(TARGET_MOTD);
+  });
+
+  test('rejects a MOTD with too few fields and fills optional ones', () => {
+    expect(parseBedrockMotd('MCPE;name;712')).toBeNull();
+    expect(parseBedrockMotd('MCPE;name;712;1.21.20;0;10')).toMatchObject({ gameMode: 'Survival', gameModeNumeric: 1, portV4: 0 });
+  });
+
+  test('keeps separators in names from breaking the format', () => {
+    const motd = parseBedrockMotd(TARGET_MOTD)!;
+    motd.motd = 'Lobby;1\nline';
+    expect(formatBedrockMotd(motd).split(';')[1]).toBe('Lobby 1 line');
+  });
+});
+
+describe('StatusResponder', () => {
+  let responder: StatusResponder | null = null;
+  let target: UdpPeer | null = null;
+  let logLevel: LogLevel;
+
+  beforeAll(() => {
+    logLevel = logger.getLogLevel();
+    logger.setLogLevel(LogLevel.ERROR);
+  });
+
+  afterAll(() => {
+    logger.setLogLevel(logLevel);
+  });
+
+  afterEach(async () => {
+    responder?.close();
+    responder = null;
+    await target?.close();
+    target = null;
+  });
+
+  function createResponder(options: Partial<StatusResponderOptions> = {}): StatusResponder {
+    // Nothing answers on the target port (discard) unless a target is given, so the cache stays empty
+    responder = new StatusResponder({ targetHost: LOOPBACK, targetPort: 9, listenPort: 19200, ...options });
+    return responder;
+  }
+
+  // A target that answers status pings with TARGET_MOTD until it is closed
+  async function startTarget(): Promise<UdpPeer> {
+    target = await UdpPeer.bind();
+    const peer = target;
+    peer.socket.on('message', (data, rinfo) => {
+      const message = parseRakNetOfflineMessage(data);
+      if (message?.type === 'UNCONNECTED_PING') {
+        peer.send(buildUnconnectedPong(message.time, 99n, TARGET_MOTD), rinfo.port, rinfo.address);
+      }
+    });
+    return peer;
+  }
+
+  async function waitForCache(current: StatusResponder): Promise<void> {
+    current.refresh(true);
+    for (let i = 0; i < 100 && !current.isTargetResponding(); i++) {
+      await delay(10);
+    }
+    expect(current.isTargetResponding()).toBe(true);
+  }
+
+  test('reports the server offline before the target has answered', () => {
+    const motd = pongMotd(createResponder().buildPong(PING, INFO));
+    expect(motd[1]).toBe('Lobby');
+    expect(motd[4]).toBe('0');
+    expect(motd[7]).toBe('§cServer is offline');
+    expect(motd[10]).toBe('19200');
+  });
+
+  test('reports starting and maintenance states over the target status', () => {
+    const current = createResponder();
+    expect(pongMotd(current.buildPong(PING, { ...INFO, status: 'starting' }))[7]).toBe('§eServer is starting...');
+    expect(pongMotd(current.buildPong(PING, { ...INFO, maintenance: true }))[7]).toBe('§6Under maintenance');
+  });
+
+  test('has no cached pong before the target has answered', () => {
+    expect(createResponder().buildCachedPong(PING)).toBeNull();
+  });
+
+  test('serves the target status from the cache', async () => {
+    const peer = await startTarget();
+    const current = createResponder({ targetPort: peer.port });
+    await waitForCache(current);
+
+    const motd = pongMotd(current.buildPong(PING, INFO));
+    expect(motd[3]).toBe('1.21.20');
+    expect(motd[4]).toBe('5');
+    expect(motd[7]).toBe('Bedrock level');
+    expect(pongMotd(current.buildCachedPong(PING)!)).toEqual(TARGET_MOTD.split(';'));
+  });
+
+  test('reports the server offline once the cache has expired', async () => {
+    const peer = await startTarget();
+    const current = createResponder({ targetPort: peer.port, maxAge: 100 });
+    await waitForCache(current);
+    await peer.close();
+    target = null;
+    await delay(150);
+
+    expect(pongMotd(current.buildPong(PING, INFO))[7]).toBe('§cServer is offline');
+    expect(pongMotd(current.buildPong(PING, { ...INFO, maintenance: true }))[7]).toBe('§6Under maintenance');
+    expect(current.buildCachedPong(PING)).toBeNull();
+  });
+});
@@ -0,0 +1,494 @@
+import { afterEach, beforeAll, afterAll, describe, expect, test } from 'bun:test';
+import { UDPProxy, type UDPProxyConfig } from '../services/udpProxy.js';
+import {
+  buildRakNetFrameSet,
+  buildUnconnectedPing,
+  buildUnconnectedPong,
+  parseRakNetOfflineMessage,
+  RAKNET_PACKET_IDS,
+} from '../services/raknetParser.js';
+import { generateProxyProtocolV1Header, generateProxyProtocolV2Header, parseProxyProtocolChain } from '../services/proxyProtocolParser.js';
+import { logger, LogLevel } from '../services/logger.js';
+import type { PlayerPacket } from '../types/index.js';
+import {
+  LOOPBACK,
+  UdpPeer,
+  buildAck,
+  buildOpenConnectionRequest2,
+  delay,
+  findFreePort,
+  isDisconnectNotification,
+  type Datagram,
+} from './helpers/udp.js';
+import {
+  buildClientData,
+  buildLoginFrameSet,
+  buildLoginPacket,
+  buildOfflineChain,
+  carriesLogin,
+  createSigningKey,
+} from './helpers/login.js';
+
+// Rate limits and challenges would drop bursts sent from the loopback address
+const TEST_RATE_LIMITS = {
+  packetsPerSecond: 1_000_000,
+  bytesPerSecond: 1024 * 1024 * 1024,
+  globalPacketsPerSecond: 1_000_000,
+  globalBytesPerSecond: 1024 * 1024 * 1024,
+  autoBanThreshold: 0,
+  autoBanDuration: 0,
+};
+
+describe('UDPProxy', () => {
+  let backend: UdpPeer;
+  let proxy: UDPProxy;
+  let proxyPort: number;
+  const peers: UdpPeer[] = [];
+  let logLevel: LogLevel;
+
+  beforeAll(() => {
+    logLevel = logger.getLogLevel();
+    logger.setLogLevel(LogLevel.ERROR);
+  });
+
+  afterAll(() => {
+    logger.setLogLevel(logLevel);
+  });
+
+  async function startProxy(config: Partial<UDPProxyConfig> = {}): Promise<void> {
+    backend = await UdpPeer.bind();
+    proxyPort = await findFreePort();
+    proxy = new UDPProxy({
+      listenPort: proxyPort,
+      targetHost: LOOPBACK,
+      targetPort: backend.port,
+      timeout: 60000,
+      rateLimits: TEST_RATE_LIMITS,
+      challengeMode: 'off',
+      ...config,
+    });
+    await proxy.start();
+  }
+
+  // A client that has completed the RakNet handshake and sent one frame set
+  async function connectClient(guid: bigint): Promise<{ client: UdpPeer; upstreamPort: number }> {
+    const client = await UdpPeer.bind();
+    peers.push(client);
+    const marker = Buffer.from(`client-${guid}`);
+    client.send(buildOpenConnectionRequest2(guid), proxyPort);
+    client.send(buildRakNetFrameSet(0, marker), proxyPort);
+    const forwarded = await backend.waitFor((datagram) => datagram.data.includes(marker));
+    return { client, upstreamPort: forwarded.port };
+  }
+
+  afterEach(async () => {
+    await proxy.stop();
+    await Promise.all(peers.splice(0).map((peer) => peer.close()));
+    await backend.close();
+  });
+
+  describe('proxy-side disconnects', () => {
+    test('tell the client and the backend when a client is kicked', async () => {
+      await startProxy();
+      const { client, upstreamPort } = await connectClient(0x1111n);
+
+      expect(proxy.disconnectClient(LOOPBACK, client.port, 'Bye')).toBe(1);
+
+      await client.waitFor(isDisconnectNotification);
+      const notification = await backend.waitFor(isDisconnectNotification);
+      expect(notification.port).toBe(upstreamPort);
+    });
+
+    test('tell banned and denied clients too', async () => {
+      await startProxy();
+      const banned = await connectClient(0x2222n);
+      proxy.setBanList([{ target: LOOPBACK }]);
+      await banned.client.waitFor(isDisconnectNotification);
+      proxy.setBanList([]);
+
+      const denied = await connectClient(0x3333n);
+      proxy.setWhitelist([{ type: 'ip', value: LOOPBACK, mode: 'deny' }], false);
+      await denied.client.waitFor(isDisconnectNotification);
+
+      const notified = backend.received.filter(isDisconnectNotification).map((datagram) => datagram.port);
+      expect(notified).toEqual([banned.upstreamPort, denied.upstreamPort]);
+    });
+
+    test('tell every client when the proxy stops', async () => {
+      await startProxy();
+      const events: PlayerPacket[] = [];
+      proxy.setPlayerActionHandler((packet) => events.push(packet));
+      const { client, upstreamPort } = await connectClient(0x1212n);
+      const key = createSigningKey();
+      client.send(buildLoginFrameSet(1, buildLoginPacket(buildOfflineChain(key, { displayName: 'Steve' }), buildClientData(key))), proxyPort);
+      await backend.waitFor(carriesLogin);
+
+      await proxy.stop();
+
+      await client.waitFor(isDisconnectNotification);
+      const notification = await backend.waitFor(isDisconnectNotification);
+      expect(notification.port).toBe(upstreamPort);
+      expect(events.map((packet) => `${packet.action} ${packet.name}`)).toEqual(['join Steve', 'leave Steve']);
+    });
+
+    test('do not hand the kicked session\'s upstream socket to the next client', async () => {
+      await startProxy();
+      const kicked = await connectClient(0x4444n);
+      proxy.disconnectClient(LOOPBACK, kicked.client.port);
+      await backend.waitFor(isDisconnectNotification);
+      await delay(50);
+
+      const next = await connectClient(0x5555n);
+      expect(next.upstreamPort).not.toBe(kicked.upstreamPort);
+    });
+  });
+
+  describe('whitelist', () => {
+    test('does not match XUID entries against unauthenticated logins', async () => {
+      await startProxy();
+      proxy.setWhitelist([{ type: 'xuid', value: '2535400000000001', mode: 'allow' }], true);
+      const client = await UdpPeer.bind();
+      peers.push(client);
+
+      // An offline-mode client claiming an allowed XUID
+      const key = createSigningKey();
+      const chain = buildOfflineChain(key, { displayName: 'Steve', XUID: '2535400000000001' });
+      client.send(buildOpenConnectionRequest2(0xbbbbn), proxyPort);
+      client.send(buildLoginFrameSet(0, buildLoginPacket(chain, buildClientData(key))), proxyPort);
+
+      await client.waitFor(isDisconnectNotification);
+      await delay(50);
+      expect(backend.received.some(carriesLogin)).toBe(false);
+    });
+
+    test('refuses a session whose Login arrives after the decoder gave up', async () => {
+      await startProxy();
+      proxy.setWhitelist([{ type: 'xuid', value: '2535400000000001', mode: 'allow' }], true);
+      const { client } = await connectClient(0xbbbdn);
+
+      // Enough padding frame sets to exhaust the decoder before the Login
+      for (let sequence = 1; sequence <= 257; sequence++) {
+        client.send(buildRakNetFrameSet(sequence, Buffer.from('padding')), proxyPort);
+      }
+      const key = createSigningKey();
+      const chain = buildOfflineChain(key, { displayName: 'Steve' });
+      client.send(buildLoginFrameSet(258, buildLoginPacket(chain, buildClientData(key))), proxyPort);
+
+      await client.waitFor(isDisconnectNotification);
+      await delay(50);
+      expect(backend.received.some(carriesLogin)).toBe(false);
+      expect(proxy.getStats().activeConnections).toBe(0);
+    });
+
+    test('forwards the login of an allowed player', async () => {
+      await startProxy();
+      proxy.setWhitelist([{ type: 'ip', value: LOOPBACK, mode: 'allow' }], true);
+      const client = await UdpPeer.bind();
+      peers.push(client);
+
+      const key = createSigningKey();
+      const chain = buildOfflineChain(key, { displayName: 'Steve' });
+      client.send(buildOpenConnectionRequest2(0xbbbcn), proxyPort);
+      client.send(buildLoginFrameSet(0, buildLoginPacket(chain, buildClientData(key))), proxyPort);
+
+      await backend.waitFor(carriesLogin);
+    });
+  });
+
+  describe('incoming Proxy Protocol headers', () => {
+    // Sends a frame set behind a v2 header and reports whether the backend received it
+    async function forwarded(client: UdpPeer, header: Buffer, marker: string): Promise<boolean> {
+      client.send(Buffer.concat([header, buildRakNetFrameSet(0, Buffer.from(marker))]), proxyPort);
+      try {
+        await backend.waitFor((datagram) => datagram.data.includes(marker), 300);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    test('drops headers without a valid checksum in strict mode', async () => {
+      await startProxy({ proxyProtocolV2Enabled: true, proxyProtocolStrict: true, proxyProtocolChecksum: true });
+      const client = await UdpPeer.bind();
+      peers.push(client);
+
+      const unsigned = generateProxyProtocolV2Header('192.0.2.50', 50000, LOOPBACK, proxyPort);
+      expect(await forwarded(client, unsigned, 'unsigned')).toBe(false);
+
+      const tampered = generateProxyProtocolV2Header('192.0.2.50', 50000, LOOPBACK, proxyPort, { crc32c: true });
+      tampered[19] ^= 0x01;
+      expect(await forwarded(client, tampered, 'tampered')).toBe(false);
+
+      const signed = generateProxyProtocolV2Header('192.0.2.50', 50000, LOOPBACK, proxyPort, { crc32c: true });
+      expect(await forwarded(client, signed, 'signed')).toBe(true);
+      expect(proxy.getStats().activeConnections).toBe(1);
+    });
+
+    test('forwards the client address of v1 and v2 headers to the backend', async () => {
+      await startProxy({ proxyProtocolV2Enabled: true });
+      const v2Client = await UdpPeer.bind();
+      const v1Client = await UdpPeer.bind();
+      peers.push(v2Client, v1Client);
+
+      expect(await forwarded(v2Client, generateProxyProtocolV2Header('192.0.2.50', 50000, LOOPBACK, proxyPort), 'from-v2')).toBe(true);
+      expect(await forwarded(v1Client, generateProxyProtocolV1Header('192.0.2.51', 50001, LOOPBACK, proxyPort), 'from-v1')).toBe(true);
+
+      const clients = ['from-v2', 'from-v1'].map((marker) => {
+        const datagram = backend.received.find((received) => received.data.includes(marker))!;
+        const chain = parseProxyProtocolChain(datagram.data)!;
+        return `${chain.originalClientIP}:${chain.originalClientPort}`;
+      });
+      expect(clients).toEqual(['192.0.2.50:50000', '192.0.2.51:50001']);
+    });
+
+    test('checks bans and deny entries against a header sent as a separate packet', async () => {
+      await startProxy({ proxyProtocolV2Enabled: true, trustedProxies: [LOOPBACK] });
+      proxy.setBanList([{ target: '192.0.2.60' }]);
+      proxy.setWhitelist([{ type: 'ip', value: '192.0.2.61', mode: 'deny' }], false);
+
+      // The upstream sends each client's header on its own before the client's packets
+      const sendBehind = async (realClient: string, marker: string): Promise<boolean> => {
+        const client = await UdpPeer.bind();
+        peers.push(client);
+        client.send(generateProxyProtocolV2Header(realClient, 50000, LOOPBACK, proxyPort), proxyPort);
+        return forwarded(client, Buffer.alloc(0), marker);
+      };
+
+      expect(await sendBehind('192.0.2.60', 'banned')).toBe(false);
+      expect(await sendBehind('192.0.2.61', 'denied')).toBe(false);
+      expect(await sendBehind('192.0.2.62', 'allowed')).toBe(true);
+      expect(proxy.getStats().activeConnections).toBe(1);
+    });
+
+    test('drops headers from untrusted upstreams in strict mode', async () => {
+      await startProxy({ proxyProtocolV2Enabled: true, proxyProtocolStrict: true, trustedProxies: ['10.0.0.0/8'] });
+      const client = await UdpPeer.bind();
+      peers.push(client);
+
+      const header = generateProxyProtocolV2Header('192.0.2.50', 50000, LOOPBACK, proxyPort);
+      expect(await forwarded(client, header, 'untrusted')).toBe(false);
+    });
+  });
+
+  describe('outgoing Proxy Protocol headers', () => {
+    // An upstream that sends the client's header once, then relays the client's packets bare
+    async function relayOnce(headerOnly: boolean): Promise<Datagram[]> {
+      const upstream = await UdpPeer.bind();
+      peers.push(upstream);
+      const header = generateProxyProtocolV2Header('192.0.2.90', 50000, LOOPBACK, proxyPort);
+      const request2 = buildOpenConnectionRequest2(0xaeaen);
+      if (headerOnly) {
+        upstream.send(header, proxyPort);
+        upstream.send(request2, proxyPort);
+      } else {
+        upstream.send(Buffer.concat([header, request2]), proxyPort);
+      }
+      for (let sequence = 0; sequence < 3; sequence++) {
+        upstream.send(buildRakNetFrameSet(sequence, Buffer.from(`packet-${sequence}`)), proxyPort);
+      }
+      await backend.waitFor((datagram) => datagram.data.includes('packet-2'));
+      return backend.received;
+    }
+
+    // What each datagram the backend received carries; every header must name the real client
+    function describeDatagrams(datagrams: Datagram[]): string[] {
+      return datagrams.map((datagram) => {
+        const chain = parseProxyProtocolChain(datagram.data);
+        if (!chain) return 'packet';
+        expect(`${chain.originalClientIP}:${chain.originalClientPort}`).toBe('192.0.2.90:50000');
+        return chain.payload.length > 0 ? 'header+packet' : 'header';
+      });
+    }
+
+    const expected = {
+      'every-packet': ['header+packet', 'header+packet', 'header+packet', 'header+packet'],
+      'first-packet': ['header+packet', 'packet', 'packet', 'packet'],
+      preamble: ['header', 'packet', 'packet', 'packet', 'packet'],
+      never: ['packet', 'packet', 'packet', 'packet'],
+    } as const;
+
+    for (const [emission, datagrams] of Object.entries(expected)) {
+      test(`emits ${emission} headers for a session whose upstream sent its header once`, async () => {
+        await startProxy({
+          proxyProtocolV2Enabled: true,
+          trustedProxies: [LOOPBACK],
+          proxyProtocolEmission: emission as keyof typeof expected,
+        });
+        expect(describeDatagrams(await relayOnce(false))).toEqual([...datagrams]);
+      });
+    }
+
+    test('emits every-packet headers after a header-only packet', async () => {
+      await startProxy({ proxyProtocolV2Enabled: true, trustedProxies: [LOOPBACK], proxyProtocolEmission: 'every-packet' });
+      expect(describeDatagrams(await relayOnce(true))).toEqual([...expected['every-packet']]);
+    });
+  });
+
+  describe('session rebinding', () => {
+    test('moves an idle session to a new port that continues its frame sets', async () => {
+      await startProxy();
+      const first = await connectClient(0x8888n);
+      await delay(1100);
+
+      const moved = await UdpPeer.bind();
+      peers.push(moved);
+      moved.send(buildRakNetFrameSet(1, Buffer.from('after-rebind')), proxyPort);
+      const forwarded = await backend.waitFor((datagram) => datagram.data.includes('after-rebind'));
+      expect(forwarded.port).toBe(first.upstreamPort);
+      expect(proxy.getStats().activeConnections).toBe(1);
+
+      backend.send(buildRakNetFrameSet(0, Buffer.from('to-client')), first.upstreamPort);
+      await moved.waitFor((datagram) => datagram.data.includes('to-client'));
+      expect(first.client.received.some((datagram) => datagram.data.includes('to-client'))).toBe(false);
+    }, 5000);
+
+    test('drops frame sets for a session that is still active on its old port', async () => {
+      await startProxy();
+      await connectClient(0x9999n);
+
+      const other = await UdpPeer.bind();
+      peers.push(other);
+      other.send(buildRakNetFrameSet(1, Buffer.from('too-early')), proxyPort);
+      await delay(100);
+      expect(backend.received.some((datagram) => datagram.data.includes('too-early'))).toBe(false);
+      expect(proxy.getStats().activeConnections).toBe(1);
+    });
+
+    test('closes the backend session before a GUID rebind starts a new handshake', async () => {
+      await startProxy();
+      const first = await connectClient(0xaaaan);
+      await delay(3100);
+
+      const moved = await UdpPeer.bind();
+      peers.push(moved);
+      moved.send(buildOpenConnectionRequest2(0xaaaan), proxyPort);
+      await backend.waitFor((datagram) => datagram.port === first.upstreamPort && isDisconnectNotification(datagram));
+      await delay(50);
+
+      const upstream = backend.received.filter((datagram) => datagram.port === first.upstreamPort);
+      const notification = upstream.findIndex(isDisconnectNotification);
+      const request2 = upstream.map((datagram) => datagram.data[0]).lastIndexOf(0x07);
+      expect(notification).toBeGreaterThan(-1);
+      expect(notification).toBeLessThan(request2);
+      expect(upstream.filter((datagram) => datagram.data[0] === 0x07)).toHaveLength(2);
+    }, 6000);
+
+    test('checks the Login of a rebound session again', async () => {
+      await startProxy();
+      const events: PlayerPacket[] = [];
+      proxy.setPlayerActionHandler((packet) => events.push(packet));
+      const first = await connectClient(0xacacn);
+      const key = createSigningKey();
+      const login = (displayName: string) => buildLoginPacket(buildOfflineChain(key, { displayName }), buildClientData(key));
+      first.client.send(buildLoginFrameSet(1, login('Steve')), proxyPort);
+      await backend.waitFor(carriesLogin);
+
+      // Maintenance keeps players who already joined; a new Login must be on the allowlist
+      proxy.updateConfig({ maintenance: true });
+      await delay(3100);
+
+      const moved = await UdpPeer.bind();
+      peers.push(moved);
+      moved.send(buildOpenConnectionRequest2(0xacacn), proxyPort);
+      await backend.waitFor((datagram) => datagram.port === first.upstreamPort && isDisconnectNotification(datagram));
+      moved.send(buildLoginFrameSet(0, login('Alex')), proxyPort);
+
+      await moved.waitFor(isDisconnectNotification);
+      await delay(50);
+      expect(backend.received.filter(carriesLogin)).toHaveLength(1);
+      expect(events.map((packet) => `${packet.action} ${packet.name}`)).toEqual(['join Steve', 'leave Steve']);
+    }, 6000);
+
+    test('does not rebind by GUID from another real client address', async () => {
+      await startProxy({ proxyProtocolV2Enabled: true, trustedProxies: [LOOPBACK] });
+      const first = await UdpPeer.bind();
+      peers.push(first);
+      first.send(generateProxyProtocolV2Header('192.0.2.80', 50000, LOOPBACK, proxyPort), proxyPort);
+      first.send(buildOpenConnectionRequest2(0xadadn), proxyPort);
+      first.send(buildRakNetFrameSet(0, Buffer.from('first-session')), proxyPort);
+      const session = await backend.waitFor((datagram) => datagram.data.includes('first-session'));
+      await delay(3100);
+
+      const other = await UdpPeer.bind();
+      peers.push(other);
+      other.send(generateProxyProtocolV2Header('192.0.2.81', 50000, LOOPBACK, proxyPort), proxyPort);
+      other.send(buildOpenConnectionRequest2(0xadadn), proxyPort);
+      const request2 = await backend.waitFor((datagram) => datagram.port !== session.port);
+      expect(parseProxyProtocolChain(request2.data)?.originalClientIP).toBe('192.0.2.81');
+
+      expect(backend.received.some((datagram) => datagram.port === session.port && isDisconnectNotification(datagram))).toBe(false);
+      expect(proxy.getStats().activeConnections).toBe(2);
+    }, 6000);
+  });
+
+  describe('draining', () => {
+    const BACKEND_MOTD = 'MCPE;Dedicated Server;712;1.21.20;3;10;99;Bedrock level;Survival;1;;;';
+
+    // The backend answers status pings like a dedicated server
+    function answerStatusPings(): void {
+      backend.socket.on('message', (data, rinfo) => {
+        const message = parseRakNetOfflineMessage(data);
+        if (message?.type === 'UNCONNECTED_PING') {
+          backend.send(buildUnconnectedPong(message.time, 99n, BACKEND_MOTD), rinfo.port, rinfo.address);
+        }
+      });
+    }
+
+    const isPong = (datagram: Datagram) => parseRakNetOfflineMessage(datagram.data)?.type === 'UNCONNECTED_PONG';
+
+    test('answers status pings from new clients without opening sessions', async () => {
+      await startProxy();
+      answerStatusPings();
+      const existing = await connectClient(0x1313n);
+      proxy.setDraining(true);
+      await delay(100);
+
+      const client = await UdpPeer.bind();
+      peers.push(client);
+      client.send(buildUnconnectedPing(1n, 0x1414n), proxyPort);
+      const pong = parseRakNetOfflineMessage((await client.waitFor(isPong)).data);
+      expect(pong?.type === 'UNCONNECTED_PONG' && pong.motd.split(';')[1]).toBe('Dedicated Server');
+
+      // New handshakes are dropped while existing sessions keep playing
+      client.send(buildOpenConnectionRequest2(0x1414n), proxyPort);
+      await delay(50);
+      existing.client.send(buildRakNetFrameSet(1, Buffer.from('still-playing')), proxyPort);
+      await backend.waitFor((datagram) => datagram.data.includes('still-playing'));
+      expect(backend.received.filter((datagram) => datagram.data[0] === 0x07)).toHaveLength(1);
+      expect(proxy.getStats().activeConnections).toBe(1);
+    });
+
+    test('accepts new sessions again once draining ends', async () => {
+      await startProxy();
+      proxy.setDraining(true);
+      const client = await UdpPeer.bind();
+      peers.push(client);
+      client.send(buildOpenConnectionRequest2(0x1515n), proxyPort);
+      await delay(50);
+      expect(proxy.getStats().activeConnections).toBe(0);
+
+      proxy.setDraining(false);
+      await connectClient(0x1616n);
+      expect(proxy.getStats()).toMatchObject({ draining: false, activeConnections: 1 });
+    });
+  });
+
+  describe('upstream socket reuse', () => {
+    test('reuses the socket of a session whose disconnect the backend acknowledged', async () => {
+      await startProxy();
+      const first = await connectClient(0x6666n);
+
+      // The client leaves; the backend acknowledges the notification on the same socket
+      first.client.send(buildRakNetFrameSet(1, Buffer.from([RAKNET_PACKET_IDS.DISCONNECTION_NOTIFICATION])), proxyPort);
+      await backend.waitFor(isDisconnectNotification);
+      backend.send(buildAck(1), first.upstreamPort);
+      await first.client.waitFor((datagram) => datagram.data[0] === 0xc0);
+
+      proxy.disconnectClient(LOOPBACK, first.client.port);
+      await delay(50);
+
+      const next = await connectClient(0x7777n);
+      expect(next.upstreamPort).toBe(first.upstreamPort);
+    });
+  });
+});
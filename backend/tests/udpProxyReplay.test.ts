@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { replayScriptedClients, type ScriptedClient } from './helpers/proxyReplay.js';
+
+// Proxy regression tests: recorded client traffic is replayed through UDPProxy
+// against a fake backend; no Minecraft client is involved.
+const CLIENTS: ScriptedClient[] = [
+  { address: '203.0.113.10', port: 50001, guid: 0x1111n },
+  { address: '198.51.100.20', port: 50002, guid: 0x2222n },
+  { address: '2001:db8::30', port: 50003, guid: 0x3333n },
+];
+
+describe('UDPProxy replay', () => {
+  for (const upstreamHeader of ['v2', 'v1'] as const) {
+    test(`recovers the client of ${upstreamHeader} upstream headers and forwards every packet in order`, async () => {
+      const report = await replayScriptedClients(CLIENTS, { upstreamHeader });
+
+      expect(report.sessions).toHaveLength(CLIENTS.length);
+      for (const session of report.sessions) {
+        expect(session.recoveredClient).toBe(session.realClient);
+        expect(session.errors).toEqual([]);
+        expect(session.missing).toBe(0);
+        expect(session.outOfOrder).toBe(false);
+        expect(session.forwarded).toBe(session.sent);
+      }
+      expect(report.passed).toBe(true);
+    });
+  }
+
+  test('rewrites the header as v1', async () => {
+    const report = await replayScriptedClients(CLIENTS, { outboundProxyProtocol: 'v1' });
+    expect(report.sessions.flatMap((session) => session.errors)).toEqual([]);
+    expect(report.passed).toBe(true);
+  });
+
+  for (const emission of ['first-packet', 'preamble', 'never'] as const) {
+    test(`emits the header with ${emission} timing`, async () => {
+      const report = await replayScriptedClients(CLIENTS, { proxyProtocolEmission: emission });
+      expect(report.sessions.flatMap((session) => session.errors)).toEqual([]);
+      expect(report.passed).toBe(true);
+    });
+  }
+
+  test('forwards clients without an upstream header unchanged', async () => {
+    const report = await replayScriptedClients(CLIENTS, { upstreamHeader: 'none' });
+    expect(report.sessions.flatMap((session) => session.errors)).toEqual([]);
+    expect(report.sessions.every((session) => session.recoveredClient === null)).toBe(true);
+    expect(report.passed).toBe(true);
+  });
+});
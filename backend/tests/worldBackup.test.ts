@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { WorldBackup } from '../types/index.js';
+import { WorldBackupManager, parseSaveQueryFiles, readLevelName } from '../services/worldBackup.js';
+import { processManager } from '../services/processManager.js';
+import { ZipWriter } from '../services/zipArchive.js';
+import { delay } from './helpers/udp.js';
+
+let directory: string;
+let backupDirectory: string;
+let serverDirectory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'world-backup-test-'));
+  backupDirectory = join(directory, 'backups');
+  serverDirectory = join(directory, 'server');
+  await mkdir(backupDirectory);
+  await mkdir(join(serverDirectory, 'worlds'), { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function writeWorld(name: string, files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    const target = join(serverDirectory, 'worlds', name, ...path.split('/'));
+    await mkdir(join(target, '..'), { recursive: true });
+    await writeFile(target, content);
+  }
+}
+
+async function setLevelName(name: string): Promise<void> {
+  await writeFile(join(serverDirectory, 'server.properties'), `server-name=Test\nlevel-name=${name}\n`);
+}
+
+// A backup record and its ZIP in the manager's directory
+async function writeBackup(worldName: string, files: Record<string, string>): Promise<WorldBackup> {
+  const id = 'lobby__20260105-103000';
+  const writer = await ZipWriter.create(join(backupDirectory, `${id}.zip`));
+  for (const [path, content] of Object.entries(files)) {
+    await writer.addFile(path, Buffer.from(content));
+  }
+  const size = await writer.finish();
+  return {
+    id,
+    serverId: 'lobby',
+    fileName: `${id}.zip`,
+    worldName,
+    size,
+    fileCount: writer.entryCount,
+    method: 'offline',
+    trigger: 'manual',
+    createdAt: new Date(),
+  };
+}
+
+async function readWorld(name: string): Promise<string> {
+  return readFile(join(serverDirectory, 'worlds', name, 'level.dat'), 'utf-8');
+}
+
+describe('readLevelName / parseSaveQueryFiles', () => {
+  test('reads level-name and falls back to the default world', async () => {
+    expect(await readLevelName(serverDirectory)).toBe('Bedrock level');
+    await setLevelName('My World ');
+    expect(await readLevelName(serverDirectory)).toBe('My World');
+  });
+
+  test('keeps the files of the world with their lengths', () => {
+    const output = 'My World/db/000005.ldb:1234, My World/level.dat:2048, Other/level.dat:10, My World/bad:-1, junk';
+    expect(parseSaveQueryFiles(output, 'My World')).toEqual([
+      { path: 'db/000005.ldb', length: 1234 },
+      { path: 'level.dat', length: 2048 },
+    ]);
+  });
+});
+
+describe('WorldBackupManager.restore', () => {
+  test('replaces the world and keeps the previous one', async () => {
+    await setLevelName('Survival');
+    await writeWorld('Survival', { 'level.dat': 'current', 'db/CURRENT': 'MANIFEST-1' });
+    const backup = await writeBackup('Survival', { 'level.dat': 'restored', 'db/000005.ldb': 'data' });
+
+    await new WorldBackupManager(backupDirectory).restore(backup, serverDirectory);
+
+    expect(await readWorld('Survival')).toBe('restored');
+    expect((await readdir(join(serverDirectory, 'worlds', 'Survival', 'db')))).toEqual(['000005.ldb']);
+    expect(await readWorld('Survival.before-restore')).toBe('current');
+    expect((await readdir(join(serverDirectory, 'worlds'))).sort()).toEqual(['Survival', 'Survival.before-restore']);
+  });
+
+  test('refuses to restore over a different world', async () => {
+    await setLevelName('Creative');
+    await writeWorld('Creative', { 'level.dat': 'creative' });
+    const backup = await writeBackup('Survival', { 'level.dat': 'survival' });
+
+    await expect(new WorldBackupManager(backupDirectory).restore(backup, serverDirectory)).rejects.toThrow('"Survival"');
+    expect(await readWorld('Creative')).toBe('creative');
+    expect(await readdir(join(serverDirectory, 'worlds'))).toEqual(['Creative']);
+  });
+
+  test('leaves the world untouched when the backup has an entry outside the world', async () => {
+    await setLevelName('Survival');
+    await writeWorld('Survival', { 'level.dat': 'current' });
+    const backup = await writeBackup('Survival', { 'level.dat': 'restored', '../../escaped.txt': 'evil' });
+
+    await expect(new WorldBackupManager(backupDirectory).restore(backup, serverDirectory)).rejects.toThrow('escapes the destination');
+    expect(await readWorld('Survival')).toBe('current');
+    expect(await readdir(join(serverDirectory, 'worlds'))).toEqual(['Survival']);
+    expect((await readdir(serverDirectory)).sort()).toEqual(['server.properties', 'worlds']);
+  });
+});
+
+describe('WorldBackupManager.create (running server)', () => {
+  test('fails when the server process exits before listing the world files', async () => {
+    await setLevelName('Survival');
+    await writeWorld('Survival', { 'level.dat': 'current' });
+
+    const commands: string[] = [];
+    const sendCommand = processManager.sendCommand;
+    processManager.sendCommand = (_serverId: string, command: string) => {
+      commands.push(command);
+    };
+    try {
+      const creating = new WorldBackupManager(backupDirectory).create('lobby', serverDirectory, 'manual', true);
+      await delay(50);
+      processManager.emit('processStatusChanged', { serverId: 'lobby', status: 'error', exitCode: 1 });
+
+      await expect(creating).rejects.toThrow('exited');
+      expect(commands).toEqual(['save hold', 'save resume']);
+      expect(await readdir(backupDirectory)).toEqual([]);
+      expect(processManager.listenerCount('consoleOutput')).toBe(0);
+    } finally {
+      processManager.sendCommand = sendCommand;
+    }
+  });
+});
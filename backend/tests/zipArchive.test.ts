@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { randomBytes } from 'crypto';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ZipWriter, crc32, extractZip, readZipEntries, toZipPath } from '../services/zipArchive.js';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'zip-test-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function writeZip(files: Record<string, Buffer>, modifiedAt?: Date): Promise<string> {
+  const path = join(directory, 'archive.zip');
+  const writer = await ZipWriter.create(path);
+  for (const [name, data] of Object.entries(files)) {
+    await writer.addFile(name, data, modifiedAt);
+  }
+  await writer.finish();
+  return path;
+}
+
+describe('crc32', () => {
+  test('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe('ZipWriter / readZipEntries / extractZip', () => {
+  test('round-trips deflated, stored, empty and nested files', async () => {
+    const files: Record<string, Buffer> = {
+      'level.dat': Buffer.alloc(4096, 'a'),
+      'db/000005.ldb': randomBytes(2048),
+      'db/LOCK': Buffer.alloc(0),
+      'levelname.txt': Buffer.from('ワールド'),
+    };
+    const modifiedAt = new Date(2026, 0, 5, 10, 30, 42);
+    const path = await writeZip(files, modifiedAt);
+
+    const entries = await readZipEntries(path);
+    expect(entries.map((entry) => [entry.name, entry.method, entry.size])).toEqual([
+      ['level.dat', 8, 4096],
+      ['db/000005.ldb', 0, 2048],
+      ['db/LOCK', 0, 0],
+      ['levelname.txt', 0, 12],
+    ]);
+    expect(entries[0].compressedSize).toBeLessThan(4096);
+    expect(entries[0].modifiedAt).toEqual(modifiedAt);
+
+    const destination = join(directory, 'world');
+    expect(await extractZip(path, destination)).toBe(4);
+    for (const [name, data] of Object.entries(files)) {
+      expect((await readFile(join(destination, ...name.split('/')))).equals(data)).toBe(true);
+    }
+  });
+
+  test('rejects entries that escape the destination', async () => {
+    for (const name of ['../evil.txt', 'db/../../evil.txt', join(directory, 'absolute.txt')]) {
+      const path = await writeZip({ 'level.dat': Buffer.from('ok'), [name]: Buffer.from('evil') });
+      const destination = join(directory, 'world');
+      await expect(extractZip(path, destination)).rejects.toThrow('escapes the destination');
+      await rm(destination, { recursive: true, force: true });
+    }
+    expect((await readdir(directory)).sort()).toEqual(['archive.zip']);
+  });
+
+  test('rejects corrupted data and files that are not ZIP archives', async () => {
+    const path = await writeZip({ 'level.txt': Buffer.from('plain text stays stored') });
+    const archive = await readFile(path);
+    archive[30 + 'level.txt'.length] ^= 0xff;
+    await writeFile(path, archive);
+    await expect(extractZip(path, join(directory, 'world'))).rejects.toThrow('corrupted');
+
+    await writeFile(path, 'not a zip');
+    await expect(readZipEntries(path)).rejects.toThrow('Not a ZIP archive');
+  });
+});
+
+describe('toZipPath', () => {
+  test('joins segments with forward slashes', () => {
+    expect(toZipPath('db', 'sub', '000005.ldb')).toBe('db/sub/000005.ldb');
+  });
+});
@@ -13,6 +13,8 @@ export interface Player {
   ipAddress?: string;
   port?: number;
   icon?: string; // base64エンコードされたプレイヤーアイコン
+  deviceOS?: string; // ログインパケットから取得した端末のOS
+  clientVersion?: string; // ログインパケットから取得したクライアントのバージョン
 }
 
 // ネットワーク統計情報
@@ -30,11 +32,38 @@ export interface NetworkStats {
   // 接続情報
   activeConnections: number;
   totalConnections: number;
+
+  // レート制限
+  rateLimit?: RateLimitStats;
+
+  // 接続チャレンジ
+  challenge?: ChallengeStats;
   
   // タイムスタンプ
   timestamp: number;
 }
 
+// レート制限による破棄の統計
+export interface RateLimitStats {
+  droppedPackets: number;
+  droppedBytes: number;
+  limitedClients: number; // 直近で上限を超えた、または遮断中のIP数
+  autoBans: number; // 自動バンの回数
+}
+
+// 接続チャレンジの統計
+export interface ChallengeStats {
+  active: boolean;
+  newSourcesPerSecond: number; // 直近1秒間の新規送信元数
+  issued: number; // 発行したcookie数
+  passed: number; // 検証に成功しセッションを割り当てた数
+  dropped: number; // チャレンジ未完了で破棄したパケット数
+}
+
+// RakNetハンドシェイクの進行段階
+// pinging: サーバー一覧のステータス取得のみ / connecting: Open Connection 交換中 / in-game: 接続済みセッション
+export type ConnectionStage = "pinging" | "connecting" | "in-game";
+
 // クライアントごとのネットワーク統計
 export interface ClientNetworkStats {
   clientKey: string; // "IP:PORT"
@@ -42,6 +71,10 @@ export interface ClientNetworkStats {
   clientPort: number;
   realClientAddress?: string;
   realClientPort?: number;
+  stage?: ConnectionStage; // RakNetハンドシェイクの段階
+  guid?: string; // Open Connection Request 2 のクライアントGUID（10進数）
+  playerName?: string; // ログインパケットから取得したプレイヤー名
+  xuid?: string;
   
   // 通信量
   bytesSent: number;
@@ -72,6 +105,183 @@ export interface UDPConnection {
   isActive: boolean;
 }
 
+// 負荷分散の戦略
+export type LoadBalancingStrategy = "round-robin" | "least-connections" | "weighted";
+
+// 追加の転送先（destinationAddressと合わせて負荷分散する）
+export interface BackendTarget {
+  address: string; // host:port
+  weight?: number; // weighted戦略での重み（destinationAddressの重みは1）
+}
+
+// プロキシのレート制限（トークンバケット、0で無制限）
+export interface RateLimitSettings {
+  packetsPerSecond: number; // 真のクライアントIPごとの秒間パケット数
+  bytesPerSecond: number; // 真のクライアントIPごとの秒間バイト数
+  globalPacketsPerSecond: number; // リスナー全体の秒間パケット数
+  globalBytesPerSecond: number; // リスナー全体の秒間バイト数
+  autoBanThreshold: number; // 1分間にこの秒数だけ上限を超えたIPを自動バン（0で無効）
+  autoBanDuration: number; // 自動バンの期間（秒）
+}
+
+// 接続チャレンジ（RakNet cookie）のモード
+// off: 使用しない / auto: 新規接続の急増時のみ / always: 常に使用
+export type ChallengeMode = "off" | "auto" | "always";
+
+// 転送時に付加するProxy Protocolヘッダーの形式
+export type ProxyProtocolFormat = "none" | "v1" | "v2";
+
+// 転送時にProxy Protocolヘッダーを付けるタイミング
+// never: 付けない / first-packet: セッションの最初のパケットのみ / every-packet: 全てのパケット
+// preamble: 最初のパケットの前にヘッダーだけのパケットを1つ送る
+export type ProxyProtocolEmission = "never" | "first-packet" | "every-packet" | "preamble";
+
+// 転送先がProxy Protocolヘッダー付きのパケットに応答するかの確認結果
+// compatible: ヘッダー付きでも応答 / incompatible: ヘッダーなしのみ応答 / unreachable: どちらにも応答なし
+export type ProxyProtocolProbeStatus = "compatible" | "incompatible" | "unreachable";
+
+export interface ProxyProtocolProbeResult {
+  destination: string; // "host:port"
+  format: "v1" | "v2";
+  status: ProxyProtocolProbeStatus;
+  latency?: number; // ヘッダー付きPingの応答時間(ms)
+}
+
+// IPバンリストのエントリ
+export interface BanEntry {
+  id: string;
+  target: string; // IPアドレスまたはCIDR（例: 203.0.113.5, 198.51.100.0/24）
+  reason?: string;
+  createdAt: Date;
+  expiresAt?: Date; // 未指定の場合は無期限
+}
+
+// プロキシでの参加制限（許可リスト・拒否リスト）のエントリ
+// xuid: Xbox User ID / name: ゲーマータグ（大文字小文字は区別しない） / ip: IPアドレスまたはCIDR
+export type WhitelistEntryType = "xuid" | "name" | "ip";
+export type WhitelistMode = "allow" | "deny";
+
+export interface WhitelistEntry {
+  id: string;
+  type: WhitelistEntryType;
+  value: string;
+  mode: WhitelistMode;
+  name?: string; // xuidエントリの表示名（allowlist.json の name）
+  note?: string;
+  createdAt: Date;
+}
+
+// メンテナンスの予定（ISO 8601）
+// startsAt になるとメンテナンスを開始し、endsAt になると終了して予定を削除する
+export interface MaintenanceWindow {
+  startsAt: string;
+  endsAt?: string; // 未指定の場合は手動で終了するまで継続
+}
+
+// ドレイン再起動の状態（ISO 8601）
+// draining: 新規セッションを断り、プレイヤーの退出か期限を待つ / restarting: プロセスを再起動中
+export interface DrainState {
+  phase: "draining" | "restarting";
+  startedAt: string;
+  deadline: string;
+  redirect: boolean; // 再起動中の新規セッションを forwardAddress へ転送する
+}
+
+// クラッシュ時の自動再起動の状態（ISO 8601）
+export interface CrashRecoveryState {
+  crashes: string[]; // クラッシュループの判定期間内にクラッシュした時刻
+  nextRestartAt: string | null; // 自動再起動の予定（待機中のみ）
+  gaveUp: boolean; // クラッシュループと判断して自動再起動を止めた（手動で起動・停止するまで）
+}
+
+// クラッシュレポート（終了時のコンソール出力）
+export interface CrashReport {
+  id: string;
+  serverId: string;
+  time: Date;
+  exitCode: number | null;
+  signal: string | null;
+  consoleLines: string[]; // クラッシュ直前のコンソール出力
+  action: "restart" | "gaveUp" | "none"; // none: 自動再起動が無効
+  restartDelay?: number; // 自動再起動までの秒数
+}
+
+// ワールドのバックアップ（ZIP）
+// hot: save hold で書き込みを止めて取得 / offline: 停止中のサーバーのワールドをそのまま取得
+export type WorldBackupMethod = "hot" | "offline";
+
+export interface WorldBackup {
+  id: string;
+  serverId: string;
+  fileName: string; // データディレクトリの world-backups 以下
+  worldName: string; // server.properties の level-name
+  size: number; // バイト
+  fileCount: number;
+  method: WorldBackupMethod;
+  trigger: "manual" | "schedule";
+  createdAt: Date;
+}
+
+// ワールドのバックアップを残す条件（作成のたびに古いものから削除）
+export interface BackupRetention {
+  maxCount: number; // サーバーごとに残す数（0なら無制限）
+  maxAgeDays: number; // これより古いものを削除（0なら無期限）
+}
+
+// パケットキャプチャ（pcapng）
+export type CaptureStopReason = "manual" | "size-limit" | "time-limit" | "error";
+
+export interface CaptureInfo {
+  id: string;
+  serverId: string;
+  clientKey?: string; // 指定したセッション（"address:port"）のみ記録
+  fileName: string; // データディレクトリの captures 以下
+  status: "running" | "stopped";
+  stopReason?: CaptureStopReason;
+  startedAt: Date;
+  stoppedAt?: Date;
+  bytes: number;
+  packets: number;
+  maxBytes: number;
+  maxDuration: number; // 秒
+}
+
+// スケジュールされたタスク
+export type ScheduleActionType = "restart" | "stop" | "start" | "command" | "broadcast" | "backup" | "plugin";
+
+export interface ScheduleAction {
+  type: ScheduleActionType;
+  command?: string; // command: 送信するコンソールコマンド
+  message?: string; // broadcast: ゲーム内に表示するメッセージ
+  drainTimeout?: number; // restart: プレイヤーの退出を待つ秒数（0なら即座に再起動）
+  payload?: Record<string, any>; // plugin: scheduledTask イベントで渡すデータ
+}
+
+export interface ScheduleRun {
+  trigger: "schedule" | "manual";
+  startedAt: Date;
+  finishedAt: Date;
+  success: boolean;
+  error?: string;
+}
+
+export interface ScheduledTask {
+  id: string;
+  serverId: string;
+  name: string;
+  cron: string; // 分 時 日 月 曜日（サーバーのローカル時刻、@daily などの省略形も可）
+  action: ScheduleAction;
+  enabled: boolean;
+  history: ScheduleRun[]; // 新しい順
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 一覧で返すタスク（次回以降の実行予定を含む）
+export interface ScheduledTaskInfo extends ScheduledTask {
+  nextRuns: Date[];
+}
+
 // プレイヤーアクションの型
 export type PlayerAction = "join" | "leave";
 
@@ -83,6 +293,8 @@ export interface PlayerPacket {
   ipAddress?: string;
   port?: number;
   icon?: string;
+  deviceOS?: string;
+  clientVersion?: string;
   timestamp: Date;
 }
 
@@ -101,12 +313,32 @@ export interface Server {
   autoRestart?: boolean;
   blockSameIP?: boolean;
   forwardAddress?: string; // バックアップ転送サーバー
-  proxyProtocolV2Enabled?: boolean; // Proxy Protocol v2サポートを有効化
+  backends?: BackendTarget[]; // 追加の転送先（負荷分散）
+  loadBalancing?: LoadBalancingStrategy; // 負荷分散の戦略
+  rateLimits?: RateLimitSettings; // レート制限と自動バン
+  challengeMode?: ChallengeMode; // 接続チャレンジ（アンダーアタックモード）
+  challengeThreshold?: number; // autoで有効化する秒間の新規送信元数
+  maxConnections?: number; // プロキシの同時セッション数の上限
+  proxyProtocolV2Enabled?: boolean; // Proxy Protocolサポートを有効化（受信時は v1・v2 を自動判別）
+  outboundProxyProtocol?: ProxyProtocolFormat; // 転送時に付加するヘッダーの形式
+  proxyProtocolEmission?: ProxyProtocolEmission; // 転送時にヘッダーを付けるタイミング
+  trustedProxies?: string[]; // Proxy Protocolヘッダーを受け付ける上流プロキシ（IP/CIDR、空なら全ての送信元）
+  proxyProtocolStrict?: boolean; // 不正・信頼できないヘッダー付きのパケットを破棄
+  proxyProtocolChecksum?: boolean; // CRC32C TLVによるヘッダーの検証を必須にする
+  whitelistEnabled?: boolean; // 許可リストにないプレイヤー・IPの参加をプロキシで拒否
+  maintenance?: boolean; // メンテナンス中（許可リストの許可エントリ以外の参加を拒否し、MOTDで知らせる）
+  maintenanceMessage?: string; // メンテナンス中に参加を拒否する際の切断メッセージ（空ならデフォルト）
+  maintenanceWindow?: MaintenanceWindow | null; // メンテナンスの予定
+  customMotdEnabled?: boolean; // プロキシ側でステータス応答（MOTD書き換え）を行う
   pluginsEnabled?: boolean; // プラグインシステムの有効/無効
   plugins?: Record<string, any>; // プラグイン設定（プラグインID -> 設定オブジェクト）
   description?: string;
   players?: Player[];
   udpConnections?: UDPConnection[]; // For Proxy Only mode
+  pendingRestart?: string[]; // 稼働中に変更され、再起動まで反映されない設定
+  drain?: DrainState | null; // ドレイン再起動の進行状況
+  crashRecovery?: CrashRecoveryState | null; // クラッシュ後の自動再起動の状態
+  backupRetention?: BackupRetention; // ワールドのバックアップを残す条件
   executablePath?: string; // サーバー実行ファイルのパス (Not required for proxyOnly)
   serverDirectory?: string; // サーバーディレクトリのパス
   createdAt: Date;
@@ -160,7 +392,21 @@ export namespace ServerAPI {
     autoRestart?: boolean;
     blockSameIP?: boolean;
     forwardAddress?: string;
+    backends?: BackendTarget[];
+    loadBalancing?: LoadBalancingStrategy;
+    rateLimits?: RateLimitSettings;
+    challengeMode?: ChallengeMode;
+    challengeThreshold?: number;
+    maxConnections?: number;
     proxyProtocolV2Enabled?: boolean; // Proxy Protocol v2サポートを有効化
+    outboundProxyProtocol?: ProxyProtocolFormat;
+    proxyProtocolEmission?: ProxyProtocolEmission;
+    trustedProxies?: string[];
+    proxyProtocolStrict?: boolean;
+    proxyProtocolChecksum?: boolean;
+    whitelistEnabled?: boolean;
+    maintenanceMessage?: string;
+    customMotdEnabled?: boolean; // プロキシ側でステータス応答（MOTD書き換え）を行う
     pluginsEnabled?: boolean;
     executablePath?: string; // サーバー実行ファイルのパス (Not required for proxyOnly)
     serverDirectory?: string; // サーバーディレクトリのパス
@@ -172,10 +418,11 @@ export namespace ServerAPI {
   // サーバー更新
   export interface UpdateServerRequest {
     id: string;
-    updates: Partial<Omit<Server, 'id' | 'createdAt' | 'updatedAt' | 'players' | 'playersOnline'>>;
+    updates: Partial<Omit<Server, 'id' | 'createdAt' | 'updatedAt' | 'players' | 'playersOnline' | 'pendingRestart' | 'drain' | 'crashRecovery'>>;
   }
   export interface UpdateServerResponse {
     server: Server;
+    appliedLive: string[]; // 稼働中のプロキシに即時反映した設定（再起動が必要なものは server.pendingRestart）
   }
 
   // サーバー削除
@@ -186,16 +433,30 @@ export namespace ServerAPI {
     success: true;
   }
 
-  // サーバー操作（開始/停止/再起動）
+  // サーバー操作（開始/停止/再起動/メンテナンス）
   export interface ServerActionRequest {
     id: string;
-    action: "start" | "stop" | "restart" | "block";
+    action: "start" | "stop" | "restart" | "block" | "maintenance" | "drain" | "cancelDrain";
     targetIP?: string; // block操作で使用
+    enabled?: boolean; // maintenance操作で使用（true: 開始 / false: 終了）
+    message?: string; // maintenance操作で使用（切断メッセージ、未指定なら現在の設定）
+    timeout?: number; // drain操作で使用（プレイヤーの退出を待つ最大秒数）
+    redirect?: boolean; // drain操作で使用（再起動中の新規セッションを forwardAddress へ転送）
   }
   export interface ServerActionResponse {
     server: Server;
   }
 
+  // プレイヤーキック
+  export interface KickPlayerRequest {
+    serverId: string;
+    playerId: string;
+    reason?: string;
+  }
+  export interface KickPlayerResponse {
+    kicked: Events.PlayerKicked;
+  }
+
   // サーバー詳細取得
   export interface GetServerDetailsRequest {
     id: string;
@@ -258,6 +519,219 @@ export namespace ServerAPI {
     success: true;
   }
 
+  // IPバンリスト
+  export interface GetBansRequest {
+    serverId: string;
+  }
+  export interface GetBansResponse {
+    bans: BanEntry[];
+  }
+
+  export interface AddBanRequest {
+    serverId: string;
+    target: string;
+    reason?: string;
+    expiresAt?: string; // ISO 8601
+  }
+  export interface AddBanResponse {
+    ban: BanEntry;
+  }
+
+  export interface RemoveBanRequest {
+    serverId: string;
+    banId: string;
+  }
+  export interface RemoveBanResponse {
+    success: true;
+  }
+
+  // 許可リスト・拒否リスト
+  export interface GetWhitelistRequest {
+    serverId: string;
+  }
+  export interface GetWhitelistResponse {
+    entries: WhitelistEntry[];
+    enabled: boolean;
+  }
+
+  export interface AddWhitelistEntryRequest {
+    serverId: string;
+    type: WhitelistEntryType;
+    value: string;
+    mode?: WhitelistMode; // デフォルト: allow
+    name?: string;
+    note?: string;
+  }
+  export interface AddWhitelistEntryResponse {
+    entry: WhitelistEntry;
+  }
+
+  export interface RemoveWhitelistEntryRequest {
+    serverId: string;
+    entryId: string;
+  }
+  export interface RemoveWhitelistEntryResponse {
+    success: true;
+  }
+
+  // serverDirectory の allowlist.json との取り込み・書き出し
+  export interface ImportAllowlistRequest {
+    serverId: string;
+  }
+  export interface ImportAllowlistResponse {
+    imported: number;
+    entries: WhitelistEntry[];
+  }
+
+  export interface ExportAllowlistRequest {
+    serverId: string;
+  }
+  export interface ExportAllowlistResponse {
+    exported: number;
+    skipped: number; // 名前がないため書き出せなかったエントリ
+    path: string;
+  }
+
+  // クラッシュレポート（新しい順）
+  export interface GetCrashReportsRequest {
+    serverId: string;
+  }
+  export interface GetCrashReportsResponse {
+    reports: CrashReport[];
+  }
+
+  // ワールドのバックアップ（新しい順）
+  export interface ListBackupsRequest {
+    serverId: string;
+  }
+  export interface ListBackupsResponse {
+    backups: WorldBackup[];
+  }
+
+  export interface CreateBackupRequest {
+    serverId: string;
+  }
+  export interface CreateBackupResponse {
+    backup: WorldBackup;
+  }
+
+  // サーバーを停止してワールドを置き換え、停止前に稼働していれば起動し直す
+  export interface RestoreBackupRequest {
+    backupId: string;
+  }
+  export interface RestoreBackupResponse {
+    backup: WorldBackup;
+    server: Server;
+  }
+
+  export interface DeleteBackupRequest {
+    backupId: string;
+  }
+  export interface DeleteBackupResponse {
+    success: true;
+  }
+
+  // パケットキャプチャ
+  export interface StartCaptureRequest {
+    serverId: string;
+    clientKey?: string;
+    maxBytes?: number;
+    maxDuration?: number; // 秒
+  }
+  export interface StartCaptureResponse {
+    capture: CaptureInfo;
+  }
+
+  export interface StopCaptureRequest {
+    captureId: string;
+  }
+  export interface StopCaptureResponse {
+    capture: CaptureInfo;
+  }
+
+  export interface ListCapturesRequest {
+    serverId?: string;
+  }
+  export interface ListCapturesResponse {
+    captures: CaptureInfo[];
+  }
+
+  // ファイルは offset から最大1MiBずつ返す（done になるまで offset を進めて繰り返す）
+  export interface DownloadCaptureRequest {
+    captureId: string;
+    offset?: number;
+  }
+  export interface DownloadCaptureResponse {
+    captureId: string;
+    fileName: string;
+    size: number;
+    offset: number;
+    data: string; // base64
+    done: boolean;
+  }
+
+  // スケジュールされたタスク
+  export interface GetSchedulesRequest {
+    serverId?: string;
+  }
+  export interface GetSchedulesResponse {
+    schedules: ScheduledTaskInfo[];
+  }
+
+  export interface AddScheduleRequest {
+    serverId: string;
+    name: string;
+    cron: string;
+    action: ScheduleAction;
+    enabled?: boolean;
+  }
+  export interface AddScheduleResponse {
+    schedule: ScheduledTaskInfo;
+  }
+
+  export interface UpdateScheduleRequest {
+    id: string;
+    updates: Partial<Pick<ScheduledTask, 'name' | 'cron' | 'action' | 'enabled'>>;
+  }
+  export interface UpdateScheduleResponse {
+    schedule: ScheduledTaskInfo;
+  }
+
+  export interface RemoveScheduleRequest {
+    id: string;
+  }
+  export interface RemoveScheduleResponse {
+    success: true;
+  }
+
+  // 予定を待たずに実行（結果は履歴に残る）
+  export interface RunScheduleRequest {
+    id: string;
+  }
+  export interface RunScheduleResponse {
+    schedule: ScheduledTaskInfo;
+    run: ScheduleRun;
+  }
+
+  // 保存前の式の確認用
+  export interface PreviewScheduleRequest {
+    cron: string;
+    count?: number;
+  }
+  export interface PreviewScheduleResponse {
+    nextRuns: Date[];
+  }
+
+  // Proxy Protocol互換性の確認
+  export interface ProbeProxyProtocolRequest {
+    serverId: string;
+    format?: "v1" | "v2"; // 省略時はサーバーの設定（none の場合は v2）
+  }
+
+  export interface ProbeProxyProtocolResponse {
+    results: ProxyProtocolProbeResult[];
+  }
+
   // システム情報
   export interface GetSystemInfoRequest {}
   export interface GetSystemInfoResponse {
@@ -288,6 +762,61 @@ export namespace Events {
     currentPlayerCount: number;
   }
 
+  export interface PlayerKicked {
+    serverId: string;
+    playerId: string;
+    playerName: string;
+    reason?: string;
+    method: "command" | "proxy"; // kickコマンド送信 / プロキシでのセッション切断
+  }
+
+  export interface ProxyFailover {
+    serverId: string;
+    active: "primary" | "fallback"; // 新規セッションの転送先
+    primary: string; // destinationAddress
+    fallback: string; // forwardAddress
+    timestamp: Date;
+  }
+
+  export interface ProxyUnderAttack {
+    serverId: string;
+    active: boolean; // 接続チャレンジが有効になったか
+    newSourcesPerSecond: number;
+    timestamp: Date;
+  }
+
+  export interface BansUpdated {
+    serverId: string;
+    bans: BanEntry[];
+  }
+
+  export interface WhitelistUpdated {
+    serverId: string;
+    entries: WhitelistEntry[];
+  }
+
+  export interface CaptureStopped {
+    serverId: string;
+    capture: CaptureInfo;
+  }
+
+  export interface BackupsUpdated {
+    serverId: string;
+    backups: WorldBackup[];
+  }
+
+  export interface ServerCrashed {
+    serverId: string;
+    report: CrashReport;
+    server: Server;
+  }
+
+  export interface ScheduleExecuted {
+    serverId: string;
+    schedule: ScheduledTaskInfo;
+    run: ScheduleRun;
+  }
+
   export interface ServerCreated {
     server: Server;
   }
@@ -295,6 +824,7 @@ export namespace Events {
   export interface ServerUpdated {
     server: Server;
     changes: string[];
+    appliedLive?: string[];
   }
 
   export interface ServerDeleted {
@@ -20,6 +20,22 @@ import type { FileSystemAPI } from './filesystem';
  */
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/**
+ * Proxy Protocol v2 ヘッダーのTLV（Type-Length-Value）拡張
+ */
+export interface ProxyProtocolTLVs {
+  /** PP2_TYPE_ALPN */
+  alpn?: string;
+  /** PP2_TYPE_AUTHORITY（接続先のホスト名） */
+  authority?: string;
+  /** PP2_TYPE_CRC32C */
+  crc32c?: number;
+  /** PP2_TYPE_UNIQUE_ID（上流プロキシが割り当てたセッションID） */
+  uniqueId?: Buffer;
+  /** 上記以外の種別 */
+  custom: Array<{ type: number; value: Buffer }>;
+}
+
 /**
  * メインプラグインAPI
  * 
@@ -274,7 +290,8 @@ export interface PluginAPI {
   
   /**
    * プレイヤーをサーバーからキックします
-   * 注意: 現在実装中です
+   * normalモードではサーバーに kick コマンドを送信し、proxyOnlyモードではプロキシのセッションを切断します
+   * キック後に 'playerKicked' イベントが発火されます
    * 
    * @param playerId - プレイヤーIDまたはXUID
    * @param reason - キックの理由（オプション）
@@ -313,13 +330,40 @@ export interface PluginAPI {
    */
   broadcast(message: string): Promise<void>;
 
+  /**
+   * メンテナンスモードを開始・終了します
+   * メンテナンス中はプロキシが「メンテナンス中」のMOTDで応答し、
+   * 許可リストの許可エントリ（スタッフ）以外の新規ログインを切断メッセージ付きで拒否します
+   * 参加中のプレイヤーは切断されません
+   * 
+   * @param enabled - true で開始、false で終了
+   * @param message - 参加を拒否する際の切断メッセージ（省略時は現在の設定）
+   * 
+   * @example
+   * ```javascript
+   * await api.broadcast('5分後にメンテナンスを開始します');
+   * api.setTimeout(5 * 60 * 1000, async () => {
+   *   await api.setMaintenance(true, 'メンテナンス中です。21時に再開します');
+   * });
+   * ```
+   */
+  setMaintenance(enabled: boolean, message?: string): Promise<void>;
+
+  /**
+   * メンテナンス中かどうかを取得します
+   * 
+   * @returns メンテナンス中なら true
+   */
+  isMaintenance(): Promise<boolean>;
+
   /**
    * Proxy Protocol v2 から抽出した真のクライアントIPアドレスを取得します
    * Playit.gg などのプロキシを経由している場合に、実際のプレイヤーIPを取得できます
    * 
    * @param localAddress - ローカルアドレス (例: "127.0.0.1")
    * @param localPort - ローカルポート番号
-   * @returns 真のクライアント情報 { realIP: string, realPort: number } または null
+   * @returns 真のクライアント情報 { realIP, realPort, tlvs } または null
+   *          tlvs には上流プロキシのヘッダーに含まれていたTLV（ALPN・AUTHORITY・UNIQUE_IDなど）が入ります
    * 
    * @example
    * ```javascript
@@ -337,7 +381,7 @@ export interface PluginAPI {
    * });
    * ```
    */
-  getRealClientIP(localAddress: string, localPort: number): Promise<{ realIP: string; realPort: number } | null>;
+  getRealClientIP(localAddress: string, localPort: number): Promise<{ realIP: string; realPort: number; tlvs?: ProxyProtocolTLVs } | null>;
   
   // ==================== Events ====================
   
@@ -774,6 +818,10 @@ export interface ClientNetworkStats {
   realClientAddress?: string;
   /** 真のクライアントポート（Proxy Protocol使用時） */
   realClientPort?: number;
+  /** RakNetハンドシェイクの段階（"pinging" | "connecting" | "in-game"） */
+  stage?: 'pinging' | 'connecting' | 'in-game';
+  /** RakNetクライアントGUID（10進数の文字列、Open Connection Request 2 受信後） */
+  guid?: string;
   /** 送信バイト数 */
   bytesSent: number;
   /** 受信バイト数 */
@@ -830,6 +878,12 @@ export interface ServerConfig {
   forwardAddress?: string;
   /** Proxy Protocol v2有効化 */
   proxyProtocolV2Enabled?: boolean;
+  /** プロキシ側でのステータス応答（MOTD書き換え） */
+  customMotdEnabled?: boolean;
+  /** メンテナンス中 */
+  maintenance?: boolean;
+  /** メンテナンス中の切断メッセージ */
+  maintenanceMessage?: string;
   /** プラグイン有効化 */
   pluginsEnabled?: boolean;
   /** 実行ファイルパス */
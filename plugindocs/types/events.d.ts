@@ -48,11 +48,13 @@ import type { ServerInfo } from './server';
 export type EventType =
   | 'playerJoin'        // プレイヤーがサーバーに参加した
   | 'playerLeave'       // プレイヤーがサーバーから退出した
+  | 'playerKicked'      // プレイヤーがキックされた
   | 'serverStart'       // サーバーが起動した
   | 'serverStop'        // サーバーが停止した
   | 'serverStatusChange' // サーバーのステータスが変更された
   | 'consoleOutput'     // コンソール出力が発生した
   | 'consoleCommand'    // コンソールコマンドが実行された
+  | 'scheduledTask'     // 「プラグイン呼び出し」のスケジュールが実行された
   | 'error';            // エラーが発生した
 
 /**
@@ -157,6 +159,37 @@ export interface PlayerLeaveEvent {
   reason?: string;
 }
 
+/**
+ * プレイヤーキックイベントデータ
+ * 
+ * プレイヤーがキックされた時に発火されるイベントのデータです。
+ * 
+ * @example キックを記録
+ * ```javascript
+ * api.on('playerKicked', async (event) => {
+ *   const { playerName, reason } = event;
+ *   await api.storage.set(`kick:${event.playerId}`, { reason, time: Date.now() });
+ *   api.info(`${playerName} をキックしました: ${reason ?? '理由なし'}`);
+ * });
+ * ```
+ */
+export interface PlayerKickedEvent {
+  /** サーバーID */
+  serverId: string;
+  
+  /** プレイヤーID */
+  playerId: string;
+  
+  /** プレイヤー名 */
+  playerName: string;
+  
+  /** キック理由（指定された場合） */
+  reason?: string;
+  
+  /** キック方法（'command': kickコマンド送信 / 'proxy': プロキシでのセッション切断） */
+  method: 'command' | 'proxy';
+}
+
 /**
  * サーバー起動イベントデータ
  * 
@@ -354,6 +387,38 @@ export interface ErrorEvent {
   timestamp: Date;
 }
 
+/**
+ * スケジュール実行イベントデータ
+ * 
+ * 運用タブのスケジュールで「プラグイン呼び出し」を選んだタスクが実行された時に、
+ * サーバーで有効なすべてのプラグインに発火されます。
+ * 
+ * @example 毎晩の集計処理
+ * ```javascript
+ * api.on('scheduledTask', async (event) => {
+ *   if (event.payload.job !== 'daily-report') return;
+ *   const stats = await api.storage.get('stats');
+ *   api.info(`${event.taskName}: ${JSON.stringify(stats)}`);
+ * });
+ * ```
+ */
+export interface ScheduledTaskEvent {
+  /** サーバーID */
+  serverId: string;
+  
+  /** タスクID */
+  taskId: string;
+  
+  /** タスク名 */
+  taskName: string;
+  
+  /** タスクに設定したデータ（未設定なら空のオブジェクト） */
+  payload: Record<string, any>;
+  
+  /** 実行時刻 */
+  timestamp: Date;
+}
+
 /**
  * イベントデータマッピング
  * 
@@ -374,10 +439,12 @@ export interface ErrorEvent {
 export interface EventDataMap {
   playerJoin: PlayerJoinEvent;
   playerLeave: PlayerLeaveEvent;
+  playerKicked: PlayerKickedEvent;
   serverStart: ServerStartEvent;
   serverStop: ServerStopEvent;
   serverStatusChange: ServerStatusChangeEvent;
   consoleOutput: ConsoleOutputEvent;
   consoleCommand: ConsoleCommandEvent;
+  scheduledTask: ScheduledTaskEvent;
   error: ErrorEvent;
 }